@@ -0,0 +1,34 @@
+-- Migration number: 0003 	 2026-10-19T00:00:00.000Z
+-- Curated destination knowledge base used by getDestinationInfo
+
+-- Destinations table
+CREATE TABLE IF NOT EXISTS destinations (
+    id TEXT PRIMARY KEY,
+    slug TEXT UNIQUE NOT NULL,
+    name TEXT NOT NULL,
+    country TEXT,
+    summary TEXT,
+    currency TEXT DEFAULT 'USD',
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch())
+);
+
+-- Destination entries: attractions, neighborhoods, typical costs, local tips and best seasons
+-- categories holds a JSON array of activity categories (SIGHTSEEING, FOOD, CULTURE...)
+CREATE TABLE IF NOT EXISTS destination_entries (
+    id TEXT PRIMARY KEY,
+    destination_id TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('attraction', 'neighborhood', 'cost', 'tip', 'season')),
+    name TEXT NOT NULL,
+    description TEXT,
+    categories TEXT NOT NULL DEFAULT '[]',
+    estimated_cost REAL,
+    latitude REAL,
+    longitude REAL,
+    created_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (destination_id) REFERENCES destinations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_destinations_name ON destinations(name);
+CREATE INDEX IF NOT EXISTS idx_destination_entries_destination_id ON destination_entries(destination_id);
+CREATE INDEX IF NOT EXISTS idx_destination_entries_kind ON destination_entries(destination_id, kind);
@@ -0,0 +1,13 @@
+-- Migration number: 0004 	 2026-10-19T00:00:00.000Z
+-- Active itinerary of each chat conversation, owned by the Chat agent
+
+CREATE TABLE IF NOT EXISTS conversation_itineraries (
+    conversation_id TEXT PRIMARY KEY,
+    itinerary_id TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    data TEXT NOT NULL,
+    updated_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (conversation_id) REFERENCES chat_conversations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_itineraries_itinerary_id ON conversation_itineraries(itinerary_id);
@@ -0,0 +1,13 @@
+-- Migration number: 0005 	 2026-10-19T00:00:00.000Z
+-- Cached searchWeb / searchBooking results, keyed by the normalized request
+
+CREATE TABLE IF NOT EXISTS search_cache (
+    cache_key TEXT PRIMARY KEY,
+    kind TEXT NOT NULL CHECK (kind IN ('web', 'hotels')),
+    provider TEXT NOT NULL,
+    results TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_cache_expires_at ON search_cache(expires_at);
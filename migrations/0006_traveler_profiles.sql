@@ -0,0 +1,9 @@
+-- Migration number: 0006 	 2026-10-19T00:00:00.000Z
+-- Traveler profile of each user, summarized into the chat agent's system prompt
+
+CREATE TABLE IF NOT EXISTS traveler_profiles (
+    user_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
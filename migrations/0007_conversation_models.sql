@@ -0,0 +1,4 @@
+-- Migration number: 0007 	 2026-10-19T00:00:00.000Z
+-- Model picked for each chat conversation, as "provider:model" (NULL: the deployment default)
+
+ALTER TABLE chat_conversations ADD COLUMN model TEXT;
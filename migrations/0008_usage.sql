@@ -0,0 +1,30 @@
+-- Migration number: 0008 	 2026-10-19T00:00:00.000Z
+-- Token usage of every model call, for the usage view and monthly quotas
+
+CREATE TABLE IF NOT EXISTS usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    conversation_id TEXT,
+    message_id TEXT, -- user message that started the turn
+    purpose TEXT NOT NULL DEFAULT 'planning', -- planning | title
+    model TEXT NOT NULL, -- "provider:model"
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    tool_calls TEXT NOT NULL DEFAULT '[]', -- JSON array of tool names, one entry per call
+    cost_usd REAL, -- NULL when the model has no known price
+    created_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON usage_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_events_conversation ON usage_events(conversation_id);
+
+-- Per-user overrides of the MONTHLY_TOKEN_QUOTA / MONTHLY_COST_QUOTA_USD defaults
+CREATE TABLE IF NOT EXISTS usage_quotas (
+    user_id TEXT PRIMARY KEY,
+    monthly_tokens INTEGER, -- NULL: deployment default, 0: unlimited
+    monthly_cost_usd REAL,
+    updated_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (user_id) REFERENCES user(id) ON DELETE CASCADE
+);
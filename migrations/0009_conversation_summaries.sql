@@ -0,0 +1,11 @@
+-- Migration number: 0009 	 2026-10-19T00:00:00.000Z
+-- Running summary of the older turns of long conversations, sent to the model instead of them
+
+CREATE TABLE IF NOT EXISTS conversation_summaries (
+    conversation_id TEXT PRIMARY KEY,
+    summary TEXT NOT NULL,
+    covers_message_id TEXT NOT NULL, -- last message folded into the summary
+    covered_messages INTEGER NOT NULL,
+    updated_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (conversation_id) REFERENCES chat_conversations(id) ON DELETE CASCADE
+);
@@ -0,0 +1,44 @@
+-- Migration number: 0010 	 2026-10-19T00:00:00.000Z
+-- Chat messages keyed by their UI message id, so the Chat agent upserts what
+-- changed instead of rewriting the whole conversation. id gives the order and
+-- the pagination cursor. Rows written before this were keyed by nothing, and
+-- voice transcripts held plain text; both are carried over as UI messages
+
+CREATE TABLE chat_messages_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversation_id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL, -- UIMessage JSON
+    created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER DEFAULT (unixepoch()),
+    FOREIGN KEY (conversation_id) REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    UNIQUE (conversation_id, message_id)
+);
+
+INSERT OR IGNORE INTO chat_messages_new (conversation_id, message_id, role, content, created_at, updated_at)
+SELECT
+    conversation_id,
+    COALESCE(
+        CASE WHEN json_valid(content) THEN json_extract(content, '$.id') END,
+        'legacy_' || rowid
+    ),
+    role,
+    CASE
+        WHEN json_valid(content) AND json_extract(content, '$.id') IS NOT NULL THEN content
+        WHEN json_valid(content) THEN json_set(content, '$.id', 'legacy_' || rowid)
+        ELSE json_object(
+            'id', 'legacy_' || rowid,
+            'role', role,
+            'parts', json_array(json_object('type', 'text', 'text', content))
+        )
+    END,
+    CASE WHEN typeof(created_at) = 'text' THEN unixepoch(created_at) ELSE created_at END,
+    CASE WHEN typeof(created_at) = 'text' THEN unixepoch(created_at) ELSE created_at END
+FROM chat_messages
+ORDER BY rowid;
+
+DROP TABLE chat_messages;
+ALTER TABLE chat_messages_new RENAME TO chat_messages;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_id ON chat_messages(conversation_id, id);
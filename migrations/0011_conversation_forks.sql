@@ -0,0 +1,7 @@
+-- Migration number: 0011 	 2026-10-19T00:00:00.000Z
+-- Conversations forked from a message of another conversation
+
+ALTER TABLE chat_conversations ADD COLUMN parent_conversation_id TEXT REFERENCES chat_conversations(id) ON DELETE SET NULL;
+ALTER TABLE chat_conversations ADD COLUMN forked_from_message_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_parent ON chat_conversations(parent_conversation_id);
@@ -0,0 +1,71 @@
+-- Migration number: 0012 	 2026-10-19T00:00:00.000Z
+-- Pinned and archived conversations, and full-text search over titles and
+-- message text. The search tables share rowids with the rows they index and
+-- are kept in sync by triggers, so every writer (agent, voice, forks) is covered
+
+ALTER TABLE chat_conversations ADD COLUMN pinned_at INTEGER;
+ALTER TABLE chat_conversations ADD COLUMN archived_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_updated ON chat_conversations(user_id, updated_at);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS conversation_title_search USING fts5(
+    title,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Text parts of each message; tool payloads are left out
+CREATE VIRTUAL TABLE IF NOT EXISTS chat_message_search USING fts5(
+    content,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO conversation_title_search (rowid, title)
+SELECT rowid, title FROM chat_conversations WHERE title IS NOT NULL;
+
+INSERT INTO chat_message_search (rowid, content)
+SELECT m.id, group_concat(json_extract(part.value, '$.text'), ' ')
+FROM chat_messages m, json_each(m.content, '$.parts') AS part
+WHERE json_extract(part.value, '$.type') = 'text'
+GROUP BY m.id;
+
+CREATE TRIGGER IF NOT EXISTS chat_conversations_search_insert AFTER INSERT ON chat_conversations
+WHEN NEW.title IS NOT NULL
+BEGIN
+    INSERT INTO conversation_title_search (rowid, title) VALUES (NEW.rowid, NEW.title);
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_conversations_search_update AFTER UPDATE OF title ON chat_conversations
+BEGIN
+    DELETE FROM conversation_title_search WHERE rowid = OLD.rowid;
+    INSERT INTO conversation_title_search (rowid, title)
+    SELECT NEW.rowid, NEW.title WHERE NEW.title IS NOT NULL;
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_conversations_search_delete AFTER DELETE ON chat_conversations
+BEGIN
+    DELETE FROM conversation_title_search WHERE rowid = OLD.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_messages_search_insert AFTER INSERT ON chat_messages
+BEGIN
+    INSERT INTO chat_message_search (rowid, content)
+    SELECT NEW.id, group_concat(json_extract(part.value, '$.text'), ' ')
+    FROM json_each(NEW.content, '$.parts') AS part
+    WHERE json_extract(part.value, '$.type') = 'text'
+    HAVING COUNT(*) > 0;
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_messages_search_update AFTER UPDATE OF content ON chat_messages
+BEGIN
+    DELETE FROM chat_message_search WHERE rowid = OLD.id;
+    INSERT INTO chat_message_search (rowid, content)
+    SELECT NEW.id, group_concat(json_extract(part.value, '$.text'), ' ')
+    FROM json_each(NEW.content, '$.parts') AS part
+    WHERE json_extract(part.value, '$.type') = 'text'
+    HAVING COUNT(*) > 0;
+END;
+
+CREATE TRIGGER IF NOT EXISTS chat_messages_search_delete AFTER DELETE ON chat_messages
+BEGIN
+    DELETE FROM chat_message_search WHERE rowid = OLD.id;
+END;
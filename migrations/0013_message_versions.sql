@@ -0,0 +1,14 @@
+-- Migration number: 0013 	 2026-10-19T00:00:00.000Z
+-- Alternate versions of a conversation after a message, kept when a user message is edited
+-- or a reply regenerated. The version in use lives in chat_messages and has messages NULL
+
+CREATE TABLE IF NOT EXISTS chat_message_versions (
+    conversation_id TEXT NOT NULL,
+    parent_message_id TEXT NOT NULL, -- message the versions follow, '' at the start of the conversation
+    version INTEGER NOT NULL,
+    messages TEXT, -- JSON array of UI messages
+    itinerary TEXT, -- conversation itinerary when the version was left, NULL when there was none
+    created_at INTEGER DEFAULT (unixepoch()),
+    PRIMARY KEY (conversation_id, parent_message_id, version),
+    FOREIGN KEY (conversation_id) REFERENCES chat_conversations(id) ON DELETE CASCADE
+);
@@ -0,0 +1,13 @@
+-- Migration number: 0014 	 2026-10-19T00:00:00.000Z
+-- Conversation itinerary as it was when each turn started, restored when a user message
+-- is edited or a reply regenerated. Kept after the turn moves into a version
+
+CREATE TABLE IF NOT EXISTS chat_turn_itineraries (
+    conversation_id TEXT NOT NULL,
+    message_id TEXT NOT NULL, -- user message that started the turn
+    version INTEGER NOT NULL DEFAULT 0, -- conversation_itineraries version, 0 when there was none
+    itinerary TEXT, -- NULL when the conversation had no itinerary
+    created_at INTEGER DEFAULT (unixepoch()),
+    PRIMARY KEY (conversation_id, message_id),
+    FOREIGN KEY (conversation_id) REFERENCES chat_conversations(id) ON DELETE CASCADE
+);
@@ -0,0 +1,32 @@
+-- Migration number: 0015 	 2026-10-19T00:00:00.000Z
+-- Activities keyed by their itinerary and activity id. A forked or copied
+-- itinerary keeps the activity ids of the original, and saving it must add its
+-- own rows instead of moving the original's
+
+CREATE TABLE activities_new (
+    id TEXT NOT NULL,
+    itinerary_id TEXT NOT NULL,
+    day_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    location TEXT NOT NULL,
+    latitude REAL,
+    longitude REAL,
+    start_time TEXT NOT NULL,
+    end_time TEXT,
+    category TEXT NOT NULL,
+    estimated_cost REAL NOT NULL,
+    priority TEXT NOT NULL,
+    tips TEXT,
+    created_at INTEGER DEFAULT (unixepoch()),
+    PRIMARY KEY (itinerary_id, id),
+    FOREIGN KEY (itinerary_id) REFERENCES itineraries(id) ON DELETE CASCADE
+);
+
+INSERT INTO activities_new
+SELECT id, itinerary_id, day_number, title, description, location, latitude, longitude,
+    start_time, end_time, category, estimated_cost, priority, tips, created_at
+FROM activities;
+
+DROP TABLE activities;
+ALTER TABLE activities_new RENAME TO activities;
@@ -0,0 +1,275 @@
+#!/usr/bin/env node
+/**
+ * Import curated destinations into the D1 knowledge base
+ *
+ * Usage:
+ *   node scripts/import-destinations.mjs <file.json|file.csv> [--local|--remote] [--sql-only]
+ *
+ * JSON: an array of destinations
+ *   { name, country, summary, currency,
+ *     attractions: [{ name, description, categories, estimatedCost, coordinates: { lat, lng } }],
+ *     neighborhoods: [{ name, description, categories }],
+ *     typicalCosts: { accommodation: "80-150 EUR/night", ... },
+ *     localTips: [{ text, categories }] or ["tip", ...],
+ *     bestSeasons: [{ season, reason, categories }] }
+ *
+ * CSV: one row per entry with the header
+ *   destination,country,currency,kind,name,description,categories,estimated_cost,lat,lng
+ *   kind is attraction | neighborhood | cost | tip | season, categories are separated by "|"
+ *
+ * Re-importing a destination replaces all of its entries.
+ */
+import { execFileSync } from "node:child_process";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { extname, join } from "node:path";
+
+const CATEGORIES = [
+  "ACCOMMODATION",
+  "TRANSPORTATION",
+  "FOOD",
+  "SIGHTSEEING",
+  "ENTERTAINMENT",
+  "SHOPPING",
+  "OUTDOOR",
+  "CULTURE",
+  "WELLNESS",
+  "BUSINESS",
+  "OTHER"
+];
+const KINDS = ["attraction", "neighborhood", "cost", "tip", "season"];
+const DATABASE = "aitinerary-db";
+
+function slugify(name) {
+  return name.split(",")[0].trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+function sqlValue(value) {
+  if (value === undefined || value === null || value === "") return "NULL";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "NULL";
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function normalizeCategories(categories, context) {
+  const list = Array.isArray(categories)
+    ? categories
+    : String(categories || "").split("|").filter(Boolean);
+
+  return list.map((category) => {
+    const upper = String(category).trim().toUpperCase();
+    if (!CATEGORIES.includes(upper)) {
+      throw new Error(`Unknown category "${category}" in ${context}. Expected one of ${CATEGORIES.join(", ")}`);
+    }
+    return upper;
+  });
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, newlines inside quotes)
+ */
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((value) => value.trim() !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((value) => value.trim() !== "")) rows.push(row);
+
+  const [header, ...data] = rows;
+  const keys = header.map((key) => key.trim());
+  return data.map((values) => Object.fromEntries(keys.map((key, index) => [key, (values[index] ?? "").trim()])));
+}
+
+function destinationsFromJson(items) {
+  if (!Array.isArray(items)) throw new Error("JSON seed must be an array of destinations");
+
+  return items.map((item) => {
+    if (!item.name) throw new Error("Every destination needs a name");
+    const context = item.name;
+    const entries = [
+      ...(item.attractions || []).map((entry) => ({
+        kind: "attraction",
+        name: entry.name,
+        description: entry.description,
+        categories: normalizeCategories(entry.categories, context),
+        estimatedCost: entry.estimatedCost,
+        lat: entry.coordinates?.lat,
+        lng: entry.coordinates?.lng
+      })),
+      ...(item.neighborhoods || []).map((entry) => ({
+        kind: "neighborhood",
+        name: entry.name,
+        description: entry.description,
+        categories: normalizeCategories(entry.categories, context),
+        lat: entry.coordinates?.lat,
+        lng: entry.coordinates?.lng
+      })),
+      ...Object.entries(item.typicalCosts || {}).map(([name, description]) => ({
+        kind: "cost",
+        name,
+        description,
+        categories: []
+      })),
+      ...(item.localTips || []).map((tip, index) => ({
+        kind: "tip",
+        name: typeof tip === "string" ? `tip-${index + 1}` : tip.name || `tip-${index + 1}`,
+        description: typeof tip === "string" ? tip : tip.text,
+        categories: typeof tip === "string" ? [] : normalizeCategories(tip.categories, context)
+      })),
+      ...(item.bestSeasons || []).map((season) => ({
+        kind: "season",
+        name: season.season,
+        description: season.reason,
+        categories: normalizeCategories(season.categories, context)
+      }))
+    ];
+
+    return {
+      name: item.name,
+      country: item.country,
+      summary: item.summary,
+      currency: item.currency || "USD",
+      entries
+    };
+  });
+}
+
+function destinationsFromCsv(rows) {
+  const byName = new Map();
+
+  for (const [index, row] of rows.entries()) {
+    const context = `row ${index + 2}`;
+    if (!row.destination || !row.kind || !row.name) {
+      throw new Error(`Missing destination, kind or name in ${context}`);
+    }
+    if (!KINDS.includes(row.kind)) {
+      throw new Error(`Unknown kind "${row.kind}" in ${context}. Expected one of ${KINDS.join(", ")}`);
+    }
+
+    const key = slugify(row.destination);
+    if (!byName.has(key)) {
+      byName.set(key, {
+        name: row.destination,
+        country: row.country,
+        summary: undefined,
+        currency: row.currency || "USD",
+        entries: []
+      });
+    }
+
+    byName.get(key).entries.push({
+      kind: row.kind,
+      name: row.name,
+      description: row.description,
+      categories: normalizeCategories(row.categories, context),
+      estimatedCost: row.estimated_cost ? Number(row.estimated_cost) : undefined,
+      lat: row.lat ? Number(row.lat) : undefined,
+      lng: row.lng ? Number(row.lng) : undefined
+    });
+  }
+
+  return [...byName.values()];
+}
+
+function buildSql(destinations) {
+  const statements = [];
+
+  for (const destination of destinations) {
+    const slug = slugify(destination.name);
+    const id = `dest_${slug}`;
+
+    statements.push(
+      `INSERT INTO destinations (id, slug, name, country, summary, currency) VALUES (${[
+        id,
+        slug,
+        destination.name,
+        destination.country,
+        destination.summary,
+        destination.currency
+      ].map(sqlValue).join(", ")}) ON CONFLICT(slug) DO UPDATE SET name = excluded.name, country = excluded.country, summary = COALESCE(excluded.summary, destinations.summary), currency = excluded.currency, updated_at = unixepoch();`,
+      `DELETE FROM destination_entries WHERE destination_id = ${sqlValue(id)};`
+    );
+
+    destination.entries.forEach((entry, index) => {
+      statements.push(
+        `INSERT INTO destination_entries (id, destination_id, kind, name, description, categories, estimated_cost, latitude, longitude) VALUES (${[
+          `${id}_${index + 1}`,
+          id,
+          entry.kind,
+          entry.name,
+          entry.description,
+          JSON.stringify(entry.categories),
+          entry.estimatedCost,
+          entry.lat,
+          entry.lng
+        ].map(sqlValue).join(", ")});`
+      );
+    });
+  }
+
+  return `${statements.join("\n")}\n`;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith("--"));
+  const target = args.includes("--remote") ? "--remote" : "--local";
+
+  if (!file) {
+    console.error("Usage: node scripts/import-destinations.mjs <file.json|file.csv> [--local|--remote] [--sql-only]");
+    process.exit(1);
+  }
+
+  const content = readFileSync(file, "utf8");
+  const destinations = extname(file).toLowerCase() === ".csv"
+    ? destinationsFromCsv(parseCsv(content))
+    : destinationsFromJson(JSON.parse(content));
+
+  const sql = buildSql(destinations);
+
+  if (args.includes("--sql-only")) {
+    process.stdout.write(sql);
+    return;
+  }
+
+  const dir = join(".wrangler", "tmp");
+  mkdirSync(dir, { recursive: true });
+  const sqlFile = join(dir, "destinations-import.sql");
+  writeFileSync(sqlFile, sql);
+
+  const entryCount = destinations.reduce((total, destination) => total + destination.entries.length, 0);
+  console.log(`Importing ${destinations.length} destinations (${entryCount} entries) into ${DATABASE} ${target}`);
+
+  execFileSync("npx", ["wrangler", "d1", "execute", DATABASE, target, `--file=${sqlFile}`], {
+    stdio: "inherit"
+  });
+}
+
+main();
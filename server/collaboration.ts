@@ -98,6 +98,21 @@ export class CollaborativeItinerary extends DurableObject<Env> {
     return new Response("Not found", { status: 404 });
   }
 
+  // Edits made by the chat agent's tools
+  // An RPC method rather than a fetch route: /api/collab/* forwards requests
+  // here unauthenticated, and only the worker can call RPC methods
+  async syncItinerary(itinerary: any, version: number): Promise<void> {
+    this.itineraryData = itinerary;
+    await this.ctx.storage.put("itineraryData", itinerary);
+
+    this.broadcast({
+      type: 'itinerary_updated',
+      itinerary,
+      version,
+      source: 'agent'
+    });
+  }
+
   async handleSession(webSocket: WebSocket, request: Request): Promise<void> {
     const url = new URL(request.url);
     const userId = url.searchParams.get("userId") || `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,219 @@
+/**
+ * Monthly climate normals for the offline weather provider
+ * One entry per month (January first): [minTempC, maxTempC, rainDays, daylightHours]
+ * Approximate 1991-2020 averages, good enough for planning but not a forecast
+ */
+
+export type MonthlyNormal = [minTempC: number, maxTempC: number, rainDays: number, daylightHours: number];
+
+export interface CityClimate {
+  name: string;
+  months: MonthlyNormal[];
+}
+
+export const CLIMATE_NORMALS: Record<string, CityClimate> = {
+  paris: {
+    name: "Paris",
+    months: [
+      [3, 7, 10, 8.5],
+      [3, 8, 9, 10],
+      [5, 12, 10, 12],
+      [7, 16, 9, 13.5],
+      [11, 20, 10, 15.3],
+      [14, 23, 8, 16.2],
+      [16, 25, 8, 15.8],
+      [16, 25, 7, 14.3],
+      [13, 21, 8, 12.5],
+      [10, 16, 10, 10.7],
+      [6, 10, 10, 9],
+      [4, 8, 11, 8.2]
+    ]
+  },
+  london: {
+    name: "London",
+    months: [
+      [2, 8, 11, 8],
+      [2, 9, 9, 9.7],
+      [4, 12, 9, 11.8],
+      [6, 15, 9, 13.6],
+      [9, 18, 9, 15.4],
+      [12, 21, 8, 16.5],
+      [14, 23, 8, 16],
+      [14, 23, 8, 14.6],
+      [11, 20, 9, 12.6],
+      [9, 16, 10, 10.6],
+      [5, 11, 10, 8.8],
+      [3, 8, 10, 7.8]
+    ]
+  },
+  "new york": {
+    name: "New York",
+    months: [
+      [-3, 4, 11, 9.5],
+      [-2, 6, 10, 10.6],
+      [2, 10, 11, 12],
+      [7, 17, 11, 13.3],
+      [12, 22, 11, 14.5],
+      [18, 27, 10, 15.1],
+      [21, 29, 10, 14.8],
+      [20, 28, 10, 13.8],
+      [16, 24, 9, 12.4],
+      [10, 18, 9, 11.1],
+      [5, 12, 9, 9.9],
+      [0, 6, 10, 9.3]
+    ]
+  },
+  tokyo: {
+    name: "Tokyo",
+    months: [
+      [1, 10, 5, 9.9],
+      [2, 10, 6, 10.8],
+      [5, 14, 10, 12],
+      [10, 19, 10, 13.1],
+      [15, 23, 11, 14.1],
+      [19, 26, 12, 14.6],
+      [23, 30, 11, 14.3],
+      [24, 31, 8, 13.5],
+      [21, 27, 11, 12.4],
+      [15, 22, 10, 11.3],
+      [9, 17, 7, 10.3],
+      [4, 12, 5, 9.7]
+    ]
+  },
+  madrid: {
+    name: "Madrid",
+    months: [
+      [3, 10, 6, 9.6],
+      [4, 12, 5, 10.6],
+      [6, 16, 5, 11.9],
+      [8, 18, 7, 13.2],
+      [12, 22, 7, 14.4],
+      [17, 28, 3, 15],
+      [19, 32, 2, 14.7],
+      [19, 31, 2, 13.7],
+      [16, 26, 3, 12.4],
+      [11, 19, 6, 11.1],
+      [6, 13, 7, 9.9],
+      [4, 10, 7, 9.3]
+    ]
+  },
+  barcelona: {
+    name: "Barcelona",
+    months: [
+      [5, 14, 5, 9.6],
+      [6, 15, 5, 10.6],
+      [8, 17, 5, 11.9],
+      [10, 19, 7, 13.2],
+      [14, 22, 7, 14.4],
+      [18, 26, 5, 15],
+      [21, 29, 3, 14.7],
+      [21, 29, 5, 13.7],
+      [18, 26, 6, 12.3],
+      [14, 22, 7, 11],
+      [9, 17, 5, 9.9],
+      [6, 14, 5, 9.3]
+    ]
+  },
+  lisbon: {
+    name: "Lisbon",
+    months: [
+      [8, 15, 10, 9.8],
+      [9, 16, 9, 10.7],
+      [11, 19, 8, 11.9],
+      [12, 20, 9, 13.1],
+      [14, 23, 6, 14.2],
+      [17, 26, 3, 14.8],
+      [18, 28, 1, 14.5],
+      [19, 29, 1, 13.6],
+      [18, 27, 4, 12.4],
+      [15, 23, 8, 11.2],
+      [12, 18, 10, 10.1],
+      [9, 15, 11, 9.5]
+    ]
+  },
+  porto: {
+    name: "Porto",
+    months: [
+      [5, 14, 12, 9.7],
+      [6, 15, 11, 10.7],
+      [7, 17, 10, 11.9],
+      [9, 18, 11, 13.2],
+      [11, 20, 9, 14.3],
+      [14, 23, 5, 14.9],
+      [15, 25, 3, 14.6],
+      [15, 26, 3, 13.6],
+      [14, 24, 6, 12.4],
+      [12, 21, 10, 11.2],
+      [8, 17, 11, 10],
+      [7, 14, 13, 9.4]
+    ]
+  },
+  rome: {
+    name: "Rome",
+    months: [
+      [3, 12, 8, 9.5],
+      [4, 13, 8, 10.6],
+      [6, 16, 8, 11.9],
+      [9, 19, 8, 13.3],
+      [13, 24, 6, 14.5],
+      [17, 28, 4, 15.2],
+      [19, 31, 2, 14.9],
+      [20, 31, 3, 13.8],
+      [16, 27, 5, 12.4],
+      [12, 22, 8, 11.1],
+      [8, 17, 9, 9.9],
+      [4, 13, 9, 9.2]
+    ]
+  },
+  berlin: {
+    name: "Berlin",
+    months: [
+      [-2, 3, 10, 7.9],
+      [-2, 5, 9, 9.6],
+      [1, 9, 9, 11.8],
+      [4, 15, 8, 13.8],
+      [9, 20, 9, 15.7],
+      [12, 23, 9, 16.8],
+      [14, 25, 9, 16.3],
+      [14, 25, 8, 14.7],
+      [10, 20, 8, 12.6],
+      [6, 14, 8, 10.5],
+      [2, 7, 9, 8.6],
+      [-1, 4, 10, 7.5]
+    ]
+  },
+  amsterdam: {
+    name: "Amsterdam",
+    months: [
+      [1, 6, 12, 8.2],
+      [1, 7, 10, 9.8],
+      [3, 10, 11, 11.8],
+      [5, 14, 9, 13.7],
+      [9, 18, 9, 15.6],
+      [11, 20, 10, 16.6],
+      [13, 22, 10, 16.2],
+      [13, 22, 10, 14.6],
+      [11, 19, 11, 12.6],
+      [8, 15, 12, 10.6],
+      [4, 10, 13, 8.8],
+      [2, 7, 13, 7.8]
+    ]
+  },
+  bangkok: {
+    name: "Bangkok",
+    months: [
+      [22, 32, 1, 11.5],
+      [24, 33, 2, 11.7],
+      [25, 34, 3, 12],
+      [26, 35, 5, 12.3],
+      [26, 34, 14, 12.6],
+      [26, 33, 15, 12.8],
+      [25, 33, 16, 12.7],
+      [25, 33, 17, 12.5],
+      [25, 32, 19, 12.2],
+      [24, 32, 15, 11.9],
+      [23, 32, 6, 11.6],
+      [21, 31, 1, 11.4]
+    ]
+  }
+};
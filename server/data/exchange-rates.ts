@@ -0,0 +1,49 @@
+/**
+ * Bundled exchange rates for the offline rates provider
+ * Units of each currency per 1 USD, approximate mid-market rates;
+ * good enough for trip budgets, not for payments
+ */
+
+export const BUNDLED_RATES_DATE = "2026-10-01";
+
+export const BUNDLED_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 149.5,
+  CHF: 0.89,
+  CAD: 1.37,
+  AUD: 1.52,
+  NZD: 1.66,
+  CNY: 7.24,
+  HKD: 7.81,
+  SGD: 1.35,
+  KRW: 1365,
+  INR: 83.6,
+  THB: 35.9,
+  IDR: 15650,
+  MYR: 4.68,
+  PHP: 56.4,
+  VND: 24800,
+  AED: 3.67,
+  SAR: 3.75,
+  ILS: 3.72,
+  TRY: 33.9,
+  ZAR: 18.4,
+  EGP: 48.5,
+  MAD: 9.95,
+  MXN: 18.2,
+  BRL: 5.45,
+  ARS: 965,
+  CLP: 935,
+  COP: 4150,
+  PEN: 3.75,
+  SEK: 10.6,
+  NOK: 10.9,
+  DKK: 6.87,
+  PLN: 3.95,
+  CZK: 23.1,
+  HUF: 362,
+  ISK: 137,
+  RON: 4.58
+};
@@ -0,0 +1,72 @@
+/**
+ * Saved result pages for the fixture search provider
+ * Trimmed copies of real Google and Booking.com markup: the fixture provider
+ * runs them through the same parsers as live pages, so selector changes can be
+ * checked offline by updating these pages. {{query}} is replaced with the
+ * escaped search text before parsing
+ */
+
+export const GOOGLE_RESULTS_FIXTURE = `<!doctype html>
+<html lang="en">
+<body>
+<div id="search">
+  <div class="g">
+    <div class="yuRUbf">
+      <a href="/url?q=https://www.lonelyplanet.com/search%3Fq%3D{{query}}&amp;sa=U"><h3 class="LC20lb">{{query}}: the best things to do &amp; see - Lonely Planet</h3></a>
+    </div>
+    <div class="VwiC3b">Discover the top sights, neighborhoods and local food for {{query}}, with tips on when to go and how to get around.</div>
+  </div>
+  <div class="g">
+    <div class="yuRUbf">
+      <a href="https://www.tripadvisor.com/Search?q={{query}}"><h3 class="LC20lb">THE 15 BEST Things to Do for {{query}} (Updated 2026)</h3></a>
+    </div>
+    <div data-sncf="1"><div class="VwiC3b">Things to do: see Tripadvisor&#39;s 120,512 traveler reviews and photos of {{query}} tourist attractions.</div></div>
+  </div>
+  <div class="g">
+    <div class="g">
+      <div class="yuRUbf">
+        <a href="https://www.timeout.com/search?q={{query}}"><h3 class="LC20lb">Restaurants and bars | {{query}} | Time Out</h3></a>
+      </div>
+      <div class="IsZvec">Where to eat and drink right now, picked by local critics: from budget tascas to tasting menus around &euro;90.</div>
+    </div>
+  </div>
+  <div class="g">
+    <div class="yuRUbf">
+      <a href="https://en.wikivoyage.org/w/index.php?search={{query}}"><h3 class="LC20lb">{{query}} - Travel guide at Wikivoyage</h3></a>
+    </div>
+    <div class="VwiC3b">Open source travel guide: get in, get around, see, do, buy, eat, drink, sleep and stay safe.</div>
+  </div>
+</div>
+</body>
+</html>`;
+
+export const BOOKING_RESULTS_FIXTURE = `<!doctype html>
+<html lang="en">
+<body>
+<div data-results-container="1">
+  <div data-testid="property-card">
+    <a data-testid="title-link" href="https://www.booking.com/hotel/pt/central-plaza.html?label=gen173"><div data-testid="title">Central Plaza Hotel {{query}}</div></a>
+    <span data-testid="address">City Centre, {{query}}</span>
+    <div data-testid="review-score"><div>Scored 8.7</div><div>8.7</div><div>Fabulous</div><div>2,314 reviews</div></div>
+    <span data-testid="price-and-discounted-price">&euro; 512</span>
+  </div>
+  <div data-testid="property-card">
+    <a data-testid="title-link" href="/hotel/pt/riverside-apartments.html"><div data-testid="title">Riverside Apartments</div></a>
+    <span data-testid="distance">1.2 km from centre</span>
+    <div data-testid="review-score"><div>Scored 9.1</div><div>Wonderful</div><div>876 reviews</div></div>
+    <div class="bui-price-display__value">US$&nbsp;1,048.50</div>
+  </div>
+  <div data-testid="property-card">
+    <a data-testid="title-link" href="/hotel/pt/backpackers-house.html"><div data-testid="title">Backpackers House {{query}}</div></a>
+    <span data-testid="address">Old Town, {{query}}</span>
+    <div data-testid="review-score"><div>Scored 7.9</div><div>Good</div><div>4,102 reviews</div></div>
+    <span data-testid="price-and-discounted-price">&euro; 180 &euro; 142</span>
+  </div>
+  <div data-testid="property-card">
+    <a data-testid="title-link" href="/hotel/pt/palace-grand.html"><div data-testid="title">The Grand Palace Hotel &amp; Spa</div></a>
+    <span data-testid="address">Avenue District, {{query}}</span>
+    <span data-testid="price-for-x-nights">3 nights, 2 adults</span>
+  </div>
+</div>
+</body>
+</html>`;
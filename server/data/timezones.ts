@@ -0,0 +1,127 @@
+/**
+ * Reference places for the offline timezone lookup
+ * [name, lat, lng, IANA timezone]; the nearest place decides the zone, so
+ * countries with several zones list a place in each of them
+ */
+
+export type TimezoneReference = [name: string, lat: number, lng: number, timezone: string];
+
+export const TIMEZONE_REFERENCES: TimezoneReference[] = [
+  // Europe
+  ["Lisbon", 38.72, -9.14, "Europe/Lisbon"],
+  ["Porto", 41.15, -8.61, "Europe/Lisbon"],
+  ["Madeira", 32.65, -16.91, "Atlantic/Madeira"],
+  ["Canary Islands", 28.12, -15.43, "Atlantic/Canary"],
+  ["Azores", 37.74, -25.67, "Atlantic/Azores"],
+  ["Reykjavik", 64.15, -21.94, "Atlantic/Reykjavik"],
+  ["Dublin", 53.35, -6.26, "Europe/Dublin"],
+  ["London", 51.51, -0.13, "Europe/London"],
+  ["Edinburgh", 55.95, -3.19, "Europe/London"],
+  ["Madrid", 40.42, -3.7, "Europe/Madrid"],
+  ["Barcelona", 41.39, 2.17, "Europe/Madrid"],
+  ["Seville", 37.39, -5.98, "Europe/Madrid"],
+  ["Paris", 48.86, 2.35, "Europe/Paris"],
+  ["Nice", 43.7, 7.27, "Europe/Paris"],
+  ["Brussels", 50.85, 4.35, "Europe/Brussels"],
+  ["Amsterdam", 52.37, 4.9, "Europe/Amsterdam"],
+  ["Luxembourg", 49.61, 6.13, "Europe/Luxembourg"],
+  ["Zurich", 47.38, 8.54, "Europe/Zurich"],
+  ["Berlin", 52.52, 13.4, "Europe/Berlin"],
+  ["Munich", 48.14, 11.58, "Europe/Berlin"],
+  ["Copenhagen", 55.68, 12.57, "Europe/Copenhagen"],
+  ["Oslo", 59.91, 10.75, "Europe/Oslo"],
+  ["Stockholm", 59.33, 18.07, "Europe/Stockholm"],
+  ["Helsinki", 60.17, 24.94, "Europe/Helsinki"],
+  ["Rome", 41.9, 12.5, "Europe/Rome"],
+  ["Milan", 45.46, 9.19, "Europe/Rome"],
+  ["Valletta", 35.9, 14.51, "Europe/Malta"],
+  ["Vienna", 48.21, 16.37, "Europe/Vienna"],
+  ["Prague", 50.08, 14.44, "Europe/Prague"],
+  ["Warsaw", 52.23, 21.01, "Europe/Warsaw"],
+  ["Budapest", 47.5, 19.04, "Europe/Budapest"],
+  ["Ljubljana", 46.06, 14.51, "Europe/Ljubljana"],
+  ["Zagreb", 45.81, 15.98, "Europe/Zagreb"],
+  ["Belgrade", 44.79, 20.45, "Europe/Belgrade"],
+  ["Bucharest", 44.43, 26.1, "Europe/Bucharest"],
+  ["Sofia", 42.7, 23.32, "Europe/Sofia"],
+  ["Athens", 37.98, 23.73, "Europe/Athens"],
+  ["Istanbul", 41.01, 28.98, "Europe/Istanbul"],
+  ["Kyiv", 50.45, 30.52, "Europe/Kyiv"],
+  ["Riga", 56.95, 24.11, "Europe/Riga"],
+  ["Moscow", 55.76, 37.62, "Europe/Moscow"],
+  // Africa and Middle East
+  ["Marrakech", 31.63, -8.0, "Africa/Casablanca"],
+  ["Cairo", 30.04, 31.24, "Africa/Cairo"],
+  ["Nairobi", -1.29, 36.82, "Africa/Nairobi"],
+  ["Cape Town", -33.92, 18.42, "Africa/Johannesburg"],
+  ["Johannesburg", -26.2, 28.05, "Africa/Johannesburg"],
+  ["Lagos", 6.52, 3.38, "Africa/Lagos"],
+  ["Tel Aviv", 32.09, 34.78, "Asia/Jerusalem"],
+  ["Amman", 31.95, 35.93, "Asia/Amman"],
+  ["Dubai", 25.2, 55.27, "Asia/Dubai"],
+  ["Doha", 25.29, 51.53, "Asia/Qatar"],
+  ["Riyadh", 24.71, 46.68, "Asia/Riyadh"],
+  // Asia and Oceania
+  ["Delhi", 28.61, 77.21, "Asia/Kolkata"],
+  ["Mumbai", 19.08, 72.88, "Asia/Kolkata"],
+  ["Kathmandu", 27.72, 85.32, "Asia/Kathmandu"],
+  ["Colombo", 6.93, 79.86, "Asia/Colombo"],
+  ["Bangkok", 13.76, 100.5, "Asia/Bangkok"],
+  ["Hanoi", 21.03, 105.85, "Asia/Ho_Chi_Minh"],
+  ["Ho Chi Minh City", 10.82, 106.63, "Asia/Ho_Chi_Minh"],
+  ["Kuala Lumpur", 3.14, 101.69, "Asia/Kuala_Lumpur"],
+  ["Singapore", 1.35, 103.82, "Asia/Singapore"],
+  ["Jakarta", -6.21, 106.85, "Asia/Jakarta"],
+  ["Bali", -8.65, 115.22, "Asia/Makassar"],
+  ["Manila", 14.6, 120.98, "Asia/Manila"],
+  ["Hong Kong", 22.32, 114.17, "Asia/Hong_Kong"],
+  ["Beijing", 39.9, 116.41, "Asia/Shanghai"],
+  ["Shanghai", 31.23, 121.47, "Asia/Shanghai"],
+  ["Taipei", 25.03, 121.57, "Asia/Taipei"],
+  ["Seoul", 37.57, 126.98, "Asia/Seoul"],
+  ["Tokyo", 35.68, 139.69, "Asia/Tokyo"],
+  ["Osaka", 34.69, 135.5, "Asia/Tokyo"],
+  ["Sapporo", 43.06, 141.35, "Asia/Tokyo"],
+  ["Perth", -31.95, 115.86, "Australia/Perth"],
+  ["Darwin", -12.46, 130.84, "Australia/Darwin"],
+  ["Adelaide", -34.93, 138.6, "Australia/Adelaide"],
+  ["Brisbane", -27.47, 153.03, "Australia/Brisbane"],
+  ["Sydney", -33.87, 151.21, "Australia/Sydney"],
+  ["Melbourne", -37.81, 144.96, "Australia/Melbourne"],
+  ["Auckland", -36.85, 174.76, "Pacific/Auckland"],
+  ["Queenstown", -45.03, 168.66, "Pacific/Auckland"],
+  ["Fiji", -18.14, 178.44, "Pacific/Fiji"],
+  ["Honolulu", 21.31, -157.86, "Pacific/Honolulu"],
+  // Americas
+  ["Anchorage", 61.22, -149.9, "America/Anchorage"],
+  ["Vancouver", 49.28, -123.12, "America/Vancouver"],
+  ["Seattle", 47.61, -122.33, "America/Los_Angeles"],
+  ["San Francisco", 37.77, -122.42, "America/Los_Angeles"],
+  ["Los Angeles", 34.05, -118.24, "America/Los_Angeles"],
+  ["Las Vegas", 36.17, -115.14, "America/Los_Angeles"],
+  ["Phoenix", 33.45, -112.07, "America/Phoenix"],
+  ["Denver", 39.74, -104.99, "America/Denver"],
+  ["Calgary", 51.05, -114.07, "America/Edmonton"],
+  ["Chicago", 41.88, -87.63, "America/Chicago"],
+  ["Austin", 30.27, -97.74, "America/Chicago"],
+  ["New Orleans", 29.95, -90.07, "America/Chicago"],
+  ["Mexico City", 19.43, -99.13, "America/Mexico_City"],
+  ["Cancun", 21.16, -86.85, "America/Cancun"],
+  ["Toronto", 43.65, -79.38, "America/Toronto"],
+  ["Montreal", 45.5, -73.57, "America/Toronto"],
+  ["New York", 40.71, -74.01, "America/New_York"],
+  ["Boston", 42.36, -71.06, "America/New_York"],
+  ["Washington", 38.91, -77.04, "America/New_York"],
+  ["Miami", 25.76, -80.19, "America/New_York"],
+  ["Halifax", 44.65, -63.57, "America/Halifax"],
+  ["Havana", 23.11, -82.37, "America/Havana"],
+  ["San Juan", 18.47, -66.11, "America/Puerto_Rico"],
+  ["Bogota", 4.71, -74.07, "America/Bogota"],
+  ["Lima", -12.05, -77.04, "America/Lima"],
+  ["Cusco", -13.53, -71.97, "America/Lima"],
+  ["Santiago", -33.45, -70.67, "America/Santiago"],
+  ["Buenos Aires", -34.6, -58.38, "America/Argentina/Buenos_Aires"],
+  ["Rio de Janeiro", -22.91, -43.17, "America/Sao_Paulo"],
+  ["Sao Paulo", -23.55, -46.63, "America/Sao_Paulo"],
+  ["Manaus", -3.12, -60.02, "America/Manaus"]
+];
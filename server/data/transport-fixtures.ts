@@ -0,0 +1,95 @@
+/**
+ * Sample schedules for the fixture transport provider
+ * Carriers are fictional: fixture options are examples for local development
+ * and CI, timed and priced from the distance between the two cities
+ */
+
+// Airport per city (normalized name) as [name, IATA code]; others get "<City> Airport"
+export const FIXTURE_AIRPORTS: Record<string, [name: string, code: string]> = {
+  lisbon: ["Humberto Delgado Airport", "LIS"],
+  porto: ["Francisco Sá Carneiro Airport", "OPO"],
+  london: ["Heathrow Airport", "LHR"],
+  dublin: ["Dublin Airport", "DUB"],
+  madrid: ["Adolfo Suárez Madrid-Barajas Airport", "MAD"],
+  barcelona: ["Josep Tarradellas Barcelona-El Prat Airport", "BCN"],
+  paris: ["Charles de Gaulle Airport", "CDG"],
+  amsterdam: ["Amsterdam Airport Schiphol", "AMS"],
+  berlin: ["Berlin Brandenburg Airport", "BER"],
+  munich: ["Munich Airport", "MUC"],
+  rome: ["Leonardo da Vinci-Fiumicino Airport", "FCO"],
+  milan: ["Milan Malpensa Airport", "MXP"],
+  vienna: ["Vienna International Airport", "VIE"],
+  prague: ["Václav Havel Airport Prague", "PRG"],
+  athens: ["Athens International Airport", "ATH"],
+  istanbul: ["Istanbul Airport", "IST"],
+  dubai: ["Dubai International Airport", "DXB"],
+  delhi: ["Indira Gandhi International Airport", "DEL"],
+  bangkok: ["Suvarnabhumi Airport", "BKK"],
+  singapore: ["Singapore Changi Airport", "SIN"],
+  "hong kong": ["Hong Kong International Airport", "HKG"],
+  tokyo: ["Haneda Airport", "HND"],
+  osaka: ["Kansai International Airport", "KIX"],
+  seoul: ["Incheon International Airport", "ICN"],
+  sydney: ["Sydney Kingsford Smith Airport", "SYD"],
+  "new york": ["John F. Kennedy International Airport", "JFK"],
+  boston: ["Logan International Airport", "BOS"],
+  washington: ["Washington Dulles International Airport", "IAD"],
+  chicago: ["O'Hare International Airport", "ORD"],
+  "los angeles": ["Los Angeles International Airport", "LAX"],
+  "san francisco": ["San Francisco International Airport", "SFO"],
+  "mexico city": ["Mexico City International Airport", "MEX"],
+  "sao paulo": ["São Paulo/Guarulhos International Airport", "GRU"],
+  "buenos aires": ["Ministro Pistarini International Airport", "EZE"]
+};
+
+// Longer rail trips are left to flights
+export const FIXTURE_MAX_TRAIN_KM = 1300;
+
+// Main station per city as [name, rail network]; trains only run within one network
+export const FIXTURE_STATIONS: Record<string, [name: string, network: string]> = {
+  lisbon: ["Lisboa Oriente", "europe"],
+  porto: ["Porto Campanhã", "europe"],
+  madrid: ["Madrid Puerta de Atocha", "europe"],
+  barcelona: ["Barcelona Sants", "europe"],
+  seville: ["Sevilla Santa Justa", "europe"],
+  london: ["London St Pancras International", "europe"],
+  edinburgh: ["Edinburgh Waverley", "europe"],
+  paris: ["Paris Gare de Lyon", "europe"],
+  nice: ["Nice Ville", "europe"],
+  brussels: ["Bruxelles-Midi", "europe"],
+  amsterdam: ["Amsterdam Centraal", "europe"],
+  zurich: ["Zürich HB", "europe"],
+  berlin: ["Berlin Hauptbahnhof", "europe"],
+  munich: ["München Hauptbahnhof", "europe"],
+  rome: ["Roma Termini", "europe"],
+  milan: ["Milano Centrale", "europe"],
+  vienna: ["Wien Hauptbahnhof", "europe"],
+  prague: ["Praha hlavní nádraží", "europe"],
+  budapest: ["Budapest-Keleti", "europe"],
+  tokyo: ["Tokyo Station", "japan"],
+  osaka: ["Shin-Osaka", "japan"],
+  beijing: ["Beijing South", "china"],
+  shanghai: ["Shanghai Hongqiao", "china"],
+  "new york": ["New York Penn Station", "northeast-corridor"],
+  boston: ["Boston South Station", "northeast-corridor"],
+  washington: ["Washington Union Station", "northeast-corridor"]
+};
+
+export const FIXTURE_CARRIERS = {
+  FLIGHT: [
+    { name: "Meridian Airways", code: "MR" },
+    { name: "Northwind Air", code: "NW" },
+    { name: "Atlas Connect", code: "AX" }
+  ],
+  TRAIN: [
+    { name: "Continental Rail", code: "CR" },
+    { name: "Express Lines", code: "EX" },
+    { name: "Regional Rail", code: "RR" }
+  ]
+} as const;
+
+// Daily departures, local to the origin; each slot is run by the carrier at the same index
+export const FIXTURE_DEPARTURES = {
+  FLIGHT: ["06:45", "11:20", "17:55"],
+  TRAIN: ["07:30", "12:15", "18:05"]
+} as const;
@@ -52,3 +52,28 @@ export async function requireAuth(
 
   return { user, token };
 }
+
+/**
+ * Like requireAuth, but only for the emails listed in ADMIN_EMAILS
+ */
+export async function requireAdmin(
+  request: Request,
+  env: Env
+): Promise<{ user: AuthUser; token: string } | Response> {
+  const authResult = await requireAuth(request, env);
+  if (authResult instanceof Response) return authResult;
+
+  const adminEmails = (env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!adminEmails.includes(authResult.user.email.toLowerCase())) {
+    return Response.json(
+      { success: false, error: "Admin access required" },
+      { status: 403 }
+    );
+  }
+
+  return authResult;
+}
@@ -0,0 +1,98 @@
+import { requireAdmin } from "../middleware/auth.middleware";
+import { purgeSearchCache, type SearchCacheKind } from "../services/search/cache";
+import { checkUsageQuota, setUsageQuota } from "../services/usage";
+import type { Env } from "../types";
+
+const SEARCH_CACHE_KINDS: SearchCacheKind[] = ["web", "hotels"];
+
+export async function handleAdminRoutes(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Purge search cache entries: ?kind=web|hotels, ?match=<text in the key>, ?expired=true
+  if (url.pathname === "/api/admin/search-cache" && request.method === "DELETE") {
+    const authResult = await requireAdmin(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const kind = url.searchParams.get("kind") || undefined;
+    if (kind && !SEARCH_CACHE_KINDS.includes(kind as SearchCacheKind)) {
+      return Response.json(
+        { success: false, error: `kind must be one of: ${SEARCH_CACHE_KINDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const purged = await purgeSearchCache(env.DB, {
+        kind: kind as SearchCacheKind | undefined,
+        match: url.searchParams.get("match") || undefined,
+        expiredOnly: url.searchParams.get("expired") === "true"
+      });
+
+      console.log(`[Admin] ${user.email} purged ${purged.length} search cache entries`);
+      return Response.json({ success: true, purged: purged.length, keys: purged });
+    } catch (error) {
+      console.error("Search cache purge error:", error);
+      return Response.json(
+        { success: false, error: "Failed to purge search cache" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Per-user monthly limits: { monthlyTokens, monthlyCostUsd }, null for the default, 0 for unlimited
+  const quotaMatch = url.pathname.match(/^\/api\/admin\/usage-quotas\/([^/]+)$/);
+  if (quotaMatch && request.method === "PUT") {
+    const authResult = await requireAdmin(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+    const userId = quotaMatch[1];
+
+    try {
+      const body = await request.json() as { monthlyTokens?: unknown; monthlyCostUsd?: unknown };
+      const limit = (value: unknown, field: string): number | null => {
+        if (value === undefined || value === null) return null;
+        if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+          throw new Error(`${field} must be a number of at least 0, or null`);
+        }
+        return value;
+      };
+
+      let quota: { monthlyTokens: number | null; monthlyCostUsd: number | null };
+      try {
+        quota = {
+          monthlyTokens: limit(body.monthlyTokens, "monthlyTokens"),
+          monthlyCostUsd: limit(body.monthlyCostUsd, "monthlyCostUsd")
+        };
+      } catch (error) {
+        return Response.json(
+          { success: false, error: error instanceof Error ? error.message : "Invalid quota" },
+          { status: 400 }
+        );
+      }
+
+      const target = await env.DB.prepare("SELECT id FROM user WHERE id = ?").bind(userId).first();
+      if (!target) {
+        return Response.json(
+          { success: false, error: "User not found" },
+          { status: 404 }
+        );
+      }
+
+      await setUsageQuota(env.DB, userId, quota);
+      console.log(`[Admin] ${user.email} set usage quota of ${userId}:`, quota);
+      return Response.json({ success: true, quota: await checkUsageQuota(env, userId) });
+    } catch (error) {
+      console.error("Usage quota update error:", error);
+      return Response.json(
+        { success: false, error: "Failed to update usage quota" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return null;
+}
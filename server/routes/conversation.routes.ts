@@ -1,4 +1,25 @@
 import { requireAuth } from "../middleware/auth.middleware";
+import { getConversationItinerary } from "../services/conversation-itinerary";
+import { isMessageCursor, listConversationMessages } from "../services/chat-messages";
+import {
+  buildConversationExport,
+  EXPORT_FORMATS,
+  isExportFormat,
+  renderConversationExport,
+} from "../services/conversation-export";
+import {
+  ConversationNotFoundError,
+  deleteConversation,
+  forkConversation,
+  listConversations,
+  listRecentConversations,
+  notifyConversationsChanged,
+  parseConversationCursor,
+  searchConversations,
+  updateConversationFlags,
+} from "../services/conversations";
+import { listMessageVersions, switchMessageVersion } from "../services/message-versions";
+import { getDefaultModelIds, isModelAvailable } from "../services/models";
 import type { Env } from "../types";
 
 export async function handleConversationRoutes(
@@ -26,20 +47,7 @@ export async function handleConversationRoutes(
     const response = await stub.fetch(doRequest);
 
     // Send initial data before returning SSE stream
-    const conversations = await env.DB.prepare(`
-      SELECT id, title, created_at, updated_at
-      FROM chat_conversations
-      WHERE user_id = ?
-      ORDER BY updated_at DESC
-      LIMIT 10
-    `).bind(user.userId).all();
-
-    const data = conversations.results.map((conv: any) => ({
-      id: conv.id,
-      title: conv.title || "Untitled chat",
-      lastMessage: "",
-      timestamp: conv.updated_at,
-    }));
+    const data = await listRecentConversations(env.DB, user.userId);
 
     // Create a new stream that sends initial data then pipes DO stream
     const { readable, writable } = new TransformStream();
@@ -76,30 +84,31 @@ export async function handleConversationRoutes(
     });
   }
 
-  // Get conversations list
+  // Get conversations list: pinned first, then by last update
+  // ?cursor= with the nextCursor of the previous page, ?limit= (default 20, max 100),
+  // ?archived=true for the archived conversations instead
   if (url.pathname === "/api/conversations" && request.method === "GET") {
     const authResult = await requireAuth(request, env);
     if (authResult instanceof Response) return authResult;
     const { user } = authResult;
 
-    try {
-      const conversations = await env.DB.prepare(`
-          SELECT id, title, created_at, updated_at
-          FROM chat_conversations
-          WHERE user_id = ?
-          ORDER BY updated_at DESC
-          LIMIT 10
-        `).bind(user.userId).all();
+    const cursor = url.searchParams.get("cursor");
+    const limit = url.searchParams.get("limit");
+    if ((cursor && !parseConversationCursor(cursor)) || (limit && !/^\d+$/.test(limit))) {
+      return Response.json(
+        { success: false, error: "cursor must come from a previous page and limit be a positive number" },
+        { status: 400 }
+      );
+    }
 
-      return Response.json({
-        success: true,
-        conversations: conversations.results.map((conv: any) => ({
-          id: conv.id,
-          title: conv.title || "Untitled chat",
-          lastMessage: "",
-          timestamp: conv.updated_at,
-        })),
+    try {
+      const page = await listConversations(env.DB, user.userId, {
+        archived: url.searchParams.get("archived") === "true",
+        cursor,
+        limit: limit ? Number(limit) : undefined,
       });
+
+      return Response.json({ success: true, ...page });
     } catch (error) {
       console.error("Get conversations error:", error);
       return Response.json(
@@ -127,6 +136,10 @@ export async function handleConversationRoutes(
           WHERE id = ? AND user_id = ?
         `).bind(title, conversationId, user.userId).run();
 
+      await notifyConversationsChanged(env, user.userId).catch((error) =>
+        console.error("Notify conversations error:", error)
+      );
+
       return Response.json({
         success: true,
         message: "Title updated successfully",
@@ -140,5 +153,379 @@ export async function handleConversationRoutes(
     }
   }
 
+  // Full-text search over titles and message text: ?q=
+  if (url.pathname === "/api/conversations/search" && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const query = url.searchParams.get("q")?.trim() ?? "";
+    if (!query) {
+      return Response.json(
+        { success: false, error: "q is required" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const results = await searchConversations(env.DB, user.userId, query);
+      return Response.json({ success: true, results });
+    } catch (error) {
+      console.error("Search conversations error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Pin/unpin and archive/unarchive: { pinned?: boolean, archived?: boolean }
+  const conversationMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)$/);
+  if (conversationMatch && request.method === "PATCH") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { pinned, archived } = (await request.json()) as { pinned?: unknown; archived?: unknown };
+      const isFlag = (value: unknown) => value === undefined || typeof value === "boolean";
+      if (!isFlag(pinned) || !isFlag(archived) || (pinned === undefined && archived === undefined)) {
+        return Response.json(
+          { success: false, error: "Send pinned and/or archived as true or false" },
+          { status: 400 }
+        );
+      }
+
+      const updated = await updateConversationFlags(env.DB, user.userId, conversationMatch[1], {
+        pinned: pinned as boolean | undefined,
+        archived: archived as boolean | undefined,
+      });
+      if (!updated) {
+        return Response.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      await notifyConversationsChanged(env, user.userId).catch((error) =>
+        console.error("Notify conversations error:", error)
+      );
+
+      return Response.json({ success: true });
+    } catch (error) {
+      console.error("Update conversation error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Delete a conversation with its messages and itinerary
+  if (conversationMatch && request.method === "DELETE") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const deleted = await deleteConversation(env.DB, user.userId, conversationMatch[1]);
+      if (!deleted) {
+        return Response.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      console.log("[Conversations] Deleted", conversationMatch[1]);
+      await notifyConversationsChanged(env, user.userId).catch((error) =>
+        console.error("Notify conversations error:", error)
+      );
+
+      return Response.json({ success: true });
+    } catch (error) {
+      console.error("Delete conversation error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Get the active itinerary of a conversation (kept by the Chat agent)
+  const itineraryMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/itinerary$/);
+  if (itineraryMatch && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const conversation = await env.DB.prepare(
+        "SELECT id FROM chat_conversations WHERE id = ? AND user_id = ?"
+      ).bind(itineraryMatch[1], user.userId).first();
+
+      if (!conversation) {
+        return Response.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      const active = await getConversationItinerary(env.DB, itineraryMatch[1]);
+
+      return Response.json({
+        success: true,
+        version: active?.version ?? 0,
+        itinerary: active?.itinerary ?? null,
+        updatedAt: active?.updatedAt ?? null,
+      });
+    } catch (error) {
+      console.error("Get conversation itinerary error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Message history, newest page first: ?limit= (default 50, max 200) and
+  // ?before= with the nextCursor of the previous page for older messages
+  const messagesMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/messages$/);
+  if (messagesMatch && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const before = url.searchParams.get("before");
+    const limit = url.searchParams.get("limit");
+    if ((before && !isMessageCursor(before)) || (limit && !/^\d+$/.test(limit))) {
+      return Response.json(
+        { success: false, error: "before must be a cursor from a previous page and limit a positive number" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const conversation = await env.DB.prepare(
+        "SELECT id FROM chat_conversations WHERE id = ? AND user_id = ?"
+      ).bind(messagesMatch[1], user.userId).first();
+
+      if (!conversation) {
+        return Response.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      const page = await listConversationMessages(env.DB, messagesMatch[1], {
+        before,
+        limit: limit ? Number(limit) : undefined,
+      });
+
+      return Response.json({ success: true, ...page });
+    } catch (error) {
+      console.error("Get conversation messages error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Alternate versions left by edited messages and regenerated replies
+  // GET lists them by the message they follow, POST { parentMessageId, version } switches to one
+  const versionsMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/versions$/);
+  if (versionsMatch && (request.method === "GET" || request.method === "POST")) {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      if (request.method === "GET") {
+        const versions = await listMessageVersions(env.DB, user.userId, versionsMatch[1]);
+        return Response.json({ success: true, versions });
+      }
+
+      const { parentMessageId, version } = (await request.json()) as { parentMessageId?: unknown; version?: unknown };
+      if ((parentMessageId !== null && typeof parentMessageId !== "string") || !Number.isInteger(version)) {
+        return Response.json(
+          { success: false, error: "parentMessageId (a message id or null) and version are required" },
+          { status: 400 }
+        );
+      }
+
+      const result = await switchMessageVersion(env, user.userId, versionsMatch[1], parentMessageId, version as number);
+      return Response.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof ConversationNotFoundError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+      console.error("Conversation versions error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Download the conversation: ?format=md|json|html (default md)
+  const exportMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/export$/);
+  if (exportMatch && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const format = url.searchParams.get("format") ?? "md";
+    if (!isExportFormat(format)) {
+      return Response.json(
+        { success: false, error: `format must be one of ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const conversation = await buildConversationExport(env.DB, user.userId, exportMatch[1]);
+      const { body, contentType, filename } = renderConversationExport(conversation, format);
+
+      return new Response(body, {
+        headers: {
+          "Content-Type": contentType,
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      if (error instanceof ConversationNotFoundError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+      console.error("Export conversation error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Fork a conversation from one of its messages: { messageId }
+  const forkMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/fork$/);
+  if (forkMatch && request.method === "POST") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { messageId } = (await request.json()) as { messageId?: unknown };
+      if (typeof messageId !== "string" || !messageId) {
+        return Response.json(
+          { success: false, error: "messageId is required" },
+          { status: 400 }
+        );
+      }
+
+      const conversation = await forkConversation(env, user.userId, forkMatch[1], messageId);
+      await notifyConversationsChanged(env, user.userId).catch((error) =>
+        console.error("Notify conversations error:", error)
+      );
+
+      return Response.json({ success: true, conversation });
+    } catch (error) {
+      if (error instanceof ConversationNotFoundError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: 404 }
+        );
+      }
+      console.error("Fork conversation error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Model picked for a conversation; a new chat gets its row here when the
+  // user picks a model before the first message
+  const modelMatch = url.pathname.match(/^\/api\/conversations\/([^/]+)\/model$/);
+  if (modelMatch && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const conversation = await env.DB.prepare(
+        "SELECT model FROM chat_conversations WHERE id = ? AND user_id = ?"
+      ).bind(modelMatch[1], user.userId).first<{ model: string | null }>();
+
+      // A model removed from the configuration falls back to the default
+      const model = conversation?.model ?? null;
+      return Response.json({
+        success: true,
+        model,
+        effectiveModel: model && isModelAvailable(env, model) ? model : getDefaultModelIds(env).planning,
+      });
+    } catch (error) {
+      console.error("Get conversation model error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (modelMatch && request.method === "PUT") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { model } = (await request.json()) as { model?: string | null };
+
+      if (model !== null && model !== undefined && (typeof model !== "string" || !isModelAvailable(env, model))) {
+        return Response.json(
+          { success: false, error: `Model ${model} is not available` },
+          { status: 400 }
+        );
+      }
+
+      const existing = await env.DB.prepare(
+        "SELECT user_id FROM chat_conversations WHERE id = ?"
+      ).bind(modelMatch[1]).first<{ user_id: string }>();
+
+      if (existing && existing.user_id !== user.userId) {
+        return Response.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      if (existing) {
+        await env.DB.prepare(
+          "UPDATE chat_conversations SET model = ? WHERE id = ?"
+        ).bind(model ?? null, modelMatch[1]).run();
+      } else {
+        await env.DB.prepare(
+          "INSERT INTO chat_conversations (id, user_id, title, model) VALUES (?, ?, ?, ?)"
+        ).bind(modelMatch[1], user.userId, "New conversation", model ?? null).run();
+      }
+
+      return Response.json({
+        success: true,
+        model: model ?? null,
+        effectiveModel: model ?? getDefaultModelIds(env).planning,
+      });
+    } catch (error) {
+      console.error("Update conversation model error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
   return null;
 }
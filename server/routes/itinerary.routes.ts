@@ -1,6 +1,89 @@
 import { requireAuth } from "../middleware/auth.middleware";
-import { generateRandomId } from "../server-crypto";
-import type { Env } from "../types";
+import {
+  buildShareUrl,
+  listUserItineraries,
+  saveItineraryRecord,
+} from "../services/itinerary-store";
+import {
+  getConversationItinerary,
+  storeConversationItinerary,
+} from "../services/conversation-itinerary";
+import { validateItinerary } from "../services/itinerary-validation";
+import { buildPackingList, fetchTripForecast, setPackingItemPacked } from "../services/packing";
+import { optimizeDay } from "../services/route-optimizer";
+import { applyTransportOption } from "../services/transport/selection";
+import { createWeatherProvider } from "../services/weather";
+import type { TransportOption } from "../services/transport/types";
+import type { Day, Env, ItineraryData } from "../types";
+
+// The client's copy of the itinerary, as an object or a JSON string
+type ClientItinerary = ItineraryData | string | undefined;
+
+function badRequest(error: string): Response {
+  return Response.json({ success: false, error }, { status: 400 });
+}
+
+/**
+ * Itinerary an action from the UI applies to: the conversation's stored
+ * version when it is the same itinerary, else the client's copy
+ * Returns a 400 response for a missing itinerary and a 404 response when
+ * the conversation is not the user's
+ */
+async function resolveEditableItinerary(
+  env: Env,
+  userId: string,
+  itinerary: ClientItinerary,
+  conversationId?: string
+): Promise<ItineraryData | Response> {
+  const itineraryData: ItineraryData | undefined = typeof itinerary === "string" ? JSON.parse(itinerary) : itinerary;
+  if (!itineraryData || !Array.isArray(itineraryData.days)) {
+    return badRequest("Request body must contain an itinerary with days");
+  }
+  if (conversationId !== undefined && typeof conversationId !== "string") {
+    return badRequest("conversationId must be a string");
+  }
+  if (!conversationId) return itineraryData;
+
+  const conversation = await env.DB.prepare(
+    "SELECT id FROM chat_conversations WHERE id = ? AND user_id = ?"
+  ).bind(conversationId, userId).first();
+
+  if (!conversation) {
+    return Response.json(
+      { success: false, error: "Conversation not found" },
+      { status: 404 }
+    );
+  }
+
+  // The stored version wins over a possibly stale copy from the client
+  const active = await getConversationItinerary(env.DB, conversationId);
+  return active && active.itinerary.id === itineraryData.id ? active.itinerary : itineraryData;
+}
+
+/**
+ * Persist a UI change: as a new conversation version, or straight to the
+ * saved copy when the itinerary is viewed outside a conversation
+ * Returns the new conversation version, if any
+ */
+async function persistItineraryChange(
+  env: Env,
+  userId: string,
+  itinerary: ItineraryData,
+  conversationId?: string
+): Promise<number | null> {
+  if (conversationId) {
+    return storeConversationItinerary(env, conversationId, userId, itinerary);
+  }
+
+  const saved = await env.DB.prepare(
+    "SELECT is_public FROM itineraries WHERE id = ? AND user_id = ?"
+  ).bind(itinerary.id, userId).first<{ is_public: number }>();
+
+  if (saved) {
+    await saveItineraryRecord(env.DB, userId, itinerary, !!saved.is_public);
+  }
+  return null;
+}
 
 export async function handleItineraryRoutes(
   request: Request,
@@ -15,78 +98,24 @@ export async function handleItineraryRoutes(
     const { user } = authResult;
 
     try {
-      const { itinerary, isPublic } = await request.json();
-      const itineraryData = JSON.parse(itinerary);
-      const shareId = isPublic
-        ? `share_${Date.now()}_${generateRandomId()}`
-        : null;
-
-      await env.DB.prepare(`
-          INSERT OR REPLACE INTO itineraries (
-            id, user_id, title, destination, start_date, end_date, duration,
-            travelers, budget, total_estimated_cost, currency, accommodation_type,
-            interests, data, is_public, share_id
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `).bind(
-        itineraryData.id,
-        user.userId,
-        itineraryData.title,
-        itineraryData.destination,
-        itineraryData.startDate,
-        itineraryData.endDate,
-        itineraryData.duration,
-        itineraryData.travelers,
-        itineraryData.budget || null,
-        itineraryData.totalEstimatedCost,
-        itineraryData.currency || "USD",
-        itineraryData.accommodationType || null,
-        JSON.stringify(itineraryData.interests || []),
-        JSON.stringify(itineraryData),
-        isPublic || false,
-        shareId
-      ).run();
-
-      // Save activities
-      for (const day of itineraryData.days) {
-        for (const activity of day.activities) {
-          try {
-            await env.DB.prepare(`
-                INSERT OR REPLACE INTO activities (
-                  id, itinerary_id, day_number, title, description, location,
-                  latitude, longitude, start_time, end_time, category,
-                  estimated_cost, priority, tips
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-              `).bind(
-              activity.id,
-              itineraryData.id,
-              day.dayNumber,
-              activity.title,
-              activity.description,
-              activity.location,
-              activity.coordinates?.lat || null,
-              activity.coordinates?.lng || null,
-              activity.startTime,
-              activity.endTime || null,
-              activity.category,
-              activity.estimatedCost,
-              activity.priority,
-              JSON.stringify(activity.tips || [])
-            ).run();
-          } catch (activityError) {
-            console.error(
-              `Error saving activity ${activity.id}:`,
-              activityError
-            );
-          }
-        }
+      const { itinerary, isPublic } = await request.json<{ itinerary: string; isPublic?: boolean }>();
+      if (typeof itinerary !== "string" || (isPublic !== undefined && typeof isPublic !== "boolean")) {
+        return badRequest("Body must contain the itinerary as a JSON string and an optional isPublic boolean");
       }
+      const itineraryData: ItineraryData = JSON.parse(itinerary);
+      const { shareId } = await saveItineraryRecord(
+        env.DB,
+        user.userId,
+        itineraryData,
+        isPublic
+      );
 
       return Response.json({
         success: true,
         itineraryId: itineraryData.id,
         shareId,
-        shareUrl: isPublic
-          ? `https://aitinerary.app/share/${shareId}`
+        shareUrl: shareId
+          ? buildShareUrl(url.origin, itineraryData.id)
           : null,
         message: "Itinerary saved successfully",
       });
@@ -108,19 +137,26 @@ export async function handleItineraryRoutes(
       const { searchParams } = new URL(request.url);
       const limit = parseInt(searchParams.get("limit") || "10");
       const offset = parseInt(searchParams.get("offset") || "0");
+      const search = searchParams.get("search") || undefined;
 
-      const itineraries = await env.DB.prepare(`
-          SELECT id, title, destination, duration, is_public, share_id, created_at
-          FROM itineraries
-          WHERE user_id = ?
-          ORDER BY created_at DESC
-          LIMIT ? OFFSET ?
-        `).bind(user.userId, limit, offset).all();
+      const { itineraries, total } = await listUserItineraries(env.DB, user.userId, {
+        limit,
+        offset,
+        search,
+      });
 
       return Response.json({
         success: true,
-        itineraries: itineraries.results,
-        total: itineraries.results.length,
+        itineraries: itineraries.map((itinerary) => ({
+          id: itinerary.id,
+          title: itinerary.title,
+          destination: itinerary.destination,
+          duration: itinerary.duration,
+          is_public: itinerary.isPublic,
+          share_id: itinerary.shareId,
+          created_at: itinerary.createdAt,
+        })),
+        total,
       });
     } catch (error) {
       console.error("Get itineraries error:", error);
@@ -131,5 +167,214 @@ export async function handleItineraryRoutes(
     }
   }
 
+  // Validate itinerary constraints (overlaps, transfers, dates, budget)
+  if (url.pathname === "/api/itineraries/validate" && request.method === "POST") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+
+    try {
+      const { itinerary } = await request.json<{ itinerary: ClientItinerary }>();
+      const itineraryData: ItineraryData | undefined = typeof itinerary === "string" ? JSON.parse(itinerary) : itinerary;
+
+      if (!itineraryData || !Array.isArray(itineraryData.days)) {
+        return badRequest("Request body must contain an itinerary with days");
+      }
+
+      return Response.json({
+        success: true,
+        itineraryId: itineraryData.id,
+        ...validateItinerary(itineraryData),
+      });
+    } catch (error) {
+      console.error("Validate itinerary error:", error);
+      return Response.json(
+        { success: false, error: "Invalid itinerary" },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Reorder one day's activities to shorten the route
+  // With a conversationId the result becomes the conversation's active itinerary
+  if (url.pathname === "/api/itineraries/optimize-day" && request.method === "POST") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { itinerary, dayNumber, conversationId } = await request.json<{
+        itinerary: ClientItinerary;
+        dayNumber: number;
+        conversationId?: string;
+      }>();
+      if (!Number.isInteger(dayNumber)) {
+        return badRequest("dayNumber must be an integer");
+      }
+      const itineraryData = await resolveEditableItinerary(env, user.userId, itinerary, conversationId);
+      if (itineraryData instanceof Response) return itineraryData;
+
+      const day = itineraryData.days.find((d: Day) => d.dayNumber === dayNumber);
+      if (!day) {
+        return badRequest(`Day ${dayNumber} does not exist in this itinerary`);
+      }
+
+      const optimization = optimizeDay(day);
+      const updated = {
+        ...itineraryData,
+        days: itineraryData.days.map((d: Day) => (d.dayNumber === dayNumber ? optimization.day : d)),
+      };
+
+      const version = conversationId && optimization.reordered
+        ? await storeConversationItinerary(env, conversationId, user.userId, updated)
+        : null;
+
+      return Response.json({
+        success: true,
+        dayNumber,
+        beforeKm: optimization.beforeKm,
+        afterKm: optimization.afterKm,
+        savedKm: optimization.savedKm,
+        reordered: optimization.reordered,
+        warnings: optimization.warnings,
+        itinerary: updated,
+        version,
+      });
+    } catch (error) {
+      console.error("Optimize day error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Generate or refresh the packing list of an itinerary
+  if (url.pathname === "/api/itineraries/packing-list" && request.method === "POST") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { itinerary, conversationId } = await request.json<{ itinerary: ClientItinerary; conversationId?: string }>();
+      const itineraryData = await resolveEditableItinerary(env, user.userId, itinerary, conversationId);
+      if (itineraryData instanceof Response) return itineraryData;
+
+      const forecast = await fetchTripForecast(createWeatherProvider(env), itineraryData);
+      const updated = {
+        ...itineraryData,
+        packingList: buildPackingList(itineraryData, forecast, itineraryData.packingList),
+      };
+      const version = await persistItineraryChange(env, user.userId, updated, conversationId);
+
+      return Response.json({
+        success: true,
+        packingList: updated.packingList,
+        itinerary: updated,
+        version,
+      });
+    } catch (error) {
+      console.error("Packing list error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Tick or untick a packing list item
+  if (url.pathname === "/api/itineraries/packing-list" && request.method === "PATCH") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { itinerary, itemId, packed, conversationId } = await request.json<{
+        itinerary: ClientItinerary;
+        itemId: string;
+        packed: boolean;
+        conversationId?: string;
+      }>();
+      if (typeof itemId !== "string" || typeof packed !== "boolean") {
+        return badRequest("Body must contain an itemId string and a packed boolean");
+      }
+      const itineraryData = await resolveEditableItinerary(env, user.userId, itinerary, conversationId);
+      if (itineraryData instanceof Response) return itineraryData;
+
+      let updated: ItineraryData;
+      try {
+        updated = setPackingItemPacked(itineraryData, itemId, packed);
+      } catch (error) {
+        return Response.json(
+          { success: false, error: error instanceof Error ? error.message : "Invalid packing item" },
+          { status: 400 }
+        );
+      }
+
+      const version = await persistItineraryChange(env, user.userId, updated, conversationId);
+
+      return Response.json({
+        success: true,
+        packingList: updated.packingList,
+        itinerary: updated,
+        version,
+      });
+    } catch (error) {
+      console.error("Packing item error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Add a transport option picked from searchTransport results
+  if (url.pathname === "/api/itineraries/transport" && request.method === "POST") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const { itinerary, option, passengers, conversationId } = await request.json<{
+        itinerary: ClientItinerary;
+        option: TransportOption;
+        passengers?: number;
+        conversationId?: string;
+      }>();
+      if (!option || typeof option !== "object") {
+        return badRequest("Body must contain a transport option");
+      }
+      if (passengers !== undefined && (!Number.isInteger(passengers) || passengers < 1)) {
+        return badRequest("passengers must be a positive integer");
+      }
+      const itineraryData = await resolveEditableItinerary(env, user.userId, itinerary, conversationId);
+      if (itineraryData instanceof Response) return itineraryData;
+
+      let result: ReturnType<typeof applyTransportOption>;
+      try {
+        result = applyTransportOption(itineraryData, option, passengers);
+      } catch (error) {
+        return Response.json(
+          { success: false, error: error instanceof Error ? error.message : "Invalid transport option" },
+          { status: 400 }
+        );
+      }
+
+      const version = await persistItineraryChange(env, user.userId, result.itinerary, conversationId);
+
+      return Response.json({
+        success: true,
+        placement: result.placement,
+        itinerary: result.itinerary,
+        version,
+      });
+    } catch (error) {
+      console.error("Add transport error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
   return null;
 }
@@ -0,0 +1,27 @@
+import { requireAuth } from "../middleware/auth.middleware";
+import { getDefaultModelIds, listAvailableModels } from "../services/models";
+import { getToolsRequiringApproval } from "../tools";
+import type { Env } from "../types";
+
+export async function handleModelRoutes(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Models the deployment can serve, for the chat model picker,
+  // and the tools whose calls the chat shows as approval cards
+  if (url.pathname === "/api/models" && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+
+    return Response.json({
+      success: true,
+      models: listAvailableModels(env),
+      defaults: getDefaultModelIds(env),
+      toolsRequiringApproval: getToolsRequiringApproval(env),
+    });
+  }
+
+  return null;
+}
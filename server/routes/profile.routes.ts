@@ -0,0 +1,84 @@
+import { requireAuth } from "../middleware/auth.middleware";
+import {
+  deleteTravelerProfile,
+  emptyTravelerProfile,
+  getTravelerProfile,
+  normalizeTravelerProfile,
+  saveTravelerProfile,
+} from "../services/traveler-profile";
+import type { Env, TravelerProfile } from "../types";
+
+export async function handleProfileRoutes(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Get the traveler profile, empty when the user never saved one
+  if (url.pathname === "/api/profile" && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const profile = await getTravelerProfile(env.DB, user.userId);
+      return Response.json({ success: true, profile: profile ?? emptyTravelerProfile() });
+    } catch (error) {
+      console.error("Get profile error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Replace the traveler profile
+  if (url.pathname === "/api/profile" && request.method === "PUT") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      const body = await request.json();
+
+      let profile: TravelerProfile;
+      try {
+        profile = normalizeTravelerProfile(body);
+      } catch (error) {
+        return Response.json(
+          { success: false, error: error instanceof Error ? error.message : "Invalid profile" },
+          { status: 400 }
+        );
+      }
+
+      const saved = await saveTravelerProfile(env.DB, user.userId, profile);
+      return Response.json({ success: true, profile: saved });
+    } catch (error) {
+      console.error("Save profile error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Forget the traveler profile
+  if (url.pathname === "/api/profile" && request.method === "DELETE") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    try {
+      await deleteTravelerProfile(env.DB, user.userId);
+      return Response.json({ success: true, profile: emptyTravelerProfile() });
+    } catch (error) {
+      console.error("Delete profile error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return null;
+}
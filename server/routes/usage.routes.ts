@@ -0,0 +1,69 @@
+import { requireAuth } from "../middleware/auth.middleware";
+import { getConversationUsage, getUsageSummary, isUsageMonth, usageMonthOf } from "../services/usage";
+import type { Env } from "../types";
+
+export async function handleUsageRoutes(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Usage of a month (?month=YYYY-MM, default the current one) with quota status
+  if (url.pathname === "/api/usage" && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+
+    const month = url.searchParams.get("month") || usageMonthOf(new Date());
+    if (!isUsageMonth(month)) {
+      return Response.json(
+        { success: false, error: "month must be formatted as YYYY-MM" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const usage = await getUsageSummary(env, user.userId, month);
+      return Response.json({ success: true, usage });
+    } catch (error) {
+      console.error("Get usage error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  // Usage of each turn of one conversation
+  const conversationMatch = url.pathname.match(/^\/api\/usage\/conversations\/([^/]+)$/);
+  if (conversationMatch && request.method === "GET") {
+    const authResult = await requireAuth(request, env);
+    if (authResult instanceof Response) return authResult;
+    const { user } = authResult;
+    const conversationId = conversationMatch[1];
+
+    try {
+      const conversation = await env.DB.prepare(
+        "SELECT id FROM chat_conversations WHERE id = ? AND user_id = ?"
+      ).bind(conversationId, user.userId).first();
+
+      if (!conversation) {
+        return Response.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      const events = await getConversationUsage(env.DB, conversationId);
+      return Response.json({ success: true, conversationId, events });
+    } catch (error) {
+      console.error("Get conversation usage error:", error);
+      return Response.json(
+        { success: false, error: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+
+  return null;
+}
@@ -1,7 +1,19 @@
+import type { z } from "zod";
 import { requireAuth } from "../middleware/auth.middleware";
-import { tools } from "../tools";
+import { getToolsRequiringApproval, tools, USER_SCOPED_TOOLS } from "../tools";
+import { appendMessage } from "../services/chat-messages";
+import { generateMessageId } from "../server-crypto";
 import type { Env } from "../types";
 
+// Arguments only the server sets: a client-chosen env would point the
+// providers at any URL, and userId would act for another user
+const SERVER_PROVIDED_ARGS = ["env", "itinerary", "userId", "appOrigin", "profile"];
+
+// Tools that receive the environment bindings as an extra argument
+const TOOLS_WITH_ENV = Object.entries(tools)
+  .filter(([, toolDef]) => "env" in (toolDef.inputSchema as z.ZodObject<z.ZodRawShape>).shape)
+  .map(([name]) => name);
+
 export async function handleVoiceRoutes(
   request: Request,
   env: Env
@@ -23,10 +35,25 @@ export async function handleVoiceRoutes(
 
       console.log(`Saving voice transcript for user ${user.email}:`, body);
 
-      await env.DB.prepare(`
-          INSERT INTO chat_messages (conversation_id, role, content, created_at)
-          VALUES (?, ?, ?, unixepoch())
-        `).bind(body.conversationId, body.role, body.content).run();
+      const conversation = await env.DB.prepare(
+        "SELECT id FROM chat_conversations WHERE id = ? AND user_id = ?"
+      ).bind(body.conversationId, user.userId).first();
+
+      if (!conversation) {
+        return Response.json(
+          { error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      // Stored like chat messages so the history loads them in order
+      const messageId = generateMessageId();
+      await appendMessage(env.DB, body.conversationId, {
+        id: messageId,
+        role: body.role,
+        metadata: { createdAt: new Date().toISOString(), source: "voice" },
+        parts: [{ type: "text", text: body.content }],
+      });
 
       await env.DB.prepare(`
           UPDATE chat_conversations
@@ -34,7 +61,7 @@ export async function handleVoiceRoutes(
           WHERE id = ? AND user_id = ?
         `).bind(body.conversationId, user.userId).run();
 
-      return Response.json({ success: true });
+      return Response.json({ success: true, messageId });
     } catch (error) {
       console.error("Voice transcript save error:", error);
       return Response.json(
@@ -63,10 +90,31 @@ export async function handleVoiceRoutes(
         );
       }
 
-      const toolArgs =
-        toolName === "searchWeb" || toolName === "searchBooking"
-          ? { ...args, env }
-          : args;
+      // Voice has no approval card, these stay in the text chat
+      if (getToolsRequiringApproval(env).includes(toolName)) {
+        return Response.json(
+          { error: `Tool ${toolName} needs the user's approval in the chat` },
+          { status: 403 }
+        );
+      }
+
+      const clientArgs = Object.fromEntries(
+        Object.entries(args ?? {}).filter(([key]) => !SERVER_PROVIDED_ARGS.includes(key))
+      );
+      let toolArgs = TOOLS_WITH_ENV.includes(toolName)
+        ? { ...clientArgs, env }
+        : clientArgs;
+
+      if (USER_SCOPED_TOOLS.includes(toolName)) {
+        const authResult = await requireAuth(request, env);
+        if (authResult instanceof Response) return authResult;
+        toolArgs = {
+          ...clientArgs,
+          userId: authResult.user.userId,
+          appOrigin: url.origin,
+          env,
+        };
+      }
 
       const result = await (tool.execute as any)(toolArgs);
 
@@ -7,12 +7,23 @@ import {
   createUIMessageStream,
   createUIMessageStreamResponse,
   convertToModelMessages,
+  type Tool,
+  type ToolCallOptions,
   type ToolSet,
+  type UIMessageStreamWriter,
 } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
-import { processToolCalls, cleanupMessages } from "./utils";
-import { tools, executions } from "./tools";
-import type { Env } from "./types";
+import { processToolCalls, cleanupMessages, answerWithoutModel, writeTextPart, collectApprovalResults } from "./utils";
+import { tools, getToolsRequiringApproval, ITINERARY_EDIT_TOOLS, USER_SCOPED_TOOLS } from "./tools";
+import { findLatestItinerary } from "./services/itinerary";
+import { getConversationItinerary, storeConversationItinerary } from "./services/conversation-itinerary";
+import { describeTravelerProfile, getTravelerProfile } from "./services/traveler-profile";
+import { listAvailableModels, resolveLanguageModel } from "./services/models";
+import { recordUsage } from "./services/usage";
+import { buildModelContext, describeConversationSummary, describeItineraryContext } from "./services/conversation-context";
+import { listConversationMessages, loadConversationMessages, persistMessages, restoreEarlierMessages } from "./services/chat-messages";
+import { archiveReplacedMessages, recordTurnItinerary } from "./services/message-versions";
+import { notifyConversationsChanged } from "./services/conversations";
+import type { Env, ItineraryData } from "./types";
 import { generateRandomId, generateUserId, generateMessageId } from "./server-crypto";
 
 // Middleware
@@ -24,11 +35,32 @@ import { handleItineraryRoutes } from "./routes/itinerary.routes";
 import { handleConversationRoutes } from "./routes/conversation.routes";
 import { handleVoiceRoutes } from "./routes/voice.routes";
 import { handleCollabRoutes } from "./routes/collab.routes";
+import { handleAdminRoutes } from "./routes/admin.routes";
+import { handleProfileRoutes } from "./routes/profile.routes";
+import { handleModelRoutes } from "./routes/models.routes";
+import { handleUsageRoutes } from "./routes/usage.routes";
+
+// A tool as the agent's wrappers see it: server-side arguments are added to the model's
+type ServerTool = Tool<Record<string, unknown>, unknown>;
+
+async function runTool(name: string, toolDef: ServerTool, args: Record<string, unknown>, options: ToolCallOptions): Promise<unknown> {
+  if (!toolDef.execute) throw new Error(`Tool ${name} has no execute function`);
+  return toolDef.execute(args, options);
+}
+
+// The itinerary tools answer with JSON text, read back when the agent acts on the result
+function parseToolOutput<T>(name: string, output: unknown): T {
+  if (typeof output !== "string") throw new Error(`Tool ${name} did not return JSON text`);
+  return JSON.parse(output) as T;
+}
 
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
  */
 export class Chat extends AIChatAgent<Env> {
+  // JSON of each message as last written to chat_messages, by message id
+  private persistedMessages = new Map<string, string>();
+
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     // IMPORTANT: Clear messages loaded by parent constructor from SQL
@@ -88,15 +120,17 @@ export class Chat extends AIChatAgent<Env> {
 
         // Clear existing messages (they might be from constructor or previous conversation)
         this.messages = [];
+        this.persistedMessages.clear();
 
         try {
-          const dbMessages = await this.env.DB.prepare(
-            "SELECT content FROM chat_messages WHERE conversation_id = ? ORDER BY created_at ASC"
-          ).bind(conversationId).all();
+          const dbMessages = await loadConversationMessages(this.env.DB, conversationId);
 
-          if (dbMessages.results && dbMessages.results.length > 0) {
-            console.log("[Chat DO] Loaded", dbMessages.results.length, "messages from DB");
-            this.messages = dbMessages.results.map((row: any) => JSON.parse(row.content));
+          if (dbMessages.length > 0) {
+            console.log("[Chat DO] Loaded", dbMessages.length, "messages from DB");
+            this.messages = dbMessages;
+            for (const message of dbMessages) {
+              this.persistedMessages.set(message.id, JSON.stringify(message));
+            }
           } else {
             console.log("[Chat DO] No messages in DB for this conversation (new conversation)");
           }
@@ -108,6 +142,9 @@ export class Chat extends AIChatAgent<Env> {
       }
     }
 
+    // Remember the public origin so tools can build share links
+    await this.ctx.storage.put("appOrigin", url.origin);
+
     // Save conversationId if provided
     if (conversationId) {
       await this.ctx.storage.put("conversationId", conversationId);
@@ -131,15 +168,14 @@ export class Chat extends AIChatAgent<Env> {
       console.log("[Chat DO] No token in query params");
     }
 
-    // Check if this is a get-messages request
+    // Initial messages: the latest page, the client loads older ones
+    // from GET /api/conversations/:id/messages?before=
     if (pathname.includes('/get-messages')) {
-      // Only return empty array if there are no messages (new conversation)
-      if (this.messages.length === 0) {
-        console.log("[Chat DO] No messages yet, returning empty array");
-        return new Response(JSON.stringify([]), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
+      const page = conversationId
+        ? await listConversationMessages(this.env.DB, conversationId)
+        : { messages: [], nextCursor: null };
+      console.log("[Chat DO] Returning", page.messages.length, "of", this.messages.length, "messages");
+      return Response.json(page);
     }
 
     return super.onRequest(request);
@@ -147,42 +183,26 @@ export class Chat extends AIChatAgent<Env> {
 
   private async notifyConversationUpdate(userId: string): Promise<void> {
     try {
-      // Get conversations data
-      const conversations = await this.env.DB.prepare(`
-        SELECT id, title, created_at, updated_at
-        FROM chat_conversations
-        WHERE user_id = ?
-        ORDER BY updated_at DESC
-        LIMIT 10
-      `).bind(userId).all();
-
-      const data = conversations.results.map((conv: any) => ({
-        id: conv.id,
-        title: conv.title || "Untitled chat",
-        lastMessage: "",
-        timestamp: conv.updated_at,
-      }));
-
-      // Get NotificationManager DO for this user
-      const id = this.env.NotificationManager.idFromName(userId);
-      const stub = this.env.NotificationManager.get(id);
-
-      console.log("[notifyConversationUpdate] Sending data:", JSON.stringify(data));
-
-      // Notify all connections for this user
-      const response = await stub.fetch(new Request(`https://internal/notify`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, data })
-      }));
-
-      const result = await response.json();
-      console.log("[notifyConversationUpdate] Notified user:", userId, "Response:", result);
+      await notifyConversationsChanged(this.env, userId);
     } catch (error) {
       console.error("[notifyConversationUpdate] Error:", error);
     }
   }
 
+  /**
+   * The itinerary the agent's tools act on: the conversation's stored version,
+   * or the last one found in the chat history for older conversations
+   */
+  private async getActiveItinerary(
+    conversationId: string
+  ): Promise<{ version: number; itinerary: ItineraryData } | null> {
+    const stored = await getConversationItinerary(this.env.DB, conversationId);
+    if (stored) return stored;
+
+    const latest = findLatestItinerary(this.messages);
+    return latest ? { version: 0, itinerary: latest } : null;
+  }
+
   private async generateConversationTitle(conversationId: string, userId: string): Promise<void> {
     try {
       // Get first few messages to generate a title
@@ -198,18 +218,24 @@ export class Chat extends AIChatAgent<Env> {
 
       if (!userMessages) return;
 
-      const openai = createOpenAI({
-        apiKey: this.env.OPENAI_API_KEY,
-        fetch,
-      });
-
-      const model = openai("gpt-4o-mini");
+      const { modelId, model } = resolveLanguageModel(this.env, "title");
 
-      const { text } = await generateText({
+      const { text, usage } = await generateText({
         model,
         prompt: `Based on this conversation, generate a short, descriptive title (max 6 words) that summarizes the trip or topic:\n\n${userMessages}\n\nTitle:`,
       });
 
+      await recordUsage(this.env, {
+        userId,
+        conversationId,
+        purpose: "title",
+        model: modelId,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        totalTokens: usage.totalTokens ?? 0,
+        toolCalls: []
+      }).catch((error) => console.error("[generateConversationTitle] Could not record usage:", error));
+
       const title = text.trim().replace(/^["']|["']$/g, '');
 
       // Update conversation title in D1
@@ -305,8 +331,8 @@ export class Chat extends AIChatAgent<Env> {
 
     // Create conversation record in D1 if it doesn't exist
     const existingConv = await this.env.DB.prepare(
-      "SELECT id FROM chat_conversations WHERE id = ?"
-    ).bind(conversationId).first();
+      "SELECT id, model FROM chat_conversations WHERE id = ?"
+    ).bind(conversationId).first<{ id: string; model: string | null }>();
 
     if (!existingConv) {
       console.log("[onChatMessage] Creating new conversation in DB");
@@ -319,17 +345,118 @@ export class Chat extends AIChatAgent<Env> {
       await this.notifyConversationUpdate(userId);
     }
 
+    const appOrigin = await this.ctx.storage.get<string>("appOrigin");
+
+    // A missing or unreadable profile just means no personal defaults
+    const travelerProfile = await getTravelerProfile(this.env.DB, user.userId).catch((error) => {
+      console.error("[onChatMessage] Could not load traveler profile:", error);
+      return null;
+    });
+    const travelerProfilePrompt = describeTravelerProfile(travelerProfile);
+
+    // Set once the UI message stream starts, used to push itinerary versions
+    let streamWriter: UIMessageStreamWriter | undefined;
+    const activateItinerary = async (itinerary: ItineraryData) => {
+      const version = await storeConversationItinerary(this.env, conversationId, user.userId, itinerary);
+      console.log("[onChatMessage] Itinerary", itinerary.id, "now at version", version);
+      streamWriter?.write({
+        type: "data-itinerary",
+        data: { version, itinerary },
+        transient: true,
+      });
+      return version;
+    };
+
     // Collect all tools with special handling for certain tools
-    const toolsWithEnv = Object.fromEntries(
-      Object.entries(tools).map(([name, toolDef]) => {
+    const toolsWithEnv: Record<string, ServerTool> = Object.fromEntries(
+      Object.entries(tools as Record<string, ServerTool>).map(([name, toolDef]) => {
         // Tools that need env
-        if (name === "searchWeb" || name === "searchBooking") {
+        if (name === "searchWeb" || name === "searchBooking" || name === "searchTransport" || name === "getDestinationInfo") {
+          return [
+            name,
+            {
+              ...toolDef,
+              execute: async (args: Record<string, unknown>, options: ToolCallOptions) => {
+                return runTool(name, toolDef, { ...args, env: this.env }, options);
+              },
+            },
+          ];
+        }
+
+        // calculateTravelTime resolves activity IDs against the current itinerary,
+        // getWeatherInfo defaults to the itinerary's date range,
+        // validateItinerary checks it
+        if (name === "calculateTravelTime" || name === "getWeatherInfo" || name === "validateItinerary") {
+          return [
+            name,
+            {
+              ...toolDef,
+              execute: async (args: Record<string, unknown>, options: ToolCallOptions) => {
+                const active = await this.getActiveItinerary(conversationId);
+                return runTool(name, toolDef, { ...args, itinerary: active?.itinerary, env: this.env }, options);
+              },
+            },
+          ];
+        }
+
+        // Saved itinerary tools act on behalf of the authenticated user,
+        // never on a userId chosen by the model
+        if (USER_SCOPED_TOOLS.includes(name)) {
+          return [
+            name,
+            {
+              ...toolDef,
+              execute: async (args: Record<string, unknown>, options: ToolCallOptions) => {
+                const active = await this.getActiveItinerary(conversationId);
+                const output = await runTool(name, toolDef, {
+                  ...args,
+                  itinerary: active?.itinerary,
+                  userId: user.userId,
+                  appOrigin,
+                  env: this.env,
+                }, options);
+
+                // A loaded itinerary becomes the one the edit tools act on
+                if (name === "loadItinerary") {
+                  const result = parseToolOutput<{ success: boolean; itinerary?: ItineraryData }>(name, output);
+                  if (result.success && result.itinerary) {
+                    await activateItinerary(result.itinerary);
+                  }
+                }
+
+                return output;
+              },
+            },
+          ];
+        }
+
+        // Edit tools patch the active itinerary; the agent persists the result
+        // and streams the new version instead of echoing the whole itinerary
+        if (ITINERARY_EDIT_TOOLS.includes(name)) {
+          return [
+            name,
+            {
+              ...toolDef,
+              execute: async (args: Record<string, unknown>, options: ToolCallOptions) => {
+                const active = await this.getActiveItinerary(conversationId);
+                const output = await runTool(name, toolDef, { ...args, itinerary: active?.itinerary, env: this.env }, options);
+                const { itinerary, ...result } = parseToolOutput<{ itinerary: ItineraryData }>(name, output);
+                const version = await activateItinerary(itinerary);
+                return JSON.stringify({ ...result, version }, null, 2);
+              },
+            },
+          ];
+        }
+
+        if (name === "generateCompleteItinerary") {
           return [
             name,
             {
               ...toolDef,
-              execute: async (args: any) => {
-                return toolDef.execute({ ...args, env: this.env });
+              execute: async (args: Record<string, unknown>, options: ToolCallOptions) => {
+                const output = await runTool(name, toolDef, { ...args, profile: travelerProfile, env: this.env }, options);
+                await activateItinerary(parseToolOutput<ItineraryData>(name, output));
+                return output;
               },
             },
           ];
@@ -341,8 +468,7 @@ export class Chat extends AIChatAgent<Env> {
             name,
             {
               ...toolDef,
-              execute: async (args: any) => {
-                const { title } = args;
+              execute: async ({ title }: Record<string, unknown>) => {
                 console.log("[updateConversationTitle] Updating title to:", title);
 
                 // Update in database
@@ -362,51 +488,131 @@ export class Chat extends AIChatAgent<Env> {
       })
     );
 
-    const allTools = {
-      ...toolsWithEnv,
-      ...this.mcp.getAITools(),
+    // Destructive tools reach the model without execute, so a call stops at
+    // "input-available" until the user answers; processToolCalls then runs it
+    const toolsRequiringApproval = getToolsRequiringApproval(this.env);
+    const approvalExecutions: Record<string, (args: Record<string, unknown>, options: ToolCallOptions) => Promise<unknown>> = {};
+    const modelTools = Object.fromEntries(
+      Object.entries(toolsWithEnv).map(([name, toolDef]) => {
+        if (!toolsRequiringApproval.includes(name)) return [name, toolDef];
+        const { execute, ...proposal } = toolDef;
+        approvalExecutions[name] = (args, options) => runTool(name, toolDef, args, options);
+        return [name, proposal];
+      })
+    );
+
+    // agents builds the MCP tools with its own copy of ai, same shape
+    const allTools: ToolSet = {
+      ...modelTools,
+      ...(this.mcp.getAITools() as ToolSet),
     };
 
     console.log("[onChatMessage] Creating UI message stream");
 
     const stream = createUIMessageStream({
       execute: async ({ writer }) => {
+        streamWriter = writer;
         try {
           console.log(
             "[onChatMessage] Stream execute started, messages count:",
             this.messages.length
           );
 
-          const cleanedMessages = cleanupMessages(this.messages);
-          console.log(
-            "[onChatMessage] Messages cleaned, count:",
-            cleanedMessages.length
-          );
+          // The client sends the history from the oldest message it loaded
+          this.messages = restoreEarlierMessages(this.messages, this.persistedMessages);
+
+          // An edited message or a regenerated reply left out later messages: keep them as a version
+          const rolledBack = await archiveReplacedMessages(
+            this.env,
+            conversationId,
+            user.userId,
+            this.messages,
+            this.persistedMessages
+          ).catch((error) => {
+            console.error("[onChatMessage] Could not keep the replaced messages:", error);
+            return null;
+          });
+          if (rolledBack) {
+            writer.write({
+              type: "data-itinerary",
+              data: { ...rolledBack, rollback: true },
+              transient: true,
+            });
+          }
+
+          // What editing this turn's message or regenerating its reply rolls the itinerary back to
+          const turnMessageId = [...this.messages].reverse().find((message) => message.role === "user")?.id;
+          if (turnMessageId) {
+            await recordTurnItinerary(this.env.DB, conversationId, turnMessageId).catch((error) => {
+              console.error("[onChatMessage] Could not record the turn's itinerary:", error);
+            });
+          }
 
+          // Approval results by toolCallId, so an approved change is applied once.
+          // They are written into the saved tool parts; DO storage only holds
+          // the ones not written yet
+          const resolvedKey = `approvalResults:${conversationId}`;
+          const pendingResults = (await this.ctx.storage.get<Record<string, unknown>>(resolvedKey)) ?? {};
+          const resolvedResults = new Map([
+            ...collectApprovalResults(
+              [...this.persistedMessages.values()].map((content) => JSON.parse(content)),
+              toolsRequiringApproval
+            ),
+            ...Object.entries(pendingResults),
+          ]);
+          const resolvedBefore = resolvedResults.size;
+
+          // Answered approvals first: cleanup would drop the calls still waiting
           const processedMessages = await processToolCalls({
-            messages: cleanedMessages,
+            messages: this.messages,
             dataStream: writer,
             tools: allTools,
-            executions,
+            executions: approvalExecutions,
+            resolvedResults,
           });
 
+          if (resolvedResults.size > resolvedBefore) {
+            await this.ctx.storage.put(resolvedKey, Object.fromEntries(resolvedResults));
+          }
+          if (resolvedResults.size > resolvedBefore || Object.keys(pendingResults).length > 0) {
+            try {
+              // Clients get the results in place of their decisions
+              await this.persistMessages(processedMessages);
+              await persistMessages(this.env.DB, conversationId, this.messages, this.persistedMessages);
+              await this.ctx.storage.delete(resolvedKey);
+            } catch (error) {
+              console.error("[onChatMessage] Could not save the approval results, kept for the next turn:", error);
+            }
+          }
+
           console.log(
             "[onChatMessage] Messages processed, count:",
             processedMessages.length
           );
 
-          if (!this.env.OPENAI_API_KEY) {
-            writer.writeText("OpenAI API key is not configured.");
-            return;
-          }
+          const cleanedMessages = cleanupMessages(processedMessages);
+          console.log(
+            "[onChatMessage] Messages cleaned, count:",
+            cleanedMessages.length
+          );
 
-          const openai = createOpenAI({
-            apiKey: this.env.OPENAI_API_KEY,
-            fetch,
-          });
+          if (await answerWithoutModel(this.env, user.userId, writer)) return;
+
+          // The conversation's model when it picked one that is still configured
+          const { modelId, model } = resolveLanguageModel(this.env, "planning", existingConv?.model);
+          console.log("[onChatMessage] Model", modelId, "created, starting streamText");
 
-          const model = openai("gpt-4o-mini-2024-07-18");
-          console.log("[onChatMessage] OpenAI model created, starting streamText");
+          // Long histories go out as a summary plus the recent turns, itinerary JSON as a reference
+          const activeItinerary = await this.getActiveItinerary(conversationId);
+          const context = await buildModelContext(this.env, {
+            conversationId,
+            userId: user.userId,
+            messages: cleanedMessages,
+            itinerary: activeItinerary,
+          });
+          const itineraryPrompt = describeItineraryContext(activeItinerary);
+          const summaryPrompt = describeConversationSummary(context.summary);
+          console.log("[onChatMessage] Sending", context.messages.length, "of", cleanedMessages.length, "messages", context.summary ? "with a summary" : "");
 
           const wrappedOnFinish: StreamTextOnFinishCallback<ToolSet> = async (event) => {
             console.log("[wrappedOnFinish] Called!");
@@ -417,28 +623,26 @@ export class Chat extends AIChatAgent<Env> {
             await onFinish(event);
             console.log("[wrappedOnFinish] Original onFinish completed");
 
-            // Save all messages to DB with correct conversationId
             try {
-              console.log("[onFinish] Saving messages to DB, conversationId:", conversationId);
-              console.log("[onFinish] Total messages to save:", this.messages.length);
-
-              // Delete old messages for this conversation
-              await this.env.DB.prepare(
-                "DELETE FROM chat_messages WHERE conversation_id = ?"
-              ).bind(conversationId).run();
-
-              // Save all current messages
-              for (const message of this.messages) {
-                await this.env.DB.prepare(
-                  "INSERT INTO chat_messages (conversation_id, role, content, created_at) VALUES (?, ?, ?, datetime('now'))"
-                ).bind(
-                  conversationId,
-                  message.role,
-                  JSON.stringify(message)
-                ).run();
-              }
+              await recordUsage(this.env, {
+                userId: user.userId,
+                conversationId,
+                messageId: turnMessageId,
+                purpose: "planning",
+                model: modelId,
+                inputTokens: event.totalUsage.inputTokens ?? 0,
+                outputTokens: event.totalUsage.outputTokens ?? 0,
+                totalTokens: event.totalUsage.totalTokens ?? 0,
+                toolCalls: event.steps.flatMap((step) => step.toolCalls.map((call) => call.toolName))
+              });
+            } catch (error) {
+              console.error("[onFinish] Error recording usage:", error);
+            }
 
-              console.log("[onFinish] Messages saved successfully");
+            // Save new and changed messages with correct conversationId
+            try {
+              const written = await persistMessages(this.env.DB, conversationId, this.messages, this.persistedMessages);
+              console.log("[onFinish] Saved", written, "of", this.messages.length, "messages, conversationId:", conversationId);
             } catch (error) {
               console.error("[onFinish] Error saving messages:", error);
             }
@@ -503,8 +707,31 @@ ACTIVITY MODIFICATION HANDLING:
 - Example: "✓ I've added 'Visit Long Island' to day 3 of your itinerary."
 - Example: "✓ I've removed the Brooklyn Bridge activity from your itinerary."
 - Example: "✓ I've updated the Statue of Liberty visit with your requested changes."
-`,
-            messages: convertToModelMessages(processedMessages),
+- replaceActivity, removeActivity and removeMultipleActivities only propose the change: the user approves or rejects it in the chat before it is applied. Say what you proposed and why, and do not claim the change is done until the tool result arrives. If the user rejects it, read their reason from the result and suggest an alternative instead of retrying the same change
+- Modification tools act on the current itinerary and fail on unknown activity IDs or day numbers. Use the exact IDs from the latest itinerary, and if a tool fails, tell the user instead of claiming success
+- Costs can be in any ISO currency: set generateCompleteItinerary's currency to the one the user budgets in, and give activity prices in the local currency when you know them. Use changeItineraryCurrency when the user wants totals in another currency
+- Activity times are local to the destination. generateCompleteItinerary infers the IANA timezone from the coordinates; pass timezone explicitly only when the user names one or the trip sits near a timezone border
+- For trips through several cities, pass stops (in travel order, each departing on the date the next one arrives) and one leg per change of city with a realistic mode, times and cost. Activity times on each day are local to that day's city
+- When the user asks to reduce travel or reorganize a day, call optimizeDay and report the distance saved. Mark booked slots with fixedTime so they stay anchored
+- Use searchTransport for getting to the destination and between cities instead of inventing transport activities. Present a few options with local departure and arrival times, and when the user picks one call addTransportOption with that option unchanged
+- When the user asks what to pack, call generatePackingList instead of answering from general knowledge, then summarize the list by category and point out the weather- and activity-specific items
+- When the user mentions mobility needs (wheelchair, no stairs, short walks, step-free transport), or the traveler profile has them, pass them as generateCompleteItinerary's accessibility constraints and fill in each activity's accessibility (stepFree, stairsHeavy, accessibleToilets, walkingKm) from what you know of the venue. Leave a field out when unsure. Prefer taxis over long walks and pick step-free alternatives to stairs-heavy sites
+
+SAVED ITINERARIES:
+- Use getUserItineraries (with search) to find the user's saved trips, then loadItinerary to open one
+- Example: "load my Tokyo trip from last month" -> getUserItineraries with search "Tokyo", pick the one saved last month, then loadItinerary with its itineraryId
+- saveItinerary and shareItinerary work on the current itinerary, never ask the user for their user ID
+
+SELF-CHECK:
+- After generateCompleteItinerary or a batch of modifications, call validateItinerary
+- Fix errors (overlapping times, days outside the trip dates, total over budget, accessibility violations) with the modification tools before answering
+- Mention remaining warnings (tight transfers, expensive days, empty days) briefly to the user
+
+TRAVEL TIMES:
+- Use calculateTravelTime with originActivityId/destinationActivityId when both places are activities in the current itinerary
+- For other places, pass originCoordinates/destinationCoordinates with accurate lat/lng
+${travelerProfilePrompt ? `\n${travelerProfilePrompt}\n` : ""}${itineraryPrompt ? `\n${itineraryPrompt}\n` : ""}${summaryPrompt ? `\n${summaryPrompt}\n` : ""}`,
+            messages: convertToModelMessages(context.messages),
             tools: allTools,
             model,
             maxSteps: 10,
@@ -517,7 +744,8 @@ ACTIVITY MODIFICATION HANDLING:
           writer.merge(result.toUIMessageStream());
         } catch (error) {
           console.error("[onChatMessage] Error in stream execute:", error);
-          writer.writeText(
+          writeTextPart(
+            writer,
             `Error: ${error instanceof Error ? error.message : "Unknown error"}`
           );
         }
@@ -535,13 +763,13 @@ export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
-    // Check OpenAI key
+    // Check that some model provider is configured (the path predates Workers AI and local models)
     if (url.pathname === "/check-open-ai-key") {
       try {
-        const hasKey = !!env.OPENAI_API_KEY && env.OPENAI_API_KEY.length > 0;
+        const hasKey = listAvailableModels(env).length > 0;
         return Response.json({
           success: hasKey,
-          message: hasKey ? "OpenAI key is configured" : "OpenAI key is not configured",
+          message: hasKey ? "A model provider is configured" : "No model provider is configured",
         });
       } catch (error) {
         return Response.json({
@@ -568,6 +796,18 @@ export default {
     const collabResponse = await handleCollabRoutes(request, env);
     if (collabResponse) return collabResponse;
 
+    const profileResponse = await handleProfileRoutes(request, env);
+    if (profileResponse) return profileResponse;
+
+    const modelResponse = await handleModelRoutes(request, env);
+    if (modelResponse) return modelResponse;
+
+    const usageResponse = await handleUsageRoutes(request, env);
+    if (usageResponse) return usageResponse;
+
+    const adminResponse = await handleAdminRoutes(request, env);
+    if (adminResponse) return adminResponse;
+
     // Route to agent or let assets handle it (including SPA routing)
     return (
       (await routeAgentRequest(request, env)) ||
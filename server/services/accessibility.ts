@@ -0,0 +1,105 @@
+/**
+ * Accessibility helpers for itinerary planning
+ * Walking is estimated from the activity coordinates: each transfer is taken
+ * the way calculateTravelTime would suggest (walk when it is short, otherwise
+ * transit or taxi), plus the walking an activity itself involves
+ */
+import type { AccessibilityConstraints, Activity } from "../types";
+import { isValidCoordinates } from "./geo";
+import { DEFAULT_TARIFF } from "./tariffs";
+import { parseTimeOfDay } from "./time-of-day";
+import { estimateAllModes, estimateTransfer, MAX_SUGGESTED_WALK_MINUTES, type TravelEstimate } from "./travel-time";
+
+// Walking to and from the stops on a public transport transfer
+const TRANSIT_ACCESS_WALK_KM = 0.5;
+
+export interface DayTransfer {
+  from: Activity;
+  to: Activity;
+  estimate: TravelEstimate;
+  walkingKm: number;
+}
+
+export interface DayWalking {
+  totalKm: number;
+  transferKm: number;
+  activityKm: number;
+  transfers: DayTransfer[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function walkingKmOf(estimate: TravelEstimate): number {
+  switch (estimate.mode) {
+    case "walking":
+      return estimate.distanceKm;
+    case "public_transport":
+      return TRANSIT_ACCESS_WALK_KM;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The way a traveler would take a transfer: on foot when it is a short
+ * walk, otherwise the fastest sensible mode
+ */
+function suggestTransfer(from: Activity, to: Activity): TravelEstimate {
+  const walking = estimateAllModes(from.coordinates!, to.coordinates!, DEFAULT_TARIFF).find((estimate) => estimate.mode === "walking");
+  if (walking?.recommended && walking.durationMinutes <= MAX_SUGGESTED_WALK_MINUTES) return walking;
+  return estimateTransfer(from.coordinates!, to.coordinates!, DEFAULT_TARIFF);
+}
+
+/**
+ * Transfers between consecutive activities of a day, in start time order
+ * Activities without valid coordinates or time are skipped
+ */
+export function estimateDayTransfers(activities: Activity[]): DayTransfer[] {
+  const located = activities
+    .filter((activity) => isValidCoordinates(activity.coordinates) && parseTimeOfDay(activity.startTime) !== null)
+    .sort((a, b) => parseTimeOfDay(a.startTime)! - parseTimeOfDay(b.startTime)!);
+
+  const transfers: DayTransfer[] = [];
+  for (let i = 1; i < located.length; i++) {
+    const from = located[i - 1];
+    const to = located[i];
+    const estimate = suggestTransfer(from, to);
+    transfers.push({ from, to, estimate, walkingKm: walkingKmOf(estimate) });
+  }
+  return transfers;
+}
+
+/**
+ * Estimated walking for one day, in kilometers
+ */
+export function estimateDayWalking(activities: Activity[]): DayWalking {
+  const transfers = estimateDayTransfers(activities);
+  const transferKm = transfers.reduce((total, transfer) => total + transfer.walkingKm, 0);
+  const activityKm = activities.reduce((total, activity) => total + (activity.accessibility?.walkingKm ?? 0), 0);
+
+  return {
+    totalKm: round(transferKm + activityKm),
+    transferKm: round(transferKm),
+    activityKm: round(activityKm),
+    transfers
+  };
+}
+
+export function hasAccessibilityConstraints(constraints: AccessibilityConstraints | undefined): constraints is AccessibilityConstraints {
+  return !!constraints && (
+    !!constraints.wheelchairUser ||
+    !!constraints.avoidStairs ||
+    !!constraints.stepFreeTransport ||
+    (constraints.maxWalkingKmPerDay !== undefined && constraints.maxWalkingKmPerDay > 0)
+  );
+}
+
+/**
+ * Wheelchair users need everything a stairs-averse traveler needs
+ */
+export function resolveAccessibilityConstraints(constraints: AccessibilityConstraints): AccessibilityConstraints {
+  if (!constraints.wheelchairUser) return constraints;
+  return { ...constraints, avoidStairs: true, stepFreeTransport: true };
+}
@@ -0,0 +1,124 @@
+/**
+ * Chat message history (migrations/0010_chat_messages_append_only.sql)
+ * Messages are keyed by their UI message id: new ones are appended, changed
+ * ones (a tool result arriving, an approval answered) are updated in place,
+ * and nothing is deleted, so voice transcripts written alongside survive
+ */
+import type { UIMessage } from "ai";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface MessagePage {
+  messages: UIMessage[];
+  nextCursor: string | null; // pass as ?before= for older messages
+}
+
+export function parseMessage(row: { message_id: string; role: string; content: string }): UIMessage {
+  try {
+    return JSON.parse(row.content);
+  } catch {
+    // Plain text rows from before message ids, shown as a text message
+    return { id: row.message_id, role: row.role as UIMessage["role"], parts: [{ type: "text", text: row.content }] };
+  }
+}
+
+/**
+ * Every message of a conversation, oldest first
+ */
+export async function loadConversationMessages(db: D1Database, conversationId: string): Promise<UIMessage[]> {
+  const { results } = await db.prepare(
+    "SELECT message_id, role, content FROM chat_messages WHERE conversation_id = ? ORDER BY id"
+  ).bind(conversationId).all<{ message_id: string; role: string; content: string }>();
+
+  return results.map(parseMessage);
+}
+
+/**
+ * A page of messages ending before the cursor, oldest first within the page
+ */
+export async function listConversationMessages(
+  db: D1Database,
+  conversationId: string,
+  options: { before?: string | null; limit?: number } = {}
+): Promise<MessagePage> {
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const before = options.before ? Number(options.before) : null;
+
+  const { results } = await db.prepare(`
+      SELECT id, message_id, role, content FROM chat_messages
+      WHERE conversation_id = ? AND (? IS NULL OR id < ?)
+      ORDER BY id DESC
+      LIMIT ?
+    `).bind(conversationId, before, before, limit + 1).all<{ id: number; message_id: string; role: string; content: string }>();
+
+  const page = results.slice(0, limit).reverse();
+  return {
+    messages: page.map(parseMessage),
+    nextCursor: results.length > limit ? String(page[0].id) : null
+  };
+}
+
+/**
+ * A client that loaded only the latest pages sends the history from its first
+ * loaded message on; put the earlier persisted messages back in front.
+ * persisted is the agent's map of written messages, in conversation order
+ */
+export function restoreEarlierMessages(messages: UIMessage[], persisted: Map<string, string>): UIMessage[] {
+  const ids = [...persisted.keys()];
+  const first = messages.length > 0 ? ids.indexOf(messages[0].id) : -1;
+  if (first <= 0) return messages;
+
+  return [...ids.slice(0, first).map((id) => JSON.parse(persisted.get(id) as string) as UIMessage), ...messages];
+}
+
+export function isMessageCursor(value: string): boolean {
+  return /^\d+$/.test(value);
+}
+
+/**
+ * Write the messages that are new or changed since the last call
+ * persisted maps message id to the JSON last written and is updated in place,
+ * seed it with the loaded history. All writes go out in one batch
+ */
+export async function persistMessages(
+  db: D1Database,
+  conversationId: string,
+  messages: UIMessage[],
+  persisted: Map<string, string>
+): Promise<number> {
+  const changed = messages
+    .map((message) => ({ message, content: JSON.stringify(message) }))
+    .filter(({ message, content }) => persisted.get(message.id) !== content);
+
+  if (changed.length === 0) return 0;
+
+  await db.batch(
+    changed.map(({ message, content }) =>
+      db.prepare(`
+          INSERT INTO chat_messages (conversation_id, message_id, role, content, created_at, updated_at)
+          VALUES (?, ?, ?, ?, unixepoch(), unixepoch())
+          ON CONFLICT(conversation_id, message_id) DO UPDATE SET
+            role = excluded.role,
+            content = excluded.content,
+            updated_at = excluded.updated_at
+        `).bind(conversationId, message.id, message.role, content)
+    )
+  );
+
+  for (const { message, content } of changed) {
+    persisted.set(message.id, content);
+  }
+  return changed.length;
+}
+
+/**
+ * Append a single message, e.g. a voice transcript
+ */
+export async function appendMessage(db: D1Database, conversationId: string, message: UIMessage): Promise<void> {
+  await db.prepare(`
+      INSERT INTO chat_messages (conversation_id, message_id, role, content, created_at, updated_at)
+      VALUES (?, ?, ?, ?, unixepoch(), unixepoch())
+      ON CONFLICT(conversation_id, message_id) DO NOTHING
+    `).bind(conversationId, message.id, message.role, JSON.stringify(message)).run();
+}
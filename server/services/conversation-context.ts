@@ -0,0 +1,329 @@
+/**
+ * What the Chat agent sends to the model from a long conversation
+ * (migrations/0009_conversation_summaries.sql)
+ *
+ * Itinerary JSON in tool calls is replaced by a reference to the itinerary;
+ * the current version is outlined once in the system prompt. Other large tool
+ * payloads are shortened outside the recent turns. When the history is still
+ * over budget, older turns are folded into a running summary that is stored,
+ * so later turns and reloads only summarize what is new
+ */
+import { generateText, isToolUIPart, type UIMessage } from "ai";
+import type { Env, ItineraryData } from "../types";
+import { resolveLanguageModel } from "./models";
+import { recordUsage } from "./usage";
+
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 12000;
+// Messages always sent verbatim, so the model sees the current exchange as it happened
+const RECENT_MESSAGES_KEPT = 6;
+// Tool inputs and outputs longer than this are shortened outside the recent turns
+const MAX_TOOL_PAYLOAD_CHARS = 1500;
+const TRANSCRIPT_TOOL_OUTPUT_CHARS = 400;
+
+// Tools whose output is a whole itinerary
+const ITINERARY_OUTPUT_TOOLS = ["generateCompleteItinerary", "loadItinerary"];
+
+export interface ConversationSummary {
+  summary: string;
+  coversMessageId: string;
+  coveredMessages: number;
+}
+
+export interface ModelContext {
+  messages: UIMessage[];
+  summary: string | null;
+}
+
+/**
+ * Rough token count, about 4 characters per token for JSON and English text
+ */
+export function estimateTokens(messages: UIMessage[]): number {
+  return Math.ceil(JSON.stringify(messages).length / 4);
+}
+
+function parseBudget(raw: string | undefined): number {
+  const budget = Number(raw);
+  return raw && Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+function payloadLength(value: unknown): number {
+  if (value === undefined) return 0;
+  return typeof value === "string" ? value.length : JSON.stringify(value).length;
+}
+
+/**
+ * Keep the scalar fields of a large object so the call stays readable
+ */
+function shortenPayload(value: unknown): unknown {
+  const parsed = typeof value === "string" ? safeParse(value) : value;
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return `${String(value).slice(0, MAX_TOOL_PAYLOAD_CHARS)}… [shortened]`;
+  }
+
+  const kept = Object.fromEntries(
+    Object.entries(parsed).filter(([, field]) => field === null || typeof field !== "object")
+  );
+  return { ...kept, omitted: `${payloadLength(value)} characters shortened to save context` };
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Itinerary a generate or load output carries, null for failed loads
+ */
+function outputItinerary(toolName: string, output: unknown): Pick<ItineraryData, "id" | "title"> | null {
+  const parsed: any = typeof output === "string" ? safeParse(output) : output;
+  const itinerary = toolName === "loadItinerary" ? parsed?.success && parsed.itinerary : parsed;
+  return typeof itinerary?.id === "string" ? itinerary : null;
+}
+
+/**
+ * Reference left in place of an itinerary output; only the current itinerary
+ * points to the system prompt, earlier ones keep their own ID and title
+ */
+function itineraryReference(
+  itinerary: Pick<ItineraryData, "id" | "title">,
+  current: { version: number; itinerary: ItineraryData } | null
+) {
+  if (current && itinerary.id === current.itinerary.id) {
+    return {
+      itineraryRef: { id: itinerary.id, title: current.itinerary.title, version: current.version },
+      note: "Itinerary omitted from the history. The current version is under CURRENT ITINERARY in the system prompt"
+    };
+  }
+
+  return {
+    itineraryRef: { id: itinerary.id, title: itinerary.title },
+    note: "Itinerary omitted from the history. It is not the current itinerary; load it with loadItinerary to see it"
+  };
+}
+
+/**
+ * Copy of the messages with itinerary payloads replaced by references and,
+ * before recentStart, other large tool payloads shortened
+ */
+export function compactToolPayloads(
+  messages: UIMessage[],
+  current: { version: number; itinerary: ItineraryData } | null,
+  recentStart: number
+): UIMessage[] {
+  return messages.map((message, index) => {
+    const isRecent = index >= recentStart;
+    let changed = false;
+
+    const parts = message.parts.map((part) => {
+      if (!isToolUIPart(part) || part.state !== "output-available") return part;
+      const toolName = part.type.slice("tool-".length);
+
+      const itinerary = ITINERARY_OUTPUT_TOOLS.includes(toolName) ? outputItinerary(toolName, part.output) : null;
+      if (itinerary) {
+        changed = true;
+        return {
+          ...part,
+          input: payloadLength(part.input) > MAX_TOOL_PAYLOAD_CHARS ? shortenPayload(part.input) : part.input,
+          output: JSON.stringify(itineraryReference(itinerary, current))
+        };
+      }
+
+      if (isRecent) return part;
+
+      const longInput = payloadLength(part.input) > MAX_TOOL_PAYLOAD_CHARS;
+      const longOutput = payloadLength(part.output) > MAX_TOOL_PAYLOAD_CHARS;
+      if (!longInput && !longOutput) return part;
+
+      changed = true;
+      return {
+        ...part,
+        input: longInput ? shortenPayload(part.input) : part.input,
+        output: longOutput ? JSON.stringify(shortenPayload(part.output)) : part.output
+      };
+    });
+
+    return changed ? ({ ...message, parts } as UIMessage) : message;
+  });
+}
+
+/**
+ * Compact outline of the itinerary with the IDs the edit tools need
+ */
+export function describeItineraryContext(current: { version: number; itinerary: ItineraryData } | null): string | null {
+  if (!current) return null;
+  const { itinerary, version } = current;
+
+  const header = [
+    `${itinerary.title} (id ${itinerary.id}, version ${version})`,
+    `${itinerary.destination}, ${itinerary.startDate} to ${itinerary.endDate}, ${itinerary.travelers} travelers`,
+    `Total ${itinerary.totalEstimatedCost} ${itinerary.currency}${itinerary.budget ? ` of a ${itinerary.budget} ${itinerary.currency} budget` : ""}`
+  ];
+  if (itinerary.timezone) header.push(`Timezone ${itinerary.timezone}`);
+
+  const days = itinerary.days.map((day) => {
+    const activities = day.activities.map((activity) => {
+      const time = activity.endTime ? `${activity.startTime}-${activity.endTime}` : activity.startTime;
+      const cost = activity.estimatedCost ? ` · ${activity.estimatedCost} ${activity.currency ?? itinerary.currency}` : "";
+      const fixed = activity.fixedTime ? " · fixed time" : "";
+      return `  - [${activity.id}] ${time} ${activity.title} (${activity.category}, ${activity.location})${cost}${fixed}`;
+    });
+    return [`Day ${day.dayNumber} (${day.date}):`, ...(activities.length > 0 ? activities : ["  (no activities)"])].join("\n");
+  });
+
+  return `CURRENT ITINERARY:
+The itinerary the tools act on. Tool calls in the history refer to it instead of repeating it; use these activity IDs.
+${header.join("\n")}
+${days.join("\n")}`;
+}
+
+export async function getConversationSummary(db: D1Database, conversationId: string): Promise<ConversationSummary | null> {
+  const row = await db.prepare(
+    "SELECT summary, covers_message_id, covered_messages FROM conversation_summaries WHERE conversation_id = ?"
+  ).bind(conversationId).first<{ summary: string; covers_message_id: string; covered_messages: number }>();
+
+  if (!row) return null;
+
+  return { summary: row.summary, coversMessageId: row.covers_message_id, coveredMessages: row.covered_messages };
+}
+
+async function saveConversationSummary(db: D1Database, conversationId: string, summary: ConversationSummary): Promise<void> {
+  await db.prepare(`
+      INSERT INTO conversation_summaries (conversation_id, summary, covers_message_id, covered_messages, updated_at)
+      VALUES (?, ?, ?, ?, unixepoch())
+      ON CONFLICT(conversation_id) DO UPDATE SET
+        summary = excluded.summary,
+        covers_message_id = excluded.covers_message_id,
+        covered_messages = excluded.covered_messages,
+        updated_at = excluded.updated_at
+    `).bind(conversationId, summary.summary, summary.coversMessageId, summary.coveredMessages).run();
+}
+
+/**
+ * Plain-text transcript for the summarizer, tool calls shown by name with a short result
+ */
+function toTranscript(messages: UIMessage[]): string {
+  return messages
+    .map((message) => {
+      const lines = message.parts.flatMap((part) => {
+        if (part.type === "text") return [part.text];
+        if (isToolUIPart(part)) {
+          const output = part.state === "output-available" ? payloadToText(part.output) : "no result";
+          return [`[${part.type.slice("tool-".length)}] ${output.slice(0, TRANSCRIPT_TOOL_OUTPUT_CHARS)}`];
+        }
+        return [];
+      });
+      return `${message.role === "user" ? "User" : "Assistant"}: ${lines.join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+function payloadToText(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+async function summarize(
+  env: Env,
+  userId: string,
+  conversationId: string,
+  previous: string | null,
+  messages: UIMessage[]
+): Promise<string> {
+  const { modelId, model } = resolveLanguageModel(env, "summary");
+
+  const { text, usage } = await generateText({
+    model,
+    prompt: `You keep the running summary of a travel planning conversation between a user and an assistant. The assistant will only see this summary instead of these turns, so keep everything it needs to continue: destination, dates, travelers, budget and currency, preferences and constraints, decisions made, options the user rejected and why, and open questions. Do not list the itinerary's activities, the current itinerary is provided separately. Write at most 250 words as short bullet points.
+
+${previous ? `Summary so far:\n${previous}\n\n` : ""}New turns to fold in:
+${toTranscript(messages)}
+
+Updated summary:`,
+  });
+
+  await recordUsage(env, {
+    userId,
+    conversationId,
+    purpose: "summary",
+    model: modelId,
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    totalTokens: usage.totalTokens ?? 0,
+    toolCalls: []
+  }).catch((error) => console.error("[conversation-context] Could not record usage:", error));
+
+  return text.trim();
+}
+
+/**
+ * Messages and summary to send to the model for this turn
+ * A failed summary falls back to the compacted history
+ */
+export async function buildModelContext(
+  env: Env,
+  params: {
+    conversationId: string;
+    userId: string;
+    messages: UIMessage[];
+    itinerary: { version: number; itinerary: ItineraryData } | null;
+  }
+): Promise<ModelContext> {
+  const { conversationId, userId, messages, itinerary } = params;
+  const budget = parseBudget(env.CONTEXT_TOKEN_BUDGET);
+
+  const compacted = compactToolPayloads(messages, itinerary, messages.length - RECENT_MESSAGES_KEPT);
+
+  // A summary is only valid while the message it ends at is still in the history
+  let stored = await getConversationSummary(env.DB, conversationId);
+  let start = 0;
+  if (stored) {
+    const coveredIndex = compacted.findIndex((message) => message.id === stored?.coversMessageId);
+    if (coveredIndex === -1) {
+      console.log("[conversation-context] Stored summary no longer matches the history, ignoring it");
+      stored = null;
+    } else {
+      start = coveredIndex + 1;
+    }
+  }
+
+  const remaining = compacted.slice(start);
+  if (estimateTokens(remaining) <= budget || remaining.length <= RECENT_MESSAGES_KEPT) {
+    return { messages: remaining, summary: stored?.summary ?? null };
+  }
+
+  // Keep the recent turns from a user message on, so no reply loses its question
+  let cut = remaining.length - RECENT_MESSAGES_KEPT;
+  while (cut > 0 && remaining[cut].role !== "user") cut--;
+  if (cut === 0) {
+    return { messages: remaining, summary: stored?.summary ?? null };
+  }
+
+  try {
+    const folded = remaining.slice(0, cut);
+    const summary = await summarize(env, userId, conversationId, stored?.summary ?? null, folded);
+    const next: ConversationSummary = {
+      summary,
+      coversMessageId: folded[folded.length - 1].id,
+      coveredMessages: start + cut
+    };
+    await saveConversationSummary(env.DB, conversationId, next);
+    console.log("[conversation-context] Summarized", next.coveredMessages, "messages of", conversationId);
+
+    return { messages: remaining.slice(cut), summary };
+  } catch (error) {
+    console.error("[conversation-context] Summarization failed, sending the compacted history:", error);
+    return { messages: remaining, summary: stored?.summary ?? null };
+  }
+}
+
+/**
+ * System prompt section for the summary
+ */
+export function describeConversationSummary(summary: string | null): string | null {
+  if (!summary) return null;
+  return `EARLIER IN THIS CONVERSATION:
+Summary of the turns before the messages below.
+${summary}`;
+}
@@ -0,0 +1,378 @@
+/**
+ * Conversation export as Markdown, JSON or HTML, to hand a planning session
+ * to someone outside the app
+ *
+ * Messages are first turned into blocks (text, itinerary, hotels, weather or
+ * a one-line tool call) that every format renders the same way. The current
+ * itinerary is appended at the end, since edits made after it was generated
+ * only show up in the history as tool calls
+ */
+import { isToolUIPart, type UIMessage } from "ai";
+import type { ItineraryData } from "../types";
+import type { HotelResult } from "./search/types";
+import { loadConversationMessages } from "./chat-messages";
+import { getConversationItinerary } from "./conversation-itinerary";
+import { ConversationNotFoundError } from "./conversations";
+
+export const EXPORT_FORMATS = ["md", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportBlock =
+  | { type: "text"; text: string }
+  | { type: "itinerary"; itinerary: ItineraryData }
+  | { type: "hotels"; destination: string; checkIn?: string; checkOut?: string; hotels: HotelResult[] }
+  | {
+      type: "weather";
+      location: string;
+      startDate: string;
+      endDate: string;
+      forecast: Array<{ date: string; temperature: string; condition: string; precipitation: string }>;
+      recommendations: string[];
+      note?: string;
+    }
+  | { type: "tool"; name: string; summary: string };
+
+export interface ExportedMessage {
+  id: string;
+  role: UIMessage["role"];
+  blocks: ExportBlock[];
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  exportedAt: string;
+  messages: ExportedMessage[];
+  itinerary: ItineraryData | null; // Current version
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+function parseOutput(output: unknown): Record<string, any> | null {
+  if (typeof output !== "string") return output && typeof output === "object" ? (output as Record<string, any>) : null;
+  try {
+    const parsed = JSON.parse(output);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function humanizeToolName(name: string): string {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Readable block for a tool call: the structured ones the request cares about,
+ * else its name with the result message or error
+ */
+function toolBlock(part: any): ExportBlock {
+  const name = part.type.slice("tool-".length);
+
+  if (part.state === "output-error") {
+    return { type: "tool", name, summary: `Failed: ${part.errorText ?? "unknown error"}` };
+  }
+  if (part.state !== "output-available") {
+    return { type: "tool", name, summary: part.state === "approval-requested" ? "Waiting for approval" : "No result" };
+  }
+
+  const output = parseOutput(part.output);
+  if (output) {
+    if (name === "generateCompleteItinerary" && Array.isArray(output.days)) {
+      return { type: "itinerary", itinerary: output as ItineraryData };
+    }
+    if (name === "loadItinerary" && output.success && output.itinerary) {
+      return { type: "itinerary", itinerary: output.itinerary };
+    }
+    if (name === "searchBooking" && Array.isArray(output.hotels) && output.hotels.length > 0) {
+      return {
+        type: "hotels",
+        destination: output.destination,
+        checkIn: output.checkIn,
+        checkOut: output.checkOut,
+        hotels: output.hotels
+      };
+    }
+    if (name === "getWeatherInfo" && Array.isArray(output.forecast) && output.forecast.length > 0) {
+      return {
+        type: "weather",
+        location: output.location,
+        startDate: output.startDate,
+        endDate: output.endDate,
+        forecast: output.forecast,
+        recommendations: output.recommendations ?? [],
+        note: output.note
+      };
+    }
+  }
+
+  const summary = output?.error ?? output?.message ?? (typeof part.output === "string" && !output ? part.output : "Done");
+  return { type: "tool", name, summary: String(summary) };
+}
+
+function toBlocks(message: UIMessage): ExportBlock[] {
+  return message.parts.flatMap((part): ExportBlock[] => {
+    if (part.type === "text") return part.text.trim() ? [{ type: "text", text: part.text.trim() }] : [];
+    if (isToolUIPart(part)) return [toolBlock(part)];
+    return [];
+  });
+}
+
+/**
+ * Everything an export renders; throws ConversationNotFoundError when the user does not own it
+ */
+export async function buildConversationExport(
+  db: D1Database,
+  userId: string,
+  conversationId: string
+): Promise<ExportedConversation> {
+  const conversation = await db.prepare(
+    "SELECT id, title, created_at FROM chat_conversations WHERE id = ? AND user_id = ?"
+  ).bind(conversationId, userId).first<{ id: string; title: string | null; created_at: number }>();
+  if (!conversation) throw new ConversationNotFoundError("Conversation not found");
+
+  const [messages, itinerary] = await Promise.all([
+    loadConversationMessages(db, conversationId),
+    getConversationItinerary(db, conversationId)
+  ]);
+
+  return {
+    id: conversation.id,
+    title: conversation.title || "Untitled chat",
+    createdAt: new Date(conversation.created_at * 1000).toISOString(),
+    exportedAt: new Date().toISOString(),
+    messages: messages
+      .map((message) => ({ id: message.id, role: message.role, blocks: toBlocks(message) }))
+      .filter((message) => message.blocks.length > 0),
+    itinerary: itinerary?.itinerary ?? null
+  };
+}
+
+function roleLabel(role: UIMessage["role"]): string {
+  return role === "user" ? "User" : role === "assistant" ? "Assistant" : "System";
+}
+
+function formatMoney(amount: number | undefined, currency: string | undefined): string {
+  return amount ? `${amount} ${currency ?? ""}`.trim() : "";
+}
+
+function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function formatHotelPrice(hotel: HotelResult): string {
+  return hotel.price?.text ?? "";
+}
+
+function formatHotelRating(hotel: HotelResult): string {
+  if (hotel.rating === null) return "";
+  return `${hotel.rating}/10${hotel.reviewCount ? ` (${hotel.reviewCount} reviews)` : ""}`;
+}
+
+function describeTrip(itinerary: ItineraryData): string {
+  const budget = itinerary.budget ? ` of a ${itinerary.budget} ${itinerary.currency} budget` : "";
+  return `${itinerary.destination}, ${itinerary.startDate} to ${itinerary.endDate} · ${itinerary.travelers} travelers · ` +
+    `estimated ${itinerary.totalEstimatedCost} ${itinerary.currency}${budget}`;
+}
+
+// Markdown
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function markdownItinerary(itinerary: ItineraryData, heading: string): string[] {
+  const lines = [`${heading} ${itinerary.title}`, "", describeTrip(itinerary), ""];
+
+  for (const day of itinerary.days) {
+    lines.push(`**Day ${day.dayNumber}** · ${day.date}`, "");
+    if (day.activities.length === 0) {
+      lines.push("_No activities_", "");
+      continue;
+    }
+    lines.push("| Time | Activity | Location | Cost |", "| --- | --- | --- | --- |");
+    for (const activity of day.activities) {
+      const time = activity.endTime ? `${activity.startTime}–${activity.endTime}` : activity.startTime;
+      const cost = formatMoney(activity.estimatedCost, activity.currency ?? itinerary.currency);
+      lines.push(`| ${escapeCell(time)} | ${escapeCell(activity.title)} | ${escapeCell(activity.location)} | ${cost} |`);
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
+
+function markdownBlock(block: ExportBlock): string[] {
+  switch (block.type) {
+    case "text":
+      return [block.text, ""];
+    case "itinerary":
+      return markdownItinerary(block.itinerary, "####");
+    case "hotels": {
+      const dates = block.checkIn ? ` (${block.checkIn} to ${block.checkOut ?? "?"})` : "";
+      return [
+        `**Accommodation in ${block.destination}${dates}**`,
+        "",
+        ...block.hotels.map((hotel) => {
+          const details = [formatHotelPrice(hotel), formatHotelRating(hotel), hotel.location ?? ""].filter(Boolean);
+          const name = isWebUrl(hotel.url) ? `[${hotel.name}](${hotel.url})` : hotel.name;
+          return `- ${name}${details.length > 0 ? ` · ${details.join(" · ")}` : ""}`;
+        }),
+        ""
+      ];
+    }
+    case "weather":
+      return [
+        `**Weather in ${block.location}** (${block.startDate} to ${block.endDate})`,
+        "",
+        ...block.forecast.map((day) => `- ${day.date}: ${day.condition}, ${day.temperature}, ${day.precipitation} chance of rain`),
+        ...block.recommendations.map((recommendation) => `- _${recommendation}_`),
+        ...(block.note ? ["", `_${block.note}_`] : []),
+        ""
+      ];
+    case "tool":
+      return [`> ${humanizeToolName(block.name)}: ${block.summary.replace(/\n/g, " ")}`, ""];
+  }
+}
+
+export function renderConversationMarkdown(conversation: ExportedConversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `_Started ${conversation.createdAt.slice(0, 10)}, exported ${conversation.exportedAt.slice(0, 10)}_`,
+    ""
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push(`### ${roleLabel(message.role)}`, "", ...message.blocks.flatMap(markdownBlock));
+  }
+
+  if (conversation.itinerary) {
+    lines.push("---", "", ...markdownItinerary(conversation.itinerary, "## Current itinerary:"));
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// HTML
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlParagraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+function htmlItinerary(itinerary: ItineraryData, heading: string): string {
+  const days = itinerary.days.map((day) => {
+    const rows = day.activities.map((activity) => {
+      const time = activity.endTime ? `${activity.startTime}–${activity.endTime}` : activity.startTime;
+      const cost = formatMoney(activity.estimatedCost, activity.currency ?? itinerary.currency);
+      return `<tr><td>${escapeHtml(time)}</td><td>${escapeHtml(activity.title)}</td><td>${escapeHtml(activity.location)}</td><td>${escapeHtml(cost)}</td></tr>`;
+    });
+    const table = rows.length > 0
+      ? `<table><thead><tr><th>Time</th><th>Activity</th><th>Location</th><th>Cost</th></tr></thead><tbody>${rows.join("")}</tbody></table>`
+      : "<p><em>No activities</em></p>";
+    return `<h4>Day ${day.dayNumber} · ${escapeHtml(day.date)}</h4>\n${table}`;
+  });
+
+  return `<section class="itinerary">
+<${heading}>${escapeHtml(itinerary.title)}</${heading}>
+<p class="meta">${escapeHtml(describeTrip(itinerary))}</p>
+${days.join("\n")}
+</section>`;
+}
+
+function htmlBlock(block: ExportBlock): string {
+  switch (block.type) {
+    case "text":
+      return htmlParagraphs(block.text);
+    case "itinerary":
+      return htmlItinerary(block.itinerary, "h3");
+    case "hotels": {
+      const dates = block.checkIn ? ` (${block.checkIn} to ${block.checkOut ?? "?"})` : "";
+      const items = block.hotels.map((hotel) => {
+        const details = [formatHotelPrice(hotel), formatHotelRating(hotel), hotel.location ?? ""].filter(Boolean);
+        const name = isWebUrl(hotel.url) ? `<a href="${escapeHtml(hotel.url)}">${escapeHtml(hotel.name)}</a>` : escapeHtml(hotel.name);
+        return `<li>${name}${details.length > 0 ? ` · ${escapeHtml(details.join(" · "))}` : ""}</li>`;
+      });
+      return `<div class="tool"><strong>Accommodation in ${escapeHtml(block.destination + dates)}</strong><ul>${items.join("")}</ul></div>`;
+    }
+    case "weather": {
+      const days = block.forecast.map((day) =>
+        `<li>${escapeHtml(`${day.date}: ${day.condition}, ${day.temperature}, ${day.precipitation} chance of rain`)}</li>`
+      );
+      const recommendations = block.recommendations.map((recommendation) => `<li><em>${escapeHtml(recommendation)}</em></li>`);
+      return `<div class="tool"><strong>Weather in ${escapeHtml(`${block.location} (${block.startDate} to ${block.endDate})`)}</strong>` +
+        `<ul>${days.join("")}${recommendations.join("")}</ul>${block.note ? `<p class="meta">${escapeHtml(block.note)}</p>` : ""}</div>`;
+    }
+    case "tool":
+      return `<p class="tool-call">${escapeHtml(`${humanizeToolName(block.name)}: ${block.summary}`)}</p>`;
+  }
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#111827;line-height:1.5}
+.meta{color:#6b7280;font-size:.875rem}
+.message{border-top:1px solid #e5e7eb;padding:1rem 0}
+.message.user{background:#f9fafb;padding:1rem;border-radius:.75rem;border:none;margin:1rem 0}
+.role{font-weight:600;font-size:.875rem;color:#374151}
+.tool,.itinerary{border:1px solid #e5e7eb;border-radius:.5rem;padding:.75rem 1rem;margin:.75rem 0}
+.tool-call{color:#6b7280;font-size:.875rem}
+table{border-collapse:collapse;width:100%;font-size:.875rem}
+th,td{text-align:left;border-bottom:1px solid #e5e7eb;padding:.25rem .5rem}`;
+
+export function renderConversationHtml(conversation: ExportedConversation): string {
+  const messages = conversation.messages.map((message) =>
+    `<div class="message ${message.role}">
+<div class="role">${roleLabel(message.role)}</div>
+${message.blocks.map(htmlBlock).join("\n")}
+</div>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Started ${conversation.createdAt.slice(0, 10)}, exported ${conversation.exportedAt.slice(0, 10)}</p>
+${messages.join("\n")}
+${conversation.itinerary ? htmlItinerary(conversation.itinerary, "h2") : ""}
+</body>
+</html>
+`;
+}
+
+/**
+ * File body, MIME type and name for a format
+ */
+export function renderConversationExport(
+  conversation: ExportedConversation,
+  format: ExportFormat
+): { body: string; contentType: string; filename: string } {
+  const basename = conversation.title.replace(/[^a-z0-9]+/gi, "_").replace(/^_|_$/g, "").toLowerCase() || "conversation";
+
+  switch (format) {
+    case "md":
+      return { body: renderConversationMarkdown(conversation), contentType: "text/markdown; charset=utf-8", filename: `${basename}.md` };
+    case "html":
+      return { body: renderConversationHtml(conversation), contentType: "text/html; charset=utf-8", filename: `${basename}.html` };
+    case "json":
+      return { body: JSON.stringify(conversation, null, 2), contentType: "application/json; charset=utf-8", filename: `${basename}.json` };
+  }
+}
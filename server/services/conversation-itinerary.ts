@@ -0,0 +1,75 @@
+/**
+ * Active itinerary of a chat conversation (migrations/0004_conversation_itineraries.sql)
+ * Written by the Chat agent's tools and by itinerary actions taken in the UI,
+ * so both always edit the same version
+ */
+import type { Env, ItineraryData } from "../types";
+import { saveItineraryRecord } from "./itinerary-store";
+
+export interface ConversationItinerary {
+  version: number;
+  itinerary: ItineraryData;
+  updatedAt: number;
+}
+
+export async function getConversationItinerary(
+  db: D1Database,
+  conversationId: string
+): Promise<ConversationItinerary | null> {
+  const row = await db.prepare(
+    "SELECT version, data, updated_at FROM conversation_itineraries WHERE conversation_id = ?"
+  ).bind(conversationId).first<{ version: number; data: string; updated_at: number }>();
+
+  if (!row) return null;
+
+  return { version: row.version, itinerary: JSON.parse(row.data), updatedAt: row.updated_at };
+}
+
+/**
+ * Store a new version of the conversation's itinerary and propagate it to the
+ * saved copy and the collaborative session when the user saved it
+ * Returns the new version number
+ */
+export async function storeConversationItinerary(
+  env: Env,
+  conversationId: string,
+  userId: string,
+  itinerary: ItineraryData
+): Promise<number> {
+  const row = await env.DB.prepare(`
+      INSERT INTO conversation_itineraries (conversation_id, itinerary_id, version, data, updated_at)
+      VALUES (?, ?, 1, ?, unixepoch())
+      ON CONFLICT(conversation_id) DO UPDATE SET
+        itinerary_id = excluded.itinerary_id,
+        version = conversation_itineraries.version + 1,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+      RETURNING version
+    `).bind(conversationId, itinerary.id, JSON.stringify(itinerary)).first<{ version: number }>();
+
+  const version = row?.version ?? 1;
+
+  try {
+    const saved = await env.DB.prepare(
+      "SELECT is_public FROM itineraries WHERE id = ? AND user_id = ?"
+    ).bind(itinerary.id, userId).first<{ is_public: number }>();
+
+    if (saved) {
+      await saveItineraryRecord(env.DB, userId, itinerary, !!saved.is_public);
+
+      await env.CollaborativeItinerary.getByName(itinerary.id).syncItinerary(itinerary, version);
+    }
+  } catch (error) {
+    console.error("[storeConversationItinerary] Error syncing saved itinerary:", error);
+  }
+
+  return version;
+}
+
+/**
+ * Drop the conversation's itinerary, e.g. when the version of the chat in use never had one
+ * Versions start again at 1 with the next one stored
+ */
+export async function clearConversationItinerary(db: D1Database, conversationId: string): Promise<void> {
+  await db.prepare("DELETE FROM conversation_itineraries WHERE conversation_id = ?").bind(conversationId).run();
+}
@@ -0,0 +1,312 @@
+/**
+ * Chat conversations of a user: the sidebar list, its live updates, forks,
+ * pins, archive and search (migrations/0011_conversation_forks.sql,
+ * migrations/0012_conversation_management.sql)
+ */
+import type { Env, ItineraryData } from "../types";
+import { getToolsRequiringApproval } from "../tools";
+import { settleApprovalDecisions } from "../utils";
+import { findLatestItinerary } from "./itinerary";
+import { getConversationItinerary, storeConversationItinerary } from "./conversation-itinerary";
+import { loadConversationMessages, persistMessages } from "./chat-messages";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const SEARCH_RESULTS = 20;
+
+export interface ConversationListItem {
+  id: string;
+  title: string;
+  lastMessage: string;
+  timestamp: number;
+  parentId: string | null; // Conversation this one was forked from
+  pinned: boolean;
+  archived: boolean;
+}
+
+export interface ConversationPage {
+  conversations: ConversationListItem[];
+  nextCursor: string | null; // pass as ?cursor= for the next page
+}
+
+export interface ConversationSearchResult extends ConversationListItem {
+  snippet: string | null; // Matching message text, terms wrapped in [ ]
+}
+
+interface ConversationRow {
+  id: string;
+  title: string | null;
+  updated_at: number;
+  parent_conversation_id: string | null;
+  pinned_at: number | null;
+  archived_at: number | null;
+}
+
+const LIST_COLUMNS = "id, title, updated_at, parent_conversation_id, pinned_at, archived_at";
+
+function toListItem(row: ConversationRow): ConversationListItem {
+  return {
+    id: row.id,
+    title: row.title || "Untitled chat",
+    lastMessage: "",
+    timestamp: row.updated_at,
+    parentId: row.parent_conversation_id,
+    pinned: row.pinned_at !== null,
+    archived: row.archived_at !== null,
+  };
+}
+
+// Cursor of the unpinned list: "<updated_at>:<id>" of the last conversation of the page
+function encodeCursor(row: ConversationRow): string {
+  return `${row.updated_at}:${row.id}`;
+}
+
+export function parseConversationCursor(cursor: string): { updatedAt: number; id: string } | null {
+  const separator = cursor.indexOf(":");
+  const updatedAt = Number(cursor.slice(0, separator));
+  if (separator <= 0 || !Number.isInteger(updatedAt) || separator === cursor.length - 1) return null;
+  return { updatedAt, id: cursor.slice(separator + 1) };
+}
+
+/**
+ * A page of conversations, most recently updated first
+ * The first page of the main list starts with every pinned conversation;
+ * the archived list holds archived ones only, pinned or not
+ */
+export async function listConversations(
+  db: D1Database,
+  userId: string,
+  options: { archived?: boolean; cursor?: string | null; limit?: number } = {}
+): Promise<ConversationPage> {
+  const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const cursor = options.cursor ? parseConversationCursor(options.cursor) : null;
+  const archived = options.archived ?? false;
+
+  const pinned = !archived && !cursor
+    ? (await db.prepare(`
+        SELECT ${LIST_COLUMNS} FROM chat_conversations
+        WHERE user_id = ? AND archived_at IS NULL AND pinned_at IS NOT NULL
+        ORDER BY pinned_at DESC
+      `).bind(userId).all<ConversationRow>()).results
+    : [];
+
+  const { results } = await db.prepare(`
+      SELECT ${LIST_COLUMNS} FROM chat_conversations
+      WHERE user_id = ?
+        AND ${archived ? "archived_at IS NOT NULL" : "archived_at IS NULL AND pinned_at IS NULL"}
+        AND (? IS NULL OR updated_at < ? OR (updated_at = ? AND id < ?))
+      ORDER BY updated_at DESC, id DESC
+      LIMIT ?
+    `).bind(
+    userId,
+    cursor?.updatedAt ?? null,
+    cursor?.updatedAt ?? null,
+    cursor?.updatedAt ?? null,
+    cursor?.id ?? null,
+    limit + 1
+  ).all<ConversationRow>();
+
+  const page = results.slice(0, limit);
+  return {
+    conversations: [...pinned, ...page].map(toListItem),
+    nextCursor: results.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * First page of the main list, as the sidebar shows it
+ */
+export async function listRecentConversations(db: D1Database, userId: string): Promise<ConversationListItem[]> {
+  return (await listConversations(db, userId)).conversations;
+}
+
+/**
+ * FTS5 query from what the user typed: every word must match, the last one as a prefix
+ */
+export function buildSearchQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.map((word, index) => `"${word}"${index === words.length - 1 ? "*" : ""}`).join(" ");
+}
+
+/**
+ * Conversations whose title or message text match, best match first
+ */
+export async function searchConversations(
+  db: D1Database,
+  userId: string,
+  text: string
+): Promise<ConversationSearchResult[]> {
+  const query = buildSearchQuery(text);
+  if (!query) return [];
+
+  // The bare snippet column comes from the row with the lowest rank in each group
+  const { results } = await db.prepare(`
+      WITH matches AS (
+        SELECT c.id AS conversation_id, bm25(conversation_title_search) AS rank, NULL AS snippet
+        FROM conversation_title_search
+        JOIN chat_conversations c ON c.rowid = conversation_title_search.rowid
+        WHERE conversation_title_search MATCH ? AND c.user_id = ?
+        UNION ALL
+        SELECT m.conversation_id, bm25(chat_message_search), snippet(chat_message_search, 0, '[', ']', '…', 12)
+        FROM chat_message_search
+        JOIN chat_messages m ON m.id = chat_message_search.rowid
+        JOIN chat_conversations c ON c.id = m.conversation_id
+        WHERE chat_message_search MATCH ? AND c.user_id = ?
+      ),
+      best AS (
+        SELECT conversation_id, MIN(rank) AS rank, snippet FROM matches GROUP BY conversation_id
+      )
+      SELECT ${LIST_COLUMNS.split(", ").map((column) => `c.${column}`).join(", ")}, best.snippet
+      FROM best
+      JOIN chat_conversations c ON c.id = best.conversation_id
+      ORDER BY best.rank
+      LIMIT ?
+    `).bind(query, userId, query, userId, SEARCH_RESULTS).all<ConversationRow & { snippet: string | null }>();
+
+  return results.map((row) => ({ ...toListItem(row), snippet: row.snippet }));
+}
+
+/**
+ * Pin or archive a conversation; returns false when the user does not own it
+ * Neither touches updated_at, so the list order stays put
+ */
+export async function updateConversationFlags(
+  db: D1Database,
+  userId: string,
+  conversationId: string,
+  flags: { pinned?: boolean; archived?: boolean }
+): Promise<boolean> {
+  const timestamp = (value: boolean | undefined, column: string) =>
+    value === undefined ? column : value ? `COALESCE(${column}, unixepoch())` : "NULL";
+
+  const row = await db.prepare(`
+      UPDATE chat_conversations
+      SET pinned_at = ${timestamp(flags.pinned, "pinned_at")},
+        archived_at = ${timestamp(flags.archived, "archived_at")}
+      WHERE id = ? AND user_id = ?
+      RETURNING id
+    `).bind(conversationId, userId).first<{ id: string }>();
+
+  return !!row;
+}
+
+/**
+ * Delete a conversation with its messages, itinerary and summary
+ * Forks of it stay, detached from their parent; usage records are kept
+ */
+export async function deleteConversation(db: D1Database, userId: string, conversationId: string): Promise<boolean> {
+  const row = await db.prepare(
+    "DELETE FROM chat_conversations WHERE id = ? AND user_id = ? RETURNING id"
+  ).bind(conversationId, userId).first<{ id: string }>();
+
+  return !!row;
+}
+
+/**
+ * Push the user's conversation list to their open SSE streams
+ */
+export async function notifyConversationsChanged(env: Env, userId: string): Promise<void> {
+  const data = await listRecentConversations(env.DB, userId);
+
+  const stub = env.NotificationManager.get(env.NotificationManager.idFromName(userId));
+  const response = await stub.fetch(new Request("https://internal/notify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, data })
+  }));
+
+  console.log("[notifyConversationsChanged] Notified user:", userId, "Response:", await response.json());
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationNotFoundError";
+  }
+}
+
+function generateConversationId(): string {
+  return `conv_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * New conversation with the history of another one up to and including a message
+ * The fork starts from the itinerary as it was at that message: the one recorded
+ * when the next turn started (the message's own turn for a user message), the
+ * current version when no turn followed, else the last one generated or loaded
+ * before it. It gets a new id so edits in the fork never reach the original's
+ * saved copy. Approval decisions the original never answered in its messages
+ * are settled, so the fork does not apply an approved change a second time
+ */
+export async function forkConversation(
+  env: Env,
+  userId: string,
+  sourceId: string,
+  messageId: string
+): Promise<ConversationListItem> {
+  const source = await env.DB.prepare(
+    "SELECT id, title, model FROM chat_conversations WHERE id = ? AND user_id = ?"
+  ).bind(sourceId, userId).first<{ id: string; title: string | null; model: string | null }>();
+  if (!source) throw new ConversationNotFoundError("Conversation not found");
+
+  const forkPoint = await env.DB.prepare(
+    "SELECT id FROM chat_messages WHERE conversation_id = ? AND message_id = ?"
+  ).bind(sourceId, messageId).first<{ id: number }>();
+  if (!forkPoint) throw new ConversationNotFoundError("Message not found in this conversation");
+
+  const forkId = generateConversationId();
+  const title = `${source.title || "Untitled chat"} (fork)`;
+
+  await env.DB.batch([
+    env.DB.prepare(`
+        INSERT INTO chat_conversations (id, user_id, title, model, parent_conversation_id, forked_from_message_id)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).bind(forkId, userId, title, source.model, sourceId, messageId),
+    env.DB.prepare(`
+        INSERT INTO chat_messages (conversation_id, message_id, role, content, created_at, updated_at)
+        SELECT ?, message_id, role, content, created_at, unixepoch()
+        FROM chat_messages
+        WHERE conversation_id = ? AND id <= ?
+        ORDER BY id
+      `).bind(forkId, sourceId, forkPoint.id),
+  ]);
+
+  const messages = await loadConversationMessages(env.DB, forkId);
+  const settled = settleApprovalDecisions(messages, getToolsRequiringApproval(env));
+  await persistMessages(env.DB, forkId, settled, new Map(messages.map((message) => [message.id, JSON.stringify(message)])));
+
+  const nextTurn = await env.DB.prepare(`
+      SELECT t.message_id IS NOT NULL AS recorded, t.itinerary
+      FROM chat_messages m
+      LEFT JOIN chat_turn_itineraries t ON t.conversation_id = m.conversation_id AND t.message_id = m.message_id
+      WHERE m.conversation_id = ? AND m.role = 'user' AND m.id >= ?
+      ORDER BY m.id
+      LIMIT 1
+    `).bind(sourceId, forkPoint.id).first<{ recorded: number; itinerary: string | null }>();
+
+  let itinerary: ItineraryData | null;
+  if (!nextTurn) {
+    itinerary = (await getConversationItinerary(env.DB, sourceId))?.itinerary ?? null;
+  } else if (nextTurn.recorded) {
+    itinerary = nextTurn.itinerary ? JSON.parse(nextTurn.itinerary) as ItineraryData : null;
+  } else {
+    itinerary = findLatestItinerary(settled);
+  }
+
+  if (itinerary) {
+    await storeConversationItinerary(env, forkId, userId, { ...itinerary, id: `itin_${Date.now()}` });
+  }
+
+  console.log("[forkConversation]", sourceId, "forked at", messageId, "into", forkId);
+
+  return {
+    id: forkId,
+    title,
+    lastMessage: "",
+    timestamp: Math.floor(Date.now() / 1000),
+    parentId: sourceId,
+    pinned: false,
+    archived: false,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Exchange rate providers and money conversion for itineraries
+ * The default provider answers offline from bundled rates; the live provider
+ * calls a rates API and falls back to the bundled table when it fails
+ */
+import { BUNDLED_RATES_DATE, BUNDLED_USD_RATES } from "../data/exchange-rates";
+import type { Activity, Env, ExchangeRateSnapshot, ItineraryData, TravelLeg } from "../types";
+
+export interface RatesProvider {
+  name: string;
+  /**
+   * Units of each currency per 1 USD
+   */
+  getRates(): Promise<ExchangeRateSnapshot>;
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Offline provider built from BUNDLED_USD_RATES
+ */
+export function createBundledRatesProvider(): RatesProvider {
+  return {
+    name: "bundled",
+    async getRates() {
+      return { base: "USD", rates: { ...BUNDLED_USD_RATES }, asOf: BUNDLED_RATES_DATE, source: "bundled" };
+    }
+  };
+}
+
+/**
+ * Adapter for a live exchange rate API
+ * Expects GET {baseUrl}/latest?base=USD to answer { date, rates: { EUR: 0.92, ... } }
+ * Currencies missing from the answer keep their bundled rate
+ */
+export function createLiveRatesProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  fallback: RatesProvider
+): RatesProvider {
+  return {
+    name: "live",
+    async getRates() {
+      const bundled = await fallback.getRates();
+
+      try {
+        // Relative to the base so a path prefix in EXCHANGE_RATES_API_URL is kept
+        const url = new URL("latest", baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+        url.searchParams.set("base", "USD");
+
+        const response = await fetch(url.toString(), {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+        });
+
+        if (!response.ok) {
+          throw new Error(`Rates API responded ${response.status}`);
+        }
+
+        const body = (await response.json()) as { date?: string; rates?: Record<string, number> };
+        const liveRates = Object.fromEntries(
+          Object.entries(body.rates || {}).filter(([, rate]) => typeof rate === "number" && rate > 0)
+        );
+
+        return {
+          base: "USD",
+          rates: { ...bundled.rates, ...liveRates, USD: 1 },
+          asOf: body.date || new Date().toISOString().split("T")[0],
+          source: "live"
+        };
+      } catch (error) {
+        console.error("[currency] Live rates failed, using bundled rates:", error);
+        return bundled;
+      }
+    }
+  };
+}
+
+/**
+ * Pick the rates provider configured for this deployment
+ */
+export function createRatesProvider(env?: Pick<Env, "EXCHANGE_RATES_PROVIDER" | "EXCHANGE_RATES_API_URL" | "EXCHANGE_RATES_API_KEY">): RatesProvider {
+  const bundled = createBundledRatesProvider();
+
+  if (env?.EXCHANGE_RATES_PROVIDER === "live" && env.EXCHANGE_RATES_API_URL) {
+    return createLiveRatesProvider(env.EXCHANGE_RATES_API_URL, env.EXCHANGE_RATES_API_KEY, bundled);
+  }
+
+  return bundled;
+}
+
+/**
+ * Uppercase an ISO 4217 code and check the rates know it
+ */
+export function requireCurrency(code: string | undefined, snapshot: ExchangeRateSnapshot): string {
+  const currency = (code || DEFAULT_CURRENCY).trim().toUpperCase();
+  if (!snapshot.rates[currency]) {
+    throw new Error(
+      `Unsupported currency "${code}". Supported: ${Object.keys(snapshot.rates).sort().join(", ")}`
+    );
+  }
+  return currency;
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function convertAmount(amount: number, from: string, to: string, snapshot: ExchangeRateSnapshot): number {
+  if (from === to) return amount;
+  const fromRate = snapshot.rates[from];
+  const toRate = snapshot.rates[to];
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate between ${from} and ${to}`);
+  }
+  return roundMoney((amount / fromRate) * toRate);
+}
+
+/**
+ * Rates an itinerary converts with: the snapshot stored on it so edits convert
+ * consistently, or the bundled rates for itineraries saved before snapshots existed
+ */
+export function itineraryRates(itinerary: ItineraryData): ExchangeRateSnapshot {
+  return itinerary.exchangeRates ?? {
+    base: "USD",
+    rates: BUNDLED_USD_RATES,
+    asOf: BUNDLED_RATES_DATE,
+    source: "bundled"
+  };
+}
+
+/**
+ * Fill each activity's and leg's original currency and its cost in the itinerary currency
+ */
+export function priceActivities(itinerary: ItineraryData): ItineraryData {
+  const snapshot = itineraryRates(itinerary);
+  const currency = requireCurrency(itinerary.currency, snapshot);
+
+  const price = (activity: Activity): Activity => {
+    const activityCurrency = requireCurrency(activity.currency || currency, snapshot);
+    return {
+      ...activity,
+      currency: activityCurrency,
+      convertedCost: convertAmount(activity.estimatedCost || 0, activityCurrency, currency, snapshot)
+    };
+  };
+
+  const priceLeg = (leg: TravelLeg): TravelLeg => {
+    const legCurrency = requireCurrency(leg.currency || currency, snapshot);
+    return {
+      ...leg,
+      currency: legCurrency,
+      convertedCost: convertAmount(leg.estimatedCost || 0, legCurrency, currency, snapshot)
+    };
+  };
+
+  return {
+    ...itinerary,
+    currency,
+    days: itinerary.days.map((day) => ({ ...day, activities: day.activities.map(price) })),
+    legs: itinerary.legs?.map(priceLeg)
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Curated destination knowledge base stored in D1
+ * See migrations/0003_destinations.sql and scripts/import-destinations.mjs
+ */
+import { ACTIVITY_CATEGORIES, type ActivityCategory } from "../shared";
+import { normalizeCityName } from "./geo";
+
+export type DestinationEntryKind = "attraction" | "neighborhood" | "cost" | "tip" | "season";
+
+export interface DestinationEntry {
+  kind: DestinationEntryKind;
+  name: string;
+  description: string | null;
+  categories: ActivityCategory[];
+  estimatedCost: number | null;
+  coordinates: { lat: number; lng: number } | null;
+}
+
+export interface DestinationRecord {
+  id: string;
+  slug: string;
+  name: string;
+  country: string | null;
+  summary: string | null;
+  currency: string;
+  entries: DestinationEntry[];
+}
+
+// Free-text interests mapped to activity categories
+const INTEREST_KEYWORDS: Record<string, ActivityCategory[]> = {
+  food: ["FOOD"],
+  gastronomy: ["FOOD"],
+  restaurants: ["FOOD"],
+  wine: ["FOOD"],
+  culture: ["CULTURE"],
+  museums: ["CULTURE"],
+  art: ["CULTURE"],
+  history: ["CULTURE", "SIGHTSEEING"],
+  architecture: ["SIGHTSEEING", "CULTURE"],
+  sightseeing: ["SIGHTSEEING"],
+  landmarks: ["SIGHTSEEING"],
+  nature: ["OUTDOOR"],
+  outdoor: ["OUTDOOR"],
+  adventure: ["OUTDOOR"],
+  hiking: ["OUTDOOR"],
+  beach: ["OUTDOOR"],
+  parks: ["OUTDOOR"],
+  nightlife: ["ENTERTAINMENT"],
+  music: ["ENTERTAINMENT", "CULTURE"],
+  entertainment: ["ENTERTAINMENT"],
+  shopping: ["SHOPPING"],
+  markets: ["SHOPPING", "FOOD"],
+  wellness: ["WELLNESS"],
+  spa: ["WELLNESS"],
+  relaxation: ["WELLNESS"],
+  business: ["BUSINESS"]
+};
+
+/**
+ * Map user interests ("food", "museums", "CULTURE") to activity categories
+ */
+export function interestsToCategories(interests: string[]): ActivityCategory[] {
+  const categories = new Set<ActivityCategory>();
+
+  for (const interest of interests) {
+    const key = interest.trim().toLowerCase();
+    const upper = key.toUpperCase() as ActivityCategory;
+
+    if (ACTIVITY_CATEGORIES.includes(upper)) {
+      categories.add(upper);
+      continue;
+    }
+
+    for (const [keyword, mapped] of Object.entries(INTEREST_KEYWORDS)) {
+      if (key.includes(keyword) || (key.length >= 4 && keyword.includes(key))) {
+        mapped.forEach((category) => categories.add(category));
+      }
+    }
+  }
+
+  return [...categories];
+}
+
+function parseCategories(raw: string | null): ActivityCategory[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load a destination and its entries by name ("Paris", "Paris, France")
+ */
+export async function findDestination(db: D1Database, destination: string): Promise<DestinationRecord | null> {
+  const slug = normalizeCityName(destination).replace(/\s+/g, "-");
+
+  const row = await db.prepare(`
+    SELECT id, slug, name, country, summary, currency
+    FROM destinations
+    WHERE slug = ? OR lower(name) = ?
+    LIMIT 1
+  `).bind(slug, normalizeCityName(destination)).first<{
+    id: string;
+    slug: string;
+    name: string;
+    country: string | null;
+    summary: string | null;
+    currency: string | null;
+  }>();
+
+  if (!row) return null;
+
+  const entries = await db.prepare(`
+    SELECT kind, name, description, categories, estimated_cost, latitude, longitude
+    FROM destination_entries
+    WHERE destination_id = ?
+    ORDER BY kind, name
+  `).bind(row.id).all();
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    country: row.country,
+    summary: row.summary,
+    currency: row.currency || "USD",
+    entries: entries.results.map((entry: any) => ({
+      kind: entry.kind,
+      name: entry.name,
+      description: entry.description,
+      categories: parseCategories(entry.categories),
+      estimatedCost: entry.estimated_cost,
+      coordinates:
+        entry.latitude !== null && entry.longitude !== null
+          ? { lat: entry.latitude, lng: entry.longitude }
+          : null
+    }))
+  };
+}
+
+/**
+ * Keep entries tagged with any of the given categories
+ * Untagged entries (general tips, costs) always match
+ */
+export function filterEntriesByCategories(
+  entries: DestinationEntry[],
+  categories: ActivityCategory[]
+): DestinationEntry[] {
+  if (categories.length === 0) return entries;
+
+  return entries.filter(
+    (entry) =>
+      entry.categories.length === 0 ||
+      entry.categories.some((category) => categories.includes(category))
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Geographic helpers shared by the planning services
+ */
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometers (haversine formula)
+ */
+export function haversineKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function isValidCoordinates(value: unknown): value is Coordinates {
+  if (!value || typeof value !== "object") return false;
+  const { lat, lng } = value as Coordinates;
+  return (
+    typeof lat === "number" &&
+    typeof lng === "number" &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180
+  );
+}
+
+/**
+ * Normalize a destination string for table lookups ("Paris, France" -> "paris")
+ */
+export function normalizeCityName(city: string): string {
+  return city.split(",")[0].trim().toLowerCase();
+}
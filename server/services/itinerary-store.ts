@@ -0,0 +1,235 @@
+/**
+ * Persistence for itineraries and their activities in D1
+ * Shared by the /api/itineraries routes and the chat agent tools
+ */
+import { generateRandomId } from "../server-crypto";
+import type { ItineraryData } from "../types";
+
+export interface ItinerarySummary {
+  id: string;
+  title: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  duration: string;
+  isPublic: boolean;
+  shareId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function toSummary(row: any): ItinerarySummary {
+  return {
+    id: row.id,
+    title: row.title,
+    destination: row.destination,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    duration: row.duration,
+    isPublic: !!row.is_public,
+    shareId: row.share_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Insert or update an itinerary and its activities for a user
+ * Keeps the existing share ID when the itinerary was already public, and the
+ * creation time of rows that already exist. isPublic left undefined keeps the
+ * stored sharing state (private for new itineraries)
+ */
+export async function saveItineraryRecord(
+  db: D1Database,
+  userId: string,
+  itineraryData: ItineraryData,
+  isPublic?: boolean
+): Promise<{ itineraryId: string; shareId: string | null }> {
+  const existing = await db.prepare(
+    "SELECT user_id, is_public, share_id FROM itineraries WHERE id = ?"
+  ).bind(itineraryData.id).first<{ user_id: string; is_public: number; share_id: string | null }>();
+
+  if (existing && existing.user_id !== userId) {
+    throw new Error("Itinerary belongs to another user");
+  }
+
+  const shared = isPublic ?? !!existing?.is_public;
+  const shareId = shared
+    ? existing?.share_id || `share_${Date.now()}_${generateRandomId()}`
+    : null;
+
+  const saveItinerary = db.prepare(`
+      INSERT INTO itineraries (
+        id, user_id, title, destination, start_date, end_date, duration,
+        travelers, budget, total_estimated_cost, currency, accommodation_type,
+        interests, data, is_public, share_id, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, unixepoch())
+      ON CONFLICT(id) DO UPDATE SET
+        title = excluded.title,
+        destination = excluded.destination,
+        start_date = excluded.start_date,
+        end_date = excluded.end_date,
+        duration = excluded.duration,
+        travelers = excluded.travelers,
+        budget = excluded.budget,
+        total_estimated_cost = excluded.total_estimated_cost,
+        currency = excluded.currency,
+        accommodation_type = excluded.accommodation_type,
+        interests = excluded.interests,
+        data = excluded.data,
+        is_public = excluded.is_public,
+        share_id = excluded.share_id,
+        updated_at = excluded.updated_at
+    `).bind(
+    itineraryData.id,
+    userId,
+    itineraryData.title,
+    itineraryData.destination,
+    itineraryData.startDate,
+    itineraryData.endDate,
+    itineraryData.duration,
+    itineraryData.travelers,
+    itineraryData.budget ?? null,
+    itineraryData.totalEstimatedCost,
+    itineraryData.currency || "USD",
+    itineraryData.accommodationType || null,
+    JSON.stringify(itineraryData.interests || []),
+    JSON.stringify(itineraryData),
+    shared ? 1 : 0,
+    shareId
+  );
+
+  // Activities removed from the itinerary must not linger
+  const activityIds = itineraryData.days.flatMap((day) => day.activities.map((activity) => activity.id));
+  const deleteRemoved = db.prepare(
+    "DELETE FROM activities WHERE itinerary_id = ? AND id NOT IN (SELECT value FROM json_each(?))"
+  ).bind(itineraryData.id, JSON.stringify(activityIds));
+
+  const upsertActivity = db.prepare(`
+      INSERT INTO activities (
+        id, itinerary_id, day_number, title, description, location,
+        latitude, longitude, start_time, end_time, category,
+        estimated_cost, priority, tips
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(itinerary_id, id) DO UPDATE SET
+        day_number = excluded.day_number,
+        title = excluded.title,
+        description = excluded.description,
+        location = excluded.location,
+        latitude = excluded.latitude,
+        longitude = excluded.longitude,
+        start_time = excluded.start_time,
+        end_time = excluded.end_time,
+        category = excluded.category,
+        estimated_cost = excluded.estimated_cost,
+        priority = excluded.priority,
+        tips = excluded.tips
+    `);
+  const saveActivities = itineraryData.days.flatMap((day) =>
+    day.activities.map((activity) => upsertActivity.bind(
+      activity.id,
+      itineraryData.id,
+      day.dayNumber,
+      activity.title,
+      activity.description,
+      activity.location,
+      activity.coordinates?.lat ?? null,
+      activity.coordinates?.lng ?? null,
+      activity.startTime,
+      activity.endTime ?? null,
+      activity.category,
+      activity.estimatedCost,
+      activity.priority,
+      JSON.stringify(activity.tips || [])
+    ))
+  );
+
+  // One transaction: the itinerary row never disagrees with its activities
+  await db.batch([saveItinerary, deleteRemoved, ...saveActivities]);
+
+  return { itineraryId: itineraryData.id, shareId };
+}
+
+/**
+ * List a user's itineraries, newest first
+ * search matches title or destination
+ */
+export async function listUserItineraries(
+  db: D1Database,
+  userId: string,
+  { limit = 10, offset = 0, search }: { limit?: number; offset?: number; search?: string } = {}
+): Promise<{ itineraries: ItinerarySummary[]; total: number }> {
+  const filter = search ? "AND (title LIKE ? OR destination LIKE ?)" : "";
+  const filterValues = search ? [`%${search}%`, `%${search}%`] : [];
+
+  const rows = await db.prepare(`
+      SELECT id, title, destination, start_date, end_date, duration, is_public, share_id, created_at, updated_at
+      FROM itineraries
+      WHERE user_id = ? ${filter}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(userId, ...filterValues, limit, offset).all();
+
+  const count = await db.prepare(`
+      SELECT COUNT(*) as total FROM itineraries WHERE user_id = ? ${filter}
+    `).bind(userId, ...filterValues).first<{ total: number }>();
+
+  return {
+    itineraries: rows.results.map(toSummary),
+    total: count?.total ?? rows.results.length
+  };
+}
+
+/**
+ * Load a full itinerary owned by the user (or public)
+ */
+export async function loadItineraryRecord(
+  db: D1Database,
+  userId: string,
+  itineraryId: string
+): Promise<{ summary: ItinerarySummary; itinerary: ItineraryData } | null> {
+  const row = await db.prepare(`
+      SELECT id, title, destination, start_date, end_date, duration, is_public, share_id, created_at, updated_at, data
+      FROM itineraries
+      WHERE id = ? AND (user_id = ? OR is_public = 1)
+    `).bind(itineraryId, userId).first<any>();
+
+  if (!row) return null;
+
+  return {
+    summary: toSummary(row),
+    itinerary: typeof row.data === "string" ? JSON.parse(row.data) : row.data
+  };
+}
+
+/**
+ * Make a user's itinerary public, returning its share ID
+ */
+export async function publishItinerary(
+  db: D1Database,
+  userId: string,
+  itineraryId: string
+): Promise<string | null> {
+  const row = await db.prepare(
+    "SELECT share_id FROM itineraries WHERE id = ? AND user_id = ?"
+  ).bind(itineraryId, userId).first<{ share_id: string | null }>();
+
+  if (!row) return null;
+
+  const shareId = row.share_id || `share_${Date.now()}_${generateRandomId()}`;
+
+  await db.prepare(`
+      UPDATE itineraries
+      SET is_public = 1, share_id = ?, updated_at = unixepoch()
+      WHERE id = ? AND user_id = ?
+    `).bind(shareId, itineraryId, userId).run();
+
+  return shareId;
+}
+
+/**
+ * Public URL of a shared itinerary (served by src/pages/SharedItinerary.tsx)
+ */
+export function buildShareUrl(origin: string, itineraryId: string): string {
+  return `${origin.replace(/\/$/, "")}/share/${itineraryId}`;
+}
@@ -0,0 +1,335 @@
+/**
+ * Constraint checks for generated or edited itineraries
+ * Used by the validateItinerary tool and POST /api/itineraries/validate
+ */
+import type { AccessibilityConstraints, Activity, ItineraryData } from "../types";
+import {
+  estimateDayWalking,
+  hasAccessibilityConstraints,
+  resolveAccessibilityConstraints
+} from "./accessibility";
+import { isValidCoordinates } from "./geo";
+import { legsCost } from "./multi-city";
+import { DEFAULT_TARIFF } from "./tariffs";
+import { parseTimeOfDay } from "./time-of-day";
+import { estimateTransfer, formatDuration } from "./travel-time";
+
+export type ValidationIssueCode =
+  | "TIME_OVERLAP"
+  | "INVALID_TIME"
+  | "UNREALISTIC_TRANSFER"
+  | "OUTSIDE_DATE_RANGE"
+  | "MISSING_DAY_NUMBER"
+  | "DAY_OVER_BUDGET"
+  | "TOTAL_OVER_BUDGET"
+  | "EMPTY_DAY"
+  | "MISSING_LEG"
+  | "STAIRS_HEAVY"
+  | "NOT_STEP_FREE"
+  | "STEP_FREE_UNKNOWN"
+  | "WALKING_OVER_LIMIT"
+  | "TRANSFER_NOT_STEP_FREE";
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: "error" | "warning";
+  message: string;
+  dayNumber?: number;
+  activityIds?: string[];
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+  summary: {
+    errors: number;
+    warnings: number;
+    checkedDays: number;
+    checkedActivities: number;
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDate(value: string | undefined): value is string {
+  return !!value && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Check time overlaps and transfers between consecutive activities of one day
+ */
+function checkDaySchedule(dayNumber: number, activities: Activity[], issues: ValidationIssue[]): void {
+  const timed: Array<{ activity: Activity; start: number; end: number | null }> = [];
+
+  for (const activity of activities) {
+    const start = parseTimeOfDay(activity.startTime);
+    const end = activity.endTime ? parseTimeOfDay(activity.endTime) : null;
+
+    if (start === null || (activity.endTime && end === null)) {
+      issues.push({
+        code: "INVALID_TIME",
+        severity: "error",
+        message: `"${activity.title}" has an invalid time (${activity.startTime}${activity.endTime ? `-${activity.endTime}` : ""}), expected HH:MM`,
+        dayNumber,
+        activityIds: [activity.id]
+      });
+      continue;
+    }
+
+    if (end !== null && end <= start) {
+      issues.push({
+        code: "INVALID_TIME",
+        severity: "error",
+        message: `"${activity.title}" ends (${activity.endTime}) before it starts (${activity.startTime})`,
+        dayNumber,
+        activityIds: [activity.id]
+      });
+      continue;
+    }
+
+    timed.push({ activity, start, end });
+  }
+
+  timed.sort((a, b) => a.start - b.start);
+
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const current = timed[i];
+    const previousEnd = previous.end ?? previous.start;
+
+    if (current.start < previousEnd || current.start === previous.start) {
+      issues.push({
+        code: "TIME_OVERLAP",
+        severity: "error",
+        message: `"${current.activity.title}" starts at ${current.activity.startTime} while "${previous.activity.title}" runs ${previous.activity.startTime}-${previous.activity.endTime ?? "?"}`,
+        dayNumber,
+        activityIds: [previous.activity.id, current.activity.id]
+      });
+      continue;
+    }
+
+    const from = previous.activity.coordinates;
+    const to = current.activity.coordinates;
+    if (!isValidCoordinates(from) || !isValidCoordinates(to)) continue;
+
+    const fastest = estimateTransfer(from, to, DEFAULT_TARIFF);
+    const gapMinutes = current.start - previousEnd;
+
+    if (fastest.durationMinutes > gapMinutes) {
+      issues.push({
+        code: "UNREALISTIC_TRANSFER",
+        severity: "warning",
+        message: `Getting from "${previous.activity.title}" to "${current.activity.title}" (${fastest.distanceKm} km) takes about ${formatDuration(fastest.durationMinutes)} by ${fastest.mode.replace("_", " ")}, but only ${formatDuration(Math.max(0, gapMinutes))} is planned`,
+        dayNumber,
+        activityIds: [previous.activity.id, current.activity.id]
+      });
+    }
+  }
+}
+
+/**
+ * Check one day against the traveler's accessibility constraints
+ * Only activities the model or user marked are flagged as violations;
+ * unknown step-free status is a warning so someone checks before booking
+ */
+function checkDayAccessibility(
+  dayNumber: number,
+  activities: Activity[],
+  constraints: AccessibilityConstraints,
+  issues: ValidationIssue[]
+): void {
+  for (const activity of activities) {
+    const info = activity.accessibility;
+
+    if (constraints.avoidStairs && info?.stairsHeavy) {
+      issues.push({
+        code: "STAIRS_HEAVY",
+        severity: "error",
+        message: `"${activity.title}" involves a lot of stairs, which the traveler needs to avoid`,
+        dayNumber,
+        activityIds: [activity.id]
+      });
+    }
+
+    if (constraints.wheelchairUser && info?.stepFree === false) {
+      issues.push({
+        code: "NOT_STEP_FREE",
+        severity: "error",
+        message: `"${activity.title}" is not step-free and cannot be visited in a wheelchair`,
+        dayNumber,
+        activityIds: [activity.id]
+      });
+    } else if (constraints.avoidStairs && info?.stepFree === undefined && !info?.stairsHeavy && activity.category !== "TRANSPORTATION") {
+      issues.push({
+        code: "STEP_FREE_UNKNOWN",
+        severity: "warning",
+        message: `Step-free access to "${activity.title}" is unknown, check with the venue`,
+        dayNumber,
+        activityIds: [activity.id]
+      });
+    }
+  }
+
+  const walking = estimateDayWalking(activities);
+  const limit = constraints.maxWalkingKmPerDay;
+
+  if (limit !== undefined && limit > 0 && walking.totalKm > limit) {
+    const longest = [...walking.transfers].sort((a, b) => b.walkingKm - a.walkingKm)[0];
+    issues.push({
+      code: "WALKING_OVER_LIMIT",
+      severity: "error",
+      message: `Day ${dayNumber} has about ${walking.totalKm} km of walking (${walking.transferKm} km between activities, ${walking.activityKm} km within them), over the ${limit} km limit${
+        longest && longest.walkingKm > 0 ? `. The longest walk is from "${longest.from.title}" to "${longest.to.title}" (${longest.walkingKm} km), a taxi would avoid it` : ""
+      }`,
+      dayNumber
+    });
+  }
+
+  if (constraints.stepFreeTransport) {
+    for (const transfer of walking.transfers) {
+      if (transfer.estimate.mode !== "public_transport") continue;
+      issues.push({
+        code: "TRANSFER_NOT_STEP_FREE",
+        severity: "warning",
+        message: `Getting from "${transfer.from.title}" to "${transfer.to.title}" (${transfer.estimate.distanceKm} km) would be by public transport; check the stations have lifts or plan a taxi`,
+        dayNumber,
+        activityIds: [transfer.from.id, transfer.to.id]
+      });
+    }
+  }
+}
+
+/**
+ * Validate an itinerary and report structured issues
+ * Errors make the plan impossible to follow, warnings make it uncomfortable
+ */
+export function validateItinerary(itinerary: ItineraryData): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const days = Array.isArray(itinerary.days) ? itinerary.days : [];
+  const hasDateRange = isDate(itinerary.startDate) && isDate(itinerary.endDate);
+  const seenDayNumbers = new Set<number>();
+
+  const accessibility = hasAccessibilityConstraints(itinerary.accessibility)
+    ? resolveAccessibilityConstraints(itinerary.accessibility)
+    : null;
+
+  const dailyBudget =
+    itinerary.budget && itinerary.budget > 0 && days.length > 0
+      ? itinerary.budget / days.length
+      : null;
+
+  days.forEach((day, index) => {
+    const activities = Array.isArray(day.activities) ? day.activities : [];
+    const validDayNumber = Number.isInteger(day.dayNumber) && day.dayNumber > 0;
+    const dayNumber = validDayNumber ? day.dayNumber : index + 1;
+
+    if (!validDayNumber) {
+      issues.push({
+        code: "MISSING_DAY_NUMBER",
+        severity: "error",
+        message: `Day at position ${index + 1} has no valid dayNumber`,
+        activityIds: activities.map((activity) => activity.id)
+      });
+    } else if (seenDayNumbers.has(day.dayNumber)) {
+      issues.push({
+        code: "MISSING_DAY_NUMBER",
+        severity: "error",
+        message: `Day number ${day.dayNumber} is used more than once`,
+        dayNumber
+      });
+    }
+    seenDayNumbers.add(dayNumber);
+
+    if (hasDateRange && isDate(day.date) && (day.date < itinerary.startDate || day.date > itinerary.endDate)) {
+      issues.push({
+        code: "OUTSIDE_DATE_RANGE",
+        severity: "error",
+        message: `Day ${dayNumber} (${day.date}) is outside the trip dates ${itinerary.startDate} to ${itinerary.endDate}`,
+        dayNumber,
+        activityIds: activities.map((activity) => activity.id)
+      });
+    }
+
+    if (activities.length === 0) {
+      issues.push({
+        code: "EMPTY_DAY",
+        severity: "warning",
+        message: `Day ${dayNumber}${day.date ? ` (${day.date})` : ""} has no activities`,
+        dayNumber
+      });
+      return;
+    }
+
+    checkDaySchedule(dayNumber, activities, issues);
+    if (accessibility) {
+      checkDayAccessibility(dayNumber, activities, accessibility, issues);
+    }
+
+    const dayCost = activities.reduce((total, activity) => total + (activity.convertedCost ?? activity.estimatedCost ?? 0), 0);
+    if (dailyBudget !== null && dayCost > dailyBudget) {
+      issues.push({
+        code: "DAY_OVER_BUDGET",
+        severity: "warning",
+        message: `Day ${dayNumber} costs ${Math.round(dayCost)} ${itinerary.currency || "USD"}, over the daily share of the budget (${Math.round(dailyBudget)})`,
+        dayNumber
+      });
+    }
+  });
+
+  // Days the trip covers but the itinerary has no entry for
+  if (hasDateRange) {
+    const expectedDays =
+      Math.round((Date.parse(itinerary.endDate) - Date.parse(itinerary.startDate)) / 86400000) + 1;
+    for (let dayNumber = 1; dayNumber <= expectedDays; dayNumber++) {
+      if (!seenDayNumbers.has(dayNumber)) {
+        issues.push({
+          code: "MISSING_DAY_NUMBER",
+          severity: "warning",
+          message: `Day ${dayNumber} of the trip is missing from the itinerary`,
+          dayNumber
+        });
+      }
+    }
+  }
+
+  // Multi-city trips need a way to get from each stop to the next
+  const stops = itinerary.stops || [];
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    const hasLeg = (itinerary.legs || []).some((leg) => leg.fromStopId === from.id && leg.toStopId === to.id);
+    if (!hasLeg) {
+      issues.push({
+        code: "MISSING_LEG",
+        severity: "warning",
+        message: `No transport from ${from.city} to ${to.city} on ${to.arrivalDate}`
+      });
+    }
+  }
+
+  const totalCost = days
+    .flatMap((day) => day.activities || [])
+    .reduce((total, activity) => total + (activity.convertedCost ?? activity.estimatedCost ?? 0), 0) +
+    legsCost(itinerary.legs);
+
+  if (itinerary.budget && itinerary.budget > 0 && totalCost > itinerary.budget) {
+    issues.push({
+      code: "TOTAL_OVER_BUDGET",
+      severity: "error",
+      message: `Total cost ${Math.round(totalCost)} ${itinerary.currency || "USD"} exceeds the budget of ${itinerary.budget}`
+    });
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  return {
+    valid: errors === 0,
+    issues,
+    summary: {
+      errors,
+      warnings: issues.length - errors,
+      checkedDays: days.length,
+      checkedActivities: days.reduce((total, day) => total + (day.activities?.length || 0), 0)
+    }
+  };
+}
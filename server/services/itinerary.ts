@@ -0,0 +1,263 @@
+/**
+ * Helpers to locate itineraries and activities from the chat history
+ * and to apply the agent's edit tools as validated patches
+ */
+import type { UIMessage } from "ai";
+import type { Activity, ExchangeRateSnapshot, ItineraryData } from "../types";
+import { estimateDayWalking } from "./accessibility";
+import { convertAmount, itineraryRates, priceActivities, requireCurrency } from "./currency";
+import { legsCost } from "./multi-city";
+import { resolveItineraryTimezone } from "./timezone";
+
+/**
+ * Find the most recent itinerary generated or loaded in the conversation
+ */
+export function findLatestItinerary(messages: UIMessage[]): ItineraryData | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const parts = messages[i].parts || [];
+    for (let j = parts.length - 1; j >= 0; j--) {
+      const part = parts[j] as any;
+      if (part.state !== "output-available" || !part.output) continue;
+      if (part.type !== "tool-generateCompleteItinerary" && part.type !== "tool-loadItinerary") continue;
+
+      try {
+        const output = typeof part.output === "string" ? JSON.parse(part.output) : part.output;
+        if (part.type === "tool-generateCompleteItinerary") return output;
+        if (output.success && output.itinerary) return output.itinerary;
+      } catch (error) {
+        console.error("[findLatestItinerary] Failed to parse itinerary output:", error);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find an activity and the day number it belongs to
+ */
+export function findActivity(
+  itinerary: ItineraryData,
+  activityId: string
+): { activity: Activity; dayNumber: number } | null {
+  for (const day of itinerary.days) {
+    const activity = day.activities.find((act) => act.id === activityId);
+    if (activity) {
+      return { activity, dayNumber: day.dayNumber };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Recompute converted costs, totals, daily walking and summary after the activities changed
+ * Totals are in the itinerary currency
+ */
+export function summarizeItinerary(current: ItineraryData): ItineraryData {
+  const priced = priceActivities(current);
+  const itinerary = {
+    ...priced,
+    days: priced.days.map((day) => ({ ...day, walkingKm: estimateDayWalking(day.activities).totalKm }))
+  };
+  const activities = itinerary.days.flatMap((day) => day.activities);
+  const totalEstimatedCost = Math.round(
+    (activities.reduce((total, activity) => total + (activity.convertedCost ?? activity.estimatedCost ?? 0), 0) +
+      legsCost(itinerary.legs)) * 100
+  ) / 100;
+  const dayCount = Math.max(1, itinerary.days.length);
+
+  const categoryCount: { [key: string]: number } = {};
+  activities.forEach(activity => {
+    categoryCount[activity.category] = (categoryCount[activity.category] || 0) + 1;
+  });
+  const topCategories = Object.entries(categoryCount)
+    .sort(([,a], [,b]) => b - a)
+    .slice(0, 3)
+    .map(([category]) => category);
+
+  return {
+    ...itinerary,
+    totalEstimatedCost,
+    // Itineraries saved before timezones existed pick one up on their next edit
+    timezone: itinerary.timezone ?? resolveItineraryTimezone(itinerary) ?? undefined,
+    summary: {
+      ...itinerary.summary,
+      totalActivities: activities.length,
+      averageCostPerDay: Math.round(totalEstimatedCost / dayCount),
+      topCategories
+    }
+  };
+}
+
+export type NewActivity = Omit<Activity, "id">;
+
+export type ItineraryPatch =
+  | { op: "modify"; activityId: string; changes: Partial<NewActivity> }
+  | { op: "replace"; activityId: string; activity: NewActivity }
+  | {
+      op: "add";
+      items: Array<{
+        dayNumber: number;
+        activity: NewActivity;
+        position?: "start" | "end" | "before" | "after";
+        referenceActivityId?: string;
+      }>;
+    }
+  | { op: "remove"; activityIds: string[] };
+
+export function generateActivityId(): string {
+  return `act_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function requireActivity(itinerary: ItineraryData, activityId: string) {
+  const found = findActivity(itinerary, activityId);
+  if (!found) {
+    const known = itinerary.days.flatMap((day) => day.activities.map((activity) => activity.id));
+    throw new Error(
+      `Activity "${activityId}" does not exist in itinerary ${itinerary.id}. Known activity IDs: ${known.join(", ") || "none"}`
+    );
+  }
+  return found;
+}
+
+function requireDay(itinerary: ItineraryData, dayNumber: number) {
+  const day = itinerary.days.find((d) => d.dayNumber === dayNumber);
+  if (!day) {
+    throw new Error(
+      `Day ${dayNumber} does not exist in itinerary ${itinerary.id}. Valid day numbers: ${itinerary.days.map((d) => d.dayNumber).join(", ")}`
+    );
+  }
+  return day;
+}
+
+/**
+ * Currencies an edit prices activities in, checked against the itinerary's
+ * rates before anything is applied
+ */
+function requirePatchCurrencies(itinerary: ItineraryData, patch: ItineraryPatch): void {
+  let currencies: Array<string | undefined> = [];
+  switch (patch.op) {
+    case "modify":
+      currencies = [patch.changes.currency];
+      break;
+    case "replace":
+      currencies = [patch.activity.currency];
+      break;
+    case "add":
+      currencies = patch.items.map((item) => item.activity.currency);
+      break;
+  }
+
+  const snapshot = itineraryRates(itinerary);
+  for (const currency of currencies) {
+    if (currency) requireCurrency(currency, snapshot);
+  }
+}
+
+/**
+ * Apply an edit to a copy of the itinerary
+ * Throws when the patch references unknown activity IDs, day numbers or
+ * currencies, so nothing is applied unless the whole patch is valid
+ */
+export function applyItineraryPatch(
+  current: ItineraryData,
+  patch: ItineraryPatch
+): { itinerary: ItineraryData; affectedActivityIds: string[] } {
+  requirePatchCurrencies(current, patch);
+
+  const itinerary: ItineraryData = structuredClone(current);
+  const affectedActivityIds: string[] = [];
+
+  switch (patch.op) {
+    case "modify": {
+      const { activity } = requireActivity(itinerary, patch.activityId);
+      Object.assign(activity, patch.changes, { id: activity.id });
+      affectedActivityIds.push(activity.id);
+      break;
+    }
+
+    case "replace": {
+      const { dayNumber } = requireActivity(itinerary, patch.activityId);
+      const day = requireDay(itinerary, dayNumber);
+      const index = day.activities.findIndex((activity) => activity.id === patch.activityId);
+      const replacement = { ...patch.activity, id: generateActivityId() };
+      day.activities[index] = replacement;
+      affectedActivityIds.push(replacement.id);
+      break;
+    }
+
+    case "add": {
+      // Validate every item before inserting any of them
+      for (const item of patch.items) {
+        const day = requireDay(itinerary, item.dayNumber);
+        if (item.position === "before" || item.position === "after") {
+          if (!item.referenceActivityId) {
+            throw new Error(`position "${item.position}" requires referenceActivityId`);
+          }
+          if (!day.activities.some((activity) => activity.id === item.referenceActivityId)) {
+            throw new Error(`Reference activity "${item.referenceActivityId}" is not on day ${item.dayNumber}`);
+          }
+        }
+      }
+
+      for (const item of patch.items) {
+        const day = requireDay(itinerary, item.dayNumber);
+        const newActivity = { ...item.activity, id: generateActivityId() };
+        const refIndex = day.activities.findIndex((activity) => activity.id === item.referenceActivityId);
+
+        if (item.position === "start") {
+          day.activities.unshift(newActivity);
+        } else if (item.position === "before") {
+          day.activities.splice(refIndex, 0, newActivity);
+        } else if (item.position === "after") {
+          day.activities.splice(refIndex + 1, 0, newActivity);
+        } else {
+          day.activities.push(newActivity);
+        }
+        affectedActivityIds.push(newActivity.id);
+      }
+      break;
+    }
+
+    case "remove": {
+      if (patch.activityIds.length === 0) {
+        throw new Error("No activity IDs given to remove");
+      }
+      patch.activityIds.forEach((activityId) => requireActivity(itinerary, activityId));
+
+      for (const day of itinerary.days) {
+        day.activities = day.activities.filter((activity) => !patch.activityIds.includes(activity.id));
+      }
+      affectedActivityIds.push(...patch.activityIds);
+      break;
+    }
+  }
+
+  return { itinerary: summarizeItinerary(itinerary), affectedActivityIds };
+}
+
+/**
+ * Switch the itinerary currency: the budget and every total are converted,
+ * activities keep their original currency and get a new converted amount
+ */
+export function convertItineraryCurrency(
+  itinerary: ItineraryData,
+  currency: string,
+  snapshot: ExchangeRateSnapshot
+): ItineraryData {
+  const target = requireCurrency(currency, snapshot);
+  const from = requireCurrency(itinerary.currency, snapshot);
+
+  return summarizeItinerary({
+    ...itinerary,
+    currency: target,
+    budget: itinerary.budget ? convertAmount(itinerary.budget, from, target, snapshot) : itinerary.budget,
+    exchangeRates: snapshot,
+    // Activities priced in the old itinerary currency keep it as their original currency
+    days: itinerary.days.map((day) => ({
+      ...day,
+      activities: day.activities.map((activity) => ({ ...activity, currency: activity.currency || from }))
+    }))
+  });
+}
@@ -0,0 +1,284 @@
+/**
+ * Alternate versions of a conversation (migrations/0013_message_versions.sql,
+ * migrations/0014_turn_itineraries.sql)
+ *
+ * Editing a user message or regenerating a reply replaces every message from
+ * that point on. The replaced messages move out of chat_messages into a
+ * version that follows the message before them, together with the itinerary
+ * as it was, so the user can switch back. The version in use stays in
+ * chat_messages; its row only records its number. The itinerary goes back to
+ * the one recorded when the replaced turn started
+ */
+import { isToolUIPart, type UIMessage } from "ai";
+import type { Env, ItineraryData } from "../types";
+import { loadConversationMessages, parseMessage } from "./chat-messages";
+import {
+  clearConversationItinerary,
+  getConversationItinerary,
+  storeConversationItinerary,
+} from "./conversation-itinerary";
+import { ConversationNotFoundError } from "./conversations";
+import { findLatestItinerary } from "./itinerary";
+import { ITINERARY_EDIT_TOOLS } from "../tools";
+
+// parent_message_id of versions that start the conversation
+const CONVERSATION_START = "";
+
+// Tools whose calls change the conversation's itinerary
+const ITINERARY_TOOLS = ["generateCompleteItinerary", "loadItinerary", ...ITINERARY_EDIT_TOOLS];
+
+export interface MessageVersions {
+  parentMessageId: string | null; // null when the versions start the conversation
+  version: number; // In use
+  versions: number;
+}
+
+export interface RestoredItinerary {
+  version: number; // 0 when the conversation has no itinerary
+  itinerary: ItineraryData | null;
+}
+
+interface StoredRow {
+  message_id: string;
+  role: string;
+  content: string;
+}
+
+async function loadRows(db: D1Database, conversationId: string): Promise<StoredRow[]> {
+  const { results } = await db.prepare(
+    "SELECT message_id, role, content FROM chat_messages WHERE conversation_id = ? ORDER BY id"
+  ).bind(conversationId).all<StoredRow>();
+  return results;
+}
+
+async function assertOwner(db: D1Database, userId: string, conversationId: string): Promise<void> {
+  const conversation = await db.prepare(
+    "SELECT id FROM chat_conversations WHERE id = ? AND user_id = ?"
+  ).bind(conversationId, userId).first();
+  if (!conversation) throw new ConversationNotFoundError("Conversation not found");
+}
+
+function deleteMessages(db: D1Database, conversationId: string, messageIds: string[]): D1PreparedStatement {
+  return db.prepare(
+    "DELETE FROM chat_messages WHERE conversation_id = ? AND message_id IN (SELECT value FROM json_each(?))"
+  ).bind(conversationId, JSON.stringify(messageIds));
+}
+
+/**
+ * Record the conversation's itinerary as the turn started by a user message
+ * finds it. The first record wins, so regenerating a reply keeps it
+ */
+export async function recordTurnItinerary(db: D1Database, conversationId: string, messageId: string): Promise<void> {
+  await db.prepare(`
+      INSERT INTO chat_turn_itineraries (conversation_id, message_id, version, itinerary)
+      VALUES (
+        ?1, ?2,
+        COALESCE((SELECT version FROM conversation_itineraries WHERE conversation_id = ?1), 0),
+        (SELECT data FROM conversation_itineraries WHERE conversation_id = ?1)
+      )
+      ON CONFLICT(conversation_id, message_id) DO NOTHING
+    `).bind(conversationId, messageId).run();
+}
+
+async function getTurnItinerary(
+  db: D1Database,
+  conversationId: string,
+  messageId: string
+): Promise<{ version: number; itinerary: string | null } | null> {
+  return db.prepare(
+    "SELECT version, itinerary FROM chat_turn_itineraries WHERE conversation_id = ? AND message_id = ?"
+  ).bind(conversationId, messageId).first<{ version: number; itinerary: string | null }>();
+}
+
+function changesItinerary(messages: UIMessage[]): boolean {
+  return messages.some((message) =>
+    message.parts.some((part) => isToolUIPart(part) && ITINERARY_TOOLS.includes(part.type.slice("tool-".length)))
+  );
+}
+
+/**
+ * Move messages the Chat agent no longer has (written by it, but left out of
+ * the history the client sent) into a version. The itinerary rolls back to
+ * the one recorded when the first replaced turn started
+ * persisted is the agent's map of written messages and is updated in place.
+ * Returns the itinerary now in use, or null when it did not change
+ */
+export async function archiveReplacedMessages(
+  env: Env,
+  conversationId: string,
+  userId: string,
+  messages: UIMessage[],
+  persisted: Map<string, string>
+): Promise<RestoredItinerary | null> {
+  const inUse = new Set(messages.map((message) => message.id));
+  const replaced = new Set([...persisted.keys()].filter((id) => !inUse.has(id)));
+  if (replaced.size === 0) return null;
+
+  for (const id of replaced) persisted.delete(id);
+
+  const rows = await loadRows(env.DB, conversationId);
+  const start = rows.findIndex((row) => replaced.has(row.message_id));
+  // Already moved out by switching versions
+  if (start === -1) return null;
+
+  const tail = rows.slice(start).filter((row) => !inUse.has(row.message_id));
+  const parent = rows.slice(0, start).reverse().find((row) => inUse.has(row.message_id))?.message_id ?? CONVERSATION_START;
+  const current = await getConversationItinerary(env.DB, conversationId);
+
+  const { results: versions } = await env.DB.prepare(`
+      SELECT version, messages IS NULL AS in_use FROM chat_message_versions
+      WHERE conversation_id = ? AND parent_message_id = ?
+      ORDER BY version
+    `).bind(conversationId, parent).all<{ version: number; in_use: number }>();
+
+  const inUseVersion = versions.find((row) => row.in_use)?.version;
+  const next = (versions.length > 0 ? versions[versions.length - 1].version : 0) + 1;
+  const tailMessages = tail.map(parseMessage);
+  const tailJson = JSON.stringify(tailMessages);
+  const itineraryJson = current ? JSON.stringify(current.itinerary) : null;
+
+  const insertVersion = env.DB.prepare(`
+      INSERT INTO chat_message_versions (conversation_id, parent_message_id, version, messages, itinerary)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+  await env.DB.batch([
+    inUseVersion === undefined
+      ? insertVersion.bind(conversationId, parent, next, tailJson, itineraryJson)
+      : env.DB.prepare(`
+          UPDATE chat_message_versions SET messages = ?, itinerary = ?
+          WHERE conversation_id = ? AND parent_message_id = ? AND version = ?
+        `).bind(tailJson, itineraryJson, conversationId, parent, inUseVersion),
+    insertVersion.bind(conversationId, parent, inUseVersion === undefined ? next + 1 : next, null, null),
+    deleteMessages(env.DB, conversationId, tail.map((row) => row.message_id)),
+  ]);
+
+  console.log("[archiveReplacedMessages] Moved", tail.length, "messages after", parent || "the start", "of", conversationId, "into a version");
+
+  // The turn the first replaced message belongs to: the edited message's own, or the regenerated reply's
+  const turn = rows.slice(0, start + 1).reverse().find((row) => row.role === "user");
+  const snapshot = turn ? await getTurnItinerary(env.DB, conversationId, turn.message_id) : null;
+
+  if (snapshot) {
+    if (snapshot.itinerary === itineraryJson) return null;
+
+    console.log("[archiveReplacedMessages] Restoring itinerary version", snapshot.version, "from the start of", turn?.message_id);
+    if (snapshot.itinerary) {
+      const itinerary: ItineraryData = JSON.parse(snapshot.itinerary);
+      return { version: await storeConversationItinerary(env, conversationId, userId, itinerary), itinerary };
+    }
+    await clearConversationItinerary(env.DB, conversationId);
+    return { version: 0, itinerary: null };
+  }
+
+  // Turns from before snapshots were recorded: the last itinerary generated or loaded in the remaining history
+  if (!changesItinerary(tailMessages)) return null;
+
+  const latest = findLatestItinerary(messages);
+  if (latest) {
+    const version = await storeConversationItinerary(env, conversationId, userId, latest);
+    return { version, itinerary: latest };
+  }
+  if (current) await clearConversationItinerary(env.DB, conversationId);
+  return { version: 0, itinerary: null };
+}
+
+/**
+ * Messages of the conversation that have alternate versions after them
+ */
+export async function listMessageVersions(
+  db: D1Database,
+  userId: string,
+  conversationId: string
+): Promise<MessageVersions[]> {
+  await assertOwner(db, userId, conversationId);
+
+  const { results } = await db.prepare(`
+      SELECT parent_message_id, COUNT(*) AS versions, MAX(CASE WHEN messages IS NULL THEN version END) AS version
+      FROM chat_message_versions
+      WHERE conversation_id = ?
+      GROUP BY parent_message_id
+    `).bind(conversationId).all<{ parent_message_id: string; versions: number; version: number }>();
+
+  return results.map((row) => ({
+    parentMessageId: row.parent_message_id || null,
+    version: row.version,
+    versions: row.versions,
+  }));
+}
+
+/**
+ * Put another version in use: the messages after the parent are swapped with
+ * the stored ones and the itinerary goes back to what it was in that version
+ * Returns the whole history and the itinerary now in use
+ */
+export async function switchMessageVersion(
+  env: Env,
+  userId: string,
+  conversationId: string,
+  parentMessageId: string | null,
+  version: number
+): Promise<{ messages: UIMessage[]; itinerary: RestoredItinerary }> {
+  await assertOwner(env.DB, userId, conversationId);
+  const parent = parentMessageId ?? CONVERSATION_START;
+
+  const target = await env.DB.prepare(`
+      SELECT messages, itinerary FROM chat_message_versions
+      WHERE conversation_id = ? AND parent_message_id = ? AND version = ?
+    `).bind(conversationId, parent, version).first<{ messages: string | null; itinerary: string | null }>();
+  if (!target) throw new ConversationNotFoundError("Version not found");
+
+  const current = await getConversationItinerary(env.DB, conversationId);
+
+  // Already in use
+  if (target.messages === null) {
+    return {
+      messages: await loadConversationMessages(env.DB, conversationId),
+      itinerary: { version: current?.version ?? 0, itinerary: current?.itinerary ?? null },
+    };
+  }
+
+  const rows = await loadRows(env.DB, conversationId);
+  const parentIndex = parent === CONVERSATION_START ? -1 : rows.findIndex((row) => row.message_id === parent);
+  if (parent !== CONVERSATION_START && parentIndex === -1) {
+    throw new ConversationNotFoundError("Message not found in this conversation");
+  }
+
+  const tail = rows.slice(parentIndex + 1);
+  const restored: UIMessage[] = JSON.parse(target.messages);
+
+  await env.DB.batch([
+    env.DB.prepare(`
+        UPDATE chat_message_versions SET messages = ?, itinerary = ?
+        WHERE conversation_id = ? AND parent_message_id = ? AND messages IS NULL
+      `).bind(
+      JSON.stringify(tail.map(parseMessage)),
+      current ? JSON.stringify(current.itinerary) : null,
+      conversationId,
+      parent
+    ),
+    env.DB.prepare(`
+        UPDATE chat_message_versions SET messages = NULL, itinerary = NULL
+        WHERE conversation_id = ? AND parent_message_id = ? AND version = ?
+      `).bind(conversationId, parent, version),
+    deleteMessages(env.DB, conversationId, tail.map((row) => row.message_id)),
+    ...restored.map((message) =>
+      env.DB.prepare(`
+          INSERT INTO chat_messages (conversation_id, message_id, role, content, created_at, updated_at)
+          VALUES (?, ?, ?, ?, unixepoch(), unixepoch())
+        `).bind(conversationId, message.id, message.role, JSON.stringify(message))
+    ),
+  ]);
+
+  console.log("[switchMessageVersion]", conversationId, "now uses version", version, "after", parent || "the start");
+
+  let itinerary: RestoredItinerary = { version: 0, itinerary: null };
+  if (target.itinerary) {
+    const data: ItineraryData = JSON.parse(target.itinerary);
+    itinerary = { version: await storeConversationItinerary(env, conversationId, userId, data), itinerary: data };
+  } else if (current) {
+    await clearConversationItinerary(env.DB, conversationId);
+  }
+
+  return { messages: await loadConversationMessages(env.DB, conversationId), itinerary };
+}
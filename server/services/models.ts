@@ -0,0 +1,176 @@
+/**
+ * Language model registry
+ * Providers are configured from env: OpenAI, Workers AI (through its
+ * OpenAI-compatible REST endpoint) and any OpenAI-compatible base URL, so a
+ * local server can stand in. Models are referenced as "provider:model",
+ * e.g. "openai:gpt-4o-mini" or "openai-compatible:llama3.1:8b"
+ */
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import type { Env } from "../types";
+
+export type ModelProviderId = "openai" | "workers-ai" | "openai-compatible";
+
+export type ModelPurpose = "planning" | "title" | "summary";
+
+export interface ModelOption {
+  id: string; // "provider:model", stored on chat_conversations.model
+  provider: ModelProviderId;
+  model: string;
+  label: string;
+}
+
+type ModelEnv = Pick<
+  Env,
+  | "OPENAI_API_KEY"
+  | "OPENAI_MODELS"
+  | "WORKERS_AI_ACCOUNT_ID"
+  | "WORKERS_AI_API_TOKEN"
+  | "WORKERS_AI_MODELS"
+  | "OPENAI_COMPATIBLE_BASE_URL"
+  | "OPENAI_COMPATIBLE_API_KEY"
+  | "OPENAI_COMPATIBLE_MODELS"
+  | "OPENAI_COMPATIBLE_NAME"
+  | "PLANNING_MODEL"
+  | "TITLE_MODEL"
+>;
+
+const DEFAULT_OPENAI_MODELS = ["gpt-4o-mini-2024-07-18", "gpt-4o-mini", "gpt-4o"];
+// Workers AI models with function calling, which the planning tools need
+const DEFAULT_WORKERS_AI_MODELS = ["@cf/meta/llama-3.3-70b-instruct-fp8-fast", "@hf/nousresearch/hermes-2-pro-mistral-7b"];
+
+const DEFAULT_MODELS: Record<ModelPurpose, string> = {
+  planning: "openai:gpt-4o-mini-2024-07-18",
+  title: "openai:gpt-4o-mini",
+  summary: "openai:gpt-4o-mini"
+};
+
+const PROVIDER_LABELS: Record<ModelProviderId, string> = {
+  openai: "OpenAI",
+  "workers-ai": "Workers AI",
+  "openai-compatible": "OpenAI-compatible"
+};
+
+export class ModelUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelUnavailableError";
+  }
+}
+
+function parseList(raw: string | undefined, fallback: string[]): string[] {
+  const items = (raw ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+/**
+ * Split "provider:model" on the first colon only; local model names often have their own
+ */
+export function parseModelRef(ref: string): { provider: string; model: string } | null {
+  const separator = ref.indexOf(":");
+  if (separator <= 0 || separator === ref.length - 1) return null;
+  return { provider: ref.slice(0, separator), model: ref.slice(separator + 1) };
+}
+
+/**
+ * Every model the deployment can serve, in provider order
+ */
+export function listAvailableModels(env: ModelEnv): ModelOption[] {
+  const options: ModelOption[] = [];
+  const add = (provider: ModelProviderId, models: string[], providerLabel = PROVIDER_LABELS[provider]) => {
+    for (const model of models) {
+      options.push({ id: `${provider}:${model}`, provider, model, label: `${providerLabel} · ${model}` });
+    }
+  };
+
+  if (env.OPENAI_API_KEY) {
+    add("openai", parseList(env.OPENAI_MODELS, DEFAULT_OPENAI_MODELS));
+  }
+  if (env.WORKERS_AI_ACCOUNT_ID && env.WORKERS_AI_API_TOKEN) {
+    add("workers-ai", parseList(env.WORKERS_AI_MODELS, DEFAULT_WORKERS_AI_MODELS));
+  }
+  if (env.OPENAI_COMPATIBLE_BASE_URL) {
+    // A local server has no sensible default model, list the configured ones only
+    add("openai-compatible", parseList(env.OPENAI_COMPATIBLE_MODELS, []), env.OPENAI_COMPATIBLE_NAME || PROVIDER_LABELS["openai-compatible"]);
+  }
+
+  return options;
+}
+
+export function isModelAvailable(env: ModelEnv, modelId: string): boolean {
+  return listAvailableModels(env).some((option) => option.id === modelId);
+}
+
+/**
+ * Model to use for a purpose: the conversation's choice when it is still
+ * available, else the configured default, else the first available model
+ */
+export function resolveModelId(env: ModelEnv, purpose: ModelPurpose, requested?: string | null): string {
+  const available = listAvailableModels(env);
+  if (available.length === 0) {
+    throw new ModelUnavailableError("No language model is configured. Set OPENAI_API_KEY, the Workers AI credentials or OPENAI_COMPATIBLE_BASE_URL");
+  }
+
+  // Summaries of long conversations are background work, like titles
+  const configured = purpose === "planning" ? env.PLANNING_MODEL : env.TITLE_MODEL;
+  const candidates = [requested, configured, DEFAULT_MODELS[purpose]];
+  const match = candidates.find((candidate) => candidate && available.some((option) => option.id === candidate));
+
+  if (requested && match !== requested) {
+    console.log(`[Models] ${requested} is not available, using ${match ?? available[0].id}`);
+  }
+  return match ?? available[0].id;
+}
+
+/**
+ * Build the AI SDK model for a "provider:model" id
+ * Non-OpenAI providers use the chat completions API, which is what compatible servers implement
+ */
+export function createLanguageModel(env: ModelEnv, modelId: string): LanguageModel {
+  const ref = parseModelRef(modelId);
+  if (!ref || !isModelAvailable(env, modelId)) {
+    throw new ModelUnavailableError(`Model ${modelId} is not configured`);
+  }
+
+  switch (ref.provider as ModelProviderId) {
+    case "openai":
+      return createOpenAI({ apiKey: env.OPENAI_API_KEY, fetch })(ref.model);
+    case "workers-ai":
+      return createOpenAI({
+        name: "workers-ai",
+        baseURL: `https://api.cloudflare.com/client/v4/accounts/${env.WORKERS_AI_ACCOUNT_ID}/ai/v1`,
+        apiKey: env.WORKERS_AI_API_TOKEN,
+        fetch
+      }).chat(ref.model);
+    case "openai-compatible":
+      return createOpenAI({
+        name: "openai-compatible",
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+        // Most local servers ignore the key but the client requires one
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        fetch
+      }).chat(ref.model);
+    default:
+      throw new ModelUnavailableError(`Unknown model provider ${ref.provider}`);
+  }
+}
+
+export function resolveLanguageModel(
+  env: ModelEnv,
+  purpose: ModelPurpose,
+  requested?: string | null
+): { modelId: string; model: LanguageModel } {
+  const modelId = resolveModelId(env, purpose, requested);
+  return { modelId, model: createLanguageModel(env, modelId) };
+}
+
+export function getDefaultModelIds(env: ModelEnv): Record<ModelPurpose, string | null> {
+  const resolve = (purpose: ModelPurpose) => {
+    try {
+      return resolveModelId(env, purpose);
+    } catch {
+      return null;
+    }
+  };
+  return { planning: resolve("planning"), title: resolve("title"), summary: resolve("summary") };
+}
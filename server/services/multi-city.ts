@@ -0,0 +1,154 @@
+/**
+ * Multi-city trips: ordered stops, the days spent at each, and the
+ * inter-city legs between consecutive stops
+ */
+import type { Day, ItineraryStop, LegMode, TravelLeg } from "../types";
+import { haversineKm, isValidCoordinates, normalizeCityName } from "./geo";
+import { inferTimezone, isValidTimezone } from "./timezone";
+
+export const LEG_MODES: LegMode[] = ["FLIGHT", "TRAIN", "BUS", "CAR", "FERRY"];
+
+interface LegProfile {
+  // Route distance divided by straight-line distance
+  detourFactor: number;
+  speedKmh: number;
+  // Check-in, boarding and getting to the station or airport
+  overheadMinutes: number;
+}
+
+const LEG_PROFILES: Record<LegMode, LegProfile> = {
+  FLIGHT: { detourFactor: 1.05, speedKmh: 700, overheadMinutes: 150 },
+  TRAIN: { detourFactor: 1.25, speedKmh: 110, overheadMinutes: 30 },
+  BUS: { detourFactor: 1.3, speedKmh: 70, overheadMinutes: 20 },
+  CAR: { detourFactor: 1.3, speedKmh: 85, overheadMinutes: 15 },
+  FERRY: { detourFactor: 1.15, speedKmh: 35, overheadMinutes: 45 }
+};
+
+export interface StopInput {
+  city: string;
+  arrivalDate: string;
+  departureDate: string;
+  coordinates?: { lat: number; lng: number };
+  accommodation?: string;
+  timezone?: string;
+}
+
+export interface LegInput {
+  from: string; // City of the origin stop
+  to: string; // City of the destination stop
+  mode: LegMode;
+  date?: string; // Defaults to the arrival date of the destination stop
+  departureTime?: string;
+  arrivalTime?: string;
+  estimatedCost?: number;
+  currency?: string;
+  notes?: string;
+}
+
+/**
+ * Build ordered stops, checking that each stop starts when the previous one ends
+ */
+export function buildStops(inputs: StopInput[]): ItineraryStop[] {
+  const stops = inputs.map((input, index): ItineraryStop => {
+    if (input.departureDate < input.arrivalDate) {
+      throw new Error(`Stop "${input.city}" departs (${input.departureDate}) before it arrives (${input.arrivalDate})`);
+    }
+    if (input.timezone && !isValidTimezone(input.timezone)) {
+      throw new Error(`Unknown timezone "${input.timezone}" for stop "${input.city}"`);
+    }
+
+    const coordinates = isValidCoordinates(input.coordinates) ? input.coordinates : undefined;
+    return {
+      id: `stop_${index + 1}_${normalizeCityName(input.city).replace(/[^a-z0-9]+/g, "_")}`,
+      city: input.city,
+      arrivalDate: input.arrivalDate,
+      departureDate: input.departureDate,
+      coordinates,
+      accommodation: input.accommodation,
+      timezone: input.timezone || (coordinates ? inferTimezone(coordinates) : undefined)
+    };
+  });
+
+  for (let i = 1; i < stops.length; i++) {
+    if (stops[i].arrivalDate !== stops[i - 1].departureDate) {
+      throw new Error(
+        `Stop "${stops[i].city}" arrives on ${stops[i].arrivalDate} but "${stops[i - 1].city}" departs on ${stops[i - 1].departureDate}. Consecutive stops must hand over on the same date`
+      );
+    }
+  }
+
+  return stops;
+}
+
+/**
+ * Stop for a date: the last stop already arrived at, so travel days belong to the new city
+ */
+export function findStopForDate(stops: ItineraryStop[], date: string): ItineraryStop | undefined {
+  let match: ItineraryStop | undefined;
+  for (const stop of stops) {
+    if (stop.arrivalDate <= date) match = stop;
+  }
+  return match;
+}
+
+export function assignDaysToStops(days: Day[], stops: ItineraryStop[]): Day[] {
+  if (stops.length === 0) return days;
+  return days.map((day) => ({ ...day, stopId: findStopForDate(stops, day.date)?.id ?? stops[0].id }));
+}
+
+function findStopByCity(stops: ItineraryStop[], city: string): ItineraryStop {
+  const name = normalizeCityName(city);
+  const stop = stops.find((candidate) => normalizeCityName(candidate.city) === name);
+  if (!stop) {
+    throw new Error(`Leg city "${city}" is not one of the stops: ${stops.map((candidate) => candidate.city).join(", ")}`);
+  }
+  return stop;
+}
+
+/**
+ * Estimate a leg's distance and duration from the stop coordinates
+ */
+export function estimateLeg(from: ItineraryStop, to: ItineraryStop, mode: LegMode): { distanceKm?: number; durationMinutes?: number } {
+  if (!from.coordinates || !to.coordinates) return {};
+  const profile = LEG_PROFILES[mode];
+  const distanceKm = haversineKm(from.coordinates, to.coordinates) * profile.detourFactor;
+  return {
+    distanceKm: Math.round(distanceKm),
+    durationMinutes: Math.round((distanceKm / profile.speedKmh) * 60 + profile.overheadMinutes)
+  };
+}
+
+/**
+ * Resolve legs by city name into typed segments between stops
+ */
+export function buildLegs(inputs: LegInput[], stops: ItineraryStop[]): TravelLeg[] {
+  return inputs.map((input, index) => {
+    const from = findStopByCity(stops, input.from);
+    const to = findStopByCity(stops, input.to);
+    if (from.id === to.id) {
+      throw new Error(`Leg ${index + 1} starts and ends in ${from.city}`);
+    }
+
+    return {
+      id: `leg_${index + 1}_${from.id}_${to.id}`,
+      fromStopId: from.id,
+      toStopId: to.id,
+      mode: input.mode,
+      date: input.date || to.arrivalDate,
+      departureTime: input.departureTime,
+      arrivalTime: input.arrivalTime,
+      ...estimateLeg(from, to, input.mode),
+      estimatedCost: input.estimatedCost,
+      currency: input.currency,
+      notes: input.notes
+    };
+  });
+}
+
+export function describeRoute(stops: ItineraryStop[]): string {
+  return stops.map((stop) => stop.city).join(" → ");
+}
+
+export function legsCost(legs: TravelLeg[] | undefined): number {
+  return (legs || []).reduce((total, leg) => total + (leg.convertedCost ?? leg.estimatedCost ?? 0), 0);
+}
@@ -0,0 +1,191 @@
+/**
+ * Packing list generator
+ * Builds a checklist from the trip length, the number of travelers, the
+ * weather outlook and the activity categories of the itinerary
+ */
+import type { ItineraryData, PackingCategory, PackingItem, PackingList } from "../types";
+import { parseTimeOfDay } from "./time-of-day";
+import { listDates, type DailyForecast, type WeatherProvider } from "./weather";
+
+// Clothes are packed for at most this many days; longer trips assume laundry
+const LAUNDRY_CYCLE_DAYS = 7;
+
+// Evening events from this time call for something smarter than day clothes
+const EVENING_START_MINUTES = 19 * 60;
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * Weather for every day of the trip; multi-city trips ask for each stop's own dates
+ */
+export async function fetchTripForecast(
+  provider: WeatherProvider,
+  itinerary: ItineraryData
+): Promise<DailyForecast[]> {
+  const segments = itinerary.stops?.length
+    ? itinerary.stops.map((stop) => ({ destination: stop.city, startDate: stop.arrivalDate, endDate: stop.departureDate }))
+    : [{ destination: itinerary.destination, startDate: itinerary.startDate, endDate: itinerary.endDate }];
+
+  const forecasts = await Promise.all(
+    segments.map((segment) => provider.getDailyForecast(segment.destination, segment.startDate, segment.endDate))
+  );
+
+  return forecasts.flatMap((forecast) => forecast || []);
+}
+
+export function buildPackingList(
+  itinerary: ItineraryData,
+  forecast: DailyForecast[],
+  previous?: PackingList
+): PackingList {
+  const items = new Map<string, PackingItem>();
+  const add = (
+    name: string,
+    category: PackingCategory,
+    reason: string,
+    quantity = 1,
+    perTraveler = false
+  ) => {
+    const id = slugify(name);
+    const existing = items.get(id);
+    // The same item can be asked for by several rules; keep the largest quantity
+    if (existing && existing.quantity >= quantity) return;
+    items.set(id, { id, name, category, quantity, perTraveler, reason, packed: false });
+  };
+
+  const travelers = Math.max(1, itinerary.travelers || 1);
+  const tripDays = Math.max(1, itinerary.days.length || listDates(itinerary.startDate, itinerary.endDate).length);
+  const clothesDays = Math.min(tripDays, LAUNDRY_CYCLE_DAYS);
+  const activities = itinerary.days.flatMap((day) => day.activities);
+  const countCategory = (category: string) => activities.filter((activity) => activity.category === category).length;
+
+  // Essentials
+  add("Passport or ID", "DOCUMENTS", "Required for check-in and identification", 1, true);
+  add("Booking confirmations (offline copy)", "DOCUMENTS", "Tickets and reservations without relying on roaming");
+  add("Travel insurance details", "DOCUMENTS", "Policy number and emergency contact");
+  add("Payment cards and some cash", "DOCUMENTS", `Costs are planned in ${itinerary.currency || "USD"}`);
+  add("Phone and charger", "ELECTRONICS", "Maps, tickets and translations", 1, true);
+  add("Power adapter", "ELECTRONICS", "Check the plug type at the destination");
+  add("Toiletry kit", "TOILETRIES", "Toothbrush, toothpaste, deodorant, shampoo", 1, true);
+  add("Personal medication", "HEALTH", "Enough for the whole trip plus a few spare days", 1, true);
+
+  // Clothing scaled to the trip length
+  add("Underwear", "CLOTHING", `${clothesDays} days plus a spare`, clothesDays + 1, true);
+  add("Socks", "CLOTHING", `${clothesDays} days plus a spare`, clothesDays + 1, true);
+  add("T-shirts or tops", "CLOTHING", `One per day for ${clothesDays} days`, clothesDays, true);
+  add("Trousers or skirts", "CLOTHING", "One for every three days", Math.ceil(clothesDays / 3), true);
+  add("Sleepwear", "CLOTHING", "For the nights away", 1, true);
+  if (tripDays > LAUNDRY_CYCLE_DAYS) {
+    add("Laundry bag and travel detergent", "TOILETRIES", `Trip is longer than ${LAUNDRY_CYCLE_DAYS} days, plan a wash`);
+  }
+
+  // Weather
+  let weatherSummary: string | undefined;
+  if (forecast.length > 0) {
+    const maxTemp = Math.max(...forecast.map((day) => day.maxTempC));
+    const minTemp = Math.min(...forecast.map((day) => day.minTempC));
+    const rainyDays = forecast.filter((day) => day.precipitationChance >= 40).length;
+    weatherSummary = `${minTemp}-${maxTemp}°C, ${rainyDays} rainy day${rainyDays === 1 ? "" : "s"} expected`;
+
+    if (rainyDays > 0) {
+      add("Compact umbrella", "GEAR", `Rain likely on ${rainyDays} day${rainyDays === 1 ? "" : "s"}`);
+      add("Waterproof jacket", "CLOTHING", "For rainy days", 1, true);
+    }
+    if (maxTemp >= 25) {
+      add("Sunscreen", "TOILETRIES", `Highs up to ${maxTemp}°C`);
+      add("Sunglasses", "GEAR", `Highs up to ${maxTemp}°C`, 1, true);
+      add("Sun hat", "CLOTHING", `Highs up to ${maxTemp}°C`, 1, true);
+      add("Shorts or light clothing", "CLOTHING", "Warm days", Math.ceil(clothesDays / 2), true);
+    }
+    if (minTemp <= 10) {
+      add("Warm jacket", "CLOTHING", `Lows down to ${minTemp}°C`, 1, true);
+      add("Sweater or fleece", "CLOTHING", `Lows down to ${minTemp}°C`, 2, true);
+    } else if (maxTemp - minTemp >= 10) {
+      add("Light sweater", "CLOTHING", "Big difference between day and night", 1, true);
+    }
+    if (minTemp <= 0) {
+      add("Gloves, scarf and warm hat", "CLOTHING", "Freezing temperatures expected", 1, true);
+      add("Thermal base layer", "CLOTHING", "Freezing temperatures expected", 1, true);
+    }
+  }
+
+  // Activities
+  if (activities.length > 0) {
+    add("Comfortable walking shoes", "FOOTWEAR", "Most activities are explored on foot", 1, true);
+  }
+
+  const outdoor = countCategory("OUTDOOR");
+  if (outdoor > 0) {
+    add("Hiking shoes", "FOOTWEAR", `${outdoor} outdoor activit${outdoor === 1 ? "y" : "ies"}`, 1, true);
+    add("Daypack", "GEAR", "Water, snacks and layers on outdoor days", 1, true);
+    add("Reusable water bottle", "GEAR", "Outdoor activities", 1, true);
+    add("First-aid kit", "HEALTH", "Blisters and small injuries outdoors");
+  }
+
+  const wellness = countCategory("WELLNESS");
+  if (wellness > 0) {
+    add("Swimwear", "CLOTHING", `${wellness} wellness activit${wellness === 1 ? "y" : "ies"} (spa, pool, beach)`, 1, true);
+    add("Flip-flops", "FOOTWEAR", "Pools, spas and showers", 1, true);
+  }
+
+  const businessDays = itinerary.days.filter((day) => day.activities.some((activity) => activity.category === "BUSINESS")).length;
+  if (businessDays > 0) {
+    add("Business outfit", "CLOTHING", `${businessDays} day${businessDays === 1 ? "" : "s"} with business activities`, businessDays, true);
+    add("Dress shoes", "FOOTWEAR", "Business activities", 1, true);
+    add("Laptop and charger", "ELECTRONICS", "Business activities");
+  }
+
+  const eveningEvents = activities.filter((activity) => {
+    const start = parseTimeOfDay(activity.startTime);
+    return start !== null && start >= EVENING_START_MINUTES &&
+      (activity.category === "ENTERTAINMENT" || activity.category === "FOOD");
+  }).length;
+  if (eveningEvents > 0) {
+    add("Smart evening outfit", "CLOTHING", `${eveningEvents} evening dinner${eveningEvents === 1 ? "" : "s"} or show${eveningEvents === 1 ? "" : "s"}`, 1, true);
+  }
+
+  if (countCategory("CULTURE") > 0) {
+    add("Scarf or cover-up", "CLOTHING", "Some religious and cultural sites require covered shoulders and knees", 1, true);
+  }
+
+  const hasFlight = itinerary.legs?.some((leg) => leg.mode === "FLIGHT") ||
+    activities.some((activity) => activity.category === "TRANSPORTATION" && /fl(y|ight)|airport/i.test(`${activity.title} ${activity.description}`));
+  if (hasFlight) {
+    add("Clear bag for liquids", "TOILETRIES", "Airport security, containers up to 100 ml");
+  }
+  if (tripDays >= 4 || travelers > 2) {
+    add("First-aid kit", "HEALTH", "Painkillers, plasters and stomach remedies");
+  }
+  if (countCategory("SIGHTSEEING") + countCategory("CULTURE") >= 3) {
+    add("Power bank", "ELECTRONICS", "Long sightseeing days with maps and photos", 1, true);
+  }
+
+  // Regenerating keeps what the travelers already ticked off
+  const packedIds = new Set((previous?.items || []).filter((item) => item.packed).map((item) => item.id));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    weatherSummary,
+    items: [...items.values()].map((item) => ({ ...item, packed: packedIds.has(item.id) }))
+  };
+}
+
+/**
+ * Tick or untick one item
+ */
+export function setPackingItemPacked(itinerary: ItineraryData, itemId: string, packed: boolean): ItineraryData {
+  const list = itinerary.packingList;
+  if (!list?.items.some((item) => item.id === itemId)) {
+    throw new Error(`Packing item ${itemId} not found`);
+  }
+
+  return {
+    ...itinerary,
+    packingList: {
+      ...list,
+      items: list.items.map((item) => (item.id === itemId ? { ...item, packed } : item))
+    }
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Per-day route optimizer
+ * Reorders the movable activities of a day to minimize travel distance,
+ * then recomputes start and end times from durations and transfer times
+ */
+import type { Activity, Day } from "../types";
+import { haversineKm, isValidCoordinates, type Coordinates } from "./geo";
+import { DEFAULT_TARIFF } from "./tariffs";
+import { formatTimeOfDay, parseTimeOfDay } from "./time-of-day";
+import { estimateTransfer } from "./travel-time";
+
+export interface DayOptimization {
+  day: Day;
+  beforeKm: number;
+  afterKm: number;
+  savedKm: number;
+  reordered: boolean;
+  warnings: string[];
+}
+
+// Check-ins, flights and trains keep their slot
+const ANCHORED_CATEGORIES = ["ACCOMMODATION", "TRANSPORTATION"];
+
+const MEAL_WINDOWS = [
+  { name: "breakfast", start: 7 * 60, end: 10 * 60 + 30 },
+  { name: "lunch", start: 11 * 60 + 30, end: 14 * 60 + 30 },
+  { name: "dinner", start: 18 * 60, end: 22 * 60 }
+];
+
+const DEFAULT_DURATION_MINUTES = 60;
+const TIME_STEP_MINUTES = 5;
+
+type AnchorKind = "fixed" | "meal" | null;
+
+/**
+ * Why an activity cannot be moved freely: fixed slots never move, meals
+ * split the day into segments and may only shift later within their window
+ */
+function anchorKind(activity: Activity): AnchorKind {
+  if (activity.fixedTime || ANCHORED_CATEGORIES.includes(activity.category)) return "fixed";
+  if (!isValidCoordinates(activity.coordinates) || parseTimeOfDay(activity.startTime) === null) return "fixed";
+  if (activity.category === "FOOD") return "meal";
+  return null;
+}
+
+function mealWindow(startMinutes: number) {
+  return (
+    MEAL_WINDOWS.find((window) => startMinutes >= window.start - 60 && startMinutes <= window.end) ?? null
+  );
+}
+
+/**
+ * Straight-line distance along the activities, skipping those without coordinates
+ */
+export function routeDistanceKm(activities: Activity[]): number {
+  const points = activities
+    .map((activity) => activity.coordinates)
+    .filter((coordinates): coordinates is Coordinates => isValidCoordinates(coordinates));
+
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+function pathLength(start: Coordinates | null, stops: Activity[], end: Coordinates | null): number {
+  const points = [
+    ...(start ? [start] : []),
+    ...stops.map((activity) => activity.coordinates as Coordinates),
+    ...(end ? [end] : [])
+  ];
+
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+function nearestNeighbour(start: Coordinates | null, stops: Activity[]): Activity[] {
+  const remaining = [...stops];
+  const ordered: Activity[] = [];
+  let current = start ?? (remaining[0].coordinates as Coordinates);
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    remaining.forEach((activity, index) => {
+      if (haversineKm(current, activity.coordinates as Coordinates) <
+          haversineKm(current, remaining[bestIndex].coordinates as Coordinates)) {
+        bestIndex = index;
+      }
+    });
+    const [next] = remaining.splice(bestIndex, 1);
+    ordered.push(next);
+    current = next.coordinates as Coordinates;
+  }
+
+  return ordered;
+}
+
+/**
+ * Improve an order by reversing sub-paths while that shortens the route
+ */
+function twoOpt(start: Coordinates | null, stops: Activity[], end: Coordinates | null): Activity[] {
+  let best = [...stops];
+  let bestLength = pathLength(start, best, end);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const length = pathLength(start, candidate, end);
+        if (length < bestLength - 1e-9) {
+          best = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Shortest order for the movable activities between two anchors
+ */
+function optimizeSegment(start: Coordinates | null, stops: Activity[], end: Coordinates | null): Activity[] {
+  if (stops.length < 2) return stops;
+
+  const candidates = [twoOpt(start, stops, end), twoOpt(start, nearestNeighbour(start, stops), end)];
+  return candidates.reduce((best, candidate) =>
+    pathLength(start, candidate, end) < pathLength(start, best, end) ? candidate : best
+  );
+}
+
+function roundUpToStep(minutes: number): number {
+  return Math.ceil(minutes / TIME_STEP_MINUTES) * TIME_STEP_MINUTES;
+}
+
+/**
+ * Recompute start and end times along the new order
+ */
+function reschedule(activities: Activity[], warnings: string[]): Activity[] {
+  const starts = activities
+    .map((activity) => parseTimeOfDay(activity.startTime))
+    .filter((minutes): minutes is number => minutes !== null);
+  let cursor = starts.length > 0 ? Math.min(...starts) : 9 * 60;
+  let previous: Activity | null = null;
+
+  return activities.map((activity) => {
+    const originalStart = parseTimeOfDay(activity.startTime);
+    const originalEnd = parseTimeOfDay(activity.endTime);
+    const duration =
+      originalStart !== null && originalEnd !== null && originalEnd > originalStart
+        ? originalEnd - originalStart
+        : DEFAULT_DURATION_MINUTES;
+
+    const transfer =
+      previous && isValidCoordinates(previous.coordinates) && isValidCoordinates(activity.coordinates)
+        ? estimateTransfer(previous.coordinates, activity.coordinates, DEFAULT_TARIFF).durationMinutes
+        : 0;
+    const arrival = previous ? roundUpToStep(cursor + transfer) : cursor;
+
+    const kind = anchorKind(activity);
+    let start = arrival;
+
+    if (kind === "fixed" && originalStart !== null) {
+      start = originalStart;
+      if (arrival > originalStart) {
+        warnings.push(`"${activity.title}" is booked at ${activity.startTime} but the previous stop only allows arriving around ${formatTimeOfDay(arrival)}`);
+      }
+    } else if (kind === "meal" && originalStart !== null) {
+      start = Math.max(arrival, originalStart);
+      const window = mealWindow(originalStart);
+      if (window && start > window.end) {
+        warnings.push(`${window.name} at "${activity.title}" moves to ${formatTimeOfDay(start)}, later than usual`);
+      }
+    }
+
+    const end = start + duration;
+    if (end >= 24 * 60) {
+      warnings.push(`"${activity.title}" now runs past midnight`);
+    }
+
+    cursor = end;
+    previous = activity;
+
+    if (kind === "fixed" && originalStart === null) return activity;
+
+    return {
+      ...activity,
+      startTime: formatTimeOfDay(start),
+      endTime: formatTimeOfDay(end)
+    };
+  });
+}
+
+/**
+ * Reorder a day's activities to minimize travel distance
+ * Fixed-time items and meals stay in place and split the day into segments;
+ * only the activities between them are reordered. Nothing is ever dropped,
+ * MUST_DO items included.
+ */
+export function optimizeDay(day: Day): DayOptimization {
+  const original = day.activities;
+  const ordered: Activity[] = [];
+  let segment: Activity[] = [];
+  let segmentStart: Coordinates | null = null;
+
+  const flush = (end: Coordinates | null) => {
+    ordered.push(...optimizeSegment(segmentStart, segment, end));
+    segment = [];
+  };
+
+  // Activities are walked in time order so anchors bound the right segments
+  const byTime = [...original].sort(
+    (a, b) => (parseTimeOfDay(a.startTime) ?? 0) - (parseTimeOfDay(b.startTime) ?? 0)
+  );
+
+  for (const activity of byTime) {
+    if (anchorKind(activity) === null) {
+      segment.push(activity);
+      continue;
+    }
+
+    const anchorPoint = isValidCoordinates(activity.coordinates) ? activity.coordinates : null;
+    flush(anchorPoint);
+    ordered.push(activity);
+    segmentStart = anchorPoint ?? segmentStart;
+  }
+  flush(null);
+
+  const keptIds = new Set(ordered.map((activity) => activity.id));
+  if (ordered.length !== original.length || original.some((activity) => !keptIds.has(activity.id))) {
+    throw new Error(`Route optimization of day ${day.dayNumber} lost activities`);
+  }
+
+  const beforeKm = routeDistanceKm(original);
+  const reordered = ordered.some((activity, index) => activity.id !== original[index].id);
+
+  // Already the best order, keep the times the traveler planned
+  if (!reordered) {
+    const km = Math.round(beforeKm * 10) / 10;
+    return { day, beforeKm: km, afterKm: km, savedKm: 0, reordered, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  const rescheduled = reschedule(ordered, warnings);
+  const afterKm = routeDistanceKm(rescheduled);
+
+  return {
+    day: { ...day, activities: rescheduled },
+    beforeKm: Math.round(beforeKm * 10) / 10,
+    afterKm: Math.round(afterKm * 10) / 10,
+    savedKm: Math.round((beforeKm - afterKm) * 10) / 10,
+    reordered,
+    warnings
+  };
+}
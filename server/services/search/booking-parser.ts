@@ -0,0 +1,87 @@
+/**
+ * Parser for Booking.com search result pages
+ * Booking renames its CSS classes often, so every field lists fallback
+ * selectors in priority order; data-testid attributes come first
+ */
+import { cleanText, parsePrice, parseRating, parseReviewCount, resolveUrl } from "./normalize";
+import type { HotelResult } from "./types";
+
+const BOOKING_BASE_URL = "https://www.booking.com";
+
+const CARD_SELECTOR = '[data-testid="property-card"]';
+
+const FIELD_SELECTORS = {
+  name: ['[data-testid="title"]'],
+  price: [
+    '[data-testid="price-and-discounted-price"]',
+    ".prco-valign-middle-helper",
+    ".bui-price-display__value",
+    ".prco-text-nowrap-helper",
+    'span[aria-label*="price"]'
+  ],
+  rating: ['[data-testid="review-score"]', '[aria-label*="Scored"]'],
+  location: ['[data-testid="address"]', '[data-testid="distance"]', '[data-testid="location"]']
+} as const;
+
+type Field = keyof typeof FIELD_SELECTORS;
+
+interface RawCard {
+  url: string;
+  // Text per field and selector index, so the first matching selector wins;
+  // text nodes are joined with spaces so "8.7" and "Fabulous" stay apart
+  texts: Record<Field, string[]>;
+}
+
+function emptyTexts(): Record<Field, string[]> {
+  return { name: [], price: [], rating: [], location: [] };
+}
+
+function firstText(values: string[]): string {
+  return values.map((value) => cleanText(value || "")).find(Boolean) || "";
+}
+
+export async function parseBookingResults(html: string, limit = 5): Promise<HotelResult[]> {
+  const cards: RawCard[] = [];
+  let current: RawCard | null = null;
+
+  const rewriter = new HTMLRewriter()
+    .on(CARD_SELECTOR, {
+      element(element) {
+        current = { url: "", texts: emptyTexts() };
+        cards.push(current);
+        element.onEndTag(() => {
+          current = null;
+        });
+      }
+    })
+    .on(`${CARD_SELECTOR} a[href]`, {
+      element(element) {
+        if (current && !current.url) current.url = element.getAttribute("href") || "";
+      }
+    });
+
+  for (const field of Object.keys(FIELD_SELECTORS) as Field[]) {
+    FIELD_SELECTORS[field].forEach((selector, index) => {
+      rewriter.on(`${CARD_SELECTOR} ${selector}`, {
+        text(chunk) {
+          if (!current) return;
+          current.texts[field][index] = (current.texts[field][index] || "") + chunk.text + (chunk.lastInTextNode ? " " : "");
+        }
+      });
+    });
+  }
+
+  await rewriter.transform(new Response(html)).text();
+
+  return cards.slice(0, limit).map((card) => {
+    const ratingText = firstText(card.texts.rating);
+    return {
+      name: firstText(card.texts.name) || "Hotel",
+      url: resolveUrl(card.url, BOOKING_BASE_URL),
+      price: parsePrice(firstText(card.texts.price)),
+      rating: ratingText ? parseRating(ratingText) : null,
+      reviewCount: ratingText ? parseReviewCount(ratingText) : null,
+      location: firstText(card.texts.location) || null
+    };
+  });
+}
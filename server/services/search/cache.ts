@@ -0,0 +1,196 @@
+/**
+ * D1-backed result cache for searchWeb and searchBooking
+ * Keys are built from the normalized request, so "Lisbon  Food" and "lisbon food"
+ * share an entry. Empty result sets are not cached: they usually mean a blocked
+ * or changed page rather than a real answer. Expired rows are skipped on read
+ * and removed through the admin purge endpoint
+ */
+import type { Env } from "../../types";
+import type { HotelResult, HotelSearchParams, SearchProvider, SearchTarget, WebSearchResult } from "./types";
+
+export type SearchCacheKind = "web" | "hotels";
+
+// Hotel prices and availability move faster than web results
+const DEFAULT_TTL_SECONDS: Record<SearchCacheKind, number> = {
+  web: 6 * 60 * 60,
+  hotels: 60 * 60
+};
+
+export interface SearchCacheInfo {
+  status: "hit" | "miss" | "disabled";
+  key: string;
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+export interface CachedSearch<T> {
+  results: T;
+  cache: SearchCacheInfo;
+}
+
+export interface SearchCachePurgeFilter {
+  kind?: SearchCacheKind;
+  match?: string; // Normalized text the key must contain, e.g. a destination
+  expiredOnly?: boolean;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function webSearchCacheKey(provider: SearchProvider["name"], query: string, target: SearchTarget): string {
+  return ["web", provider, target, normalizeSearchText(query)].join("|");
+}
+
+export function hotelSearchCacheKey(provider: SearchProvider["name"], params: HotelSearchParams): string {
+  return [
+    "hotels",
+    provider,
+    normalizeSearchText(params.destination),
+    params.checkIn || "",
+    params.checkOut || "",
+    params.guests
+  ].join("|");
+}
+
+/**
+ * SEARCH_CACHE_TTL_SECONDS overrides both defaults; 0 turns the cache off
+ */
+function getTtlSeconds(env: Pick<Env, "SEARCH_CACHE_TTL_SECONDS"> | undefined, kind: SearchCacheKind): number {
+  const configured = env?.SEARCH_CACHE_TTL_SECONDS;
+  if (configured === undefined || configured === "") return DEFAULT_TTL_SECONDS[kind];
+  const seconds = Number(configured);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS[kind];
+}
+
+async function withSearchCache<T extends unknown[]>(
+  env: Pick<Env, "DB" | "SEARCH_CACHE_TTL_SECONDS"> | undefined,
+  kind: SearchCacheKind,
+  key: string,
+  provider: SearchProvider["name"],
+  search: () => Promise<T>
+): Promise<CachedSearch<T>> {
+  const ttlSeconds = getTtlSeconds(env, kind);
+  const db = env?.DB;
+  if (!db || ttlSeconds === 0) {
+    return { results: await search(), cache: { status: "disabled", key } };
+  }
+
+  const now = Date.now();
+
+  // A cache failure (e.g. migration not applied yet) must never fail the search itself
+  try {
+    const row = await db
+      .prepare("SELECT results, created_at, expires_at FROM search_cache WHERE cache_key = ? AND expires_at > ?")
+      .bind(key, now)
+      .first<{ results: string; created_at: number; expires_at: number }>();
+
+    if (row) {
+      console.log(`[SearchCache] Hit: ${key}`);
+      return {
+        results: JSON.parse(row.results) as T,
+        cache: {
+          status: "hit",
+          key,
+          cachedAt: new Date(row.created_at).toISOString(),
+          expiresAt: new Date(row.expires_at).toISOString()
+        }
+      };
+    }
+  } catch (error) {
+    console.error("[SearchCache] Lookup failed:", error);
+  }
+
+  console.log(`[SearchCache] Miss: ${key}`);
+  const results = await search();
+  const expiresAt = now + ttlSeconds * 1000;
+
+  if (results.length > 0) {
+    try {
+      await db
+        .prepare(`
+          INSERT INTO search_cache (cache_key, kind, provider, results, created_at, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(cache_key) DO UPDATE SET
+            results = excluded.results,
+            created_at = excluded.created_at,
+            expires_at = excluded.expires_at
+        `)
+        .bind(key, kind, provider, JSON.stringify(results), now, expiresAt)
+        .run();
+    } catch (error) {
+      console.error("[SearchCache] Store failed:", error);
+    }
+  }
+
+  return {
+    results,
+    cache: {
+      status: "miss",
+      key,
+      cachedAt: results.length > 0 ? new Date(now).toISOString() : undefined,
+      expiresAt: results.length > 0 ? new Date(expiresAt).toISOString() : undefined
+    }
+  };
+}
+
+export function cachedSearchWeb(
+  env: Pick<Env, "DB" | "SEARCH_CACHE_TTL_SECONDS"> | undefined,
+  provider: SearchProvider,
+  query: string,
+  target: SearchTarget
+): Promise<CachedSearch<WebSearchResult[]>> {
+  return withSearchCache(env, "web", webSearchCacheKey(provider.name, query, target), provider.name, () =>
+    provider.searchWeb(query, target)
+  );
+}
+
+export function cachedSearchHotels(
+  env: Pick<Env, "DB" | "SEARCH_CACHE_TTL_SECONDS"> | undefined,
+  provider: SearchProvider,
+  params: HotelSearchParams
+): Promise<CachedSearch<HotelResult[]>> {
+  return withSearchCache(env, "hotels", hotelSearchCacheKey(provider.name, params), provider.name, () =>
+    provider.searchHotels(params)
+  );
+}
+
+/**
+ * Delete cache entries matching the filter; returns the purged keys
+ */
+export async function purgeSearchCache(db: D1Database, filter: SearchCachePurgeFilter = {}): Promise<string[]> {
+  const conditions: string[] = [];
+  const values: Array<string | number> = [];
+
+  if (filter.kind) {
+    conditions.push("kind = ?");
+    values.push(filter.kind);
+  }
+  if (filter.match) {
+    const match = normalizeSearchText(filter.match);
+    if (match) {
+      conditions.push("instr(cache_key, ?) > 0");
+      values.push(match);
+    }
+  }
+  if (filter.expiredOnly) {
+    conditions.push("expires_at <= ?");
+    values.push(Date.now());
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const { results } = await db
+    .prepare(`DELETE FROM search_cache ${where} RETURNING cache_key`)
+    .bind(...values)
+    .all();
+
+  return (results as Array<{ cache_key: string }>).map((row) => row.cache_key);
+}
@@ -0,0 +1,65 @@
+/**
+ * Parser for Google web search result pages
+ * Runs on HTML strings with HTMLRewriter, so it works on pages fetched by the
+ * browser provider and on saved fixtures alike
+ */
+import { cleanText, resolveUrl } from "./normalize";
+import type { WebSearchResult } from "./types";
+
+const GOOGLE_BASE_URL = "https://www.google.com";
+
+// Organic results; snippets moved between these classes over time
+const RESULT_SELECTOR = "div.g";
+const SNIPPET_SELECTORS = [".VwiC3b", "[data-sncf]", ".IsZvec"];
+
+export async function parseGoogleResults(html: string, limit = 5): Promise<WebSearchResult[]> {
+  // Snippet text is kept per selector: they can be nested, and the first one that matched wins
+  const results: Array<{ title: string; snippets: string[]; url: string }> = [];
+  let current: { title: string; snippets: string[]; url: string } | null = null;
+  // Results can be nested in other div.g blocks; only the outermost one counts
+  let depth = 0;
+
+  const rewriter = new HTMLRewriter()
+    .on(RESULT_SELECTOR, {
+      element(element) {
+        depth++;
+        if (depth === 1) {
+          current = { title: "", snippets: [], url: "" };
+          results.push(current);
+        }
+        element.onEndTag(() => {
+          depth--;
+          if (depth === 0) current = null;
+        });
+      }
+    })
+    .on(`${RESULT_SELECTOR} h3`, {
+      text(chunk) {
+        if (current) current.title += chunk.text + (chunk.lastInTextNode ? " " : "");
+      }
+    })
+    .on(`${RESULT_SELECTOR} a[href]`, {
+      element(element) {
+        if (current && !current.url) current.url = element.getAttribute("href") || "";
+      }
+    });
+
+  SNIPPET_SELECTORS.forEach((selector, index) => {
+    rewriter.on(`${RESULT_SELECTOR} ${selector}`, {
+      text(chunk) {
+        if (current) current.snippets[index] = (current.snippets[index] || "") + chunk.text + (chunk.lastInTextNode ? " " : "");
+      }
+    });
+  });
+
+  await rewriter.transform(new Response(html)).text();
+
+  return results
+    .map((result) => ({
+      title: cleanText(result.title),
+      snippet: result.snippets.map((snippet) => cleanText(snippet || "")).find(Boolean) || "",
+      url: resolveUrl(result.url, GOOGLE_BASE_URL)
+    }))
+    .filter((result) => result.title && result.url)
+    .slice(0, limit);
+}
@@ -0,0 +1,103 @@
+/**
+ * Turn scraped text into typed values
+ * Pure functions, so they behave the same on live pages and saved fixtures
+ */
+import type { HotelPrice } from "./types";
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/US\$|USD/, "USD"],
+  [/CA\$|CAD/, "CAD"],
+  [/A\$|AUD/, "AUD"],
+  [/R\$|BRL/, "BRL"],
+  [/€|EUR/, "EUR"],
+  [/£|GBP/, "GBP"],
+  [/¥|JPY/, "JPY"],
+  [/₹|INR/, "INR"],
+  [/฿|THB/, "THB"],
+  [/CHF/, "CHF"],
+  [/\$/, "USD"]
+];
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  euro: "€",
+  pound: "£",
+  yen: "¥"
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Collapse whitespace and decode entities of a text node run
+ */
+export function cleanText(text: string): string {
+  return decodeEntities(text).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parse "€ 1,234", "US$1.234,50" or "1 234 zł"; the last number wins because
+ * discounted prices are shown after the original one
+ */
+export function parsePrice(text: string): HotelPrice | null {
+  const cleaned = cleanText(text);
+  const numbers = cleaned.match(/\d[\d.,\s ]*\d|\d/g);
+  if (!numbers) return null;
+
+  const raw = numbers[numbers.length - 1].replace(/[\s ]/g, "");
+  // A separator followed by exactly two digits at the end is a decimal separator
+  const decimalMatch = raw.match(/[.,](\d{2})$/);
+  const integerPart = decimalMatch ? raw.slice(0, -3) : raw;
+  const amount = Number(`${integerPart.replace(/[.,]/g, "")}${decimalMatch ? `.${decimalMatch[1]}` : ""}`);
+  if (!Number.isFinite(amount)) return null;
+
+  const currency = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(cleaned))?.[1] ?? null;
+  return { amount, currency, text: cleaned };
+}
+
+/**
+ * Review score out of 10 from text like "Scored 8.6 8.6 Excellent" or "8,6"
+ */
+export function parseRating(text: string): number | null {
+  const match = cleanText(text).match(/\b(10|\d)(?:[.,](\d))?\b/);
+  if (!match) return null;
+  return Number(`${match[1]}.${match[2] ?? "0"}`);
+}
+
+/**
+ * Review count from text like "1,234 reviews"
+ */
+export function parseReviewCount(text: string): number | null {
+  const match = cleanText(text).match(/([\d.,]+)\s*reviews?/i);
+  if (!match) return null;
+  const count = Number(match[1].replace(/[.,]/g, ""));
+  return Number.isFinite(count) ? count : null;
+}
+
+/**
+ * Make relative links absolute and unwrap Google's /url?q= redirects
+ */
+export function resolveUrl(href: string, base: string): string {
+  if (!href) return "";
+  try {
+    const url = new URL(decodeEntities(href), base);
+    if (url.hostname.endsWith("google.com") && url.pathname === "/url") {
+      return url.searchParams.get("q") || url.searchParams.get("url") || url.toString();
+    }
+    return url.toString();
+  } catch {
+    return "";
+  }
+}
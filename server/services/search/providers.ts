@@ -0,0 +1,125 @@
+/**
+ * Search providers for searchWeb and searchBooking
+ * The browser provider loads live pages through the BROWSER binding; the
+ * fixture provider parses the saved pages in server/data/search-fixtures.ts,
+ * so local development and CI work without Browser Rendering
+ */
+import puppeteer from "@cloudflare/puppeteer";
+import { BOOKING_RESULTS_FIXTURE, GOOGLE_RESULTS_FIXTURE } from "../../data/search-fixtures";
+import type { Env } from "../../types";
+import { parseBookingResults } from "./booking-parser";
+import { parseGoogleResults } from "./google-parser";
+import {
+  SearchUnavailableError,
+  type HotelResult,
+  type HotelSearchParams,
+  type SearchProvider,
+  type SearchTarget,
+  type WebSearchResult
+} from "./types";
+
+const WEB_SEARCH_TIMEOUT_MS = 10000;
+const HOTEL_SEARCH_TIMEOUT_MS = 15000;
+
+export function buildWebSearchUrl(query: string, target: SearchTarget): string {
+  switch (target) {
+    case "booking.com":
+      return `https://www.booking.com/searchresults.html?ss=${encodeURIComponent(query)}`;
+    case "tripadvisor":
+      // Tripadvisor's own search is rendered client-side; Google indexes it well
+      return `https://www.google.com/search?q=${encodeURIComponent(`${query} site:tripadvisor.com`)}`;
+    case "google":
+    case "general":
+    default:
+      return `https://www.google.com/search?q=${encodeURIComponent(`${query} travel`)}`;
+  }
+}
+
+export function buildHotelSearchUrl({ destination, checkIn, checkOut, guests }: HotelSearchParams): string {
+  let url = `https://www.booking.com/searchresults.html?ss=${encodeURIComponent(destination)}`;
+  if (checkIn) url += `&checkin=${checkIn}`;
+  if (checkOut) url += `&checkout=${checkOut}`;
+  url += `&group_adults=${guests}`;
+  return url;
+}
+
+/**
+ * Booking.com pages list hotels, not web results; present them as results for searchWeb
+ */
+function hotelsToWebResults(hotels: HotelResult[]): WebSearchResult[] {
+  return hotels.map((hotel) => ({
+    title: hotel.name,
+    snippet: [
+      hotel.price?.text,
+      hotel.rating !== null ? `rated ${hotel.rating}/10` : null,
+      hotel.location
+    ].filter(Boolean).join(" · "),
+    url: hotel.url
+  }));
+}
+
+export function createBrowserSearchProvider(browser: Fetcher | undefined): SearchProvider {
+  const fetchHtml = async (url: string, timeout: number): Promise<string> => {
+    if (!browser) {
+      throw new SearchUnavailableError(
+        "Browser binding not configured. Enable Cloudflare Browser Rendering in your dashboard, or set SEARCH_PROVIDER=fixture for local development."
+      );
+    }
+
+    const instance = await puppeteer.launch(browser);
+    try {
+      const page = await instance.newPage();
+      await page.goto(url, { waitUntil: "networkidle0", timeout });
+      return await page.content();
+    } finally {
+      await instance.close();
+    }
+  };
+
+  return {
+    name: "browser",
+    async searchWeb(query, target) {
+      const html = await fetchHtml(buildWebSearchUrl(query, target), WEB_SEARCH_TIMEOUT_MS);
+      return target === "booking.com"
+        ? hotelsToWebResults(await parseBookingResults(html))
+        : parseGoogleResults(html);
+    },
+    async searchHotels(params) {
+      const html = await fetchHtml(buildHotelSearchUrl(params), HOTEL_SEARCH_TIMEOUT_MS);
+      return parseBookingResults(html);
+    }
+  };
+}
+
+function fillFixture(fixture: string, query: string): string {
+  const escaped = query
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+  return fixture.replace(/\{\{query\}\}/g, escaped);
+}
+
+export function createFixtureSearchProvider(): SearchProvider {
+  return {
+    name: "fixture",
+    async searchWeb(query, target) {
+      return target === "booking.com"
+        ? hotelsToWebResults(await parseBookingResults(fillFixture(BOOKING_RESULTS_FIXTURE, query)))
+        : parseGoogleResults(fillFixture(GOOGLE_RESULTS_FIXTURE, query));
+    },
+    async searchHotels(params) {
+      return parseBookingResults(fillFixture(BOOKING_RESULTS_FIXTURE, params.destination));
+    }
+  };
+}
+
+/**
+ * Pick the search provider configured for this deployment
+ */
+export function createSearchProvider(env?: Pick<Env, "SEARCH_PROVIDER" | "BROWSER">): SearchProvider {
+  if (env?.SEARCH_PROVIDER === "fixture") {
+    return createFixtureSearchProvider();
+  }
+  return createBrowserSearchProvider(env?.BROWSER);
+}
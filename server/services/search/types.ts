@@ -0,0 +1,49 @@
+/**
+ * Typed results shared by the search providers and the searchWeb / searchBooking tools
+ */
+
+export type SearchTarget = "general" | "booking.com" | "tripadvisor" | "google";
+
+export interface WebSearchResult {
+  title: string;
+  snippet: string;
+  url: string;
+}
+
+export interface HotelPrice {
+  amount: number;
+  currency: string | null; // ISO 4217 when the symbol or code was recognized
+  text: string; // As displayed, e.g. "€ 1,234"
+}
+
+export interface HotelResult {
+  name: string;
+  url: string;
+  price: HotelPrice | null;
+  rating: number | null; // Review score out of 10
+  reviewCount: number | null;
+  location: string | null;
+}
+
+export interface HotelSearchParams {
+  destination: string;
+  checkIn?: string;
+  checkOut?: string;
+  guests: number;
+}
+
+export interface SearchProvider {
+  name: "browser" | "fixture";
+  searchWeb(query: string, target: SearchTarget): Promise<WebSearchResult[]>;
+  searchHotels(params: HotelSearchParams): Promise<HotelResult[]>;
+}
+
+/**
+ * The provider cannot search at all (e.g. no BROWSER binding), as opposed to finding nothing
+ */
+export class SearchUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchUnavailableError";
+  }
+}
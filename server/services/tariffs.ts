@@ -0,0 +1,127 @@
+/**
+ * City transport tariff tables used to estimate travel costs
+ * Values are approximate public fares; override them per deployment with the
+ * TRAVEL_TARIFFS variable (JSON object keyed by lowercase city name)
+ */
+import { normalizeCityName } from "./geo";
+
+export interface CityTariff {
+  currency: string;
+  taxi: {
+    baseFare: number;
+    perKm: number;
+    perMinute: number;
+    minimumFare: number;
+  };
+  publicTransport: {
+    singleFare: number;
+  };
+  driving: {
+    perKm: number;
+  };
+}
+
+export const DEFAULT_TARIFF: CityTariff = {
+  currency: "USD",
+  taxi: { baseFare: 3, perKm: 1.8, perMinute: 0.4, minimumFare: 8 },
+  publicTransport: { singleFare: 2.5 },
+  driving: { perKm: 0.25 }
+};
+
+export const CITY_TARIFFS: Record<string, CityTariff> = {
+  paris: {
+    currency: "EUR",
+    taxi: { baseFare: 4.4, perKm: 1.3, perMinute: 0.6, minimumFare: 7.3 },
+    publicTransport: { singleFare: 2.15 },
+    driving: { perKm: 0.3 }
+  },
+  london: {
+    currency: "GBP",
+    taxi: { baseFare: 3.8, perKm: 2.1, perMinute: 0.5, minimumFare: 3.8 },
+    publicTransport: { singleFare: 2.8 },
+    driving: { perKm: 0.3 }
+  },
+  "new york": {
+    currency: "USD",
+    taxi: { baseFare: 3, perKm: 2.2, perMinute: 0.7, minimumFare: 3 },
+    publicTransport: { singleFare: 2.9 },
+    driving: { perKm: 0.35 }
+  },
+  tokyo: {
+    currency: "JPY",
+    taxi: { baseFare: 500, perKm: 400, perMinute: 80, minimumFare: 500 },
+    publicTransport: { singleFare: 210 },
+    driving: { perKm: 35 }
+  },
+  madrid: {
+    currency: "EUR",
+    taxi: { baseFare: 2.5, perKm: 1.3, perMinute: 0.35, minimumFare: 2.5 },
+    publicTransport: { singleFare: 1.5 },
+    driving: { perKm: 0.25 }
+  },
+  barcelona: {
+    currency: "EUR",
+    taxi: { baseFare: 2.6, perKm: 1.35, perMinute: 0.4, minimumFare: 2.6 },
+    publicTransport: { singleFare: 2.55 },
+    driving: { perKm: 0.25 }
+  },
+  lisbon: {
+    currency: "EUR",
+    taxi: { baseFare: 3.25, perKm: 0.5, perMinute: 0.25, minimumFare: 3.25 },
+    publicTransport: { singleFare: 1.85 },
+    driving: { perKm: 0.25 }
+  },
+  rome: {
+    currency: "EUR",
+    taxi: { baseFare: 3.5, perKm: 1.2, perMinute: 0.45, minimumFare: 3.5 },
+    publicTransport: { singleFare: 1.5 },
+    driving: { perKm: 0.28 }
+  },
+  berlin: {
+    currency: "EUR",
+    taxi: { baseFare: 4.3, perKm: 2.4, perMinute: 0.5, minimumFare: 4.3 },
+    publicTransport: { singleFare: 3.5 },
+    driving: { perKm: 0.28 }
+  },
+  amsterdam: {
+    currency: "EUR",
+    taxi: { baseFare: 3.2, perKm: 2.35, perMinute: 0.4, minimumFare: 3.2 },
+    publicTransport: { singleFare: 3.4 },
+    driving: { perKm: 0.3 }
+  }
+};
+
+/**
+ * Parse tariff overrides from the TRAVEL_TARIFFS environment variable
+ */
+export function parseTariffOverrides(raw?: string): Record<string, CityTariff> {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, CityTariff>;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([city, tariff]) => [normalizeCityName(city), tariff])
+    );
+  } catch (error) {
+    console.error("[tariffs] Invalid TRAVEL_TARIFFS value:", error);
+    return {};
+  }
+}
+
+/**
+ * Get the tariff table for a city, falling back to DEFAULT_TARIFF
+ */
+export function getCityTariff(
+  city: string | undefined,
+  overrides: Record<string, CityTariff> = {}
+): { city: string | null; tariff: CityTariff; isDefault: boolean } {
+  if (city) {
+    const key = normalizeCityName(city);
+    const tariff = overrides[key] || CITY_TARIFFS[key];
+    if (tariff) {
+      return { city: key, tariff, isDefault: false };
+    }
+  }
+
+  return { city: null, tariff: DEFAULT_TARIFF, isDefault: true };
+}
@@ -0,0 +1,19 @@
+/**
+ * "HH:MM" activity times as minutes since midnight
+ */
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function parseTimeOfDay(time: string | undefined): number | null {
+  const match = time ? TIME_PATTERN.exec(time.trim()) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Format minutes since midnight, wrapping times past midnight
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(wrapped / 60);
+  return `${String(hours).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+}
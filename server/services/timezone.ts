@@ -0,0 +1,144 @@
+/**
+ * IANA timezone of a destination
+ * Explicit zones are validated with Intl; otherwise the zone is inferred
+ * offline from the nearest reference place in TIMEZONE_REFERENCES
+ */
+import { TIMEZONE_REFERENCES } from "../data/timezones";
+import type { ItineraryData } from "../types";
+import { haversineKm, isValidCoordinates, type Coordinates } from "./geo";
+
+// Beyond this distance the nearest place says little about the local zone
+const MAX_REFERENCE_DISTANCE_KM = 600;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Infer the zone from coordinates
+ * Falls back to a fixed-offset Etc/GMT zone from the longitude far from any reference place
+ */
+export function inferTimezone(coordinates: Coordinates): string {
+  let nearest: { timezone: string; distanceKm: number } | null = null;
+
+  for (const [, lat, lng, timezone] of TIMEZONE_REFERENCES) {
+    const distanceKm = haversineKm(coordinates, { lat, lng });
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { timezone, distanceKm };
+    }
+  }
+
+  if (nearest && nearest.distanceKm <= MAX_REFERENCE_DISTANCE_KM) {
+    return nearest.timezone;
+  }
+
+  // Etc/GMT signs are inverted: Etc/GMT-3 is UTC+3
+  const offsetHours = Math.round(coordinates.lng / 15);
+  if (offsetHours === 0) return "Etc/UTC";
+  return `Etc/GMT${offsetHours > 0 ? "-" : "+"}${Math.abs(offsetHours)}`;
+}
+
+/**
+ * Timezone for an itinerary: the explicit one when valid, else inferred
+ * from the activities' coordinates, else null (times stay floating)
+ */
+export function resolveItineraryTimezone(
+  itinerary: Pick<ItineraryData, "days">,
+  explicit?: string
+): string | null {
+  if (explicit) {
+    if (!isValidTimezone(explicit)) {
+      throw new Error(`Unknown timezone "${explicit}". Use an IANA name such as "Europe/Paris"`);
+    }
+    return explicit;
+  }
+
+  const points = itinerary.days
+    .flatMap((day) => day.activities.map((activity) => activity.coordinates))
+    .filter((coordinates): coordinates is Coordinates => isValidCoordinates(coordinates));
+
+  if (points.length === 0) return null;
+
+  // Centroid of the activities; a day trip elsewhere does not change the zone
+  const centroid = {
+    lat: points.reduce((total, point) => total + point.lat, 0) / points.length,
+    lng: points.reduce((total, point) => total + point.lng, 0) / points.length
+  };
+
+  return inferTimezone(centroid);
+}
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+function getZonedParts(timezone: string, instant: Date): Record<string, number> {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return parts;
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (Paris in summer: 120)
+ */
+export function getTimezoneOffsetMinutes(timezone: string, instant: Date): number {
+  const parts = getZonedParts(timezone, instant);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+/**
+ * Wall-clock date and time in the zone at the given instant
+ */
+export function toZonedDateTime(timezone: string, instant: Date): ZonedDateTime {
+  const parts = getZonedParts(timezone, instant);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`
+  };
+}
+
+/**
+ * Instant of a wall-clock date and time in the zone
+ * The offset is read twice so times next to a DST change resolve to the right side
+ */
+export function fromZonedDateTime(timezone: string, { date, time }: ZonedDateTime): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  const firstGuess = asUtc - getTimezoneOffsetMinutes(timezone, new Date(asUtc)) * 60000;
+  return new Date(asUtc - getTimezoneOffsetMinutes(timezone, new Date(firstGuess)) * 60000);
+}
+
+/**
+ * ISO 8601 local time with its UTC offset, e.g. "2026-05-01T07:10:00+01:00"
+ */
+export function formatZonedIso(timezone: string, instant: Date): string {
+  const { date, time } = toZonedDateTime(timezone, instant);
+  const offset = getTimezoneOffsetMinutes(timezone, instant);
+  const sign = offset < 0 ? "-" : "+";
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${date}T${time}:00${sign}${hours}:${minutes}`;
+}
@@ -0,0 +1,186 @@
+/**
+ * Transport providers for searchTransport
+ * The fixture provider builds sample flights and trains offline from the
+ * distance between two known cities; the live provider calls a transport API
+ * that answers in the same TransportOption shape
+ */
+import {
+  FIXTURE_AIRPORTS,
+  FIXTURE_CARRIERS,
+  FIXTURE_DEPARTURES,
+  FIXTURE_MAX_TRAIN_KM,
+  FIXTURE_STATIONS
+} from "../../data/transport-fixtures";
+import { TIMEZONE_REFERENCES } from "../../data/timezones";
+import type { Env } from "../../types";
+import { haversineKm, normalizeCityName, type Coordinates } from "../geo";
+import { formatZonedIso, fromZonedDateTime } from "../timezone";
+import type {
+  TransportEndpoint,
+  TransportMode,
+  TransportOption,
+  TransportProvider,
+  TransportSearchParams
+} from "./types";
+
+interface KnownCity {
+  name: string;
+  coordinates: Coordinates;
+  timezone: string;
+}
+
+function findKnownCity(city: string): KnownCity | null {
+  const name = normalizeCityName(city);
+  const reference = TIMEZONE_REFERENCES.find(([candidate]) => candidate.toLowerCase() === name);
+  if (!reference) return null;
+  const [referenceName, lat, lng, timezone] = reference;
+  return { name: referenceName, coordinates: { lat, lng }, timezone };
+}
+
+function roundToFive(minutes: number): number {
+  return Math.round(minutes / 5) * 5;
+}
+
+function fixtureEndpoint(city: KnownCity, mode: TransportMode, instant: Date): TransportEndpoint {
+  const key = city.name.toLowerCase();
+  const [station, code] = mode === "FLIGHT"
+    ? FIXTURE_AIRPORTS[key] ?? [`${city.name} Airport`, undefined]
+    : [FIXTURE_STATIONS[key]?.[0] ?? `${city.name} Central Station`, undefined];
+
+  return {
+    city: city.name,
+    station,
+    code,
+    dateTime: formatZonedIso(city.timezone, instant),
+    timezone: city.timezone,
+    coordinates: city.coordinates
+  };
+}
+
+/**
+ * Sample options for one direction: a flight per departure slot when the
+ * cities are far enough apart, a train per slot when both are on one rail network
+ */
+function buildFixtureOptions(
+  from: KnownCity,
+  to: KnownCity,
+  date: string,
+  direction: TransportOption["direction"],
+  modes: TransportMode[]
+): TransportOption[] {
+  const distanceKm = haversineKm(from.coordinates, to.coordinates);
+  const options: TransportOption[] = [];
+
+  const fromNetwork = FIXTURE_STATIONS[from.name.toLowerCase()]?.[1];
+  const toNetwork = FIXTURE_STATIONS[to.name.toLowerCase()]?.[1];
+  const hasTrain = !!fromNetwork && fromNetwork === toNetwork && distanceKm <= FIXTURE_MAX_TRAIN_KM;
+  const hasFlight = distanceKm >= 250;
+
+  for (const mode of modes) {
+    if ((mode === "TRAIN" && !hasTrain) || (mode === "FLIGHT" && !hasFlight)) continue;
+
+    const departures: readonly string[] = FIXTURE_DEPARTURES[mode];
+    departures.forEach((time, index) => {
+      const carrier = FIXTURE_CARRIERS[mode][index];
+      // Long flights connect once; so does the midday flight on routes over 800 km, which makes it cheaper
+      const stops = mode === "FLIGHT" && (distanceKm > 4500 || (index === 1 && distanceKm > 800)) ? 1 : 0;
+
+      const durationMinutes = mode === "FLIGHT"
+        ? roundToFive(35 + ((distanceKm * 1.05) / 780) * 60 + stops * 110)
+        : roundToFive(20 + ((distanceKm * 1.25) / 140) * 60);
+
+      const basePrice = mode === "FLIGHT" ? 45 + distanceKm * 0.11 : 12 + distanceKm * 0.14;
+      const slotFactor = [1.15, stops > 0 ? 0.8 : 1, 0.9][index];
+
+      const departure = fromZonedDateTime(from.timezone, { date, time });
+      const arrival = new Date(departure.getTime() + durationMinutes * 60000);
+      const serviceNumber = `${carrier.code} ${100 + ((Math.round(distanceKm) + index * 37) % 900)}`;
+
+      options.push({
+        id: `fixture_${direction}_${mode.toLowerCase()}_${date}_${time.replace(":", "")}`,
+        direction,
+        mode,
+        carrier: carrier.name,
+        serviceNumber,
+        departure: fixtureEndpoint(from, mode, departure),
+        arrival: fixtureEndpoint(to, mode, arrival),
+        durationMinutes,
+        stops,
+        price: { amount: Math.round(basePrice * slotFactor), currency: "USD" }
+      });
+    });
+  }
+
+  return options;
+}
+
+export function createFixtureTransportProvider(): TransportProvider {
+  return {
+    name: "fixture",
+    async searchTransport({ origin, destination, departureDate, returnDate, modes }) {
+      const from = findKnownCity(origin);
+      const to = findKnownCity(destination);
+      if (!from || !to || from.name === to.name) return [];
+
+      return [
+        ...buildFixtureOptions(from, to, departureDate, "outbound", modes),
+        ...(returnDate ? buildFixtureOptions(to, from, returnDate, "return", modes) : [])
+      ];
+    }
+  };
+}
+
+/**
+ * Adapter for a live transport API
+ * Expects GET {baseUrl}/search?origin=&destination=&date=&passengers=&modes=FLIGHT,TRAIN
+ * to answer { options: [...] } with options shaped like TransportOption (without direction)
+ */
+export function createLiveTransportProvider(baseUrl: string, apiKey: string | undefined): TransportProvider {
+  const searchDirection = async (
+    origin: string,
+    destination: string,
+    date: string,
+    direction: TransportOption["direction"],
+    params: TransportSearchParams
+  ): Promise<TransportOption[]> => {
+    // Relative to the base so a path prefix in TRANSPORT_API_URL is kept
+    const url = new URL("search", baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+    url.searchParams.set("origin", origin);
+    url.searchParams.set("destination", destination);
+    url.searchParams.set("date", date);
+    url.searchParams.set("passengers", String(params.passengers));
+    url.searchParams.set("modes", params.modes.join(","));
+
+    const response = await fetch(url.toString(), {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transport API responded ${response.status}`);
+    }
+
+    const body = (await response.json()) as { options?: Omit<TransportOption, "direction">[] };
+    return (body.options || []).map((option) => ({ ...option, direction }));
+  };
+
+  return {
+    name: "live",
+    async searchTransport(params) {
+      const outbound = await searchDirection(params.origin, params.destination, params.departureDate, "outbound", params);
+      const inbound = params.returnDate
+        ? await searchDirection(params.destination, params.origin, params.returnDate, "return", params)
+        : [];
+      return [...outbound, ...inbound];
+    }
+  };
+}
+
+/**
+ * Pick the transport provider configured for this deployment
+ */
+export function createTransportProvider(env?: Pick<Env, "TRANSPORT_PROVIDER" | "TRANSPORT_API_URL" | "TRANSPORT_API_KEY">): TransportProvider {
+  if (env?.TRANSPORT_PROVIDER === "live" && env.TRANSPORT_API_URL) {
+    return createLiveTransportProvider(env.TRANSPORT_API_URL, env.TRANSPORT_API_KEY);
+  }
+  return createFixtureTransportProvider();
+}
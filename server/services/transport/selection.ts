@@ -0,0 +1,143 @@
+/**
+ * Put a picked transport option into an itinerary
+ * On multi-city trips an option between two stops fills in the leg; otherwise
+ * it becomes a fixed-time TRANSPORTATION activity. Activity times are local to
+ * the day's zone (stop, then itinerary), like every other activity on that day
+ */
+import type { Activity, Day, ItineraryData, TravelLeg } from "../../types";
+import { normalizeCityName } from "../geo";
+import { applyItineraryPatch, summarizeItinerary } from "../itinerary";
+import { formatDuration } from "../travel-time";
+import { toZonedDateTime, type ZonedDateTime } from "../timezone";
+import type { TransportEndpoint, TransportOption } from "./types";
+
+export type TransportPlacement =
+  | { kind: "leg"; legId: string }
+  | { kind: "activity"; dayNumber: number; activityId: string };
+
+const MODE_LABELS: Record<TransportOption["mode"], string> = {
+  FLIGHT: "Flight",
+  TRAIN: "Train"
+};
+
+const MODE_TIPS: Record<TransportOption["mode"], string[]> = {
+  FLIGHT: ["Be at the airport 2 hours before departure", "Check in online and check the baggage allowance"],
+  TRAIN: ["Be on the platform 15 minutes before departure", "Keep the ticket at hand for inspection"]
+};
+
+/**
+ * Wall-clock date and time printed in the endpoint's own dateTime
+ */
+function endpointLocal(endpoint: TransportEndpoint): ZonedDateTime {
+  return { date: endpoint.dateTime.slice(0, 10), time: endpoint.dateTime.slice(11, 16) };
+}
+
+function parseEndpointInstant(endpoint: TransportEndpoint | undefined, label: string): Date {
+  const instant = endpoint?.dateTime ? new Date(endpoint.dateTime) : null;
+  if (!instant || Number.isNaN(instant.getTime())) {
+    throw new Error(`Transport option has no valid ${label} time`);
+  }
+  return instant;
+}
+
+function describeEndpoint(endpoint: TransportEndpoint): string {
+  const station = endpoint.code ? `${endpoint.station} (${endpoint.code})` : endpoint.station;
+  return `${station} at ${endpointLocal(endpoint).time} ${endpoint.city} time`;
+}
+
+function describeOption(option: TransportOption): string {
+  const stops = option.stops === 0 ? "direct" : `${option.stops} stop${option.stops > 1 ? "s" : ""}`;
+  return `${option.carrier}${option.serviceNumber ? ` ${option.serviceNumber}` : ""}: departs ${describeEndpoint(option.departure)}, arrives ${describeEndpoint(option.arrival)}. ${formatDuration(option.durationMinutes)}, ${stops}.`;
+}
+
+function getDayTimezone(itinerary: ItineraryData, day: Day): string | undefined {
+  const stop = itinerary.stops?.find((candidate) => candidate.id === day.stopId);
+  return stop?.timezone ?? itinerary.timezone;
+}
+
+function findMatchingLeg(itinerary: ItineraryData, option: TransportOption): TravelLeg | undefined {
+  const stops = itinerary.stops || [];
+  const cityOf = (stopId: string) => normalizeCityName(stops.find((stop) => stop.id === stopId)?.city || "");
+  const from = normalizeCityName(option.departure.city);
+  const to = normalizeCityName(option.arrival.city);
+  return (itinerary.legs || []).find((leg) => cityOf(leg.fromStopId) === from && cityOf(leg.toStopId) === to);
+}
+
+export function applyTransportOption(
+  itinerary: ItineraryData,
+  option: TransportOption,
+  passengers: number = itinerary.travelers || 1
+): { itinerary: ItineraryData; placement: TransportPlacement } {
+  const departure = parseEndpointInstant(option?.departure, "departure");
+  const arrival = parseEndpointInstant(option?.arrival, "arrival");
+  const estimatedCost = option.price ? Math.round(option.price.amount * passengers * 100) / 100 : 0;
+
+  const leg = findMatchingLeg(itinerary, option);
+  if (leg) {
+    const updatedLeg: TravelLeg = {
+      ...leg,
+      mode: option.mode,
+      date: endpointLocal(option.departure).date,
+      departureTime: endpointLocal(option.departure).time,
+      arrivalTime: endpointLocal(option.arrival).time,
+      durationMinutes: option.durationMinutes,
+      estimatedCost,
+      currency: option.price?.currency ?? leg.currency,
+      notes: describeOption(option)
+    };
+
+    return {
+      itinerary: summarizeItinerary({
+        ...itinerary,
+        legs: (itinerary.legs || []).map((candidate) => (candidate.id === leg.id ? updatedLeg : candidate))
+      }),
+      placement: { kind: "leg", legId: leg.id }
+    };
+  }
+
+  // The day the traveler leaves on, or the day they arrive on for a trip that starts in transit
+  const localOn = (day: Day, instant: Date) =>
+    toZonedDateTime(getDayTimezone(itinerary, day) ?? option.departure.timezone, instant);
+  const departureDay = itinerary.days.find((day) => localOn(day, departure).date === day.date);
+  const arrivalDay = departureDay ? undefined : itinerary.days.find((day) => localOn(day, arrival).date === day.date);
+  const day = departureDay ?? arrivalDay;
+
+  if (!day) {
+    throw new Error(
+      `${MODE_LABELS[option.mode]} departs ${option.departure.dateTime} and arrives ${option.arrival.dateTime}, outside the itinerary dates (${itinerary.startDate} to ${itinerary.endDate})`
+    );
+  }
+
+  const route = `${option.departure.city} → ${option.arrival.city}`;
+  const activity: Omit<Activity, "id"> = {
+    title: `${arrivalDay ? "Arrival: " : ""}${MODE_LABELS[option.mode]} ${option.serviceNumber || option.carrier}, ${route}`,
+    description: describeOption(option),
+    location: arrivalDay ? option.arrival.station : option.departure.station,
+    coordinates: arrivalDay ? option.arrival.coordinates : option.departure.coordinates,
+    // Overnight trips end on the next day: an end before the start reads as overnight
+    startTime: localOn(day, arrivalDay ? arrival : departure).time,
+    endTime: arrivalDay ? undefined : localOn(day, arrival).time,
+    category: "TRANSPORTATION",
+    estimatedCost,
+    currency: option.price?.currency,
+    priority: "HIGH",
+    tips: MODE_TIPS[option.mode],
+    fixedTime: true
+  };
+
+  const next = day.activities.find((candidate) => candidate.startTime > activity.startTime);
+  const { itinerary: updated, affectedActivityIds } = applyItineraryPatch(itinerary, {
+    op: "add",
+    items: [{
+      dayNumber: day.dayNumber,
+      activity,
+      position: next ? "before" : "end",
+      referenceActivityId: next?.id
+    }]
+  });
+
+  return {
+    itinerary: updated,
+    placement: { kind: "activity", dayNumber: day.dayNumber, activityId: affectedActivityIds[0] }
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Typed options shared by the transport providers and the searchTransport tool
+ */
+
+export type TransportMode = "FLIGHT" | "TRAIN";
+
+export interface TransportEndpoint {
+  city: string;
+  station: string; // Airport or station name
+  code?: string; // IATA airport code or station code
+  dateTime: string; // ISO 8601 local time with its UTC offset, e.g. "2026-05-01T07:10:00+01:00"
+  timezone: string; // IANA zone of the airport or station
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+}
+
+export interface TransportPrice {
+  amount: number; // Per passenger
+  currency: string; // ISO 4217
+}
+
+export interface TransportOption {
+  id: string;
+  direction: "outbound" | "return";
+  mode: TransportMode;
+  carrier: string;
+  serviceNumber?: string; // Flight or train number, e.g. "TP 432"
+  departure: TransportEndpoint;
+  arrival: TransportEndpoint;
+  durationMinutes: number;
+  stops: number; // Connections; 0 is direct
+  price: TransportPrice | null;
+  bookingUrl?: string;
+}
+
+export interface TransportSearchParams {
+  origin: string;
+  destination: string;
+  departureDate: string; // YYYY-MM-DD
+  returnDate?: string; // YYYY-MM-DD, also searches the way back
+  passengers: number;
+  modes: TransportMode[];
+}
+
+export interface TransportProvider {
+  name: "fixture" | "live";
+  searchTransport(params: TransportSearchParams): Promise<TransportOption[]>;
+}
@@ -0,0 +1,197 @@
+/**
+ * Distance-based travel time engine
+ * Estimates door-to-door time and cost between two points from their coordinates:
+ * great-circle distance, a per-mode detour factor and a per-mode speed profile
+ */
+import { haversineKm, type Coordinates } from "./geo";
+import type { CityTariff } from "./tariffs";
+
+export type TransportMode = "walking" | "driving" | "public_transport" | "taxi";
+
+export const TRANSPORT_MODES: TransportMode[] = ["walking", "driving", "public_transport", "taxi"];
+
+interface ModeProfile {
+  // Road/path distance divided by straight-line distance
+  detourFactor: number;
+  // Average speed inside the city
+  urbanSpeedKmh: number;
+  // Average speed for the part of the trip beyond URBAN_RADIUS_KM
+  longDistanceSpeedKmh: number;
+  // Fixed minutes added to every trip (waiting, parking, pickup)
+  overheadMinutes: number;
+  // Longest trip this mode is suggested for
+  maxRecommendedKm: number;
+}
+
+const URBAN_RADIUS_KM = 10;
+
+// Walks up to this long are suggested over faster modes
+export const MAX_SUGGESTED_WALK_MINUTES = 20;
+
+export const MODE_PROFILES: Record<TransportMode, ModeProfile> = {
+  walking: {
+    detourFactor: 1.3,
+    urbanSpeedKmh: 4.8,
+    longDistanceSpeedKmh: 4.8,
+    overheadMinutes: 0,
+    maxRecommendedKm: 4
+  },
+  driving: {
+    detourFactor: 1.35,
+    urbanSpeedKmh: 25,
+    longDistanceSpeedKmh: 80,
+    overheadMinutes: 8,
+    maxRecommendedKm: Number.POSITIVE_INFINITY
+  },
+  public_transport: {
+    detourFactor: 1.45,
+    urbanSpeedKmh: 18,
+    longDistanceSpeedKmh: 60,
+    overheadMinutes: 10,
+    maxRecommendedKm: 150
+  },
+  taxi: {
+    detourFactor: 1.35,
+    urbanSpeedKmh: 24,
+    longDistanceSpeedKmh: 75,
+    overheadMinutes: 5,
+    maxRecommendedKm: 100
+  }
+};
+
+export interface TravelEstimate {
+  mode: TransportMode;
+  straightLineKm: number;
+  distanceKm: number;
+  durationMinutes: number;
+  cost: number;
+  currency: string;
+  recommended: boolean;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function estimateDurationMinutes(distanceKm: number, profile: ModeProfile): number {
+  const urbanKm = Math.min(distanceKm, URBAN_RADIUS_KM);
+  const longKm = Math.max(0, distanceKm - URBAN_RADIUS_KM);
+  const hours = urbanKm / profile.urbanSpeedKmh + longKm / profile.longDistanceSpeedKmh;
+  return hours * 60 + profile.overheadMinutes;
+}
+
+function estimateCost(
+  mode: TransportMode,
+  distanceKm: number,
+  durationMinutes: number,
+  tariff: CityTariff
+): number {
+  switch (mode) {
+    case "walking":
+      return 0;
+    case "public_transport":
+      return tariff.publicTransport.singleFare;
+    case "driving":
+      return distanceKm * tariff.driving.perKm;
+    case "taxi": {
+      const fare =
+        tariff.taxi.baseFare +
+        distanceKm * tariff.taxi.perKm +
+        durationMinutes * tariff.taxi.perMinute;
+      return Math.max(fare, tariff.taxi.minimumFare);
+    }
+  }
+}
+
+/**
+ * Estimate a single trip between two points with the given mode
+ */
+export function estimateTravel(
+  from: Coordinates,
+  to: Coordinates,
+  mode: TransportMode,
+  tariff: CityTariff
+): TravelEstimate {
+  const profile = MODE_PROFILES[mode];
+  const straightLineKm = haversineKm(from, to);
+  const distanceKm = straightLineKm * profile.detourFactor;
+  const durationMinutes = estimateDurationMinutes(distanceKm, profile);
+
+  return {
+    mode,
+    straightLineKm: round(straightLineKm, 2),
+    distanceKm: round(distanceKm, 2),
+    durationMinutes: Math.max(1, Math.round(durationMinutes)),
+    cost: round(estimateCost(mode, distanceKm, durationMinutes, tariff), 2),
+    currency: tariff.currency,
+    recommended: distanceKm <= profile.maxRecommendedKm
+  };
+}
+
+/**
+ * Estimate the trip with every transport mode, fastest first
+ */
+export function estimateAllModes(
+  from: Coordinates,
+  to: Coordinates,
+  tariff: CityTariff
+): TravelEstimate[] {
+  return TRANSPORT_MODES
+    .map((mode) => estimateTravel(from, to, mode, tariff))
+    .sort((a, b) => a.durationMinutes - b.durationMinutes);
+}
+
+/**
+ * Fastest sensible way between two activities; walking 20 km is never
+ * suggested even when it would come out faster
+ */
+export function estimateTransfer(from: Coordinates, to: Coordinates, tariff: CityTariff): TravelEstimate {
+  const estimates = estimateAllModes(from, to, tariff);
+  return estimates.find((estimate) => estimate.recommended) ?? estimates[0];
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}min`;
+}
+
+export function formatCost(cost: number, currency: string): string {
+  return cost === 0 ? "Free" : `${cost.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Build human-readable advice from the estimates
+ */
+export function buildTravelRecommendations(
+  selected: TravelEstimate,
+  alternatives: TravelEstimate[]
+): string[] {
+  const recommendations: string[] = [];
+  const walking = alternatives.find((a) => a.mode === "walking");
+  const fastest = alternatives[0];
+  const cheapestPaid = alternatives
+    .filter((a) => a.recommended && a.mode !== "walking")
+    .sort((a, b) => a.cost - b.cost)[0];
+
+  if (walking && walking.recommended && walking.durationMinutes <= MAX_SUGGESTED_WALK_MINUTES) {
+    recommendations.push(`It's only a ${walking.durationMinutes}-minute walk, walking is probably the best option`);
+  }
+
+  if (!selected.recommended) {
+    recommendations.push(`${selected.mode.replace("_", " ")} is not practical for ${selected.distanceKm} km, consider ${fastest.mode.replace("_", " ")}`);
+  }
+
+  if (fastest.mode !== selected.mode && fastest.durationMinutes < selected.durationMinutes - 5) {
+    recommendations.push(`${fastest.mode.replace("_", " ")} is faster (${formatDuration(fastest.durationMinutes)})`);
+  }
+
+  if (cheapestPaid && cheapestPaid.mode !== selected.mode && cheapestPaid.cost < selected.cost) {
+    recommendations.push(`${cheapestPaid.mode.replace("_", " ")} is cheaper (${formatCost(cheapestPaid.cost, cheapestPaid.currency)})`);
+  }
+
+  recommendations.push("Estimates are based on straight-line distance, allow extra time during rush hours");
+  return recommendations;
+}
@@ -0,0 +1,196 @@
+/**
+ * Traveler profile of a user (migrations/0006_traveler_profiles.sql)
+ * Edited from the settings screen, summarized into the chat agent's system
+ * prompt and used as defaults when generating itineraries
+ */
+import type { AccommodationType, TravelerProfile, TravelPace } from "../types";
+
+export const TRAVEL_PACES: TravelPace[] = ["relaxed", "moderate", "packed"];
+export const ACCOMMODATION_TYPES: AccommodationType[] = ["hotel", "hostel", "apartment", "luxury", "budget"];
+
+const MAX_LIST_ITEMS = 15;
+const MAX_TEXT_LENGTH = 200;
+
+const PACE_DESCRIPTIONS: Record<TravelPace, string> = {
+  relaxed: "relaxed, 2-3 activities a day with long breaks",
+  moderate: "moderate, 3-4 activities a day",
+  packed: "packed, 5 or more activities a day"
+};
+
+export function emptyTravelerProfile(): TravelerProfile {
+  return { dietaryRestrictions: [], loyaltyPrograms: [], interests: [] };
+}
+
+function optionalText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new Error(`${field} must be text`);
+  const text = value.trim().slice(0, MAX_TEXT_LENGTH);
+  return text || undefined;
+}
+
+function textList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`${field} must be a list`);
+
+  const items = value.map((item) => optionalText(item, field)).filter((item): item is string => !!item);
+  // Case-insensitive dedupe, keeping the first spelling
+  const seen = new Set<string>();
+  return items
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+/**
+ * Validate a profile sent by the client
+ * Throws with a message naming the field, so the route can answer 400
+ */
+export function normalizeTravelerProfile(input: unknown): TravelerProfile {
+  if (!input || typeof input !== "object") {
+    throw new Error("Profile must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+  const profile: TravelerProfile = {
+    homeCity: optionalText(raw.homeCity, "homeCity"),
+    dietaryRestrictions: textList(raw.dietaryRestrictions, "dietaryRestrictions"),
+    mobilityNeeds: optionalText(raw.mobilityNeeds, "mobilityNeeds"),
+    loyaltyPrograms: textList(raw.loyaltyPrograms, "loyaltyPrograms"),
+    interests: textList(raw.interests, "interests")
+  };
+
+  if (raw.pace !== undefined && raw.pace !== null && raw.pace !== "") {
+    if (!TRAVEL_PACES.includes(raw.pace as TravelPace)) {
+      throw new Error(`pace must be one of: ${TRAVEL_PACES.join(", ")}`);
+    }
+    profile.pace = raw.pace as TravelPace;
+  }
+
+  if (raw.accommodationType !== undefined && raw.accommodationType !== null && raw.accommodationType !== "") {
+    if (!ACCOMMODATION_TYPES.includes(raw.accommodationType as AccommodationType)) {
+      throw new Error(`accommodationType must be one of: ${ACCOMMODATION_TYPES.join(", ")}`);
+    }
+    profile.accommodationType = raw.accommodationType as AccommodationType;
+  }
+
+  if (raw.travelers !== undefined && raw.travelers !== null && raw.travelers !== "") {
+    const travelers = Number(raw.travelers);
+    if (!Number.isInteger(travelers) || travelers < 1 || travelers > 20) {
+      throw new Error("travelers must be a whole number between 1 and 20");
+    }
+    profile.travelers = travelers;
+  }
+
+  if (raw.usualBudget !== undefined && raw.usualBudget !== null) {
+    const budget = raw.usualBudget as Record<string, unknown>;
+    const amount = Number(budget.amount);
+    const currency = typeof budget.currency === "string" ? budget.currency.trim().toUpperCase() : "";
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error("usualBudget.amount must be a positive number");
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new Error("usualBudget.currency must be an ISO 4217 code such as EUR");
+    }
+    if (budget.per !== "trip" && budget.per !== "day") {
+      throw new Error('usualBudget.per must be "trip" or "day"');
+    }
+    profile.usualBudget = { amount, currency, per: budget.per };
+  }
+
+  return profile;
+}
+
+export async function getTravelerProfile(db: D1Database, userId: string): Promise<TravelerProfile | null> {
+  const row = await db.prepare(
+    "SELECT data, updated_at FROM traveler_profiles WHERE user_id = ?"
+  ).bind(userId).first<{ data: string; updated_at: number }>();
+
+  if (!row) return null;
+
+  return {
+    ...emptyTravelerProfile(),
+    ...JSON.parse(row.data),
+    updatedAt: new Date(row.updated_at * 1000).toISOString()
+  };
+}
+
+export async function saveTravelerProfile(
+  db: D1Database,
+  userId: string,
+  profile: TravelerProfile
+): Promise<TravelerProfile> {
+  const { updatedAt: _updatedAt, ...data } = profile;
+  await db.prepare(`
+      INSERT INTO traveler_profiles (user_id, data, updated_at)
+      VALUES (?, ?, unixepoch())
+      ON CONFLICT(user_id) DO UPDATE SET
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `).bind(userId, JSON.stringify(data)).run();
+
+  return { ...data, updatedAt: new Date().toISOString() };
+}
+
+export async function deleteTravelerProfile(db: D1Database, userId: string): Promise<void> {
+  await db.prepare("DELETE FROM traveler_profiles WHERE user_id = ?").bind(userId).run();
+}
+
+/**
+ * System prompt section for the profile, or null when there is nothing to say
+ */
+export function describeTravelerProfile(profile: TravelerProfile | null): string | null {
+  if (!profile) return null;
+
+  const lines: string[] = [];
+  if (profile.homeCity) {
+    lines.push(`- Home city: ${profile.homeCity}. Use it as the origin when searching transport to the destination`);
+  }
+  if (profile.dietaryRestrictions.length > 0) {
+    lines.push(`- Dietary restrictions: ${profile.dietaryRestrictions.join(", ")}. Pick restaurants that cater for them and say so in the FOOD activity tips`);
+  }
+  if (profile.mobilityNeeds) {
+    lines.push(`- Mobility needs: ${profile.mobilityNeeds}. Plan routes, transfers and activities around them and pass them as accessibility constraints`);
+  }
+  if (profile.pace) {
+    lines.push(`- Preferred pace: ${PACE_DESCRIPTIONS[profile.pace]}`);
+  }
+  if (profile.usualBudget) {
+    const { amount, currency, per } = profile.usualBudget;
+    lines.push(`- Usual budget: ${amount} ${currency} per ${per}. Use it when the user gives no budget, in ${currency} unless they talk in another currency`);
+  }
+  if (profile.loyaltyPrograms.length > 0) {
+    lines.push(`- Loyalty programs: ${profile.loyaltyPrograms.join(", ")}. Prefer member hotels and airlines when options are comparable`);
+  }
+  if (profile.travelers) {
+    lines.push(`- Usually travels as a group of ${profile.travelers}`);
+  }
+  if (profile.accommodationType) {
+    lines.push(`- Preferred accommodation: ${profile.accommodationType}`);
+  }
+  if (profile.interests.length > 0) {
+    lines.push(`- Interests: ${profile.interests.join(", ")}`);
+  }
+
+  if (lines.length === 0) return null;
+
+  return `TRAVELER PROFILE:
+Saved by the user in their settings. Treat it as the default for every trip; what the user says in this conversation takes precedence.
+${lines.join("\n")}`;
+}
+
+/**
+ * Defaults for generateCompleteItinerary arguments the model left out
+ */
+export function applyProfileDefaults(
+  args: { travelers?: number; accommodationType?: AccommodationType; interests?: string[] },
+  profile: TravelerProfile | null | undefined
+): { travelers: number; accommodationType: AccommodationType; interests: string[] } {
+  return {
+    travelers: args.travelers ?? profile?.travelers ?? 2,
+    accommodationType: args.accommodationType ?? profile?.accommodationType ?? "hotel",
+    interests: args.interests && args.interests.length > 0 ? args.interests : profile?.interests ?? []
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * Token usage and cost accounting (migrations/0008_usage.sql)
+ * Every model call is recorded with its tokens and tool calls; monthly quotas
+ * are checked before the chat agent calls the model. Months are UTC calendar months
+ */
+import type { Env } from "../types";
+import type { ModelPurpose } from "./models";
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number;
+}
+
+export interface UsageEvent {
+  userId: string;
+  conversationId?: string | null;
+  messageId?: string | null;
+  purpose: ModelPurpose;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  toolCalls: string[];
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  toolCalls: number;
+  costUsd: number;
+  unpricedRequests: number; // calls to models without a known price, not in costUsd
+}
+
+export interface UsageQuota {
+  monthlyTokens: number | null; // null: unlimited
+  monthlyCostUsd: number | null;
+}
+
+export interface UsageQuotaStatus {
+  month: string; // YYYY-MM
+  resetsAt: string;
+  tokens: { used: number; limit: number | null };
+  costUsd: { used: number; limit: number | null };
+  exceeded: boolean;
+}
+
+export interface UsageSummary {
+  month: string;
+  totals: UsageTotals;
+  quota: UsageQuotaStatus;
+  byConversation: Array<{ conversationId: string; title: string | null; requests: number; totalTokens: number; costUsd: number }>;
+  byModel: Array<{ model: string; requests: number; inputTokens: number; outputTokens: number; costUsd: number }>;
+  byDay: Array<{ date: string; totalTokens: number; costUsd: number }>;
+  tools: Array<{ name: string; calls: number }>;
+}
+
+// List prices of the default models; MODEL_PRICES adds or overrides entries
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "openai:gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "openai:gpt-4o-mini-2024-07-18": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "openai:gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "workers-ai:@cf/meta/llama-3.3-70b-instruct-fp8-fast": { inputPerMillion: 0.29, outputPerMillion: 2.25 }
+};
+
+/**
+ * Parse price overrides from the MODEL_PRICES environment variable
+ */
+export function parseModelPrices(raw?: string): Record<string, ModelPrice> {
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw) as Record<string, ModelPrice>;
+  } catch (error) {
+    console.error("[usage] Invalid MODEL_PRICES value:", error);
+    return {};
+  }
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no known price
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  overrides: Record<string, ModelPrice> = {}
+): number | null {
+  const price = overrides[model] ?? MODEL_PRICES[model];
+  if (!price) return null;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * "YYYY-MM" of a date, in UTC
+ */
+export function usageMonthOf(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function isUsageMonth(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+/**
+ * Unix second bounds of a month, end exclusive
+ */
+function monthBounds(month: string): { start: number; end: number } {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return {
+    start: Date.UTC(year, monthIndex - 1, 1) / 1000,
+    end: Date.UTC(year, monthIndex, 1) / 1000
+  };
+}
+
+export async function recordUsage(env: Pick<Env, "DB" | "MODEL_PRICES">, event: UsageEvent): Promise<void> {
+  const cost = estimateCost(event.model, event.inputTokens, event.outputTokens, parseModelPrices(env.MODEL_PRICES));
+
+  await env.DB.prepare(`
+      INSERT INTO usage_events
+        (user_id, conversation_id, message_id, purpose, model, input_tokens, output_tokens, total_tokens, tool_calls, cost_usd)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+    event.userId,
+    event.conversationId ?? null,
+    event.messageId ?? null,
+    event.purpose,
+    event.model,
+    event.inputTokens,
+    event.outputTokens,
+    event.totalTokens,
+    JSON.stringify(event.toolCalls),
+    cost
+  ).run();
+}
+
+async function getMonthTotals(db: D1Database, userId: string, month: string): Promise<UsageTotals> {
+  const { start, end } = monthBounds(month);
+  const row = await db.prepare(`
+      SELECT
+        COUNT(*) AS requests,
+        COALESCE(SUM(input_tokens), 0) AS input_tokens,
+        COALESCE(SUM(output_tokens), 0) AS output_tokens,
+        COALESCE(SUM(total_tokens), 0) AS total_tokens,
+        COALESCE(SUM(json_array_length(tool_calls)), 0) AS tool_calls,
+        COALESCE(SUM(cost_usd), 0) AS cost_usd,
+        COUNT(*) - COUNT(cost_usd) AS unpriced
+      FROM usage_events
+      WHERE user_id = ? AND created_at >= ? AND created_at < ?
+    `).bind(userId, start, end).first<{
+    requests: number;
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+    tool_calls: number;
+    cost_usd: number;
+    unpriced: number;
+  }>();
+
+  return {
+    requests: row?.requests ?? 0,
+    inputTokens: row?.input_tokens ?? 0,
+    outputTokens: row?.output_tokens ?? 0,
+    totalTokens: row?.total_tokens ?? 0,
+    toolCalls: row?.tool_calls ?? 0,
+    costUsd: row?.cost_usd ?? 0,
+    unpricedRequests: row?.unpriced ?? 0
+  };
+}
+
+function parseLimit(raw: string | undefined): number | null {
+  const limit = Number(raw);
+  return raw && Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+/**
+ * The user's monthly limits: their usage_quotas row, else MONTHLY_TOKEN_QUOTA
+ * and MONTHLY_COST_QUOTA_USD. A limit of 0 in the row lifts the default
+ */
+export async function getUsageQuota(
+  env: Pick<Env, "DB" | "MONTHLY_TOKEN_QUOTA" | "MONTHLY_COST_QUOTA_USD">,
+  userId: string
+): Promise<UsageQuota> {
+  const row = await env.DB.prepare(
+    "SELECT monthly_tokens, monthly_cost_usd FROM usage_quotas WHERE user_id = ?"
+  ).bind(userId).first<{ monthly_tokens: number | null; monthly_cost_usd: number | null }>();
+
+  const pick = (override: number | null | undefined, fallback: string | undefined) => {
+    if (override === null || override === undefined) return parseLimit(fallback);
+    return override > 0 ? override : null;
+  };
+
+  return {
+    monthlyTokens: pick(row?.monthly_tokens, env.MONTHLY_TOKEN_QUOTA),
+    monthlyCostUsd: pick(row?.monthly_cost_usd, env.MONTHLY_COST_QUOTA_USD)
+  };
+}
+
+export async function setUsageQuota(
+  db: D1Database,
+  userId: string,
+  quota: { monthlyTokens: number | null; monthlyCostUsd: number | null }
+): Promise<void> {
+  await db.prepare(`
+      INSERT INTO usage_quotas (user_id, monthly_tokens, monthly_cost_usd, updated_at)
+      VALUES (?, ?, ?, unixepoch())
+      ON CONFLICT(user_id) DO UPDATE SET
+        monthly_tokens = excluded.monthly_tokens,
+        monthly_cost_usd = excluded.monthly_cost_usd,
+        updated_at = excluded.updated_at
+    `).bind(userId, quota.monthlyTokens, quota.monthlyCostUsd).run();
+}
+
+function buildQuotaStatus(month: string, totals: UsageTotals, quota: UsageQuota): UsageQuotaStatus {
+  const { end } = monthBounds(month);
+  const tokensExceeded = quota.monthlyTokens !== null && totals.totalTokens >= quota.monthlyTokens;
+  const costExceeded = quota.monthlyCostUsd !== null && totals.costUsd >= quota.monthlyCostUsd;
+
+  return {
+    month,
+    resetsAt: new Date(end * 1000).toISOString(),
+    tokens: { used: totals.totalTokens, limit: quota.monthlyTokens },
+    costUsd: { used: totals.costUsd, limit: quota.monthlyCostUsd },
+    exceeded: tokensExceeded || costExceeded
+  };
+}
+
+/**
+ * Quota status for the current month
+ */
+export async function checkUsageQuota(
+  env: Pick<Env, "DB" | "MONTHLY_TOKEN_QUOTA" | "MONTHLY_COST_QUOTA_USD">,
+  userId: string
+): Promise<UsageQuotaStatus> {
+  const month = usageMonthOf(new Date());
+  const [totals, quota] = await Promise.all([
+    getMonthTotals(env.DB, userId, month),
+    getUsageQuota(env, userId)
+  ]);
+  return buildQuotaStatus(month, totals, quota);
+}
+
+/**
+ * What the agent answers instead of calling the model once a quota is used up
+ */
+export function describeQuotaLimit(status: UsageQuotaStatus): string {
+  const reached: string[] = [];
+  if (status.tokens.limit !== null && status.tokens.used >= status.tokens.limit) {
+    reached.push(`${status.tokens.used.toLocaleString("en-US")} of ${status.tokens.limit.toLocaleString("en-US")} tokens`);
+  }
+  if (status.costUsd.limit !== null && status.costUsd.used >= status.costUsd.limit) {
+    reached.push(`$${status.costUsd.used.toFixed(2)} of $${status.costUsd.limit.toFixed(2)}`);
+  }
+  const resetDate = status.resetsAt.slice(0, 10);
+
+  return `Monthly usage limit reached: you have used ${reached.join(" and ")} this month. The limit resets on ${resetDate} (UTC); your conversations and itineraries are still available until then.`;
+}
+
+export async function getUsageSummary(
+  env: Pick<Env, "DB" | "MONTHLY_TOKEN_QUOTA" | "MONTHLY_COST_QUOTA_USD">,
+  userId: string,
+  month: string
+): Promise<UsageSummary> {
+  const { start, end } = monthBounds(month);
+  const db = env.DB;
+
+  const [totals, quota, conversations, models, days, tools] = await Promise.all([
+    getMonthTotals(db, userId, month),
+    getUsageQuota(env, userId),
+    db.prepare(`
+        SELECT u.conversation_id, c.title, COUNT(*) AS requests,
+          SUM(u.total_tokens) AS total_tokens, COALESCE(SUM(u.cost_usd), 0) AS cost_usd
+        FROM usage_events u
+        LEFT JOIN chat_conversations c ON c.id = u.conversation_id
+        WHERE u.user_id = ? AND u.created_at >= ? AND u.created_at < ? AND u.conversation_id IS NOT NULL
+        GROUP BY u.conversation_id
+        ORDER BY total_tokens DESC
+        LIMIT 20
+      `).bind(userId, start, end).all<{ conversation_id: string; title: string | null; requests: number; total_tokens: number; cost_usd: number }>(),
+    db.prepare(`
+        SELECT model, COUNT(*) AS requests, SUM(input_tokens) AS input_tokens,
+          SUM(output_tokens) AS output_tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd
+        FROM usage_events
+        WHERE user_id = ? AND created_at >= ? AND created_at < ?
+        GROUP BY model
+        ORDER BY requests DESC
+      `).bind(userId, start, end).all<{ model: string; requests: number; input_tokens: number; output_tokens: number; cost_usd: number }>(),
+    db.prepare(`
+        SELECT date(created_at, 'unixepoch') AS day, SUM(total_tokens) AS total_tokens,
+          COALESCE(SUM(cost_usd), 0) AS cost_usd
+        FROM usage_events
+        WHERE user_id = ? AND created_at >= ? AND created_at < ?
+        GROUP BY day
+        ORDER BY day
+      `).bind(userId, start, end).all<{ day: string; total_tokens: number; cost_usd: number }>(),
+    db.prepare(`
+        SELECT tool.value AS name, COUNT(*) AS calls
+        FROM usage_events u, json_each(u.tool_calls) AS tool
+        WHERE u.user_id = ? AND u.created_at >= ? AND u.created_at < ?
+        GROUP BY tool.value
+        ORDER BY calls DESC
+      `).bind(userId, start, end).all<{ name: string; calls: number }>()
+  ]);
+
+  return {
+    month,
+    totals,
+    quota: buildQuotaStatus(month, totals, quota),
+    byConversation: conversations.results.map((row) => ({
+      conversationId: row.conversation_id,
+      title: row.title,
+      requests: row.requests,
+      totalTokens: row.total_tokens,
+      costUsd: row.cost_usd
+    })),
+    byModel: models.results.map((row) => ({
+      model: row.model,
+      requests: row.requests,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: row.cost_usd
+    })),
+    byDay: days.results.map((row) => ({ date: row.day, totalTokens: row.total_tokens, costUsd: row.cost_usd })),
+    tools: tools.results
+  };
+}
+
+/**
+ * Usage of each turn of a conversation, oldest first
+ */
+export async function getConversationUsage(db: D1Database, conversationId: string) {
+  const { results } = await db.prepare(`
+      SELECT message_id, purpose, model, input_tokens, output_tokens, total_tokens, tool_calls, cost_usd, created_at
+      FROM usage_events
+      WHERE conversation_id = ?
+      ORDER BY created_at, id
+    `).bind(conversationId).all<{
+    message_id: string | null;
+    purpose: ModelPurpose;
+    model: string;
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+    tool_calls: string;
+    cost_usd: number | null;
+    created_at: number;
+  }>();
+
+  return results.map((row) => ({
+    messageId: row.message_id,
+    purpose: row.purpose,
+    model: row.model,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.total_tokens,
+    toolCalls: JSON.parse(row.tool_calls) as string[],
+    costUsd: row.cost_usd,
+    createdAt: new Date(row.created_at * 1000).toISOString()
+  }));
+}
@@ -0,0 +1,188 @@
+/**
+ * Weather providers used by getWeatherInfo
+ * The default provider answers offline from bundled monthly climate normals;
+ * the live provider calls a forecast API and fills the days it can't cover from normals
+ */
+import { CLIMATE_NORMALS } from "../data/climate-normals";
+import type { Env } from "../types";
+import { normalizeCityName } from "./geo";
+
+export interface DailyForecast {
+  date: string;
+  minTempC: number;
+  maxTempC: number;
+  precipitationChance: number; // 0-100
+  condition: string;
+  daylightHours?: number;
+  source: "climate-normals" | "live";
+}
+
+export interface WeatherProvider {
+  name: string;
+  /**
+   * Return one forecast per day between startDate and endDate (inclusive),
+   * or null when the provider knows nothing about the destination
+   */
+  getDailyForecast(destination: string, startDate: string, endDate: string): Promise<DailyForecast[] | null>;
+}
+
+// Longest range a single request may cover
+export const MAX_FORECAST_DAYS = 31;
+
+/**
+ * List YYYY-MM-DD dates between two dates (inclusive), capped at MAX_FORECAST_DAYS
+ */
+export function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  if (Number.isNaN(current.getTime()) || Number.isNaN(end.getTime())) {
+    return dates;
+  }
+
+  while (current <= end && dates.length < MAX_FORECAST_DAYS) {
+    dates.push(current.toISOString().split("T")[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+function describeCondition(maxTempC: number, precipitationChance: number): string {
+  if (precipitationChance >= 50) return maxTempC <= 1 ? "Snow or rain likely" : "Rain likely";
+  if (precipitationChance >= 30) return "Showers possible";
+  if (maxTempC >= 30) return "Hot and mostly sunny";
+  if (maxTempC >= 18) return "Mild and mostly sunny";
+  if (maxTempC >= 8) return "Cool with some clouds";
+  return "Cold";
+}
+
+/**
+ * Offline provider built from CLIMATE_NORMALS
+ */
+export function createClimateNormalsProvider(): WeatherProvider {
+  return {
+    name: "climate-normals",
+    async getDailyForecast(destination, startDate, endDate) {
+      const climate = CLIMATE_NORMALS[normalizeCityName(destination)];
+      if (!climate) return null;
+
+      return listDates(startDate, endDate).map((date) => {
+        const [year, month] = date.split("-").map(Number);
+        const [minTempC, maxTempC, rainDays, daylightHours] = climate.months[month - 1];
+        const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+        const precipitationChance = Math.round((rainDays / daysInMonth) * 100);
+
+        return {
+          date,
+          minTempC,
+          maxTempC,
+          precipitationChance,
+          condition: describeCondition(maxTempC, precipitationChance),
+          daylightHours,
+          source: "climate-normals" as const
+        };
+      });
+    }
+  };
+}
+
+/**
+ * Adapter for a live forecast API
+ * Expects GET {baseUrl}/forecast?destination=&start=&end= to answer
+ * { days: [{ date, minTempC, maxTempC, precipitationChance, condition, daylightHours? }] }
+ * so a local stub server can stand in for the real service in development and tests
+ */
+export function createLiveForecastProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  fallback: WeatherProvider
+): WeatherProvider {
+  return {
+    name: "live",
+    async getDailyForecast(destination, startDate, endDate) {
+      const fallbackDays = await fallback.getDailyForecast(destination, startDate, endDate);
+
+      try {
+        // Relative to the base so a path prefix in WEATHER_API_URL is kept
+        const url = new URL("forecast", baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+        url.searchParams.set("destination", destination);
+        url.searchParams.set("start", startDate);
+        url.searchParams.set("end", endDate);
+
+        const response = await fetch(url.toString(), {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+        });
+
+        if (!response.ok) {
+          throw new Error(`Forecast API responded ${response.status}`);
+        }
+
+        const body = (await response.json()) as { days?: Omit<DailyForecast, "source">[] };
+        const liveDays = new Map((body.days || []).map((day) => [day.date, day]));
+
+        // Forecast APIs only cover the next few days, use normals for the rest of the range
+        return listDates(startDate, endDate)
+          .map((date): DailyForecast | undefined => {
+            const live = liveDays.get(date);
+            if (live) return { ...live, source: "live" };
+            return fallbackDays?.find((day) => day.date === date);
+          })
+          .filter((day): day is DailyForecast => day !== undefined);
+      } catch (error) {
+        console.error("[weather] Live forecast failed, using climate normals:", error);
+        return fallbackDays;
+      }
+    }
+  };
+}
+
+/**
+ * Pick the weather provider configured for this deployment
+ */
+export function createWeatherProvider(env?: Pick<Env, "WEATHER_PROVIDER" | "WEATHER_API_URL" | "WEATHER_API_KEY">): WeatherProvider {
+  const normals = createClimateNormalsProvider();
+
+  if (env?.WEATHER_PROVIDER === "live" && env.WEATHER_API_URL) {
+    return createLiveForecastProvider(env.WEATHER_API_URL, env.WEATHER_API_KEY, normals);
+  }
+
+  return normals;
+}
+
+/**
+ * Build planning advice from a forecast range
+ */
+export function buildWeatherRecommendations(days: DailyForecast[]): string[] {
+  const recommendations: string[] = [];
+  const rainyDays = days.filter((day) => day.precipitationChance >= 40);
+  const maxTemp = Math.max(...days.map((day) => day.maxTempC));
+  const minTemp = Math.min(...days.map((day) => day.minTempC));
+
+  if (rainyDays.length > 0) {
+    recommendations.push(
+      `Rain is likely on ${rainyDays.map((day) => day.date).join(", ")}: schedule museums and indoor activities on those days`
+    );
+    recommendations.push("Pack an umbrella or a rain jacket");
+  } else {
+    recommendations.push("Mostly dry conditions, good for outdoor activities");
+  }
+
+  if (maxTemp >= 30) {
+    recommendations.push("Hot afternoons: plan outdoor visits early in the morning and bring sunscreen");
+  }
+
+  if (minTemp <= 5) {
+    recommendations.push("Cold mornings and evenings: bring a warm coat");
+  } else if (maxTemp - minTemp >= 10) {
+    recommendations.push("Big difference between day and night, dress in layers");
+  }
+
+  const shortestDaylight = Math.min(...days.map((day) => day.daylightHours ?? 24));
+  if (shortestDaylight < 10) {
+    recommendations.push(`Only about ${shortestDaylight} hours of daylight, plan sightseeing before dark`);
+  }
+
+  return recommendations;
+}
@@ -3,3 +3,36 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied."
 } as const;
+
+// Tools that only run once the user approves the proposed change in the chat.
+// The model proposes the call, the client answers with an ApprovalDecision.
+// Default for the TOOLS_REQUIRING_APPROVAL setting, see getToolsRequiringApproval
+export const TOOLS_REQUIRING_APPROVAL = [
+  "replaceActivity",
+  "removeActivity",
+  "removeMultipleActivities"
+];
+
+// Output the client adds to a tool call waiting for approval;
+// a rejection can carry the user's reason back to the model
+export type ApprovalDecision =
+  | typeof APPROVAL.YES
+  | typeof APPROVAL.NO
+  | { approval: typeof APPROVAL.NO; reason: string };
+
+// Activity categories accepted by the itinerary tools
+export const ACTIVITY_CATEGORIES = [
+  "ACCOMMODATION",
+  "TRANSPORTATION",
+  "FOOD",
+  "SIGHTSEEING",
+  "ENTERTAINMENT",
+  "SHOPPING",
+  "OUTDOOR",
+  "CULTURE",
+  "WELLNESS",
+  "BUSINESS",
+  "OTHER"
+] as const;
+
+export type ActivityCategory = (typeof ACTIVITY_CATEGORIES)[number];
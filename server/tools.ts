@@ -2,10 +2,72 @@
  * Tool definitions for the AItinerary AI chat agent
  * Tools execute automatically and return structured data for the frontend
  */
-import { tool, type ToolSet, type ToolExecution } from "ai";
+import { tool, type ToolSet } from "ai";
 import { z } from "zod/v3";
-import puppeteer from "@cloudflare/puppeteer";
-import type { Env } from "./types";
+import type { Env, ItineraryData } from "./types";
+import {
+  filterEntriesByCategories,
+  findDestination,
+  interestsToCategories,
+  type DestinationEntryKind
+} from "./services/destinations";
+import { hasAccessibilityConstraints } from "./services/accessibility";
+import { isValidCoordinates, type Coordinates } from "./services/geo";
+import { createRatesProvider, requireCurrency } from "./services/currency";
+import { resolveItineraryTimezone } from "./services/timezone";
+import { assignDaysToStops, buildLegs, buildStops, describeRoute, findStopForDate } from "./services/multi-city";
+import {
+  applyItineraryPatch,
+  convertItineraryCurrency,
+  findActivity,
+  summarizeItinerary
+} from "./services/itinerary";
+import { validateItinerary as validateItineraryData } from "./services/itinerary-validation";
+import { optimizeDay as optimizeDayRoute } from "./services/route-optimizer";
+import {
+  buildShareUrl,
+  listUserItineraries,
+  loadItineraryRecord,
+  publishItinerary,
+  saveItineraryRecord
+} from "./services/itinerary-store";
+import { getCityTariff, parseTariffOverrides } from "./services/tariffs";
+import {
+  buildTravelRecommendations,
+  estimateAllModes,
+  formatCost,
+  formatDuration
+} from "./services/travel-time";
+import { buildWeatherRecommendations, createWeatherProvider } from "./services/weather";
+import { buildPackingList, fetchTripForecast } from "./services/packing";
+import { cachedSearchHotels, cachedSearchWeb } from "./services/search/cache";
+import { createSearchProvider } from "./services/search/providers";
+import { SearchUnavailableError } from "./services/search/types";
+import { applyProfileDefaults } from "./services/traveler-profile";
+import { TOOLS_REQUIRING_APPROVAL } from "./shared";
+import { createTransportProvider } from "./services/transport/providers";
+import { applyTransportOption } from "./services/transport/selection";
+import type { TransportOption } from "./services/transport/types";
+
+// Used for share links when the request origin is unknown
+const DEFAULT_APP_ORIGIN = "https://aitinerary.app";
+
+// Leave a field out when it is not known rather than guessing
+const activityAccessibilitySchema = z.object({
+  stepFree: z.boolean().optional().describe("True when the entrance and visited areas need no steps, false when they do"),
+  stairsHeavy: z.boolean().optional().describe("True for many stairs or steep climbs (towers, hilltop sites, catacombs)"),
+  accessibleToilets: z.boolean().optional().describe("Whether accessible toilets are available"),
+  walkingKm: z.number().optional().describe("Walking within the activity itself in km, e.g. a walking tour or a large park"),
+  notes: z.string().optional().describe("Practical access notes, e.g. 'lift at the side entrance'")
+});
+
+const accessibilityConstraintsSchema = z.object({
+  wheelchairUser: z.boolean().optional().describe("A traveler uses a wheelchair; implies avoidStairs and stepFreeTransport"),
+  avoidStairs: z.boolean().optional().describe("Avoid stairs-heavy sites"),
+  stepFreeTransport: z.boolean().optional().describe("Transfers between activities must be step-free"),
+  maxWalkingKmPerDay: z.number().optional().describe("Most walking per day in km, transfers included"),
+  notes: z.string().optional().describe("Other mobility needs in the user's words")
+});
 
 /**
  * Generate a complete travel itinerary - executes automatically
@@ -16,10 +78,35 @@ const generateCompleteItinerary = tool({
     destination: z.string().describe("Main destination or city"),
     startDate: z.string().describe("Start date in YYYY-MM-DD format"),
     endDate: z.string().describe("End date in YYYY-MM-DD format"),
-    travelers: z.number().optional().default(2).describe("Number of travelers"),
-    budget: z.number().optional().describe("Total budget in USD"),
-    interests: z.array(z.string()).optional().default([]).describe("Travel interests like culture, food, adventure, etc."),
-    accommodationType: z.enum(["hotel", "hostel", "apartment", "luxury", "budget"]).optional().default("hotel").describe("Type of accommodation preference"),
+    travelers: z.number().optional().describe("Number of travelers. Omit to use the traveler profile (or 2)"),
+    budget: z.number().optional().describe("Total budget in the itinerary currency"),
+    currency: z.string().optional().default("USD").describe("ISO 4217 currency of the budget and totals, e.g. EUR or JPY. Use the currency the user talks in"),
+    timezone: z.string().optional().describe("IANA timezone of the destination, e.g. Europe/Paris. Omit to infer it from the activity coordinates"),
+    stops: z.array(z.object({
+      city: z.string().describe("City of this stop"),
+      arrivalDate: z.string().describe("Arrival date in YYYY-MM-DD format; the first stop arrives on startDate"),
+      departureDate: z.string().describe("Departure date in YYYY-MM-DD format; equals the next stop's arrivalDate, and the last stop departs on endDate"),
+      coordinates: z.object({
+        lat: z.number().describe("Latitude of the city center"),
+        lng: z.number().describe("Longitude of the city center")
+      }).describe("Coordinates of the city center"),
+      accommodation: z.string().optional().describe("Where the travelers stay in this city"),
+      timezone: z.string().optional().describe("IANA timezone of this city. Omit to infer it from the coordinates")
+    })).optional().describe("Ordered cities for a multi-city trip (e.g. Lisbon, Porto, Madrid). Omit for a single-city trip"),
+    legs: z.array(z.object({
+      from: z.string().describe("City of the stop the leg leaves from"),
+      to: z.string().describe("City of the stop the leg arrives at"),
+      mode: z.enum(["FLIGHT", "TRAIN", "BUS", "CAR", "FERRY"]).describe("Transport type"),
+      date: z.string().optional().describe("Travel date in YYYY-MM-DD format, defaults to the arrival date of the 'to' stop"),
+      departureTime: z.string().optional().describe("Departure time in HH:MM, local to the origin"),
+      arrivalTime: z.string().optional().describe("Arrival time in HH:MM, local to the destination"),
+      estimatedCost: z.number().optional().describe("Estimated cost for all travelers in the leg currency"),
+      currency: z.string().optional().describe("ISO 4217 currency of estimatedCost when it is not the itinerary currency"),
+      notes: z.string().optional().describe("Booking hints such as the station or typical operator")
+    })).optional().describe("Inter-city transport between consecutive stops, one leg per change of city"),
+    interests: z.array(z.string()).optional().describe("Travel interests like culture, food, adventure, etc. Omit to use the traveler profile"),
+    accommodationType: z.enum(["hotel", "hostel", "apartment", "luxury", "budget"]).optional().describe("Type of accommodation preference. Omit to use the traveler profile (or hotel)"),
+    accessibility: accessibilityConstraintsSchema.optional().describe("Accessibility and mobility constraints of the travelers; validateItinerary checks every day against them"),
     activities: z.array(z.object({
       title: z.string().describe("Specific name of the activity or place"),
       description: z.string().describe("Detailed description of what to do"),
@@ -31,14 +118,24 @@ const generateCompleteItinerary = tool({
       startTime: z.string().describe("Start time in HH:MM format"),
       endTime: z.string().optional().describe("End time in HH:MM format"),
       category: z.enum(["ACCOMMODATION", "TRANSPORTATION", "FOOD", "SIGHTSEEING", "ENTERTAINMENT", "SHOPPING", "OUTDOOR", "CULTURE", "WELLNESS", "BUSINESS", "OTHER"]).describe("Activity category"),
-      estimatedCost: z.number().describe("Estimated cost in USD"),
+      estimatedCost: z.number().describe("Estimated cost in the activity currency"),
+      currency: z.string().optional().describe("ISO 4217 currency of estimatedCost when it is not the itinerary currency, e.g. the local currency of the venue"),
       priority: z.enum(["LOW", "MEDIUM", "HIGH", "MUST_DO"]).describe("Priority level"),
       tips: z.array(z.string()).describe("Helpful tips for this activity"),
+      fixedTime: z.boolean().optional().describe("True for booked slots (tickets, tours, reservations) that must keep their time"),
+      accessibility: activityAccessibilitySchema.optional().describe("Accessibility of the place; fill it in whenever accessibility constraints are given"),
       dayNumber: z.number().describe("REQUIRED: Which day this activity belongs to (1 for first day, 2 for second day, etc.)")
-    })).describe("Complete list of all activities for ALL days. Each activity MUST have dayNumber field set to the day it belongs to (1, 2, 3, etc.)")
+    })).describe("Complete list of all activities for ALL days. Each activity MUST have dayNumber field set to the day it belongs to (1, 2, 3, etc.)"),
+    profile: z.any().optional().describe("Traveler profile (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ destination, startDate, endDate, travelers, budget, interests, accommodationType, activities }) => {
+  execute: async ({ destination, startDate, endDate, budget, currency, timezone, stops: stopInputs = [], legs: legInputs = [], activities, accessibility, profile, env, ...preferences }) => {
     console.log(`Organizing complete itinerary for ${destination} from ${startDate} to ${endDate}`);
+
+    const { travelers, accommodationType, interests } = applyProfileDefaults(preferences, profile);
+
+    const exchangeRates = await createRatesProvider(env).getRates();
+    const itineraryCurrency = requireCurrency(currency, exchangeRates);
     
     // Calculate number of days
     const start = new Date(startDate);
@@ -67,46 +164,51 @@ const generateCompleteItinerary = tool({
           endTime: activity.endTime,
           category: activity.category,
           estimatedCost: activity.estimatedCost,
+          currency: activity.currency ? requireCurrency(activity.currency, exchangeRates) : itineraryCurrency,
           priority: activity.priority,
-          tips: activity.tips
+          tips: activity.tips,
+          fixedTime: activity.fixedTime,
+          accessibility: activity.accessibility
         }))
       });
     }
     
-    // Calculate total estimated cost
-    const totalEstimatedCost = activities.reduce((total, activity) => total + activity.estimatedCost, 0);
-    
-    // Get top categories
-    const categoryCount: { [key: string]: number } = {};
-    activities.forEach(activity => {
-      categoryCount[activity.category] = (categoryCount[activity.category] || 0) + 1;
-    });
-    const topCategories = Object.entries(categoryCount)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 3)
-      .map(([category]) => category);
-    
-    const itinerary = {
+    // Multi-city trips: each day belongs to the city the travelers sleep in
+    const stops = buildStops(stopInputs);
+    const legs = buildLegs(legInputs, stops).map(leg => ({
+      ...leg,
+      currency: leg.currency ? requireCurrency(leg.currency, exchangeRates) : itineraryCurrency
+    }));
+
+    // Activity times are local wall-clock times in this zone (per stop on multi-city trips)
+    const itineraryTimezone = resolveItineraryTimezone({ days }, timezone ?? stops[0]?.timezone);
+
+    const itinerary = summarizeItinerary({
       id: `itin_${Date.now()}`,
-      title: `${destination} ${daysDiff}-Day Adventure`,
-      destination,
+      title: `${stops.length > 1 ? describeRoute(stops) : destination} ${daysDiff}-Day Adventure`,
+      destination: stops.length > 1 ? describeRoute(stops) : destination,
       startDate,
       endDate,
       duration: `${daysDiff} days`,
       travelers,
       budget,
-      totalEstimatedCost,
-      currency: "USD",
+      totalEstimatedCost: 0,
+      currency: itineraryCurrency,
+      exchangeRates,
+      timezone: itineraryTimezone ?? undefined,
+      stops: stops.length > 0 ? stops : undefined,
+      legs: legs.length > 0 ? legs : undefined,
+      accessibility: hasAccessibilityConstraints(accessibility) ? accessibility : undefined,
       accommodationType,
       interests,
-      days,
+      days: assignDaysToStops(days, stops),
       summary: {
-        totalActivities: activities.length,
-        averageCostPerDay: Math.round(totalEstimatedCost / daysDiff),
-        topCategories
+        totalActivities: 0,
+        averageCostPerDay: 0,
+        topCategories: []
       },
       createdAt: new Date().toISOString()
-    };
+    });
     
     return JSON.stringify(itinerary, null, 2);
   }
@@ -116,47 +218,58 @@ const generateCompleteItinerary = tool({
  * Get destination information - executes automatically
  */
 const getDestinationInfo = tool({
-  description: "Get detailed information about a travel destination including attractions, restaurants, and local tips",
+  description: "Get curated information about a travel destination from the AItinerary knowledge base: attractions, neighborhoods, typical costs, local tips and best seasons, filtered by the user's interests",
   inputSchema: z.object({ 
     destination: z.string().describe("City or destination name"),
-    interests: z.array(z.string()).optional().describe("User interests like food, culture, outdoor activities")
+    interests: z.array(z.string()).optional().describe("User interests like food, culture, outdoor activities"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ destination, interests = [] }) => {
+  execute: async ({ destination, interests = [], env }) => {
     console.log(`Getting destination info for ${destination}, interests: ${interests.join(", ")}`);
-    
+
+    const record = env?.DB ? await findDestination(env.DB, destination) : null;
+
+    if (!record) {
+      return JSON.stringify({
+        destination,
+        known: false,
+        message: `${destination} is not in the AItinerary destination knowledge base yet. Do not present invented attractions as curated data: rely on well-known real places, use searchWeb if it is enabled, and tell the user the suggestions are not from our curated guide.`
+      }, null, 2);
+    }
+
+    const categories = interestsToCategories(interests);
+    const matching = filterEntriesByCategories(record.entries, categories);
+    // Fall back to the full guide when nothing matches the interests
+    const entries = matching.some((entry) => entry.kind === "attraction") ? matching : record.entries;
+    const byKind = (kind: DestinationEntryKind) => entries.filter((entry) => entry.kind === kind);
+
     const destinationData = {
-      destination,
-      topAttractions: [
-        `${destination} Historic Center`,
-        `${destination} Art Museum`,
-        `${destination} Central Park`,
-        `${destination} Cathedral`,
-        `${destination} Market Square`
-      ],
-      restaurants: [
-        `Local Bistro in ${destination}`,
-        `Traditional Cuisine House`,
-        `Fine Dining Experience`,
-        `Street Food Markets`,
-        `Rooftop Restaurant with Views`
-      ],
-      localTips: [
-        `Best time to visit ${destination} is during spring/fall`,
-        "Use local public transportation for cost savings",
-        "Try the local specialty dishes",
-        "Learn basic local phrases",
-        "Respect local customs and dress codes"
-      ],
-      averageCosts: {
-        accommodation: "80-150 USD/night",
-        meals: "25-50 USD/day",
-        activities: "10-30 USD/attraction",
-        transportation: "5-15 USD/day"
-      },
-      weather: {
-        current: "Pleasant with mild temperatures",
-        recommendation: "Pack layers and comfortable walking shoes"
-      }
+      destination: record.name,
+      country: record.country,
+      known: true,
+      summary: record.summary,
+      matchedCategories: categories,
+      filteredByInterests: entries === matching && categories.length > 0,
+      topAttractions: byKind("attraction").map((entry) => ({
+        name: entry.name,
+        description: entry.description,
+        categories: entry.categories,
+        estimatedCost: entry.estimatedCost !== null ? `${entry.estimatedCost} ${record.currency}` : undefined,
+        coordinates: entry.coordinates || undefined
+      })),
+      neighborhoods: byKind("neighborhood").map((entry) => ({
+        name: entry.name,
+        description: entry.description,
+        categories: entry.categories
+      })),
+      localTips: byKind("tip").map((entry) => entry.description || entry.name),
+      averageCosts: Object.fromEntries(
+        byKind("cost").map((entry) => [entry.name, entry.description])
+      ),
+      bestSeasons: byKind("season").map((entry) => ({
+        season: entry.name,
+        reason: entry.description
+      }))
     };
 
     return JSON.stringify(destinationData, null, 2);
@@ -167,64 +280,169 @@ const getDestinationInfo = tool({
  * Get weather information for travel planning
  */
 const getWeatherInfo = tool({
-  description: "Get weather information for a destination to help with travel planning",
+  description: "Get a per-day weather outlook for a destination to help with travel planning. Pass the trip's startDate and endDate to get every day of the itinerary, so rainy days can be planned with indoor activities.",
   inputSchema: z.object({ 
     destination: z.string().describe("City or destination name"),
-    date: z.string().optional().describe("Date in YYYY-MM-DD format")
+    date: z.string().optional().describe("Single date in YYYY-MM-DD format"),
+    startDate: z.string().optional().describe("First day of the range in YYYY-MM-DD format"),
+    endDate: z.string().optional().describe("Last day of the range in YYYY-MM-DD format"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ destination, date }) => {
-    console.log(`Getting weather for ${destination} on ${date || 'current'}`);
-    
+  execute: async ({ destination, date, startDate, endDate, itinerary, env }) => {
+    const today = new Date().toISOString().split('T')[0];
+    const rangeStart = startDate || date || itinerary?.startDate || today;
+    const rangeEnd = endDate || (startDate ? startDate : date) || itinerary?.endDate || rangeStart;
+
+    console.log(`Getting weather for ${destination} from ${rangeStart} to ${rangeEnd}`);
+
+    const provider = createWeatherProvider(env);
+    const days = await provider.getDailyForecast(destination, rangeStart, rangeEnd);
+
+    if (!days || days.length === 0) {
+      return JSON.stringify({
+        location: destination,
+        startDate: rangeStart,
+        endDate: rangeEnd,
+        error: `No weather data available for ${destination}. Give general seasonal advice instead and say it is not based on data.`,
+        forecast: []
+      }, null, 2);
+    }
+
     const weatherData = {
       location: destination,
-      date: date || new Date().toISOString().split('T')[0],
-      temperature: "22°C (72°F)",
-      condition: "Partly cloudy",
-      humidity: "65%",
-      precipitation: "10%",
-      windSpeed: "15 km/h",
-      uvIndex: "Moderate",
-      recommendations: [
-        "Light jacket recommended for evenings",
-        "Perfect weather for outdoor activities",
-        "Bring sunscreen and sunglasses",
-        "Comfortable walking weather"
-      ]
+      startDate: rangeStart,
+      endDate: rangeEnd,
+      provider: provider.name,
+      forecast: days.map((day) => ({
+        date: day.date,
+        temperature: `${day.minTempC}-${day.maxTempC}°C`,
+        minTempC: day.minTempC,
+        maxTempC: day.maxTempC,
+        condition: day.condition,
+        precipitation: `${day.precipitationChance}%`,
+        daylightHours: day.daylightHours,
+        source: day.source
+      })),
+      recommendations: buildWeatherRecommendations(days),
+      note: days.every((day) => day.source === "climate-normals")
+        ? "Based on monthly climate averages, not a live forecast"
+        : undefined
     };
 
     return JSON.stringify(weatherData, null, 2);
   }
 });
 
+/**
+ * Resolve a trip endpoint from an activity ID or explicit coordinates
+ * Activity IDs only resolve against the itinerary the caller passed in, never
+ * against stored itineraries, which may belong to other users
+ */
+function resolveTravelPoint(
+  point: { name?: string; activityId?: string; coordinates?: Coordinates },
+  itinerary: ItineraryData | undefined
+): { label: string; coordinates: Coordinates; city?: string } | { error: string } {
+  if (point.activityId) {
+    const found = itinerary ? findActivity(itinerary, point.activityId) : null;
+    if (found?.activity.coordinates) {
+      return {
+        label: found.activity.title,
+        coordinates: found.activity.coordinates,
+        city: itinerary ? activityCity(itinerary, found.dayNumber) : undefined
+      };
+    }
+
+    return { error: `Activity ${point.activityId} is not in the current itinerary or has no coordinates` };
+  }
+
+  if (point.coordinates && isValidCoordinates(point.coordinates)) {
+    return { label: point.name || `${point.coordinates.lat},${point.coordinates.lng}`, coordinates: point.coordinates };
+  }
+
+  return { error: `Coordinates are required for "${point.name || "unknown location"}". Pass an activity ID or lat/lng coordinates.` };
+}
+
+/**
+ * City an activity takes place in: the stop of its day on multi-city trips,
+ * where the itinerary destination is the whole route
+ */
+function activityCity(itinerary: ItineraryData, dayNumber: number): string | undefined {
+  if (!itinerary.stops?.length) return itinerary.destination;
+
+  const day = itinerary.days.find((d) => d.dayNumber === dayNumber);
+  if (!day) return undefined;
+  const stop = itinerary.stops.find((s) => s.id === day.stopId) ?? findStopForDate(itinerary.stops, day.date);
+  return stop?.city;
+}
+
 /**
  * Calculate travel times between locations
  */
 const calculateTravelTime = tool({
-  description: "Calculate travel time and transportation options between two locations",
+  description: "Calculate travel time, distance and cost between two locations, with alternatives for every transport mode. Use activity IDs from the current itinerary when possible, otherwise provide lat/lng coordinates for both places.",
   inputSchema: z.object({
-    origin: z.string().describe("Starting location"),
-    destination: z.string().describe("Destination location"),
-    transportMode: z.enum(["walking", "driving", "public_transport", "taxi"]).optional().default("driving")
+    origin: z.string().optional().describe("Starting location name"),
+    destination: z.string().optional().describe("Destination location name"),
+    originActivityId: z.string().optional().describe("ID of the activity to start from (e.g. act_123)"),
+    destinationActivityId: z.string().optional().describe("ID of the activity to go to"),
+    originCoordinates: z.object({
+      lat: z.number(),
+      lng: z.number()
+    }).optional().describe("Coordinates of the starting location when not using an activity ID"),
+    destinationCoordinates: z.object({
+      lat: z.number(),
+      lng: z.number()
+    }).optional().describe("Coordinates of the destination when not using an activity ID"),
+    city: z.string().optional().describe("City used to pick local transport tariffs"),
+    transportMode: z.enum(["walking", "driving", "public_transport", "taxi"]).optional().default("driving"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ origin, destination, transportMode }) => {
-    console.log(`Calculating travel time from ${origin} to ${destination} by ${transportMode}`);
-    
+  execute: async ({ origin, destination, originActivityId, destinationActivityId, originCoordinates, destinationCoordinates, city, transportMode, itinerary, env }) => {
+    console.log(`Calculating travel time from ${originActivityId || origin} to ${destinationActivityId || destination} by ${transportMode}`);
+
+    const from = resolveTravelPoint({ name: origin, activityId: originActivityId, coordinates: originCoordinates }, itinerary);
+    const to = resolveTravelPoint({ name: destination, activityId: destinationActivityId, coordinates: destinationCoordinates }, itinerary);
+
+    if ("error" in from || "error" in to) {
+      return JSON.stringify({
+        origin: originActivityId || origin,
+        destination: destinationActivityId || destination,
+        error: "error" in from ? from.error : (to as { error: string }).error
+      }, null, 2);
+    }
+
+    const { city: tariffCity, tariff, isDefault } = getCityTariff(
+      city || from.city || to.city,
+      parseTariffOverrides(env?.TRAVEL_TARIFFS)
+    );
+
+    const alternatives = estimateAllModes(from.coordinates, to.coordinates, tariff);
+    const selected = alternatives.find((estimate) => estimate.mode === transportMode)!;
+
     const travelData = {
-      origin,
-      destination,
+      origin: from.label,
+      destination: to.label,
       mode: transportMode,
-      estimatedTime: "25 minutes",
-      distance: "12 km",
-      cost: transportMode === "taxi" ? "15-20 USD" : transportMode === "public_transport" ? "2-5 USD" : "Free",
-      alternatives: [
-        { mode: "walking", time: "45 minutes", cost: "Free" },
-        { mode: "public_transport", time: "20 minutes", cost: "2-5 USD" },
-        { mode: "taxi", time: "15 minutes", cost: "15-20 USD" }
-      ],
+      estimatedTime: formatDuration(selected.durationMinutes),
+      durationMinutes: selected.durationMinutes,
+      distance: `${selected.distanceKm} km`,
+      distanceKm: selected.distanceKm,
+      straightLineKm: selected.straightLineKm,
+      cost: formatCost(selected.cost, selected.currency),
+      tariffCity: tariffCity || "default",
+      alternatives: alternatives.map((estimate) => ({
+        mode: estimate.mode,
+        time: formatDuration(estimate.durationMinutes),
+        durationMinutes: estimate.durationMinutes,
+        distanceKm: estimate.distanceKm,
+        cost: formatCost(estimate.cost, estimate.currency),
+        recommended: estimate.recommended
+      })),
       recommendations: [
-        transportMode === "walking" ? "Scenic route available" : "Fastest route recommended",
-        "Traffic can be heavy during rush hours",
-        "Book transportation in advance if needed"
+        ...buildTravelRecommendations(selected, alternatives),
+        ...(isDefault ? ["No local tariff table for this city, costs use generic rates"] : [])
       ]
     };
 
@@ -232,13 +450,78 @@ const calculateTravelTime = tool({
   }
 });
 
+/**
+ * Check the current itinerary for scheduling, date and budget problems
+ */
+const validateItinerary = tool({
+  description: "Check the current itinerary for time overlaps, unrealistic transfers between consecutive activities, days outside the trip dates, missing days, empty days and budget overruns. Call it after generating or editing an itinerary and fix any errors before answering.",
+  inputSchema: z.object({
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
+  }),
+  execute: async ({ itinerary }) => {
+    if (!itinerary) {
+      return JSON.stringify({ success: false, error: "There is no itinerary in this conversation yet. Generate or load one first." }, null, 2);
+    }
+
+    console.log(`Validating itinerary ${itinerary.id}`);
+    const report = validateItineraryData(itinerary);
+
+    const result = {
+      success: true,
+      itineraryId: itinerary.id,
+      ...report,
+      message: report.issues.length === 0
+        ? "No problems found in the itinerary."
+        : `Found ${report.summary.errors} error(s) and ${report.summary.warnings} warning(s).`
+    };
+
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+const activityCategorySchema = z.enum(["ACCOMMODATION", "TRANSPORTATION", "FOOD", "SIGHTSEEING", "ENTERTAINMENT", "SHOPPING", "OUTDOOR", "CULTURE", "WELLNESS", "BUSINESS", "OTHER"]);
+const activityPrioritySchema = z.enum(["LOW", "MEDIUM", "HIGH", "MUST_DO"]);
+
+const newActivitySchema = z.object({
+  title: z.string().describe("Title of the new activity"),
+  description: z.string().describe("Description of the new activity"),
+  location: z.string().describe("Location of the new activity"),
+  coordinates: z.object({
+    lat: z.number(),
+    lng: z.number()
+  }).describe("Coordinates for the new activity"),
+  startTime: z.string().describe("Start time in HH:MM format"),
+  endTime: z.string().optional().describe("End time in HH:MM format"),
+  category: activityCategorySchema.describe("Activity category"),
+  estimatedCost: z.number().describe("Estimated cost in the activity currency"),
+  currency: z.string().optional().describe("ISO 4217 currency of estimatedCost, defaults to the itinerary currency"),
+  priority: activityPrioritySchema.describe("Priority level"),
+  tips: z.array(z.string()).describe("Tips for the new activity"),
+  fixedTime: z.boolean().optional().describe("True for booked slots (tickets, tours, reservations) that must keep their time"),
+  accessibility: activityAccessibilitySchema.optional().describe("Accessibility of the place, when known")
+});
+
+/**
+ * The active itinerary is injected by the Chat agent; edits against
+ * anything else must fail instead of silently editing the wrong trip
+ */
+function requireActiveItinerary(itinerary: ItineraryData | undefined, itineraryId?: string): ItineraryData {
+  if (!itinerary) {
+    throw new Error("There is no active itinerary in this conversation. Generate or load one first.");
+  }
+  if (itineraryId && itineraryId !== itinerary.id) {
+    throw new Error(`Itinerary ${itineraryId} is not the active itinerary (${itinerary.id}). Load it with loadItinerary first.`);
+  }
+  return itinerary;
+}
+
 /**
  * Modify a specific activity in an itinerary
  */
 const modifyActivity = tool({
-  description: "Modify a specific activity in an existing itinerary. Can change time, location, description, cost, etc.",
+  description: "Modify a specific activity in the current itinerary. Can change time, location, description, cost, etc. Fails if the activity ID does not exist.",
   inputSchema: z.object({
-    itineraryId: z.string().describe("ID of the itinerary containing the activity"),
+    itineraryId: z.string().optional().describe("ID of the itinerary containing the activity (defaults to the current itinerary)"),
     activityId: z.string().describe("ID of the activity to modify"),
     changes: z.object({
       title: z.string().optional().describe("New title for the activity"),
@@ -250,21 +533,30 @@ const modifyActivity = tool({
       }).optional().describe("New coordinates for the activity"),
       startTime: z.string().optional().describe("New start time in HH:MM format"),
       endTime: z.string().optional().describe("New end time in HH:MM format"),
-      category: z.enum(["ACCOMMODATION", "TRANSPORTATION", "FOOD", "SIGHTSEEING", "ENTERTAINMENT", "SHOPPING", "OUTDOOR", "CULTURE", "WELLNESS", "BUSINESS", "OTHER"]).optional().describe("New category"),
-      estimatedCost: z.number().optional().describe("New estimated cost in USD"),
-      priority: z.enum(["LOW", "MEDIUM", "HIGH", "MUST_DO"]).optional().describe("New priority level"),
-      tips: z.array(z.string()).optional().describe("New tips for this activity")
-    }).describe("Changes to apply to the activity")
+      category: activityCategorySchema.optional().describe("New category"),
+      estimatedCost: z.number().optional().describe("New estimated cost in the activity currency"),
+      currency: z.string().optional().describe("ISO 4217 currency of the new estimated cost"),
+      priority: activityPrioritySchema.optional().describe("New priority level"),
+      tips: z.array(z.string()).optional().describe("New tips for this activity"),
+      fixedTime: z.boolean().optional().describe("Whether the activity is a booked slot that must keep its time"),
+      accessibility: activityAccessibilitySchema.optional().describe("New accessibility information, replaces the previous one")
+    }).describe("Changes to apply to the activity"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
   }),
-  execute: async ({ itineraryId, activityId, changes }) => {
-    console.log(`Modifying activity ${activityId} in itinerary ${itineraryId}`);
-    
+  execute: async ({ itineraryId, activityId, changes, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Modifying activity ${activityId} in itinerary ${current.id}`);
+
+    const { itinerary: updated } = applyItineraryPatch(current, { op: "modify", activityId, changes });
+    const { activity } = findActivity(updated, activityId)!;
+
     const result = {
       success: true,
-      itineraryId,
+      itineraryId: updated.id,
       activityId,
       changes,
-      message: `Activity "${changes.title || 'activity'}" has been successfully updated with the requested changes.`,
+      itinerary: updated,
+      message: `Activity "${activity.title}" has been successfully updated with the requested changes.`,
       timestamp: new Date().toISOString()
     };
 
@@ -276,37 +568,29 @@ const modifyActivity = tool({
  * Replace an activity with a completely new one
  */
 const replaceActivity = tool({
-  description: "Replace an existing activity with a completely new activity in the itinerary",
+  description: "Replace an existing activity with a completely new activity in the current itinerary. Fails if the activity ID does not exist.",
   inputSchema: z.object({
-    itineraryId: z.string().describe("ID of the itinerary containing the activity"),
+    itineraryId: z.string().optional().describe("ID of the itinerary containing the activity (defaults to the current itinerary)"),
     activityId: z.string().describe("ID of the activity to replace"),
-    newActivity: z.object({
-      title: z.string().describe("Title of the new activity"),
-      description: z.string().describe("Description of the new activity"),
-      location: z.string().describe("Location of the new activity"),
-      coordinates: z.object({
-        lat: z.number(),
-        lng: z.number()
-      }).describe("Coordinates for the new activity"),
-      startTime: z.string().describe("Start time in HH:MM format"),
-      endTime: z.string().optional().describe("End time in HH:MM format"),
-      category: z.enum(["ACCOMMODATION", "TRANSPORTATION", "FOOD", "SIGHTSEEING", "ENTERTAINMENT", "SHOPPING", "OUTDOOR", "CULTURE", "WELLNESS", "BUSINESS", "OTHER"]).describe("Activity category"),
-      estimatedCost: z.number().describe("Estimated cost in USD"),
-      priority: z.enum(["LOW", "MEDIUM", "HIGH", "MUST_DO"]).describe("Priority level"),
-      tips: z.array(z.string()).describe("Tips for the new activity")
-    }).describe("Complete new activity data")
+    newActivity: newActivitySchema.describe("Complete new activity data"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
   }),
-  execute: async ({ itineraryId, activityId, newActivity }) => {
-    console.log(`Replacing activity ${activityId} in itinerary ${itineraryId}`);
-    
+  execute: async ({ itineraryId, activityId, newActivity, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Replacing activity ${activityId} in itinerary ${current.id}`);
+
+    const { itinerary: updated, affectedActivityIds } = applyItineraryPatch(current, {
+      op: "replace",
+      activityId,
+      activity: newActivity
+    });
+
     const result = {
       success: true,
-      itineraryId,
+      itineraryId: updated.id,
       replacedActivityId: activityId,
-      newActivity: {
-        ...newActivity,
-        id: `act_${Date.now()}_${Math.random()}`
-      },
+      newActivity: findActivity(updated, affectedActivityIds[0])!.activity,
+      itinerary: updated,
       message: `Activity has been successfully replaced with "${newActivity.title}".`,
       timestamp: new Date().toISOString()
     };
@@ -319,43 +603,32 @@ const replaceActivity = tool({
  * Add a new activity to a specific day in the itinerary
  */
 const addActivity = tool({
-  description: "Add a new activity to a specific day in the itinerary",
+  description: "Add a new activity to a specific day in the current itinerary. Fails if the day number or reference activity does not exist.",
   inputSchema: z.object({
-    itineraryId: z.string().describe("ID of the itinerary"),
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
     dayNumber: z.number().describe("Day number to add the activity to (1, 2, 3, etc.)"),
-    activity: z.object({
-      title: z.string().describe("Title of the new activity"),
-      description: z.string().describe("Description of the new activity"),
-      location: z.string().describe("Location of the new activity"),
-      coordinates: z.object({
-        lat: z.number(),
-        lng: z.number()
-      }).describe("Coordinates for the new activity"),
-      startTime: z.string().describe("Start time in HH:MM format"),
-      endTime: z.string().optional().describe("End time in HH:MM format"),
-      category: z.enum(["ACCOMMODATION", "TRANSPORTATION", "FOOD", "SIGHTSEEING", "ENTERTAINMENT", "SHOPPING", "OUTDOOR", "CULTURE", "WELLNESS", "BUSINESS", "OTHER"]).describe("Activity category"),
-      estimatedCost: z.number().describe("Estimated cost in USD"),
-      priority: z.enum(["LOW", "MEDIUM", "HIGH", "MUST_DO"]).describe("Priority level"),
-      tips: z.array(z.string()).describe("Tips for the new activity")
-    }).describe("New activity data"),
+    activity: newActivitySchema.describe("New activity data"),
     position: z.enum(["start", "end", "before", "after"]).optional().default("end").describe("Where to insert the activity"),
-    referenceActivityId: z.string().optional().describe("Reference activity ID when using 'before' or 'after' position")
+    referenceActivityId: z.string().optional().describe("Reference activity ID when using 'before' or 'after' position"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
   }),
-  execute: async ({ itineraryId, dayNumber, activity, position, referenceActivityId }) => {
-    console.log(`Adding new activity to day ${dayNumber} in itinerary ${itineraryId}`);
-    
-    const newActivity = {
-      ...activity,
-      id: `act_${Date.now()}_${Math.random()}`
-    };
+  execute: async ({ itineraryId, dayNumber, activity, position, referenceActivityId, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Adding new activity to day ${dayNumber} in itinerary ${current.id}`);
+
+    const { itinerary: updated, affectedActivityIds } = applyItineraryPatch(current, {
+      op: "add",
+      items: [{ dayNumber, activity, position, referenceActivityId }]
+    });
 
     const result = {
       success: true,
-      itineraryId,
+      itineraryId: updated.id,
       dayNumber,
-      newActivity,
+      newActivity: findActivity(updated, affectedActivityIds[0])!.activity,
       position,
       referenceActivityId,
+      itinerary: updated,
       message: `New activity "${activity.title}" has been successfully added to day ${dayNumber}.`,
       timestamp: new Date().toISOString()
     };
@@ -368,19 +641,25 @@ const addActivity = tool({
  * Remove an activity from the itinerary
  */
 const removeActivity = tool({
-  description: "Remove an activity from the itinerary",
+  description: "Remove an activity from the current itinerary. Fails if the activity ID does not exist.",
   inputSchema: z.object({
-    itineraryId: z.string().describe("ID of the itinerary"),
-    activityId: z.string().describe("ID of the activity to remove")
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
+    activityId: z.string().describe("ID of the activity to remove"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
   }),
-  execute: async ({ itineraryId, activityId }) => {
-    console.log(`Removing activity ${activityId} from itinerary ${itineraryId}`);
-    
+  execute: async ({ itineraryId, activityId, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Removing activity ${activityId} from itinerary ${current.id}`);
+
+    const removed = findActivity(current, activityId)?.activity;
+    const { itinerary: updated } = applyItineraryPatch(current, { op: "remove", activityIds: [activityId] });
+
     const result = {
       success: true,
-      itineraryId,
+      itineraryId: updated.id,
       removedActivityId: activityId,
-      message: "Activity has been successfully removed from the itinerary.",
+      itinerary: updated,
+      message: `Activity "${removed?.title}" has been successfully removed from the itinerary.`,
       timestamp: new Date().toISOString()
     };
 
@@ -392,19 +671,24 @@ const removeActivity = tool({
  * Remove multiple activities from the itinerary at once
  */
 const removeMultipleActivities = tool({
-  description: "Remove multiple activities from the itinerary at once",
+  description: "Remove multiple activities from the current itinerary at once. Fails without removing anything if any activity ID does not exist.",
   inputSchema: z.object({
-    itineraryId: z.string().describe("ID of the itinerary"),
-    activityIds: z.array(z.string()).describe("Array of activity IDs to remove")
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
+    activityIds: z.array(z.string()).describe("Array of activity IDs to remove"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
   }),
-  execute: async ({ itineraryId, activityIds }) => {
-    console.log(`Removing ${activityIds.length} activities from itinerary ${itineraryId}`);
-    
+  execute: async ({ itineraryId, activityIds, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Removing ${activityIds.length} activities from itinerary ${current.id}`);
+
+    const { itinerary: updated } = applyItineraryPatch(current, { op: "remove", activityIds });
+
     const result = {
       success: true,
-      itineraryId,
+      itineraryId: updated.id,
       removedActivityIds: activityIds,
       count: activityIds.length,
+      itinerary: updated,
       message: `${activityIds.length} activities have been successfully removed from the itinerary.`,
       timestamp: new Date().toISOString()
     };
@@ -417,45 +701,36 @@ const removeMultipleActivities = tool({
  * Add multiple activities to the itinerary at once
  */
 const addMultipleActivities = tool({
-  description: "Add multiple new activities to the itinerary at once",
+  description: "Add multiple new activities to the current itinerary at once. Fails without adding anything if any day number does not exist.",
   inputSchema: z.object({
-    itineraryId: z.string().describe("ID of the itinerary"),
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
     activities: z.array(z.object({
       dayNumber: z.number().describe("Day number to add the activity to (1, 2, 3, etc.)"),
-      activity: z.object({
-        title: z.string().describe("Title of the new activity"),
-        description: z.string().describe("Description of the new activity"),
-        location: z.string().describe("Location of the new activity"),
-        coordinates: z.object({
-          lat: z.number(),
-          lng: z.number()
-        }).describe("Coordinates for the new activity"),
-        startTime: z.string().describe("Start time in HH:MM format"),
-        endTime: z.string().optional().describe("End time in HH:MM format"),
-        category: z.enum(["ACCOMMODATION", "TRANSPORTATION", "FOOD", "SIGHTSEEING", "ENTERTAINMENT", "SHOPPING", "OUTDOOR", "CULTURE", "WELLNESS", "BUSINESS", "OTHER"]).describe("Activity category"),
-        estimatedCost: z.number().describe("Estimated cost in USD"),
-        priority: z.enum(["LOW", "MEDIUM", "HIGH", "MUST_DO"]).describe("Priority level"),
-        tips: z.array(z.string()).describe("Tips for the new activity")
-      }).describe("Activity data")
-    })).describe("Array of activities to add with their day numbers")
+      activity: newActivitySchema.describe("Activity data")
+    })).describe("Array of activities to add with their day numbers"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
   }),
-  execute: async ({ itineraryId, activities }) => {
-    console.log(`Adding ${activities.length} activities to itinerary ${itineraryId}`);
-    
-    const newActivities = activities.map(({ dayNumber, activity }) => ({
-      dayNumber,
-      activity: {
-        ...activity,
-        id: `act_${Date.now()}_${Math.random()}`
-      }
-    }));
+  execute: async ({ itineraryId, activities, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Adding ${activities.length} activities to itinerary ${current.id}`);
+
+    const { itinerary: updated, affectedActivityIds } = applyItineraryPatch(current, {
+      op: "add",
+      items: activities
+    });
+
+    const addedActivities = affectedActivityIds.map((id) => {
+      const { activity, dayNumber } = findActivity(updated, id)!;
+      return { dayNumber, activity };
+    });
 
     const result = {
       success: true,
-      itineraryId,
-      addedActivities: newActivities,
-      count: newActivities.length,
-      message: `${newActivities.length} activities have been successfully added to the itinerary.`,
+      itineraryId: updated.id,
+      addedActivities,
+      count: addedActivities.length,
+      itinerary: updated,
+      message: `${addedActivities.length} activities have been successfully added to the itinerary.`,
       timestamp: new Date().toISOString()
     };
 
@@ -464,31 +739,34 @@ const addMultipleActivities = tool({
 });
 
 /**
- * Save an itinerary to the database
+ * Change the currency of the budget and totals
  */
-const saveItinerary = tool({
-  description: "Save an itinerary to the database for persistence and sharing",
+const changeItineraryCurrency = tool({
+  description: "Change the currency of the current itinerary's budget and totals (e.g. to EUR). Activity prices keep their original currency and get a converted amount.",
   inputSchema: z.object({
-    itinerary: z.string().describe("Complete itinerary JSON data to save"),
-    userId: z.string().describe("User ID who created the itinerary"),
-    isPublic: z.boolean().optional().default(false).describe("Whether the itinerary should be publicly shareable")
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
+    currency: z.string().describe("ISO 4217 currency code, e.g. EUR, GBP, JPY"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ itinerary, userId, isPublic }) => {
-    console.log(`Saving itinerary for user ${userId}, public: ${isPublic}`);
-    
-    const itineraryData = JSON.parse(itinerary);
-    const saveId = `saved_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Note: This tool now returns a message that the frontend should handle
-    // The actual database saving should be done via API endpoints
+  execute: async ({ itineraryId, currency, itinerary, env }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Changing currency of itinerary ${current.id} from ${current.currency} to ${currency}`);
+
+    const exchangeRates = current.exchangeRates ?? (await createRatesProvider(env).getRates());
+    const updated = convertItineraryCurrency(current, currency, exchangeRates);
+
     const result = {
       success: true,
-      saveId,
-      itineraryId: itineraryData.id,
-      userId,
-      isPublic,
-      shareUrl: isPublic ? `https://aitinerary.app/share/${saveId}` : null,
-      message: `Itinerary "${itineraryData.title}" has been saved successfully. Please use the Save button to persist this itinerary.`,
+      itineraryId: updated.id,
+      previousCurrency: current.currency,
+      currency: updated.currency,
+      budget: updated.budget,
+      totalEstimatedCost: updated.totalEstimatedCost,
+      averageCostPerDay: updated.summary.averageCostPerDay,
+      ratesAsOf: exchangeRates.asOf,
+      itinerary: updated,
+      message: `Itinerary totals are now in ${updated.currency}: ${updated.totalEstimatedCost} ${updated.currency} estimated.`,
       timestamp: new Date().toISOString()
     };
 
@@ -496,24 +774,237 @@ const saveItinerary = tool({
   }
 });
 
+/**
+ * Build or refresh the packing checklist of the current itinerary
+ */
+const generatePackingList = tool({
+  description: "Build a packing checklist for the current itinerary from its dates, the weather outlook at the destination, the activity categories (outdoor, wellness, business, evening events...), the number of travelers and the trip length. The list is stored with the itinerary so travelers can tick items off. Regenerating keeps items already ticked off.",
+  inputSchema: z.object({
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
+  }),
+  execute: async ({ itineraryId, itinerary, env }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Generating packing list for itinerary ${current.id}`);
+
+    const forecast = await fetchTripForecast(createWeatherProvider(env), current);
+    const packingList = buildPackingList(current, forecast, current.packingList);
+    const updated = { ...current, packingList };
+
+    const result = {
+      success: true,
+      itineraryId: updated.id,
+      weatherSummary: packingList.weatherSummary,
+      itemCount: packingList.items.length,
+      items: packingList.items.map((item) => ({
+        name: item.name,
+        category: item.category,
+        quantity: item.perTraveler && updated.travelers > 1 ? `${item.quantity} each` : item.quantity,
+        reason: item.reason,
+        packed: item.packed
+      })),
+      itinerary: updated,
+      message: forecast.length > 0
+        ? `Packing list with ${packingList.items.length} items for ${packingList.weatherSummary}.`
+        : `Packing list with ${packingList.items.length} items. No weather data was available for ${updated.destination}, so weather-specific items are missing: mention it to the user.`,
+      timestamp: new Date().toISOString()
+    };
+
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+/**
+ * Put a transport option picked from searchTransport into the itinerary
+ */
+const transportEndpointSchema = z.object({
+  city: z.string(),
+  station: z.string(),
+  code: z.string().optional(),
+  dateTime: z.string().describe("ISO 8601 local time with UTC offset, as returned by searchTransport"),
+  timezone: z.string(),
+  coordinates: z.object({ lat: z.number(), lng: z.number() }).optional()
+});
+
+const addTransportOption = tool({
+  description: "Add a flight or train returned by searchTransport to the current itinerary. On multi-city trips it fills in the leg between the two stops; otherwise it adds a fixed-time TRANSPORTATION activity on the departure day, timed in that day's local time. Pass the option exactly as searchTransport returned it.",
+  inputSchema: z.object({
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
+    option: z.object({
+      id: z.string(),
+      direction: z.enum(["outbound", "return"]),
+      mode: z.enum(["FLIGHT", "TRAIN"]),
+      carrier: z.string(),
+      serviceNumber: z.string().optional(),
+      departure: transportEndpointSchema,
+      arrival: transportEndpointSchema,
+      durationMinutes: z.number(),
+      stops: z.number(),
+      price: z.object({ amount: z.number(), currency: z.string() }).nullable(),
+      bookingUrl: z.string().optional()
+    }).describe("Option from searchTransport"),
+    passengers: z.number().optional().describe("Passengers to pay for (defaults to the itinerary travelers)"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
+  }),
+  execute: async ({ itineraryId, option, passengers, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Adding transport option ${option.id} to itinerary ${current.id}`);
+
+    const { itinerary: updated, placement } = applyTransportOption(current, option as TransportOption, passengers);
+    const label = [option.carrier, option.serviceNumber].filter(Boolean).join(" ");
+
+    const result = {
+      success: true,
+      itineraryId: updated.id,
+      placement,
+      itinerary: updated,
+      message: placement.kind === "leg"
+        ? `${label} now covers the ${option.departure.city} → ${option.arrival.city} leg.`
+        : `${label} has been added to day ${placement.dayNumber}.`,
+      timestamp: new Date().toISOString()
+    };
+
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+/**
+ * Reorder a day's activities to shorten the route
+ */
+const optimizeDay = tool({
+  description: "Reorder the activities of one day of the current itinerary to minimize travel distance. Booked slots (fixedTime, accommodation, transportation) stay anchored, meals keep sensible hours, nothing is dropped, and start/end times are recomputed.",
+  inputSchema: z.object({
+    itineraryId: z.string().optional().describe("ID of the itinerary (defaults to the current itinerary)"),
+    dayNumber: z.number().describe("Day number to optimize (1, 2, 3, etc.)"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)")
+  }),
+  execute: async ({ itineraryId, dayNumber, itinerary }) => {
+    const current = requireActiveItinerary(itinerary, itineraryId);
+    console.log(`Optimizing route of day ${dayNumber} in itinerary ${current.id}`);
+
+    const day = current.days.find((d) => d.dayNumber === dayNumber);
+    if (!day) {
+      throw new Error(`Day ${dayNumber} does not exist in itinerary ${current.id}. Valid day numbers: ${current.days.map((d) => d.dayNumber).join(", ")}`);
+    }
+
+    const optimization = optimizeDayRoute(day);
+    const updated: ItineraryData = {
+      ...current,
+      days: current.days.map((d) => (d.dayNumber === dayNumber ? optimization.day : d))
+    };
+
+    const result = {
+      success: true,
+      itineraryId: updated.id,
+      dayNumber,
+      beforeKm: optimization.beforeKm,
+      afterKm: optimization.afterKm,
+      savedKm: optimization.savedKm,
+      reordered: optimization.reordered,
+      order: optimization.day.activities.map((activity) => ({
+        id: activity.id,
+        title: activity.title,
+        startTime: activity.startTime,
+        endTime: activity.endTime
+      })),
+      warnings: optimization.warnings,
+      itinerary: updated,
+      message: optimization.reordered
+        ? `Day ${dayNumber} reordered: ${optimization.beforeKm} km -> ${optimization.afterKm} km (${optimization.savedKm} km saved).`
+        : `Day ${dayNumber} is already in the shortest order (${optimization.beforeKm} km).`,
+      timestamp: new Date().toISOString()
+    };
+
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+/**
+ * Save an itinerary to the database
+ */
+const saveItinerary = tool({
+  description: "Save the current itinerary to the user's account so it can be loaded later. Set isPublic to true to also get a shareable link, or to false to stop sharing it; leave it out to keep the current sharing.",
+  inputSchema: z.object({
+    isPublic: z.boolean().optional().describe("Whether the itinerary should be publicly shareable, unchanged when omitted"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)"),
+    userId: z.string().optional().describe("Acting user (provided by the server)"),
+    appOrigin: z.string().optional().describe("Application URL (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
+  }),
+  execute: async ({ isPublic, itinerary, userId, appOrigin, env }) => {
+    console.log(`Saving itinerary for user ${userId}, public: ${isPublic}`);
+
+    if (!userId || !env?.DB) {
+      return JSON.stringify({ success: false, error: "You must be signed in to save itineraries" }, null, 2);
+    }
+
+    if (!itinerary) {
+      return JSON.stringify({ success: false, error: "There is no itinerary in this conversation yet. Generate or load one first." }, null, 2);
+    }
+
+    try {
+      const { itineraryId, shareId } = await saveItineraryRecord(env.DB, userId, itinerary, isPublic);
+
+      const result = {
+        success: true,
+        itineraryId,
+        title: itinerary.title,
+        isPublic: !!shareId,
+        shareUrl: shareId ? buildShareUrl(appOrigin || DEFAULT_APP_ORIGIN, itineraryId) : null,
+        message: `Itinerary "${itinerary.title}" has been saved to your account.`,
+        timestamp: new Date().toISOString()
+      };
+
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      console.error("Save itinerary tool error:", error);
+      return JSON.stringify({ success: false, error: `Could not save itinerary: ${(error as Error).message}` }, null, 2);
+    }
+  }
+});
+
 /**
  * Load a saved itinerary from the database
  */
 const loadItinerary = tool({
-  description: "Load a previously saved itinerary from the database",
+  description: "Load one of the user's saved itineraries so it becomes the current itinerary. Use an itinerary ID from getUserItineraries, or a search text (destination or title) to load the most recent match.",
   inputSchema: z.object({
-    saveId: z.string().describe("Save ID of the itinerary to load"),
-    userId: z.string().optional().describe("User ID (required for private itineraries)")
+    itineraryId: z.string().optional().describe("ID of the saved itinerary to load"),
+    search: z.string().optional().describe("Destination or title to search for when the ID is unknown, e.g. 'Tokyo'"),
+    userId: z.string().optional().describe("Acting user (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ saveId, userId }) => {
-    console.log(`Loading itinerary ${saveId} for user ${userId || 'anonymous'}`);
-    
-    // Simulate loading from database
+  execute: async ({ itineraryId, search, userId, env }) => {
+    console.log(`Loading itinerary ${itineraryId || search} for user ${userId || 'anonymous'}`);
+
+    if (!userId || !env?.DB) {
+      return JSON.stringify({ success: false, error: "You must be signed in to load itineraries" }, null, 2);
+    }
+
+    let targetId = itineraryId;
+    if (!targetId && search) {
+      const { itineraries } = await listUserItineraries(env.DB, userId, { limit: 1, search });
+      targetId = itineraries[0]?.id;
+    }
+
+    const record = targetId ? await loadItineraryRecord(env.DB, userId, targetId) : null;
+
+    if (!record) {
+      return JSON.stringify({
+        success: false,
+        itineraryId,
+        search,
+        error: "No saved itinerary found. Use getUserItineraries to list the user's itineraries."
+      }, null, 2);
+    }
+
     const result = {
       success: true,
-      saveId,
-      userId,
-      message: "Itinerary loaded successfully. You can now view and modify it.",
+      itineraryId: record.summary.id,
+      savedAt: new Date(record.summary.updatedAt * 1000).toISOString(),
+      itinerary: record.itinerary,
+      message: `Itinerary "${record.summary.title}" loaded. You can now view and modify it.`,
       timestamp: new Date().toISOString()
     };
 
@@ -525,42 +1016,38 @@ const loadItinerary = tool({
  * Get list of saved itineraries for a user
  */
 const getUserItineraries = tool({
-  description: "Get a list of all saved itineraries for a specific user",
+  description: "List the itineraries saved by the current user, newest first. Use search to filter by destination or title.",
   inputSchema: z.object({
-    userId: z.string().describe("User ID to get itineraries for"),
+    search: z.string().optional().describe("Filter by destination or title, e.g. 'Tokyo'"),
     limit: z.number().optional().default(10).describe("Maximum number of itineraries to return"),
-    offset: z.number().optional().default(0).describe("Number of itineraries to skip (for pagination)")
+    offset: z.number().optional().default(0).describe("Number of itineraries to skip (for pagination)"),
+    userId: z.string().optional().describe("Acting user (provided by the server)"),
+    appOrigin: z.string().optional().describe("Application URL (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ userId, limit, offset }) => {
+  execute: async ({ search, limit, offset, userId, appOrigin, env }) => {
     console.log(`Getting itineraries for user ${userId}, limit: ${limit}, offset: ${offset}`);
-    
-    // Simulate getting user itineraries
-    const mockItineraries = [
-      {
-        saveId: "saved_123_abc",
-        title: "Tokyo 3-Day Adventure",
-        destination: "Tokyo, Japan",
-        duration: "3 days",
-        isPublic: false,
-        createdAt: "2024-01-15T10:30:00Z",
-        shareUrl: null
-      },
-      {
-        saveId: "saved_456_def", 
-        title: "Paris Weekend Getaway",
-        destination: "Paris, France",
-        duration: "2 days",
-        isPublic: true,
-        createdAt: "2024-01-20T14:15:00Z",
-        shareUrl: "https://aitinerary.app/share/saved_456_def"
-      }
-    ];
+
+    if (!userId || !env?.DB) {
+      return JSON.stringify({ success: false, error: "You must be signed in to list itineraries" }, null, 2);
+    }
+
+    const { itineraries, total } = await listUserItineraries(env.DB, userId, { limit, offset, search });
 
     const result = {
       success: true,
-      userId,
-      itineraries: mockItineraries.slice(offset, offset + limit),
-      total: mockItineraries.length,
+      itineraries: itineraries.map((itinerary) => ({
+        itineraryId: itinerary.id,
+        title: itinerary.title,
+        destination: itinerary.destination,
+        startDate: itinerary.startDate,
+        endDate: itinerary.endDate,
+        duration: itinerary.duration,
+        isPublic: itinerary.isPublic,
+        savedAt: new Date(itinerary.createdAt * 1000).toISOString(),
+        shareUrl: itinerary.isPublic ? buildShareUrl(appOrigin || DEFAULT_APP_ORIGIN, itinerary.id) : null
+      })),
+      total,
       limit,
       offset,
       timestamp: new Date().toISOString()
@@ -574,32 +1061,55 @@ const getUserItineraries = tool({
  * Share an itinerary by making it public
  */
 const shareItinerary = tool({
-  description: "Make an itinerary public and get a shareable URL",
+  description: "Make a saved itinerary public and get a shareable URL. Without an ID, the current itinerary is saved and shared.",
   inputSchema: z.object({
-    saveId: z.string().describe("Save ID of the itinerary to share"),
-    userId: z.string().describe("User ID who owns the itinerary"),
-    title: z.string().optional().describe("Optional custom title for sharing")
+    itineraryId: z.string().optional().describe("ID of the saved itinerary to share (defaults to the current itinerary)"),
+    itinerary: z.any().optional().describe("Current itinerary (provided by the server)"),
+    userId: z.string().optional().describe("Acting user (provided by the server)"),
+    appOrigin: z.string().optional().describe("Application URL (provided by the server)"),
+    env: z.any().optional().describe("Environment bindings")
   }),
-  execute: async ({ saveId, userId, title }) => {
-    console.log(`Sharing itinerary ${saveId} by user ${userId}`);
-    
-    const shareUrl = `https://aitinerary.app/share/${saveId}`;
-    
-    const result = {
-      success: true,
-      saveId,
-      userId,
-      shareUrl,
-      customTitle: title,
-      message: `Itinerary is now public and can be shared using the URL: ${shareUrl}`,
-      timestamp: new Date().toISOString()
-    };
+  execute: async ({ itineraryId, itinerary, userId, appOrigin, env }) => {
+    console.log(`Sharing itinerary ${itineraryId || itinerary?.id} by user ${userId}`);
 
-    return JSON.stringify(result, null, 2);
+    if (!userId || !env?.DB) {
+      return JSON.stringify({ success: false, error: "You must be signed in to share itineraries" }, null, 2);
+    }
+
+    const targetId = itineraryId || itinerary?.id;
+    if (!targetId) {
+      return JSON.stringify({ success: false, error: "There is no itinerary to share. Generate or load one first." }, null, 2);
+    }
+
+    try {
+      // The current itinerary may not be saved yet
+      if (!itineraryId && itinerary) {
+        await saveItineraryRecord(env.DB, userId, itinerary, true);
+      }
+
+      const shareId = await publishItinerary(env.DB, userId, targetId);
+      if (!shareId) {
+        return JSON.stringify({ success: false, itineraryId: targetId, error: "Itinerary not found in your saved itineraries" }, null, 2);
+      }
+
+      const shareUrl = buildShareUrl(appOrigin || DEFAULT_APP_ORIGIN, targetId);
+
+      const result = {
+        success: true,
+        itineraryId: targetId,
+        shareUrl,
+        message: `Itinerary is now public and can be shared using the URL: ${shareUrl}`,
+        timestamp: new Date().toISOString()
+      };
+
+      return JSON.stringify(result, null, 2);
+    } catch (error) {
+      console.error("Share itinerary tool error:", error);
+      return JSON.stringify({ success: false, error: `Could not share itinerary: ${(error as Error).message}` }, null, 2);
+    }
   }
 });
 
-
 /**
  * Search the web for travel information
  */
@@ -612,70 +1122,22 @@ const searchWeb = tool({
   }),
   execute: async ({ query, targetSite, env }) => {
     console.log(`Searching web: ${query} on ${targetSite}`);
-    
-    if (!env?.BROWSER) {
-      return JSON.stringify({
-        query,
-        targetSite,
-        error: "Browser binding not configured. Enable Cloudflare Browser Rendering in your dashboard.",
-        results: []
-      }, null, 2);
-    }
-
-    try {
-      const browser = await puppeteer.launch(env.BROWSER);
-      const page = await browser.newPage();
-      
-      let searchUrl = "";
-      switch (targetSite) {
-        case "booking.com":
-          searchUrl = `https://www.booking.com/searchresults.html?ss=${encodeURIComponent(query)}`;
-          break;
-        case "tripadvisor":
-          searchUrl = `https://www.tripadvisor.com/Search?q=${encodeURIComponent(query)}`;
-          break;
-        case "google":
-        case "general":
-        default:
-          searchUrl = `https://www.google.com/search?q=${encodeURIComponent(query + " travel")}`;
-          break;
-      }
 
-      await page.goto(searchUrl, { waitUntil: "networkidle0", timeout: 10000 });
-      
-      // Extract search results
-      const results = await page.evaluate(() => {
-        const items: Array<{ title: string; snippet: string; url: string }> = [];
-        
-        // Google results
-        document.querySelectorAll('div.g').forEach((el, idx) => {
-          if (idx >= 5) return; // Limit to 5 results
-          const titleEl = el.querySelector('h3');
-          const snippetEl = el.querySelector('.VwiC3b');
-          const linkEl = el.querySelector('a');
-          
-          if (titleEl && linkEl) {
-            items.push({
-              title: titleEl.textContent || '',
-              snippet: snippetEl?.textContent || '',
-              url: linkEl.getAttribute('href') || ''
-            });
-          }
-        });
-        
-        return items;
-      });
+    const provider = createSearchProvider(env);
 
-      await browser.close();
+    try {
+      const { results, cache } = await cachedSearchWeb(env, provider, query, targetSite);
 
       return JSON.stringify({
         query,
         targetSite,
-        results: results.length > 0 ? results : [{
-          title: "No results found",
-          snippet: "Try a different search query",
-          url: "#"
-        }],
+        provider: provider.name,
+        cache,
+        results,
+        message: results.length > 0 ? `Found ${results.length} results` : "No results found, try a different search query",
+        note: provider.name === "fixture"
+          ? "Sample results from saved pages (SEARCH_PROVIDER=fixture), not live data. Tell the user they are examples."
+          : undefined,
         timestamp: new Date().toISOString()
       }, null, 2);
     } catch (error) {
@@ -683,7 +1145,7 @@ const searchWeb = tool({
       return JSON.stringify({
         query,
         targetSite,
-        error: `Search failed: ${(error as Error).message}`,
+        error: error instanceof SearchUnavailableError ? error.message : `Search failed: ${(error as Error).message}`,
         results: []
       }, null, 2);
     }
@@ -694,7 +1156,7 @@ const searchWeb = tool({
  * Search booking.com for accommodation options
  */
 const searchBooking = tool({
-  description: "Search booking.com for hotels, apartments, or accommodation in a specific destination with dates and preferences.",
+  description: "Search booking.com for hotels, apartments, or accommodation in a specific destination with dates and preferences. Returns typed results: price amount and currency, review score out of 10, review count and location.",
   inputSchema: z.object({
     destination: z.string().describe("City or destination to search accommodation"),
     checkIn: z.string().optional().describe("Check-in date in YYYY-MM-DD format"),
@@ -705,131 +1167,94 @@ const searchBooking = tool({
   }),
   execute: async ({ destination, checkIn, checkOut, guests, priceRange, env }) => {
     console.log(`Searching Booking.com: ${destination}, guests: ${guests}, range: ${priceRange}`);
-    
-    if (!env?.BROWSER) {
+
+    const provider = createSearchProvider(env);
+
+    try {
+      const { results: hotels, cache } = await cachedSearchHotels(env, provider, { destination, checkIn, checkOut, guests });
+
       return JSON.stringify({
         destination,
         checkIn,
         checkOut,
         guests,
         priceRange,
-        error: "Browser binding not configured",
+        provider: provider.name,
+        cache,
+        hotels,
+        message: hotels.length > 0 ? `Found ${hotels.length} accommodation options` : "No hotels found for these criteria",
+        note: provider.name === "fixture"
+          ? "Sample hotels from a saved page (SEARCH_PROVIDER=fixture), not live availability or prices. Tell the user they are examples."
+          : undefined,
+        timestamp: new Date().toISOString()
+      }, null, 2);
+    } catch (error) {
+      console.error('Booking search error:', error);
+      return JSON.stringify({
+        destination,
+        checkIn,
+        checkOut,
+        guests,
+        priceRange,
+        error: error instanceof SearchUnavailableError ? error.message : `Search failed: ${(error as Error).message}`,
         hotels: []
       }, null, 2);
     }
+  }
+});
 
-    try {
-      const browser = await puppeteer.launch(env.BROWSER);
-      const page = await browser.newPage();
-      
-      let bookingUrl = `https://www.booking.com/searchresults.html?ss=${encodeURIComponent(destination)}`;
-      if (checkIn) bookingUrl += `&checkin=${checkIn}`;
-      if (checkOut) bookingUrl += `&checkout=${checkOut}`;
-      bookingUrl += `&group_adults=${guests}`;
+/**
+ * Search flights and trains between two cities
+ */
+const searchTransport = tool({
+  description: "Search flights and trains between two cities for given dates and passengers. Returns structured options: carrier, service number, departure and arrival (station, local time with UTC offset and IANA timezone), duration, number of stops and price per passenger. Use it to plan how travelers get to the destination and between cities, then addTransportOption when the user picks one.",
+  inputSchema: z.object({
+    origin: z.string().describe("City of departure"),
+    destination: z.string().describe("City of arrival"),
+    departureDate: z.string().describe("Departure date in YYYY-MM-DD format"),
+    returnDate: z.string().optional().describe("Return date in YYYY-MM-DD format, to also search the way back"),
+    passengers: z.number().optional().default(1).describe("Number of passengers"),
+    modes: z.array(z.enum(["FLIGHT", "TRAIN"])).optional().default(["FLIGHT", "TRAIN"]).describe("Transport modes to search"),
+    env: z.any().optional().describe("Environment bindings")
+  }),
+  execute: async ({ origin, destination, departureDate, returnDate, passengers, modes, env }) => {
+    console.log(`Searching transport: ${origin} -> ${destination} on ${departureDate}${returnDate ? `, back ${returnDate}` : ""}`);
 
-      await page.goto(bookingUrl, { waitUntil: "networkidle0", timeout: 15000 });
-      
-      // Extract hotel results
-      const hotels = await page.evaluate(() => {
-        const items: Array<{ name: string; price: string; rating: string; location: string; url: string }> = [];
-
-        document.querySelectorAll('[data-testid="property-card"]').forEach((el, idx) => {
-          if (idx >= 5) return;
-
-          const nameEl = el.querySelector('[data-testid="title"]');
-          const linkEl = el.querySelector('a');
-
-          // Try multiple selectors for price
-          let priceText = 'Price not available';
-          const priceSelectors = [
-            '[data-testid="price-and-discounted-price"]',
-            '.prco-valign-middle-helper',
-            '.bui-price-display__value',
-            '.prco-text-nowrap-helper',
-            'span[aria-label*="price"]',
-            '[data-testid="price-for-x-nights"]'
-          ];
-
-          for (const selector of priceSelectors) {
-            const priceEl = el.querySelector(selector);
-            if (priceEl?.textContent?.trim()) {
-              priceText = priceEl.textContent.trim();
-              break;
-            }
-          }
-
-          // Try multiple selectors for rating
-          let ratingText = 'No rating';
-          const ratingSelectors = [
-            '[data-testid="review-score"]',
-            '.b5cd09854e',
-            '.ac78a2c285',
-            '[aria-label*="Scored"]'
-          ];
-
-          for (const selector of ratingSelectors) {
-            const ratingEl = el.querySelector(selector);
-            if (ratingEl?.textContent?.trim()) {
-              ratingText = ratingEl.textContent.trim();
-              break;
-            }
-          }
-
-          // Try to get location/address
-          let locationText = 'Location not specified';
-          const locationSelectors = [
-            '[data-testid="address"]',
-            '[data-testid="distance"]',
-            '.abf093bdfe',
-            '[data-testid="location"]'
-          ];
-
-          for (const selector of locationSelectors) {
-            const locationEl = el.querySelector(selector);
-            if (locationEl?.textContent?.trim()) {
-              locationText = locationEl.textContent.trim();
-              break;
-            }
-          }
-
-          items.push({
-            name: nameEl?.textContent?.trim() || 'Hotel',
-            price: priceText,
-            rating: ratingText,
-            location: locationText,
-            url: linkEl?.getAttribute('href') || '#'
-          });
-        });
-
-        return items;
-      });
+    const provider = createTransportProvider(env);
 
-      await browser.close();
+    try {
+      const options = await provider.searchTransport({ origin, destination, departureDate, returnDate, passengers, modes });
 
       return JSON.stringify({
+        origin,
         destination,
-        checkIn,
-        checkOut,
-        guests,
-        priceRange,
-        hotels: hotels.length > 0 ? hotels : [],
-        message: hotels.length > 0 ? `Found ${hotels.length} accommodation options` : "No hotels found for these criteria",
+        departureDate,
+        returnDate,
+        passengers,
+        provider: provider.name,
+        options,
+        message: options.length > 0
+          ? `Found ${options.length} options. Prices are per passenger`
+          : `No ${modes.join(" or ").toLowerCase()} options found between ${origin} and ${destination}`,
+        note: provider.name === "fixture"
+          ? "Sample schedules and fictional carriers (TRANSPORT_PROVIDER=fixture), not live availability or prices. Tell the user they are examples."
+          : undefined,
         timestamp: new Date().toISOString()
       }, null, 2);
     } catch (error) {
-      console.error('Booking search error:', error);
+      console.error("Transport search error:", error);
       return JSON.stringify({
+        origin,
         destination,
-        error: `Search failed: ${(error as Error).message}`,
-        hotels: []
+        departureDate,
+        returnDate,
+        error: `Transport search failed: ${(error as Error).message}`,
+        options: []
       }, null, 2);
     }
   }
 });
 
-/**
- * Export all available tools
- */
 /**
  * Update conversation title - called by AI after generating a title
  */
@@ -844,24 +1269,62 @@ const updateConversationTitle = tool({
   }
 });
 
+/**
+ * Export all available tools
+ */
 export const tools = {
   generateCompleteItinerary,
   getDestinationInfo,
   getWeatherInfo,
   calculateTravelTime,
+  validateItinerary,
   modifyActivity,
   replaceActivity,
   addActivity,
   removeActivity,
   removeMultipleActivities,
   addMultipleActivities,
+  optimizeDay,
+  changeItineraryCurrency,
+  generatePackingList,
+  addTransportOption,
   saveItinerary,
   loadItinerary,
   getUserItineraries,
   shareItinerary,
   searchWeb,
   searchBooking,
+  searchTransport,
   updateConversationTitle
 } satisfies ToolSet;
 
-export const executions: Record<string, ToolExecution> = {};
\ No newline at end of file
+// Tools that read or write the acting user's saved itineraries.
+// The server injects the authenticated userId, never the model.
+export const USER_SCOPED_TOOLS = ["saveItinerary", "loadItinerary", "getUserItineraries", "shareItinerary"];
+
+// Tools that return a patched copy of the active itinerary for the Chat agent to persist
+export const ITINERARY_EDIT_TOOLS = [
+  "modifyActivity",
+  "replaceActivity",
+  "addActivity",
+  "removeActivity",
+  "removeMultipleActivities",
+  "addMultipleActivities",
+  "optimizeDay",
+  "changeItineraryCurrency",
+  "generatePackingList",
+  "addTransportOption"
+];
+
+/**
+ * Tools that wait for the user's approval in the chat
+ * TOOLS_REQUIRING_APPROVAL lists them comma-separated, the shared list when unset
+ */
+export function getToolsRequiringApproval(env: Pick<Env, "TOOLS_REQUIRING_APPROVAL">): string[] {
+  if (env.TOOLS_REQUIRING_APPROVAL === undefined) return TOOLS_REQUIRING_APPROVAL;
+
+  return env.TOOLS_REQUIRING_APPROVAL
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name in tools);
+}
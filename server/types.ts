@@ -1,19 +1,50 @@
 // Types for AItinerary environment
 
+import type { CollaborativeItinerary } from "./collaboration";
+
 export interface Env {
   DB: D1Database;
   OPENAI_API_KEY?: string;
+  OPENAI_MODELS?: string; // Comma-separated OpenAI models offered in the model picker
+  WORKERS_AI_ACCOUNT_ID?: string; // Workers AI through its OpenAI-compatible REST endpoint
+  WORKERS_AI_API_TOKEN?: string;
+  WORKERS_AI_MODELS?: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string; // Any OpenAI-compatible server, e.g. http://localhost:11434/v1
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_MODELS?: string;
+  OPENAI_COMPATIBLE_NAME?: string; // Label in the model picker, e.g. "Ollama"
+  PLANNING_MODEL?: string; // "provider:model" for chats that did not pick one
+  TITLE_MODEL?: string; // "provider:model" for conversation titles and history summaries
+  CONTEXT_TOKEN_BUDGET?: string; // Estimated history tokens before older turns are summarized
+  MODEL_PRICES?: string; // JSON overrides for model prices, USD per million tokens
+  MONTHLY_TOKEN_QUOTA?: string; // Default per-user monthly token limit, unset or 0 for none
+  MONTHLY_COST_QUOTA_USD?: string; // Default per-user monthly cost limit in USD
   BETTER_AUTH_SECRET?: string;
   Chat: DurableObjectNamespace;
-  CollaborativeItinerary: DurableObjectNamespace;
+  CollaborativeItinerary: DurableObjectNamespace<CollaborativeItinerary>;
   NotificationManager: DurableObjectNamespace;
   BROWSER?: Fetcher; // Cloudflare Browser binding
+  SEARCH_PROVIDER?: "browser" | "fixture"; // fixture: saved result pages, no BROWSER binding needed
+  TRANSPORT_PROVIDER?: "fixture" | "live"; // fixture: sample schedules computed offline
+  TRANSPORT_API_URL?: string; // Base URL of the live transport API (or a local stub)
+  TRANSPORT_API_KEY?: string;
+  SEARCH_CACHE_TTL_SECONDS?: string; // Overrides the search cache TTLs; "0" disables the cache
+  ADMIN_EMAILS?: string; // Comma-separated emails allowed to call /api/admin routes
+  TOOLS_REQUIRING_APPROVAL?: string; // Comma-separated tools that wait for the user's approval, empty for none
+  TRAVEL_TARIFFS?: string; // JSON overrides for city transport tariffs
+  WEATHER_PROVIDER?: "normals" | "live";
+  WEATHER_API_URL?: string; // Base URL of the live forecast API (or a local stub)
+  WEATHER_API_KEY?: string;
+  EXCHANGE_RATES_PROVIDER?: "bundled" | "live";
+  EXCHANGE_RATES_API_URL?: string; // Base URL of the live rates API (or a local stub)
+  EXCHANGE_RATES_API_KEY?: string;
 }
 
 // Cloudflare Workers types
 declare global {
   interface D1Database {
     prepare(query: string): D1PreparedStatement;
+    batch(statements: D1PreparedStatement[]): Promise<{ success: boolean }[]>;
   }
 
   interface D1PreparedStatement {
@@ -60,9 +91,15 @@ export interface ItineraryData {
   endDate: string;
   duration: string;
   travelers: number;
-  budget?: number;
-  totalEstimatedCost: number;
-  currency: string;
+  budget?: number; // In the itinerary currency
+  totalEstimatedCost: number; // In the itinerary currency
+  currency: string; // ISO 4217 code
+  exchangeRates?: ExchangeRateSnapshot; // Rates used for every conversion in this itinerary
+  timezone?: string; // IANA zone of the destination; activity dates and times are local to it
+  stops?: ItineraryStop[]; // Ordered cities of a multi-city trip; destination then reads "Lisbon → Porto"
+  legs?: TravelLeg[]; // Inter-city transport between consecutive stops
+  packingList?: PackingList; // Saved, shared and exported with the itinerary
+  accessibility?: AccessibilityConstraints; // Checked by the validator on every edit
   accommodationType: string;
   interests: string[];
   days: Day[];
@@ -77,9 +114,42 @@ export interface ItineraryData {
 export interface Day {
   date: string;
   dayNumber: number;
+  stopId?: string; // Stop the traveler sleeps at that night, on multi-city trips
+  walkingKm?: number; // Estimated walking from the activity coordinates, see services/accessibility
   activities: Activity[];
 }
 
+export interface ItineraryStop {
+  id: string;
+  city: string;
+  arrivalDate: string; // YYYY-MM-DD
+  departureDate: string; // YYYY-MM-DD, the arrival date of the next stop
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+  accommodation?: string;
+  timezone?: string; // IANA zone of this city; activity times on its days are local to it
+}
+
+export type LegMode = "FLIGHT" | "TRAIN" | "BUS" | "CAR" | "FERRY";
+
+export interface TravelLeg {
+  id: string;
+  fromStopId: string;
+  toStopId: string;
+  mode: LegMode;
+  date: string; // YYYY-MM-DD
+  departureTime?: string; // HH:MM local to the origin
+  arrivalTime?: string; // HH:MM local to the destination
+  distanceKm?: number;
+  durationMinutes?: number;
+  estimatedCost?: number; // In the leg currency
+  currency?: string;
+  convertedCost?: number; // estimatedCost in the itinerary currency
+  notes?: string;
+}
+
 export interface Activity {
   id: string;
   title: string;
@@ -92,7 +162,74 @@ export interface Activity {
   startTime: string;
   endTime?: string;
   category: string;
-  estimatedCost: number;
+  estimatedCost: number; // In the activity currency
+  currency?: string; // Original currency of estimatedCost, defaults to the itinerary currency
+  convertedCost?: number; // estimatedCost in the itinerary currency
   priority: string;
   tips: string[];
+  fixedTime?: boolean; // Booked slot (tickets, tours, reservations) the route optimizer must not move
+  accessibility?: ActivityAccessibility;
+}
+
+// Unknown stays undefined: "not step-free" and "nobody checked" read differently
+export interface ActivityAccessibility {
+  stepFree?: boolean; // Entrance and visited areas reachable without steps
+  stairsHeavy?: boolean; // Many stairs or steep climbs (towers, hilltop sites, catacombs)
+  accessibleToilets?: boolean;
+  walkingKm?: number; // Walking within the activity itself, e.g. a walking tour or large park
+  notes?: string;
+}
+
+export interface AccessibilityConstraints {
+  wheelchairUser?: boolean; // Implies avoidStairs and stepFreeTransport
+  avoidStairs?: boolean;
+  stepFreeTransport?: boolean; // Transfers must be step-free (taxi, or transit lines with lifts)
+  maxWalkingKmPerDay?: number;
+  notes?: string;
+}
+
+export type PackingCategory = "DOCUMENTS" | "CLOTHING" | "FOOTWEAR" | "TOILETRIES" | "HEALTH" | "ELECTRONICS" | "GEAR";
+
+export interface PackingItem {
+  id: string; // Stable slug of the name, so regenerating keeps ticked items ticked
+  name: string;
+  category: PackingCategory;
+  quantity: number;
+  perTraveler: boolean; // quantity is for each traveler rather than the group
+  reason: string;
+  packed: boolean;
+}
+
+export interface PackingList {
+  generatedAt: string;
+  weatherSummary?: string;
+  items: PackingItem[];
+}
+
+export type TravelPace = "relaxed" | "moderate" | "packed";
+
+export type AccommodationType = "hotel" | "hostel" | "apartment" | "luxury" | "budget";
+
+export interface TravelerProfile {
+  homeCity?: string; // Default origin for transport searches
+  dietaryRestrictions: string[]; // e.g. "vegetarian", "nut allergy"
+  mobilityNeeds?: string; // Free text, e.g. "no long walks, uses a cane"
+  pace?: TravelPace;
+  usualBudget?: {
+    amount: number;
+    currency: string; // ISO 4217
+    per: "trip" | "day";
+  };
+  loyaltyPrograms: string[]; // Program names only, never member numbers
+  travelers?: number;
+  accommodationType?: AccommodationType;
+  interests: string[];
+  updatedAt?: string;
+}
+
+export interface ExchangeRateSnapshot {
+  base: "USD";
+  rates: Record<string, number>; // Units of each currency per 1 USD
+  asOf: string;
+  source: "bundled" | "live";
 }
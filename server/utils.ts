@@ -6,8 +6,11 @@ import type {
   ToolSet,
   CoreMessage
 } from "ai";
-import { convertToModelMessages, isToolUIPart } from "ai";
-import { APPROVAL } from "./shared";
+import { convertToModelMessages, generateId, isToolUIPart } from "ai";
+import { APPROVAL, type ApprovalDecision } from "./shared";
+import { listAvailableModels } from "./services/models";
+import { checkUsageQuota, describeQuotaLimit } from "./services/usage";
+import type { Env } from "./types";
 
 interface ToolContext {
   messages: CoreMessage[];
@@ -21,13 +24,75 @@ function isValidToolName<K extends PropertyKey, T extends object>(
   return key in obj;
 }
 
+/**
+ * Read the client's answer to a tool call waiting for approval
+ * Anything else is a real tool output that was already processed
+ */
+function parseApprovalDecision(output: unknown): { approved: boolean; reason?: string } | null {
+  if (output === APPROVAL.YES) return { approved: true };
+  if (output === APPROVAL.NO) return { approved: false };
+  if (output && typeof output === "object" && (output as ApprovalDecision & object).approval === APPROVAL.NO) {
+    const reason = (output as { reason?: unknown }).reason;
+    return { approved: false, reason: typeof reason === "string" && reason.trim() ? reason.trim() : undefined };
+  }
+  return null;
+}
+
+/**
+ * Results already written into the approval tool parts, by toolCallId
+ */
+export function collectApprovalResults(messages: UIMessage[], toolNames: string[]): Map<string, unknown> {
+  const results = new Map<string, unknown>();
+  for (const message of messages) {
+    for (const part of message.parts ?? []) {
+      if (!isToolUIPart(part) || part.state !== "output-available") continue;
+      if (!toolNames.includes(part.type.replace("tool-", ""))) continue;
+      if (parseApprovalDecision(part.output)) continue;
+      results.set(part.toolCallId, part.output);
+    }
+  }
+  return results;
+}
+
+/**
+ * Answer the decisions still in the approval tool parts for a copy of the
+ * history, e.g. a fork. Its agent never got the results of the original, so
+ * an approved change must not run again there
+ */
+export function settleApprovalDecisions(messages: UIMessage[], toolNames: string[]): UIMessage[] {
+  return messages.map((message) => {
+    let settled = false;
+    const parts = message.parts.map((part) => {
+      if (!isToolUIPart(part) || part.state !== "output-available") return part;
+      if (!toolNames.includes(part.type.replace("tool-", ""))) return part;
+      const decision = parseApprovalDecision(part.output);
+      if (!decision) return part;
+
+      settled = true;
+      const output = decision.approved
+        ? "The user approved this change in the conversation this one was forked from."
+        : "Error: The user rejected this change. Nothing was changed.";
+      return { ...part, output } as UIMessage["parts"][number];
+    });
+    return settled ? { ...message, parts } : message;
+  });
+}
+
 /**
  * Processes tool invocations where human input is required, executing tools when authorized.
+ * The client answers with addToolResult, so an answered call is "output-available"
+ * with an ApprovalDecision as its output. A call still "input-available" was never
+ * answered: the user moved on with a new message, which counts as a rejection.
+ *
+ * The client can keep sending the decision it gave, so results are looked up
+ * in resolvedResults by toolCallId first and an approved call never runs twice.
+ * Calls run one at a time since approved edits patch the same itinerary.
  */
 export async function processToolCalls<Tools extends ToolSet>({
   dataStream,
   messages,
-  executions
+  executions,
+  resolvedResults = new Map()
 }: {
   tools: Tools; // used for type inference
   dataStream: UIMessageStreamWriter;
@@ -37,72 +102,83 @@ export async function processToolCalls<Tools extends ToolSet>({
     // biome-ignore lint/suspicious/noExplicitAny: needs a better type
     (args: any, context: ToolContext) => Promise<unknown>
   >;
+  resolvedResults?: Map<string, unknown>;
 }): Promise<UIMessage[]> {
-  // Process all messages, not just the last one
-  const processedMessages = await Promise.all(
-    messages.map(async (message) => {
-      const parts = message.parts;
-      if (!parts) return message;
-
-      const processedParts = await Promise.all(
-        parts.map(async (part) => {
-          // Only process tool UI parts
-          if (!isToolUIPart(part)) return part;
-
-          const toolName = part.type.replace(
-            "tool-",
-            ""
-          ) as keyof typeof executions;
-
-          // Only process tools that require confirmation (are in executions object) and are in 'input-available' state
-          if (!(toolName in executions) || part.state !== "input-available")
-            return part;
-
-          let result: unknown;
-
-          if (part.input === APPROVAL.YES) {
-            // User approved the tool execution
-            if (!isValidToolName(toolName, executions)) {
-              return part;
-            }
-
-            const toolInstance = executions[toolName];
-            if (toolInstance) {
-              result = await toolInstance(part.input, {
+  const processPart = async (part: UIMessage["parts"][number]): Promise<UIMessage["parts"][number]> => {
+    // Only process tool UI parts
+    if (!isToolUIPart(part)) return part;
+
+    const toolName = part.type.replace("tool-", "");
+
+    // Only process tools that require confirmation (are in executions object)
+    if (!isValidToolName(toolName, executions)) return part;
+
+    let result: unknown;
+
+    if (resolvedResults.has(part.toolCallId)) {
+      result = resolvedResults.get(part.toolCallId);
+    } else if (part.state === "input-available") {
+      result = "Error: The user did not approve this change and sent a new message instead. Nothing was changed.";
+    } else if (part.state === "output-available") {
+      const decision = parseApprovalDecision(part.output);
+      if (!decision) return part;
+
+      if (decision.approved) {
+        const toolInstance = executions[toolName];
+        try {
+          result = toolInstance
+            ? await toolInstance(part.input, {
                 messages: convertToModelMessages(messages),
                 toolCallId: part.toolCallId
-              });
-            } else {
-              result = "Error: No execute function found on tool";
-            }
-          } else if (part.input === APPROVAL.NO) {
-            result = "Error: User denied access to tool execution";
-          } else {
-            // If no approval input yet, leave the part as-is for user interaction
-            return part;
-          }
-
-          // Forward updated tool result to the client.
-          dataStream.write({
-            type: "data-tool-result",
-            data: {
-              toolCallId: part.toolCallId,
-              result: result
-            }
-          });
-
-          // Return updated tool part with the actual result.
-          return {
-            ...part,
-            state: "output-available" as const,
-            output: result
-          };
-        })
-      );
+              })
+            : "Error: No execute function found on tool";
+        } catch (error) {
+          console.error(`[processToolCalls] Approved ${toolName} failed:`, error);
+          result = `Error: ${error instanceof Error ? error.message : "Tool execution failed"}`;
+        }
+      } else {
+        result = decision.reason
+          ? `Error: The user rejected this change. Reason: ${decision.reason}`
+          : "Error: The user rejected this change. Nothing was changed.";
+      }
+
+      // Forward updated tool result to the client.
+      dataStream.write({
+        type: "data-tool-result",
+        data: {
+          toolCallId: part.toolCallId,
+          result: result
+        }
+      });
+    } else {
+      return part;
+    }
+
+    resolvedResults.set(part.toolCallId, result);
+
+    // Return updated tool part with the actual result.
+    return {
+      ...part,
+      state: "output-available" as const,
+      output: result
+    } as UIMessage["parts"][number];
+  };
+
+  const processedMessages: UIMessage[] = [];
 
-      return { ...message, parts: processedParts };
-    })
-  );
+  // Process all messages, not just the last one
+  for (const message of messages) {
+    if (!message.parts) {
+      processedMessages.push(message);
+      continue;
+    }
+
+    const processedParts: UIMessage["parts"] = [];
+    for (const part of message.parts) {
+      processedParts.push(await processPart(part));
+    }
+    processedMessages.push({ ...message, parts: processedParts });
+  }
 
   return processedMessages;
 }
@@ -128,3 +204,33 @@ export function cleanupMessages(messages: UIMessage[]): UIMessage[] {
     return !hasIncompleteToolCall;
   });
 }
+
+/**
+ * Stream a whole text part, for replies written by the server instead of the model
+ */
+export function writeTextPart(writer: UIMessageStreamWriter, text: string): void {
+  const id = generateId();
+  writer.write({ type: "text-start", id });
+  writer.write({ type: "text-delta", id, delta: text });
+  writer.write({ type: "text-end", id });
+}
+
+/**
+ * Answer the turn without calling the model when no model is configured or
+ * the user's monthly quota is used up. Returns true when it answered
+ */
+export async function answerWithoutModel(env: Env, userId: string, writer: UIMessageStreamWriter): Promise<boolean> {
+  if (listAvailableModels(env).length === 0) {
+    writeTextPart(writer, "No language model is configured.");
+    return true;
+  }
+
+  const quota = await checkUsageQuota(env, userId);
+  if (quota.exceeded) {
+    console.log("[answerWithoutModel] Usage quota reached for", userId, quota);
+    writeTextPart(writer, describeQuotaLimit(quota));
+    return true;
+  }
+
+  return false;
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback, lazy, Suspense, use } from "react";
+import { useEffect, useState, useCallback, useMemo, lazy, Suspense, use } from "react";
 import { useParams } from "react-router-dom";
 
 // Component imports
@@ -11,6 +11,16 @@ const AuthModal = lazy(() => import("@/components/auth/AuthModal").then(m => ({
 const Sidebar = lazy(() => import("@/components/sidebar/Sidebar").then(m => ({ default: m.Sidebar })));
 const ChatContainer = lazy(() => import("@/components/ChatContainer").then(m => ({ default: m.ChatContainer })));
 
+interface RecentChat {
+  id: string;
+  title: string;
+  lastMessage: string;
+  timestamp: string;
+  parentId: string | null;
+  pinned: boolean;
+  archived: boolean;
+}
+
 interface User {
   userId: string;
   email: string;
@@ -23,12 +33,10 @@ export default function AItinerary() {
   const { data: session, isPending } = useSession();
   const { conversationId, user } = useWindowState();
 
-  const [recentChats, setRecentChats] = useState<Array<{
-    id: string;
-    title: string;
-    lastMessage: string;
-    timestamp: string;
-  }>>([]);
+  // First page (refreshed by fetches and the SSE stream) and pages loaded with "Load more"
+  const [firstPage, setFirstPage] = useState<RecentChat[]>([]);
+  const [olderChats, setOlderChats] = useState<RecentChat[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [showAuthModal, setShowAuthModal] = useState(false);
 
   // Sync conversationId from URL to window state
@@ -82,7 +90,9 @@ export default function AItinerary() {
     await signOut();
     windowState.setUser(null);
     windowState.setConversationId(null);
-    setRecentChats([]);
+    setFirstPage([]);
+    setOlderChats([]);
+    setNextCursor(null);
   }, []);
 
   // Fetch conversations list
@@ -98,13 +108,56 @@ export default function AItinerary() {
       const data = await response.json();
       if (data.success && data.conversations) {
         console.log('[App] Conversations fetched:', data.conversations);
-        setRecentChats(data.conversations);
+        setFirstPage(data.conversations);
+        setOlderChats([]);
+        setNextCursor(data.nextCursor);
       }
     } catch (error) {
       console.error('[App] Failed to fetch conversations:', error);
     }
   }, [user?.token]);
 
+  const loadMoreConversations = useCallback(async () => {
+    if (!user?.token || !nextCursor) return;
+
+    try {
+      const response = await fetch(`/api/conversations?cursor=${encodeURIComponent(nextCursor)}`, {
+        headers: {
+          'Authorization': `Bearer ${user.token}`
+        }
+      });
+      const data = await response.json();
+      if (data.success && data.conversations) {
+        setOlderChats(prev => [...prev, ...data.conversations]);
+        setNextCursor(data.nextCursor);
+      }
+    } catch (error) {
+      console.error('[App] Failed to load more conversations:', error);
+    }
+  }, [user?.token, nextCursor]);
+
+  // The server pushes the first page whenever conversations change
+  useEffect(() => {
+    if (!user?.token) return;
+
+    const source = new EventSource(`/api/conversations/stream?token=${encodeURIComponent(user.token)}`);
+    source.onmessage = (event) => {
+      try {
+        setFirstPage(JSON.parse(event.data));
+      } catch (error) {
+        console.error('[App] Invalid conversations update:', error);
+      }
+    };
+
+    return () => source.close();
+  }, [user?.token]);
+
+  // A conversation can move between pages, the first page wins
+  const recentChats = useMemo(() => {
+    const ids = new Set(firstPage.map(chat => chat.id));
+    return [...firstPage, ...olderChats.filter(chat => !ids.has(chat.id))];
+  }, [firstPage, olderChats]);
+
   // Fetch conversations on mount and when user changes
   useEffect(() => {
     fetchConversations();
@@ -152,6 +205,9 @@ export default function AItinerary() {
       }>
         <Sidebar
           recentChats={recentChats}
+          hasMore={!!nextCursor}
+          onLoadMore={loadMoreConversations}
+          onConversationsChanged={fetchConversations}
           onShowAuthModal={handleShowAuthModal}
           onLogout={handleLogout}
         />
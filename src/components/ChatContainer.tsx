@@ -3,19 +3,40 @@ import { useNavigate } from "react-router-dom";
 import { useAgent } from "agents/react";
 import { useAgentChat } from "agents/ai-react";
 import type { UIMessage } from "@ai-sdk/react";
+import type { DataUIPart, UIDataTypes } from "ai";
+import { DownloadSimple } from "@phosphor-icons/react";
 
 // Component imports
 import { AnimatedShinyText } from "@/components/ui/AnimatedShinyText";
 import AIOrb from "@/components/ui/AIOrb";
 import { ChatMessage } from "@/components/chat/ChatMessage";
 import { ChatInput } from "@/components/chat/ChatInput";
+import type { TransportOption } from "@/components/chat/TransportOptions";
+import type { ModelOption } from "@/components/chat/ChatInput";
 import { downloadICalFile } from "@/lib/calendar-export";
 import { windowState } from "@/lib/window-state";
+import type { DayRouteOptimization, ItineraryData, ItineraryIssue } from "@/components/itinerary/ItineraryDisplay";
+import { TOOLS_REQUIRING_APPROVAL, type ApprovalDecision } from "@/shared";
 
 // Dynamic imports for code splitting
 const ItineraryDisplay = lazy(() => import("@/components/itinerary/ItineraryDisplay").then(m => ({ default: m.ItineraryDisplay })));
 const VoiceCall = lazy(() => import("@/components/voice/VoiceCall").then(m => ({ default: m.VoiceCall })));
 const ShareButton = lazy(() => import("@/components/collaboration/ShareButton").then(m => ({ default: m.ShareButton })));
+const PackingListPanel = lazy(() => import("@/components/itinerary/PackingListPanel").then(m => ({ default: m.PackingListPanel })));
+
+// Edit tools whose results are applied to the itinerary by the server
+const ITINERARY_EDIT_TOOL_PARTS = [
+  'tool-modifyActivity',
+  'tool-replaceActivity',
+  'tool-addActivity',
+  'tool-removeActivity',
+  'tool-removeMultipleActivities',
+  'tool-addMultipleActivities',
+  'tool-optimizeDay',
+  'tool-changeItineraryCurrency',
+  'tool-generatePackingList',
+  'tool-addTransportOption'
+];
 
 interface User {
   userId: string;
@@ -24,6 +45,34 @@ interface User {
   token: string;
 }
 
+// Data parts the agent streams next to the reply, see server/server.ts
+type ChatDataParts = {
+  itinerary: { version: number; itinerary: ItineraryData | null; rollback?: boolean };
+  'tool-result': { toolCallId: string; result: unknown };
+};
+
+type ChatUIMessage = UIMessage<{ createdAt: string }, ChatDataParts>;
+
+// Failed calls answer { success: false, error }
+type ApiResponse<T> = ({ success: true } & T) | { success: false; error: string };
+
+// A page of history, see GET /api/conversations/:id/messages
+interface MessagePage {
+  messages: ChatUIMessage[];
+  nextCursor: string | null;
+}
+
+// Cursor of the messages before the first page, by conversation. Set while
+// useAgentChat suspends on the first page, so it outlives that render
+const olderMessageCursors = new Map<string, string | null>();
+
+// Alternate versions of the conversation after a message, see the /versions API
+interface MessageVersions {
+  parentMessageId: string | null;
+  version: number;
+  versions: number;
+}
+
 interface ChatContainerProps {
   user: User;
   conversationId: string | null;
@@ -31,8 +80,6 @@ interface ChatContainerProps {
 }
 
 export function ChatContainer({ user, conversationId, onShowAuthModal }: ChatContainerProps) {
-  const navigate = useNavigate();
-
   // Get conversation ID from window state (managed globally)
   const effectiveConversationId = conversationId || windowState.getConversationId();
 
@@ -65,6 +112,25 @@ export function ChatContainer({ user, conversationId, onShowAuthModal }: ChatCon
     );
   }
 
+  return (
+    <ChatSession
+      user={user}
+      conversationId={conversationId}
+      effectiveConversationId={effectiveConversationId}
+      onShowAuthModal={onShowAuthModal}
+    />
+  );
+}
+
+interface ChatSessionProps extends ChatContainerProps {
+  effectiveConversationId: string;
+}
+
+// The chat itself, rendered once there is a conversation and a signed-in user
+// so its hooks run on every render
+function ChatSession({ user, conversationId, effectiveConversationId, onShowAuthModal }: ChatSessionProps) {
+  const navigate = useNavigate();
+
   console.log('[ChatContainer] Creating agent with conversationId:', effectiveConversationId);
 
   // Set up agent - use conversationId as the DO ID so each conversation has its own DO instance
@@ -77,15 +143,51 @@ export function ChatContainer({ user, conversationId, onShowAuthModal }: ChatCon
     }
   });
 
+  // Latest itinerary version received from the agent
+  const itineraryVersion = useRef(0);
+
   // Set up chat with useAgentChat
   const {
     messages: agentMessages,
     sendMessage: agentSendMessage,
+    addToolResult,
     clearHistory,
+    setMessages,
     status,
     stop
-  } = useAgentChat<unknown, UIMessage<{ createdAt: string }>>({
-    agent
+  } = useAgentChat<unknown, ChatUIMessage>({
+    agent,
+    // The agent answers with the latest page only
+    getInitialMessages: async ({ url }) => {
+      const messagesUrl = new URL(url);
+      messagesUrl.pathname += '/get-messages';
+      const response = await fetch(messagesUrl);
+      if (!response.ok) return [];
+      const page = await response.json() as MessagePage;
+      olderMessageCursors.set(effectiveConversationId, page.nextCursor);
+      return page.messages;
+    },
+    // agents types the parts with its own copy of ai, so they arrive untyped
+    onData: (part: DataUIPart<UIDataTypes>) => {
+      if (part.type !== 'data-itinerary') return;
+      const { version, itinerary, rollback } = part.data as ChatDataParts['itinerary'];
+
+      // An edited message rolled the itinerary back to the one before it, possibly none
+      if (rollback) {
+        itineraryVersion.current = version;
+        setCurrentItinerary(itinerary);
+        setIsGeneratingItinerary(false);
+        return;
+      }
+
+      // New itinerary versions applied by the agent's tools
+      if (itinerary) {
+        if (version <= itineraryVersion.current) return;
+        itineraryVersion.current = version;
+        setCurrentItinerary(itinerary);
+        setIsGeneratingItinerary(false);
+      }
+    }
   });
 
   // UI State
@@ -97,16 +199,279 @@ export function ChatContainer({ user, conversationId, onShowAuthModal }: ChatCon
   const [isReasoning, setIsReasoning] = useState(false);
   const [currentItinerary, setCurrentItinerary] = useState<any>(null);
   const [isGeneratingItinerary, setIsGeneratingItinerary] = useState(false);
+  const [itineraryIssues, setItineraryIssues] = useState<ItineraryIssue[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [rightSidebarWidth, setRightSidebarWidth] = useState(480);
   const [searchEnabled, setSearchEnabled] = useState(false);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  // Why the last action on the conversation or its itinerary failed, shown above the input
+  const [actionError, setActionError] = useState<string | null>(null);
+  // The deployment can change which tools wait for approval, sent with the models
+  const [toolsRequiringApproval, setToolsRequiringApproval] = useState<string[]>(TOOLS_REQUIRING_APPROVAL);
   const [isVoiceCallOpen, setIsVoiceCallOpen] = useState(false);
   const [voiceMessages, setVoiceMessages] = useState<any[]>([]);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [messageVersions, setMessageVersions] = useState<MessageVersions[]>([]);
+  // Where the earlier messages start, null once the whole history is loaded
+  const [olderMessagesCursor, setOlderMessagesCursor] = useState<string | null>(null);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const hasNavigated = useRef(false);
   const processedMessageIds = useRef<Set<string>>(new Set());
 
+  // Restore the conversation's active itinerary, which the agent keeps server-side
+  useEffect(() => {
+    if (!conversationId || !user?.token) return;
+
+    fetch(`/api/conversations/${conversationId}/itinerary`, {
+      headers: { Authorization: `Bearer ${user.token}` }
+    })
+      .then(res => res.ok ? res.json() as Promise<ApiResponse<{ version: number; itinerary: ItineraryData | null }>> : null)
+      .then((data) => {
+        if (data?.success && data.itinerary && data.version > itineraryVersion.current) {
+          itineraryVersion.current = data.version;
+          setCurrentItinerary(data.itinerary);
+        }
+      })
+      .catch(error => console.error('Failed to load active itinerary:', error));
+  }, [conversationId, user?.token]);
+
+  // Models the deployment serves and the one this conversation uses
+  useEffect(() => {
+    if (!user?.token) return;
+    const headers = { Authorization: `Bearer ${user.token}` };
+
+    Promise.all([
+      fetch('/api/models', { headers })
+        .then(res => res.ok ? res.json() as Promise<ApiResponse<{ models: ModelOption[]; toolsRequiringApproval: string[] }>> : null),
+      fetch(`/api/conversations/${effectiveConversationId}/model`, { headers })
+        .then(res => res.ok ? res.json() as Promise<ApiResponse<{ effectiveModel: string | null }>> : null)
+    ])
+      .then(([modelsData, conversationData]) => {
+        if (modelsData?.success) {
+          setModels(modelsData.models);
+          setToolsRequiringApproval(modelsData.toolsRequiringApproval);
+        }
+        if (conversationData?.success) setSelectedModel(conversationData.effectiveModel);
+      })
+      .catch(error => console.error('Failed to load models:', error));
+  }, [effectiveConversationId, user?.token]);
+
+  const handleModelChange = useCallback(async (model: string) => {
+    const previous = selectedModel;
+    setSelectedModel(model);
+    try {
+      const response = await fetch(`/api/conversations/${effectiveConversationId}/model`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`
+        },
+        body: JSON.stringify({ model })
+      });
+      const data = await response.json() as ApiResponse<{ effectiveModel: string | null }>;
+      if (!data.success) throw new Error(data.error || 'Could not change the model');
+    } catch (error) {
+      console.error('Failed to change model:', error);
+      setSelectedModel(previous);
+      setActionError('Could not change the model');
+    }
+  }, [effectiveConversationId, selectedModel, user.token]);
+
+  // Branch off a new conversation that keeps the history up to this message
+  const handleFork = useCallback(async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${effectiveConversationId}/fork`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`
+        },
+        body: JSON.stringify({ messageId })
+      });
+      const data = await response.json() as ApiResponse<{ conversation: { id: string } }>;
+      if (!data.success) throw new Error(data.error || 'Could not fork the conversation');
+
+      window.dispatchEvent(new CustomEvent('conversation-created', {
+        detail: { conversationId: data.conversation.id }
+      }));
+      windowState.setConversationId(data.conversation.id);
+      navigate(`/chat/${data.conversation.id}`);
+    } catch (error) {
+      console.error('Failed to fork conversation:', error);
+      setActionError('Could not fork the conversation');
+    }
+  }, [effectiveConversationId, user.token, navigate]);
+
+  // Versions left by edited messages, refreshed whenever a reply finishes
+  const fetchMessageVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/conversations/${effectiveConversationId}/versions`, {
+        headers: { Authorization: `Bearer ${user.token}` }
+      });
+      const data = await response.json() as ApiResponse<{ versions: MessageVersions[] }>;
+      if (data.success) setMessageVersions(data.versions);
+    } catch (error) {
+      console.error('Failed to load message versions:', error);
+    }
+  }, [effectiveConversationId, user.token]);
+
+  useEffect(() => {
+    if (status === 'ready') fetchMessageVersions();
+  }, [status, fetchMessageVersions]);
+
+  // Switchers go on the first message of each version, i.e. the one after the parent
+  const versionsByMessageId = useMemo(() => {
+    const byMessageId = new Map<string, MessageVersions>();
+    for (const entry of messageVersions) {
+      // The conversation's start is only shown once the whole history is loaded
+      if (entry.parentMessageId === null && olderMessagesCursor) continue;
+      const parentIndex = entry.parentMessageId === null
+        ? -1
+        : agentMessages.findIndex(m => m.id === entry.parentMessageId);
+      const first = agentMessages[parentIndex + 1];
+      if ((entry.parentMessageId === null || parentIndex !== -1) && first) {
+        byMessageId.set(first.id, entry);
+      }
+    }
+    return byMessageId;
+  }, [messageVersions, agentMessages, olderMessagesCursor]);
+
+  useEffect(() => {
+    setOlderMessagesCursor(olderMessageCursors.get(effectiveConversationId) ?? null);
+  }, [effectiveConversationId]);
+
+  // Put the page before the loaded messages in front of them
+  const handleLoadOlderMessages = useCallback(async () => {
+    if (!olderMessagesCursor) return;
+    setIsLoadingOlderMessages(true);
+    try {
+      const response = await fetch(`/api/conversations/${effectiveConversationId}/messages?before=${olderMessagesCursor}`, {
+        headers: { Authorization: `Bearer ${user.token}` }
+      });
+      const data = await response.json() as ApiResponse<MessagePage>;
+      if (!data.success) throw new Error(data.error || 'Could not load earlier messages');
+
+      setMessages([...data.messages, ...agentMessages]);
+      olderMessageCursors.set(effectiveConversationId, data.nextCursor);
+      setOlderMessagesCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Failed to load earlier messages:', error);
+      setActionError('Failed to load earlier messages');
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [effectiveConversationId, olderMessagesCursor, user.token, agentMessages, setMessages]);
+
+  // Resend an edited user message; the agent keeps the replaced messages as a version
+  const handleEditMessage = useCallback(async (messageId: string, text: string) => {
+    const index = agentMessages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+
+    // Keep web search on for the edited message if it was on for the original
+    const original = agentMessages[index].parts.find(p => p.type === 'text');
+    const originalText = original?.type === 'text' ? original.text : '';
+    const searchInstructions = originalText.includes('[WEB_SEARCH_ENABLED:')
+      ? `\n\n[WEB_SEARCH_ENABLED:${originalText.split('[WEB_SEARCH_ENABLED:')[1]}`
+      : '';
+
+    setMessages(agentMessages.slice(0, index));
+    await agentSendMessage(
+      {
+        role: "user",
+        parts: [{ type: "text", text: `${text}${searchInstructions}` }]
+      },
+      {
+        body: {}
+      }
+    );
+  }, [agentMessages, setMessages, agentSendMessage]);
+
+  const handleSwitchVersion = useCallback(async (parentMessageId: string | null, version: number) => {
+    try {
+      const response = await fetch(`/api/conversations/${effectiveConversationId}/versions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${user.token}`
+        },
+        body: JSON.stringify({ parentMessageId, version })
+      });
+      const data = await response.json() as ApiResponse<{
+        messages: ChatUIMessage[];
+        itinerary: { version: number; itinerary: ItineraryData | null };
+      }>;
+      if (!data.success) throw new Error(data.error || 'Could not switch versions');
+
+      // Switching versions answers with the whole history
+      setMessages(data.messages);
+      olderMessageCursors.set(effectiveConversationId, null);
+      setOlderMessagesCursor(null);
+      itineraryVersion.current = data.itinerary.version;
+      setCurrentItinerary(data.itinerary.itinerary);
+      await fetchMessageVersions();
+    } catch (error) {
+      console.error('Failed to switch versions:', error);
+      setActionError('Failed to switch to that version');
+    }
+  }, [effectiveConversationId, user.token, setMessages, fetchMessageVersions]);
+
+  // Download the conversation through the API, which needs the auth header a plain link can't send
+  const handleExportConversation = useCallback(async (format: 'md' | 'json' | 'html') => {
+    setIsExportMenuOpen(false);
+    try {
+      const response = await fetch(`/api/conversations/${effectiveConversationId}/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${user.token}` }
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string };
+        throw new Error(data.error || 'Could not export the conversation');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `conversation.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      setActionError('Failed to export the conversation');
+    }
+  }, [effectiveConversationId, user.token]);
+
+  // Check the displayed itinerary for overlaps, transfers and budget problems
+  useEffect(() => {
+    if (!currentItinerary || !user?.token) {
+      setItineraryIssues([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch('/api/itineraries/validate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${user.token}`,
+      },
+      body: JSON.stringify({ itinerary: currentItinerary })
+    })
+      .then(res => res.ok ? res.json() as Promise<ApiResponse<{ issues: ItineraryIssue[] }>> : null)
+      .then((data) => {
+        if (!cancelled) setItineraryIssues(data?.success ? data.issues : []);
+      })
+      .catch(error => console.error('Failed to validate itinerary:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentItinerary, user?.token]);
+
   // Detectar reasoning e itinerarios desde los mensajes
   useEffect(() => {
     const lastMessage = agentMessages[agentMessages.length - 1];
@@ -163,55 +528,32 @@ export function ChatContainer({ user, conversationId, onShowAuthModal }: ChatCon
               console.error('Failed to parse itinerary:', e);
             }
           }
-
-          let activityJson = text;
-          const jsonMatch = text.match(/\{[\s\S]*?"id"[\s\S]*?"dayNumber"[\s\S]*?\}/);
-          if (jsonMatch) {
-            activityJson = jsonMatch[0];
-          }
-
-          const isActivityJson = activityJson.startsWith('{') &&
-            activityJson.includes('"id"') &&
-            activityJson.includes('"title"') &&
-            activityJson.includes('"dayNumber"') &&
-            !activityJson.includes('"destination"') &&
-            !activityJson.includes('"days"');
-
-          if (isActivityJson && currentItinerary) {
-            try {
-              const updatedActivity = JSON.parse(activityJson);
-              if (updatedActivity.id && updatedActivity.dayNumber) {
-                const updatedItinerary = { ...currentItinerary };
-                const dayIndex = updatedItinerary.days.findIndex((day: any) => day.dayNumber === updatedActivity.dayNumber);
-
-                if (dayIndex !== -1) {
-                  const activityIndex = updatedItinerary.days[dayIndex].activities.findIndex((act: any) => act.id === updatedActivity.id);
-
-                  if (activityIndex !== -1) {
-                    updatedItinerary.days[dayIndex].activities[activityIndex] = updatedActivity;
-                    setCurrentItinerary(updatedItinerary);
-                  } else {
-                    updatedItinerary.days[dayIndex].activities.push(updatedActivity);
-                    setCurrentItinerary(updatedItinerary);
-                  }
-                }
-              }
-            } catch (e) {
-              console.error('Failed to parse activity JSON:', e);
-            }
-          }
         }
 
         if (part.type === 'tool-generateCompleteItinerary' && part.state === 'output-available' && part.output) {
           try {
             const itinerary = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            setCurrentItinerary(itinerary);
+            // Versioned updates from the agent take precedence over replayed tool outputs
+            if (itineraryVersion.current === 0) {
+              setCurrentItinerary(itinerary);
+            }
             setIsGeneratingItinerary(false);
           } catch (e) {
             console.error('Failed to parse itinerary from tool:', e);
           }
         }
 
+        if (part.type === 'tool-loadItinerary' && part.state === 'output-available' && part.output) {
+          try {
+            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
+            if (result.success && result.itinerary && itineraryVersion.current === 0) {
+              setCurrentItinerary(result.itinerary);
+            }
+          } catch (e) {
+            console.error('Failed to process loadItinerary:', e);
+          }
+        }
+
         if (part.type === 'tool-updateConversationTitle' && part.state === 'output-available' && part.output) {
           try {
             const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
@@ -227,190 +569,18 @@ export function ChatContainer({ user, conversationId, onShowAuthModal }: ChatCon
           }
         }
 
-        if (part.type === 'tool-removeActivity' && part.state === 'output-available' && part.output) {
-          try {
-            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            if (result.success && result.removedActivityId && currentItinerary) {
-              const updatedItinerary = { ...currentItinerary };
-              let activityRemoved = false;
-
-              for (const day of updatedItinerary.days) {
-                const activityIndex = day.activities.findIndex((act: any) => act.id === result.removedActivityId);
-                if (activityIndex !== -1) {
-                  day.activities.splice(activityIndex, 1);
-                  activityRemoved = true;
-                  break;
-                }
-              }
-
-              if (activityRemoved) {
-                setCurrentItinerary(updatedItinerary);
-              }
-            }
-          } catch (e) {
-            console.error('Failed to process removeActivity:', e);
-          }
-        }
-
-        if (part.type === 'tool-removeMultipleActivities' && part.state === 'output-available' && part.output) {
-          try {
-            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            if (result.success && result.removedActivityIds && currentItinerary) {
-              const updatedItinerary = { ...currentItinerary };
-              let removedCount = 0;
-
-              for (const activityId of result.removedActivityIds) {
-                for (const day of updatedItinerary.days) {
-                  const activityIndex = day.activities.findIndex((act: any) => act.id === activityId);
-                  if (activityIndex !== -1) {
-                    day.activities.splice(activityIndex, 1);
-                    removedCount++;
-                    break;
-                  }
-                }
-              }
-
-              if (removedCount > 0) {
-                setCurrentItinerary(updatedItinerary);
-              }
-            }
-          } catch (e) {
-            console.error('Failed to process removeMultipleActivities:', e);
-          }
-        }
-
-        if (part.type === 'tool-addMultipleActivities' && part.state === 'output-available' && part.output) {
-          try {
-            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            if (result.success && result.addedActivities && currentItinerary) {
-              const updatedItinerary = { ...currentItinerary };
-              let addedCount = 0;
-
-              for (const { dayNumber, activity } of result.addedActivities) {
-                const dayIndex = updatedItinerary.days.findIndex((day: any) => day.dayNumber === dayNumber);
-                if (dayIndex !== -1) {
-                  updatedItinerary.days[dayIndex].activities.push(activity);
-                  addedCount++;
-                }
-              }
-
-              if (addedCount > 0) {
-                setCurrentItinerary(updatedItinerary);
-              }
-            }
-          } catch (e) {
-            console.error('Failed to process addMultipleActivities:', e);
-          }
-        }
-
-        if (part.type === 'tool-modifyActivity' && part.state === 'output-available' && part.output) {
-          try {
-            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            if (result.success && result.activityId && result.changes && currentItinerary) {
-              const updatedItinerary = { ...currentItinerary };
-              let activityModified = false;
-
-              for (const day of updatedItinerary.days) {
-                const activityIndex = day.activities.findIndex((act: any) => act.id === result.activityId);
-                if (activityIndex !== -1) {
-                  // Merge changes into existing activity
-                  day.activities[activityIndex] = {
-                    ...day.activities[activityIndex],
-                    ...result.changes
-                  };
-                  activityModified = true;
-                  break;
-                }
-              }
-
-              if (activityModified) {
-                setCurrentItinerary(updatedItinerary);
-              }
-            }
-            // Stop the generating spinner when activity tools complete
-            setIsGeneratingItinerary(false);
-          } catch (e) {
-            console.error('Failed to process modifyActivity:', e);
-          }
-        }
-
-        if (part.type === 'tool-replaceActivity' && part.state === 'output-available' && part.output) {
-          try {
-            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            if (result.success && result.replacedActivityId && result.newActivity && currentItinerary) {
-              const updatedItinerary = { ...currentItinerary };
-              let activityReplaced = false;
-
-              for (const day of updatedItinerary.days) {
-                const activityIndex = day.activities.findIndex((act: any) => act.id === result.replacedActivityId);
-                if (activityIndex !== -1) {
-                  // Replace entire activity with new one
-                  day.activities[activityIndex] = result.newActivity;
-                  activityReplaced = true;
-                  break;
-                }
-              }
-
-              if (activityReplaced) {
-                setCurrentItinerary(updatedItinerary);
-              }
-            }
-            // Stop the generating spinner when activity tools complete
-            setIsGeneratingItinerary(false);
-          } catch (e) {
-            console.error('Failed to process replaceActivity:', e);
-          }
-        }
-
-        if (part.type === 'tool-addActivity' && part.state === 'output-available' && part.output) {
-          try {
-            const result = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
-            if (result.success && result.newActivity && result.dayNumber && currentItinerary) {
-              const updatedItinerary = { ...currentItinerary };
-              const dayIndex = updatedItinerary.days.findIndex((day: any) => day.dayNumber === result.dayNumber);
-
-              if (dayIndex !== -1) {
-                // Handle position-based insertion
-                if (result.position === 'start') {
-                  updatedItinerary.days[dayIndex].activities.unshift(result.newActivity);
-                } else if (result.position === 'before' && result.referenceActivityId) {
-                  const refIndex = updatedItinerary.days[dayIndex].activities.findIndex(
-                    (act: any) => act.id === result.referenceActivityId
-                  );
-                  if (refIndex !== -1) {
-                    updatedItinerary.days[dayIndex].activities.splice(refIndex, 0, result.newActivity);
-                  } else {
-                    updatedItinerary.days[dayIndex].activities.push(result.newActivity);
-                  }
-                } else if (result.position === 'after' && result.referenceActivityId) {
-                  const refIndex = updatedItinerary.days[dayIndex].activities.findIndex(
-                    (act: any) => act.id === result.referenceActivityId
-                  );
-                  if (refIndex !== -1) {
-                    updatedItinerary.days[dayIndex].activities.splice(refIndex + 1, 0, result.newActivity);
-                  } else {
-                    updatedItinerary.days[dayIndex].activities.push(result.newActivity);
-                  }
-                } else {
-                  // Default to end
-                  updatedItinerary.days[dayIndex].activities.push(result.newActivity);
-                }
-
-                setCurrentItinerary(updatedItinerary);
-              }
-            }
-            // Stop the generating spinner when activity tools complete
-            setIsGeneratingItinerary(false);
-          } catch (e) {
-            console.error('Failed to process addActivity:', e);
-          }
+        // The agent streams the patched itinerary as a data-itinerary part,
+        // only the spinner needs resetting here
+        if (ITINERARY_EDIT_TOOL_PARTS.includes(part.type) &&
+          (part.state === 'output-available' || part.state === 'output-error')) {
+          setIsGeneratingItinerary(false);
         }
       });
 
       // Mark message as processed after processing all parts
       processedMessageIds.current.add(message.id);
     });
-  }, [agentMessages, status, currentItinerary]);
+  }, [agentMessages, status]);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -523,6 +693,90 @@ What would you like to know or change about this activity?`;
     downloadICalFile(currentItinerary);
   }, [currentItinerary]);
 
+  const handleOptimizeDay = useCallback(async (dayNumber: number): Promise<DayRouteOptimization | null> => {
+    if (!currentItinerary || !user?.token) return null;
+
+    try {
+      const response = await fetch('/api/itineraries/optimize-day', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({
+          itinerary: currentItinerary,
+          dayNumber,
+          conversationId
+        })
+      });
+
+      const data = await response.json() as ApiResponse<DayRouteOptimization & { version?: number; itinerary: ItineraryData }>;
+      if (!data.success) {
+        setActionError(`Failed to optimize day ${dayNumber}: ${data.error}`);
+        return null;
+      }
+
+      if (data.version) {
+        itineraryVersion.current = data.version;
+      }
+      if (data.reordered) {
+        setCurrentItinerary(data.itinerary);
+      }
+      return data;
+    } catch (error) {
+      console.error('Error optimizing day:', error);
+      setActionError('Failed to optimize day');
+      return null;
+    }
+  }, [currentItinerary, user?.token, conversationId]);
+
+  // Packing list changes go through the server so the saved and shared copies stay in sync
+  const updatePackingList = useCallback(async (method: 'POST' | 'PATCH', body: Record<string, unknown>) => {
+    if (!currentItinerary || !user?.token) return;
+
+    try {
+      const response = await fetch('/api/itineraries/packing-list', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({
+          itinerary: currentItinerary,
+          conversationId,
+          ...body
+        })
+      });
+
+      const data = await response.json() as ApiResponse<{ version?: number; itinerary: ItineraryData }>;
+      if (!data.success) {
+        setActionError(`Failed to update packing list: ${data.error}`);
+        return;
+      }
+
+      if (data.version) {
+        itineraryVersion.current = data.version;
+      }
+      setCurrentItinerary(data.itinerary);
+    } catch (error) {
+      console.error('Error updating packing list:', error);
+      setActionError('Failed to update packing list');
+    }
+  }, [currentItinerary, user?.token, conversationId]);
+
+  const handleGeneratePackingList = useCallback(() => updatePackingList('POST', {}), [updatePackingList]);
+
+  const handleTogglePackingItem = useCallback(
+    (itemId: string, packed: boolean) => updatePackingList('PATCH', { itemId, packed }),
+    [updatePackingList]
+  );
+
+  // The decision becomes the tool output; the agent applies or drops the change
+  // and the model continues with the result
+  const handleToolApproval = useCallback((toolName: string, toolCallId: string, decision: ApprovalDecision) => {
+    addToolResult({ tool: toolName, toolCallId, output: decision });
+  }, [addToolResult]);
+
   const handleAgentInputChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     if (!user?.token) {
       onShowAuthModal();
@@ -660,7 +914,7 @@ What would you like to know or change about this activity?`;
   }, [agentMessages]);
 
   const handleHotelSelect = useCallback((hotel: any) => {
-    setAgentInput(`I have selected ${hotel.name} (${hotel.price}) with rating ${hotel.rating}. Now generate the complete itinerary using this hotel.`);
+    setAgentInput(`I have selected ${hotel.name} (${hotel.price?.text ?? 'price not available'}) with rating ${hotel.rating ?? 'n/a'}/10. Now generate the complete itinerary using this hotel.`);
     setTimeout(() => {
       const form = document.querySelector('form');
       if (form) {
@@ -669,12 +923,87 @@ What would you like to know or change about this activity?`;
     }, 100);
   }, []);
 
+  const handleTransportSelect = useCallback(async (option: TransportOption) => {
+    const label = [option.carrier, option.serviceNumber].filter(Boolean).join(' ');
+
+    // Without an itinerary yet, hand the choice to the agent like a picked hotel
+    if (!currentItinerary || !user?.token) {
+      setAgentInput(`I have selected ${label} from ${option.departure.city} to ${option.arrival.city}, departing ${option.departure.dateTime} and arriving ${option.arrival.dateTime}. Include it when you generate the itinerary.`);
+      setTimeout(() => {
+        const form = document.querySelector('form');
+        if (form) {
+          form.requestSubmit();
+        }
+      }, 100);
+      return true;
+    }
+
+    try {
+      const response = await fetch('/api/itineraries/transport', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({
+          itinerary: currentItinerary,
+          conversationId,
+          option
+        })
+      });
+
+      const data = await response.json() as ApiResponse<{ version?: number; itinerary: ItineraryData }>;
+      if (!data.success) {
+        setActionError(`Failed to add ${label}: ${data.error}`);
+        return false;
+      }
+
+      if (data.version) {
+        itineraryVersion.current = data.version;
+      }
+      setCurrentItinerary(data.itinerary);
+      return true;
+    } catch (error) {
+      console.error('Error adding transport option:', error);
+      setActionError(`Failed to add ${label}`);
+      return false;
+    }
+  }, [currentItinerary, user?.token, conversationId]);
+
   const pendingToolCallConfirmation = false;
 
   return (
     <>
       {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col bg-white h-screen">
+      <div className="flex-1 flex flex-col bg-white h-screen relative">
+        {/* Export */}
+        {agentMessages?.length > 0 && user?.token && (
+          <div className="absolute top-3 right-4 z-10">
+            <button
+              type="button"
+              onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+              className="p-2 rounded-lg text-gray-500 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+              title="Download conversation"
+            >
+              <DownloadSimple size={18} />
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute right-0 mt-1 w-40 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                {([['md', 'Markdown'], ['html', 'HTML'], ['json', 'JSON']] as const).map(([format, label]) => (
+                  <button
+                    type="button"
+                    key={format}
+                    onClick={() => handleExportConversation(format)}
+                    className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Chat Messages */}
         <div className="flex-1 overflow-y-auto max-h-screen">
           {agentMessages?.length === 0 ? (
@@ -737,6 +1066,18 @@ What would you like to know or change about this activity?`;
             </div>
           ) : (
             <div className="max-w-3xl mx-auto w-full h-full overflow-y-auto">
+              {olderMessagesCursor && (
+                <div className="flex justify-center py-4">
+                  <button
+                    type="button"
+                    onClick={handleLoadOlderMessages}
+                    disabled={isLoadingOlderMessages}
+                    className="px-3 py-1.5 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {isLoadingOlderMessages ? 'Loading...' : 'Load earlier messages'}
+                  </button>
+                </div>
+              )}
               {[...agentMessages, ...voiceMessages].sort((a, b) =>
                 new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
               ).map((m) => (
@@ -747,6 +1088,24 @@ What would you like to know or change about this activity?`;
                   isReasoning={isReasoning}
                   isGeneratingItinerary={isGeneratingItinerary}
                   onHotelSelect={handleHotelSelect}
+                  onTransportSelect={handleTransportSelect}
+                  itinerary={currentItinerary}
+                  canApprove={status === 'ready' && m.id === agentMessages[agentMessages.length - 1]?.id}
+                  toolsRequiringApproval={toolsRequiringApproval}
+                  onToolApproval={handleToolApproval}
+                  onFork={status === 'ready' && !voiceMessages.includes(m) ? handleFork : undefined}
+                  // Editing the first loaded message would look like a new conversation to the agent
+                  onEdit={status === 'ready' && !voiceMessages.includes(m) && !(olderMessagesCursor && m.id === agentMessages[0]?.id)
+                    ? handleEditMessage
+                    : undefined}
+                  versions={versionsByMessageId.has(m.id) ? {
+                    version: versionsByMessageId.get(m.id)!.version,
+                    versions: versionsByMessageId.get(m.id)!.versions,
+                    onSelect: (version) => {
+                      if (status !== 'ready') return;
+                      handleSwitchVersion(versionsByMessageId.get(m.id)!.parentMessageId, version);
+                    }
+                  } : undefined}
                 />
               ))}
               <div ref={messagesEndRef} />
@@ -792,6 +1151,11 @@ What would you like to know or change about this activity?`;
           onToggleVoiceCall={() => setIsVoiceCallOpen(true)}
           onShowAuthModal={onShowAuthModal}
           pendingConfirmation={pendingToolCallConfirmation}
+          models={models}
+          selectedModel={selectedModel}
+          onModelChange={handleModelChange}
+          error={actionError}
+          onDismissError={() => setActionError(null)}
           isVoiceCallActive={isVoiceCallOpen}
           selectedActivity={selectedActivity}
           onClearActivity={() => {
@@ -855,10 +1219,17 @@ What would you like to know or change about this activity?`;
               <Suspense fallback={<div className="flex items-center justify-center p-8"><div className="text-gray-500">Loading itinerary...</div></div>}>
                 <ItineraryDisplay
                   data={typeof currentItinerary === 'string' ? currentItinerary : JSON.stringify(currentItinerary)}
+                  issues={itineraryIssues}
                   onActivityClick={handleActivityClick}
                   onSave={handleSaveItinerary}
                   onShare={handleShareItinerary}
                   onExportCalendar={handleExportToCalendar}
+                  onOptimizeDay={handleOptimizeDay}
+                />
+                <PackingListPanel
+                  itinerary={typeof currentItinerary === 'string' ? JSON.parse(currentItinerary) : currentItinerary}
+                  onGenerate={handleGeneratePackingList}
+                  onTogglePacked={handleTogglePackingItem}
                 />
               </Suspense>
             ) : null}
@@ -1,5 +1,13 @@
 import { Textarea } from "@/components/textarea/Textarea";
-import { ArrowUp, Stop, Globe, User, Phone } from "@phosphor-icons/react";
+import { ArrowUp, Stop, Globe, User, Phone, Cpu } from "@phosphor-icons/react";
+
+// Returned by GET /api/models
+export interface ModelOption {
+  id: string;
+  provider: string;
+  model: string;
+  label: string;
+}
 
 interface ChatInputProps {
   value: string;
@@ -17,6 +25,12 @@ interface ChatInputProps {
   selectedActivity?: { activity: any; itinerary: any } | null;
   onClearActivity?: () => void;
   isVoiceCallActive?: boolean;
+  models?: ModelOption[];
+  selectedModel?: string | null;
+  onModelChange?: (model: string) => void;
+  // Why the last action failed, until dismissed
+  error?: string | null;
+  onDismissError?: () => void;
 }
 
 export function ChatInput({
@@ -34,11 +48,32 @@ export function ChatInput({
   pendingConfirmation = false,
   selectedActivity,
   onClearActivity,
-  isVoiceCallActive = false
+  isVoiceCallActive = false,
+  models = [],
+  selectedModel = null,
+  onModelChange,
+  error = null,
+  onDismissError
 }: ChatInputProps) {
   return (
     <div className="p-4 bg-white">
       <div className="max-w-3xl mx-auto">
+        {error && (
+          <div role="alert" className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-red-800">{error}</span>
+              {onDismissError && (
+                <button
+                  type="button"
+                  onClick={onDismissError}
+                  className="text-red-600 hover:text-red-800 text-sm"
+                >
+                  Dismiss
+                </button>
+              )}
+            </div>
+          </div>
+        )}
         {selectedActivity && onClearActivity && (
           <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-center justify-between">
@@ -171,6 +206,21 @@ export function ChatInput({
           <div className="flex items-center gap-2">
             <Globe size={12} className={searchEnabled ? 'text-blue-500' : 'text-gray-400'} weight={searchEnabled ? "fill" : "regular"} />
             <span>Web search: {searchEnabled ? 'Enabled' : 'Disabled'}</span>
+            {models.length > 1 && onModelChange && (
+              <label className="flex items-center gap-1 ml-3" title="Model used for this conversation">
+                <Cpu size={12} />
+                <select
+                  value={selectedModel ?? ''}
+                  onChange={(e) => onModelChange(e.target.value)}
+                  disabled={!isAuthenticated || isSubmitting}
+                  className="bg-transparent text-xs text-gray-600 focus:outline-none cursor-pointer"
+                >
+                  {models.map((model) => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
           <div className="text-center">
             AItinerary may make errors. Consider verifying important information.
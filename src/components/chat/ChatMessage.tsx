@@ -1,8 +1,13 @@
-import { memo } from "react";
+import { memo, useEffect, useRef, useState } from "react";
+import { CaretLeft, CaretRight, GitBranch, PencilSimple } from "@phosphor-icons/react";
 import { isToolUIPart } from "ai";
 import type { UIMessage } from "@ai-sdk/react";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import AIOrb from "@/components/ui/AIOrb";
+import { TransportOptions, type TransportOption } from "@/components/chat/TransportOptions";
+import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import type { ItineraryData } from "@/components/itinerary/ItineraryDisplay";
+import type { ApprovalDecision } from "@/shared";
 
 interface ChatMessageProps {
   message: UIMessage;
@@ -10,6 +15,32 @@ interface ChatMessageProps {
   isReasoning: boolean;
   isGeneratingItinerary: boolean;
   onHotelSelect: (hotel: any) => void;
+  onTransportSelect: (option: TransportOption) => Promise<boolean>;
+  // Current itinerary, to preview the changes waiting for approval
+  itinerary?: ItineraryData | null;
+  // Only the latest message can still be approved; older proposals were superseded
+  canApprove: boolean;
+  // Tools whose calls are shown as approval cards
+  toolsRequiringApproval: string[];
+  onToolApproval: (toolName: string, toolCallId: string, decision: ApprovalDecision) => void;
+  // Start a new conversation from this point; left out while a reply is streaming
+  onFork?: (messageId: string) => void;
+  // Replace this user message and answer it again; left out while a reply is streaming
+  onEdit?: (messageId: string, text: string) => void;
+  // Alternate versions of the conversation from this message on
+  versions?: { version: number; versions: number; onSelect: (version: number) => void };
+}
+
+// Text the user typed, without the instructions appended when web search is on
+function userText(message: UIMessage): string {
+  const part = message.parts?.find(p => p.type === 'text');
+  const text = part?.type === 'text' ? part.text : '';
+  return text.split('[WEB_SEARCH_ENABLED:')[0].trim();
+}
+
+// Tool calls keep their id while the reply streams; other parts only have their place
+function partKey(message: UIMessage, part: UIMessage['parts'][number], index: number): string {
+  return isToolUIPart(part) ? part.toolCallId : `${message.id}-${index}`;
 }
 
 export const ChatMessage = memo(({ 
@@ -17,9 +48,34 @@ export const ChatMessage = memo(({
   isProcessing, 
   isReasoning, 
   isGeneratingItinerary,
-  onHotelSelect 
+  onHotelSelect,
+  onTransportSelect,
+  itinerary,
+  canApprove,
+  toolsRequiringApproval,
+  onToolApproval,
+  onFork,
+  onEdit,
+  versions
 }: ChatMessageProps) => {
   const isUser = message.role === "user";
+  const [draft, setDraft] = useState<string | null>(null);
+  const draftRef = useRef<HTMLTextAreaElement>(null);
+  const isEditing = draft !== null;
+
+  // Focus the editor when it opens, with the cursor after the text
+  useEffect(() => {
+    const textarea = draftRef.current;
+    if (!isEditing || !textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, [isEditing]);
+
+  const submitEdit = () => {
+    if (!draft?.trim() || !onEdit) return;
+    onEdit(message.id, draft.trim());
+    setDraft(null);
+  };
 
   return (
     <div className="group">
@@ -37,7 +93,68 @@ export const ChatMessage = memo(({
           </div>
           
           {/* Content */}
-          <div className="flex-1 min-w-0">
+          <div className="flex-1 min-w-0 relative">
+            {draft === null && (onFork || (isUser && onEdit)) && (
+              <div className="absolute -top-3 right-0 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {isUser && onEdit && (
+                  <button
+                    type="button"
+                    onClick={() => setDraft(userText(message))}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 bg-white border border-gray-200 rounded-md hover:text-gray-900"
+                    title="Edit this message and regenerate the answer"
+                  >
+                    <PencilSimple size={14} />
+                    Edit
+                  </button>
+                )}
+                {onFork && (
+                  <button
+                    type="button"
+                    onClick={() => onFork(message.id)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 bg-white border border-gray-200 rounded-md hover:text-gray-900"
+                    title="Start a new conversation from this message"
+                  >
+                    <GitBranch size={14} />
+                    Fork from here
+                  </button>
+                )}
+              </div>
+            )}
+            {draft !== null && (
+              <div className="space-y-2">
+                <textarea
+                  ref={draftRef}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    }
+                    if (e.key === 'Escape') setDraft(null);
+                  }}
+                  rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+                  className="w-full p-3 text-gray-900 border border-gray-300 rounded-lg resize-none focus:outline-none focus:border-blue-500"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(null)}
+                    className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={submitEdit}
+                    disabled={!draft.trim() || !onEdit}
+                    className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save and regenerate
+                  </button>
+                </div>
+              </div>
+            )}
             {/* Show AIOrb when processing and no text content yet */}
             {!isUser && isProcessing && !message.parts?.some(p => p.type === 'text' && p.text && p.text.trim().length > 0) && (
               <div className="flex items-center gap-3">
@@ -50,7 +167,9 @@ export const ChatMessage = memo(({
               </div>
             )}
             
-            {message.parts?.map((part, i) => {
+            {draft === null && message.parts?.map((part, i) => {
+              const key = partKey(message, part, i);
+
               if (part.type === "text") {
                 // Skip itinerary JSON - shown in right sidebar
                 const isItineraryJson = !isUser && part.text.trim().startsWith('{') && 
@@ -80,17 +199,17 @@ export const ChatMessage = memo(({
                     if (results.hotels) {
                       // Booking results
                       return (
-                        <div key={i} className="space-y-3">
+                        <div key={key} className="space-y-3">
                           <h4 className="font-semibold text-gray-900">🏨 Hotels in {results.destination}</h4>
                           <div className="grid gap-3">
-                            {results.hotels.map((hotel: any, idx: number) => (
-                              <div key={idx} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                            {results.hotels.map((hotel: any) => (
+                              <div key={hotel.url || hotel.name} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
                                 <div className="flex justify-between items-start mb-2">
                                   <h5 className="font-medium text-gray-900">{hotel.name}</h5>
-                                  <span className="text-sm text-green-600 font-semibold">{hotel.price}</span>
+                                  <span className="text-sm text-green-600 font-semibold">{hotel.price?.text ?? 'Price not available'}</span>
                                 </div>
                                 <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
-                                  <span>⭐ {hotel.rating}</span>
+                                  <span>{hotel.rating !== null ? `⭐ ${hotel.rating}/10` : 'No rating'}{hotel.reviewCount ? ` (${hotel.reviewCount} reviews)` : ''}</span>
                                 </div>
                                 <button
                                   onClick={() => onHotelSelect(hotel)}
@@ -106,11 +225,11 @@ export const ChatMessage = memo(({
                     } else if (results.results) {
                       // Web search results
                       return (
-                        <div key={i} className="space-y-3">
+                        <div key={key} className="space-y-3">
                           <h4 className="font-semibold text-gray-900">🔍 Search results: {results.query}</h4>
                           <div className="space-y-2">
-                            {results.results.slice(0, 3).map((result: any, idx: number) => (
-                              <div key={idx} className="border-l-4 border-blue-500 pl-4 py-2">
+                            {results.results.slice(0, 3).map((result: any) => (
+                              <div key={result.url} className="border-l-4 border-blue-500 pl-4 py-2">
                                 <a 
                                   href={result.url}
                                   target="_blank"
@@ -132,20 +251,56 @@ export const ChatMessage = memo(({
                 }
 
                 return (
-                  <div key={i} className="prose prose-gray max-w-none text-gray-900">
+                  <div key={key} className="prose prose-gray max-w-none text-gray-900">
                     <MemoizedMarkdown
-                      id={`${message.id}-${i}`}
+                      id={key}
                       content={cleanText}
                     />
                   </div>
                 );
               }
 
+              // Destructive edits wait for the user's approval
+              if (isToolUIPart(part) && toolsRequiringApproval.includes(part.type.replace('tool-', '')) &&
+                (part.state === "input-available" || part.state === "output-available")) {
+                return (
+                  <ToolInvocationCard
+                    key={key}
+                    toolUIPart={part}
+                    toolCallId={part.toolCallId}
+                    needsConfirmation={part.state === "output-available" || canApprove}
+                    itinerary={itinerary}
+                    onSubmit={({ toolCallId, result }) => onToolApproval(part.type.replace('tool-', ''), toolCallId, result)}
+                  />
+                );
+              }
+
               // Skip tool itinerary results - shown in right sidebar
               if (isToolUIPart(part) && part.type === "tool-generateCompleteItinerary") {
                 return null;
               }
 
+              if (isToolUIPart(part) && part.type === "tool-searchTransport" && part.state === "output-available" && part.output) {
+                try {
+                  const results = typeof part.output === 'string' ? JSON.parse(part.output) : part.output;
+                  if (results.options?.length > 0) {
+                    return (
+                      <TransportOptions
+                        key={key}
+                        origin={results.origin}
+                        destination={results.destination}
+                        options={results.options}
+                        note={results.note}
+                        onSelect={onTransportSelect}
+                      />
+                    );
+                  }
+                } catch (e) {
+                  console.error('Failed to parse transport results:', e);
+                }
+                return null;
+              }
+
               // Display search tool results
               if (isToolUIPart(part) && (part.type === "tool-searchWeb" || part.type === "tool-searchBooking") && part.state === "output-available" && part.output) {
                 try {
@@ -153,18 +308,18 @@ export const ChatMessage = memo(({
                   
                   if (part.type === "tool-searchBooking" && results.hotels) {
                     return (
-                      <div key={i} className="space-y-3 bg-blue-50 p-4 rounded-lg">
+                      <div key={key} className="space-y-3 bg-blue-50 p-4 rounded-lg">
                         <h4 className="font-semibold text-blue-900">🏨 Hotels found in {results.destination}</h4>
                         <div className="grid gap-3">
-                          {results.hotels.map((hotel: any, idx: number) => (
-                            <div key={idx} className="bg-white border border-blue-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                          {results.hotels.map((hotel: any) => (
+                            <div key={hotel.url || hotel.name} className="bg-white border border-blue-200 rounded-lg p-4 hover:shadow-md transition-shadow">
                               <div className="flex justify-between items-start mb-2">
                                 <h5 className="font-medium text-gray-900">{hotel.name}</h5>
-                                <span className="text-sm text-green-600 font-semibold">{hotel.price}</span>
+                                <span className="text-sm text-green-600 font-semibold">{hotel.price?.text ?? 'Price not available'}</span>
                               </div>
                               <div className="flex items-center gap-2 text-sm text-gray-600 mb-3">
-                                <span>⭐ {hotel.rating}</span>
-                                {hotel.url !== '#' && (
+                                <span>{hotel.rating !== null ? `⭐ ${hotel.rating}/10` : 'No rating'}{hotel.reviewCount ? ` (${hotel.reviewCount} reviews)` : ''}</span>
+                                {hotel.url && (
                                   <a href={hotel.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
                                     View on Booking.com
                                   </a>
@@ -183,11 +338,11 @@ export const ChatMessage = memo(({
                     );
                   } else if (part.type === "tool-searchWeb" && results.results) {
                     return (
-                      <div key={i} className="space-y-3 bg-gray-50 p-4 rounded-lg">
+                      <div key={key} className="space-y-3 bg-gray-50 p-4 rounded-lg">
                         <h4 className="font-semibold text-gray-900">🔍 Web results: {results.query}</h4>
                         <div className="space-y-2">
-                          {results.results.slice(0, 3).map((result: any, idx: number) => (
-                            <div key={idx} className="bg-white border border-gray-200 rounded-lg p-3">
+                          {results.results.slice(0, 3).map((result: any) => (
+                            <div key={result.url} className="bg-white border border-gray-200 rounded-lg p-3">
                               <a 
                                 href={result.url}
                                 target="_blank"
@@ -210,6 +365,30 @@ export const ChatMessage = memo(({
 
               return null;
             })}
+
+            {versions && versions.versions > 1 && (
+              <div className="flex items-center gap-1 mt-2 text-xs text-gray-500">
+                <button
+                  type="button"
+                  onClick={() => versions.onSelect(versions.version - 1)}
+                  disabled={versions.version <= 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Previous version"
+                >
+                  <CaretLeft size={12} />
+                </button>
+                <span>{versions.version} / {versions.versions}</span>
+                <button
+                  type="button"
+                  onClick={() => versions.onSelect(versions.version + 1)}
+                  disabled={versions.version >= versions.versions}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Next version"
+                >
+                  <CaretRight size={12} />
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
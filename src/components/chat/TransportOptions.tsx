@@ -0,0 +1,123 @@
+import { memo, useState } from "react";
+import { formatMoney } from "@/lib/currency";
+
+interface TransportEndpoint {
+  city: string;
+  station: string;
+  code?: string;
+  dateTime: string; // ISO 8601 local time with UTC offset
+  timezone: string;
+}
+
+export interface TransportOption {
+  id: string;
+  direction: 'outbound' | 'return';
+  mode: 'FLIGHT' | 'TRAIN';
+  carrier: string;
+  serviceNumber?: string;
+  departure: TransportEndpoint;
+  arrival: TransportEndpoint;
+  durationMinutes: number;
+  stops: number;
+  price: { amount: number; currency: string } | null;
+  bookingUrl?: string;
+}
+
+interface TransportOptionsProps {
+  origin: string;
+  destination: string;
+  options: TransportOption[];
+  note?: string;
+  // Resolves to true once the option is in the itinerary
+  onSelect: (option: TransportOption) => Promise<boolean>;
+}
+
+// Times are shown as printed in the endpoint, i.e. local to that station
+const localTime = (endpoint: TransportEndpoint) => endpoint.dateTime.slice(11, 16);
+const localDate = (endpoint: TransportEndpoint) => endpoint.dateTime.slice(0, 10);
+
+const dayOffset = (option: TransportOption) =>
+  Math.round(
+    (Date.parse(`${localDate(option.arrival)}T00:00:00Z`) - Date.parse(`${localDate(option.departure)}T00:00:00Z`)) / 86400000
+  );
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+const TransportOptionsComponent = ({ origin, destination, options, note, onSelect }: TransportOptionsProps) => {
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [addedIds, setAddedIds] = useState<string[]>([]);
+
+  const handleSelect = async (option: TransportOption) => {
+    setPendingId(option.id);
+    try {
+      if (await onSelect(option)) {
+        setAddedIds((ids) => [...ids, option.id]);
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const groups = (['outbound', 'return'] as const)
+    .map((direction) => ({ direction, options: options.filter((option) => option.direction === direction) }))
+    .filter((group) => group.options.length > 0);
+
+  return (
+    <div className="space-y-3 bg-blue-50 p-4 rounded-lg">
+      <h4 className="font-semibold text-blue-900">🚆 Getting from {origin} to {destination}</h4>
+      {note && <p className="text-xs text-blue-800">{note}</p>}
+      {groups.map((group) => (
+        <div key={group.direction} className="space-y-2">
+          {groups.length > 1 && (
+            <h5 className="text-sm font-medium text-blue-900">{group.direction === 'outbound' ? 'Outbound' : 'Return'}</h5>
+          )}
+          {group.options.map((option) => {
+            const offset = dayOffset(option);
+            const isAdded = addedIds.includes(option.id);
+
+            return (
+              <div key={option.id} className="bg-white border border-blue-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h5 className="font-medium text-gray-900">
+                      {option.mode === 'FLIGHT' ? '✈️' : '🚄'} {option.carrier}{option.serviceNumber ? ` · ${option.serviceNumber}` : ''}
+                    </h5>
+                    <p className="text-xs text-gray-500">{localDate(option.departure)}</p>
+                  </div>
+                  <span className="text-sm text-green-600 font-semibold">
+                    {option.price ? `${formatMoney(option.price.amount, option.price.currency)} / person` : 'Price not available'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 text-sm text-gray-700 mb-1">
+                  <span className="font-semibold">{localTime(option.departure)}</span>
+                  <span className="text-gray-400">→</span>
+                  <span className="font-semibold">
+                    {localTime(option.arrival)}
+                    {offset > 0 && <sup className="text-xs text-orange-600 ml-0.5">+{offset}</sup>}
+                  </span>
+                  <span className="text-gray-500">
+                    {formatDuration(option.durationMinutes)} · {option.stops === 0 ? 'Direct' : `${option.stops} stop${option.stops > 1 ? 's' : ''}`}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  {option.departure.code || option.departure.station} ({option.departure.timezone}) → {option.arrival.code || option.arrival.station} ({option.arrival.timezone})
+                </p>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(option)}
+                  disabled={pendingId !== null || isAdded}
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-60"
+                >
+                  {isAdded ? 'Added to itinerary' : pendingId === option.id ? 'Adding...' : 'Add to itinerary'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const TransportOptions = memo(TransportOptionsComponent);
@@ -7,10 +7,17 @@ import {
   Star,
   Info,
   FloppyDisk,
-  ShareNetwork
+  ShareNetwork,
+  Warning,
+  Path,
+  Globe,
+  Wheelchair,
+  PersonSimpleWalk
 } from "@phosphor-icons/react";
 import { ItineraryMap } from "./ItineraryMap";
-import { memo } from "react";
+import { memo, useEffect, useState } from "react";
+import { convertAmount, formatMoney, type ExchangeRateSnapshot } from "@/lib/currency";
+import { getZonedDateTime, isValidTimeZone } from "@/lib/timezone";
 
 interface Activity {
   id: string;
@@ -25,17 +32,66 @@ interface Activity {
   endTime: string;
   category: string;
   estimatedCost: number;
+  currency?: string;
+  convertedCost?: number;
   priority: string;
   tips: string[];
+  accessibility?: ActivityAccessibility;
+}
+
+interface ActivityAccessibility {
+  stepFree?: boolean;
+  stairsHeavy?: boolean;
+  accessibleToilets?: boolean;
+  walkingKm?: number;
+  notes?: string;
+}
+
+interface AccessibilityConstraints {
+  wheelchairUser?: boolean;
+  avoidStairs?: boolean;
+  stepFreeTransport?: boolean;
+  maxWalkingKmPerDay?: number;
+  notes?: string;
 }
 
 interface Day {
   date: string;
   dayNumber: number;
+  stopId?: string;
+  walkingKm?: number;
   activities: Activity[];
 }
 
-interface ItineraryData {
+interface ItineraryStop {
+  id: string;
+  city: string;
+  arrivalDate: string;
+  departureDate: string;
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+  accommodation?: string;
+  timezone?: string;
+}
+
+interface TravelLeg {
+  id: string;
+  fromStopId: string;
+  toStopId: string;
+  mode: string;
+  date: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  distanceKm?: number;
+  durationMinutes?: number;
+  estimatedCost?: number;
+  currency?: string;
+  notes?: string;
+}
+
+export interface ItineraryData {
   id: string;
   title: string;
   destination: string;
@@ -46,6 +102,11 @@ interface ItineraryData {
   budget?: number;
   totalEstimatedCost: number;
   currency: string;
+  exchangeRates?: ExchangeRateSnapshot;
+  timezone?: string;
+  stops?: ItineraryStop[];
+  legs?: TravelLeg[];
+  accessibility?: AccessibilityConstraints;
   accommodationType: string;
   interests: string[];
   days: Day[];
@@ -57,15 +118,59 @@ interface ItineraryData {
   createdAt: string;
 }
 
+// Issue reported by POST /api/itineraries/validate
+export interface ItineraryIssue {
+  code: string;
+  severity: "error" | "warning";
+  message: string;
+  dayNumber?: number;
+  activityIds?: string[];
+}
+
+// Result of POST /api/itineraries/optimize-day
+export interface DayRouteOptimization {
+  beforeKm: number;
+  afterKm: number;
+  savedKm: number;
+  reordered: boolean;
+  warnings: string[];
+}
+
 interface ItineraryDisplayProps {
   data: string; // JSON string that needs to be parsed
+  issues?: ItineraryIssue[];
   onActivityClick?: (activity: Activity, itinerary: ItineraryData) => void;
   onSave?: (itinerary: ItineraryData) => void;
   onShare?: (itinerary: ItineraryData) => void;
   onExportCalendar?: () => void;
+  onOptimizeDay?: (dayNumber: number) => Promise<DayRouteOptimization | null>;
 }
 
-const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onExportCalendar }: ItineraryDisplayProps) => {
+const ItineraryDisplayComponent = ({ data, issues = [], onActivityClick, onSave, onShare, onExportCalendar, onOptimizeDay }: ItineraryDisplayProps) => {
+  const [optimizingDay, setOptimizingDay] = useState<number | null>(null);
+  const [routeResults, setRouteResults] = useState<Record<number, DayRouteOptimization>>({});
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the destination clock current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleOptimizeDay = async (dayNumber: number) => {
+    if (!onOptimizeDay) return;
+    setOptimizingDay(dayNumber);
+    try {
+      const result = await onOptimizeDay(dayNumber);
+      if (result) {
+        setRouteResults(prev => ({ ...prev, [dayNumber]: result }));
+      }
+    } finally {
+      setOptimizingDay(null);
+    }
+  };
+
   let itinerary: ItineraryData;
   
   try {
@@ -78,6 +183,43 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
     );
   }
 
+  // Totals are recomputed in the display currency from each activity's original price
+  const itineraryCurrency = itinerary.currency || "USD";
+  const displayCurrency = selectedCurrency ?? itineraryCurrency;
+  const availableCurrencies = itinerary.exchangeRates ? Object.keys(itinerary.exchangeRates.rates).sort() : [];
+
+  const toDisplay = (amount: number, currency: string = itineraryCurrency) =>
+    convertAmount(amount, currency, displayCurrency, itinerary.exchangeRates);
+
+  const activityCost = (activity: Activity) =>
+    toDisplay(activity.estimatedCost || 0, activity.currency || itineraryCurrency);
+
+  const legCost = (leg: TravelLeg) =>
+    toDisplay(leg.estimatedCost || 0, leg.currency || itineraryCurrency);
+
+  const displayTotal = itinerary.days.reduce(
+    (total, day) => total + day.activities.reduce((dayTotal, activity) => dayTotal + activityCost(activity), 0),
+    0
+  ) + (itinerary.legs || []).reduce((total, leg) => total + legCost(leg), 0);
+  const displayAveragePerDay = displayTotal / Math.max(1, itinerary.days.length);
+
+  // Multi-city trips: days are grouped by the stop they are spent at
+  const stops = itinerary.stops || [];
+  const getStop = (stopId?: string) => stops.find(stop => stop.id === stopId);
+  const getArrivingLeg = (stopId?: string) => itinerary.legs?.find(leg => leg.toStopId === stopId);
+
+  // Activity times are local to the destination; during the trip show its current time
+  const tripTimezone = itinerary.timezone && isValidTimeZone(itinerary.timezone) ? itinerary.timezone : null;
+  const tripToday = tripTimezone ? getZonedDateTime(tripTimezone, now).date : null;
+  const currentStop = tripToday
+    ? [...stops].reverse().find(stop => stop.arrivalDate <= tripToday)
+    : undefined;
+  const timezone = currentStop?.timezone && isValidTimeZone(currentStop.timezone) ? currentStop.timezone : tripTimezone;
+  const destinationNow = timezone ? getZonedDateTime(timezone, now) : null;
+  const isDuringTrip = !!destinationNow &&
+    destinationNow.date >= itinerary.startDate &&
+    destinationNow.date <= itinerary.endDate;
+
   const getCategoryIcon = (category: string) => {
     const iconClass = "w-4 h-4";
     switch (category) {
@@ -102,8 +244,53 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
     }
   };
 
+  // Day dates are calendar dates at the destination, so format them without shifting to the browser's zone
+  const getLegIcon = (mode: string) => {
+    switch (mode) {
+      case "FLIGHT": return "✈️";
+      case "TRAIN": return "🚆";
+      case "BUS": return "🚌";
+      case "CAR": return "🚗";
+      case "FERRY": return "⛴️";
+      default: return "➡️";
+    }
+  };
+
+  // Badges only for what is known; an unknown step-free status shows nothing
+  const getAccessibilityBadges = (activity: Activity) => {
+    const info = activity.accessibility;
+    if (!info) return [];
+    const badges: Array<{ label: string; className: string; title?: string }> = [];
+    const good = "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200";
+    const bad = "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200";
+
+    if (info.stepFree === true) badges.push({ label: "Step-free", className: good, title: info.notes });
+    if (info.stepFree === false) badges.push({ label: "Not step-free", className: bad, title: info.notes });
+    if (info.stairsHeavy) badges.push({ label: "Many stairs", className: bad, title: info.notes });
+    if (info.accessibleToilets) badges.push({ label: "Accessible toilets", className: good });
+    if (info.walkingKm) {
+      badges.push({ label: `${info.walkingKm} km walk`, className: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300" });
+    }
+    return badges;
+  };
+
+  const accessibility = itinerary.accessibility;
+  const accessibilityLabels = accessibility
+    ? [
+        accessibility.wheelchairUser && "Wheelchair user",
+        accessibility.avoidStairs && "Avoid stairs",
+        accessibility.stepFreeTransport && "Step-free transport",
+        accessibility.maxWalkingKmPerDay && `Max ${accessibility.maxWalkingKmPerDay} km walking/day`
+      ].filter((label): label is string => !!label)
+    : [];
+  const walkingLimit = accessibility?.maxWalkingKmPerDay;
+
+  const formatMinutes = (minutes: number) =>
+    minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -111,6 +298,14 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
     });
   };
 
+  const formatShortDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
       {/* Header */}
@@ -133,10 +328,43 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
                 <Users size={16} />
                 <span>{itinerary.travelers} travelers</span>
               </div>
+              {accessibilityLabels.length > 0 && (
+                <div className="flex items-center gap-1" title={accessibility?.notes}>
+                  <Wheelchair size={16} />
+                  <span>{accessibilityLabels.join(" · ")}</span>
+                </div>
+              )}
+              {timezone && (
+                <div className="flex items-center gap-1" title="Activity times are local to the destination">
+                  <Globe size={16} />
+                  <span>
+                    {isDuringTrip
+                      ? `Local time in ${currentStop?.city ?? itinerary.destination}: ${destinationNow?.time}`
+                      : timezone.replace(/_/g, ' ')}
+                  </span>
+                </div>
+              )}
               <div className="flex items-center gap-1">
                 <CurrencyDollar size={16} />
-                <span>${itinerary.totalEstimatedCost} estimated</span>
+                <span>{formatMoney(displayTotal, displayCurrency)} estimated</span>
+                {itinerary.budget ? (
+                  <span className={displayTotal > toDisplay(itinerary.budget) ? "text-red-600 dark:text-red-400" : ""}>
+                    {" "}of {formatMoney(toDisplay(itinerary.budget), displayCurrency)} budget
+                  </span>
+                ) : null}
               </div>
+              {availableCurrencies.length > 0 && (
+                <select
+                  value={displayCurrency}
+                  onChange={(e) => setSelectedCurrency(e.target.value)}
+                  className="px-2 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg"
+                  title={`Display currency (rates as of ${itinerary.exchangeRates?.asOf})`}
+                >
+                  {availableCurrencies.map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
           
@@ -145,6 +373,7 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
             <div className="flex gap-2 ml-4">
               {onExportCalendar && (
                 <button
+                  type="button"
                   onClick={onExportCalendar}
                   className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
                   title="Export to Calendar"
@@ -157,6 +386,7 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
               )}
               {onSave && (
                 <button
+                  type="button"
                   onClick={() => onSave(itinerary)}
                   className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
                 >
@@ -166,6 +396,7 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
               )}
               {onShare && (
                 <button
+                  type="button"
                   onClick={() => onShare(itinerary)}
                   className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
                 >
@@ -187,7 +418,7 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
           </div>
           <div className="text-center p-3 bg-white dark:bg-gray-800 rounded-lg">
             <div className="text-lg font-semibold text-gray-900 dark:text-white">
-              ${itinerary.summary.averageCostPerDay}
+              {formatMoney(displayAveragePerDay, displayCurrency)}
             </div>
             <div className="text-sm text-gray-500 dark:text-gray-400">Avg. Cost/Day</div>
           </div>
@@ -200,120 +431,240 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
         </div>
       </div>
 
+      {/* Validation issues */}
+      {issues.length > 0 && (
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            <Warning size={20} className="text-amber-500" />
+            Things to check
+          </h3>
+          <ul className="space-y-2">
+            {issues.map((issue) => (
+              <li
+                key={`${issue.code}:${issue.message}`}
+                className={`text-sm p-3 rounded-lg ${
+                  issue.severity === "error"
+                    ? "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200"
+                    : "bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200"
+                }`}
+              >
+                {issue.dayNumber && <span className="font-medium">Day {issue.dayNumber}: </span>}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Map */}
       <div className="p-6 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
           Activity Locations
         </h3>
-        <ItineraryMap days={itinerary.days} destination={itinerary.destination} />
+        <ItineraryMap days={itinerary.days} destination={itinerary.destination} stops={itinerary.stops} legs={itinerary.legs} />
       </div>
 
       {/* Days */}
       <div className="p-6">
         <div className="space-y-8">
-          {itinerary.days.map((day, dayIndex) => (
-            <div key={day.date} className="space-y-4">
-              {/* Day Header */}
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                    Day {day.dayNumber}
-                  </h3>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">
-                    {formatDate(day.date)}
-                  </p>
-                </div>
-                <div className="text-sm text-gray-500 dark:text-gray-400">
-                  {day.activities.length} activities
-                </div>
-              </div>
+          {itinerary.days.map((day, dayIndex) => {
+            const stop = getStop(day.stopId);
+            const startsStop = !!stop && (dayIndex === 0 || itinerary.days[dayIndex - 1].stopId !== day.stopId);
+            const arrivingLeg = startsStop && dayIndex > 0 ? getArrivingLeg(stop.id) : undefined;
+            const legOrigin = getStop(arrivingLeg?.fromStopId);
 
-              {/* Activities */}
-              <div className="space-y-3">
-                {day.activities.map((activity, activityIndex) => (
-                  <div 
-                    key={activity.id}
-                    className={`flex gap-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors ${
-                      onActivityClick 
-                        ? 'cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:border-blue-200 dark:hover:border-blue-700 border border-transparent' 
-                        : 'hover:bg-gray-100 dark:hover:bg-gray-600'
-                    }`}
-                    onClick={() => onActivityClick?.(activity, itinerary)}
-                  >
-                    {/* Time */}
-                    <div className="flex-shrink-0 w-20 text-center">
-                      <div className="text-sm font-medium text-gray-900 dark:text-white">
-                        {activity.startTime}
+            return (
+              <div key={day.date} className="space-y-4">
+                {/* Inter-city leg into this stop */}
+                {arrivingLeg && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm p-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300">
+                    <span className="text-lg">{getLegIcon(arrivingLeg.mode)}</span>
+                    <span className="font-medium">
+                      {legOrigin?.city ?? "Previous stop"} → {stop?.city}
+                    </span>
+                    {arrivingLeg.departureTime && (
+                      <span>{arrivingLeg.departureTime}{arrivingLeg.arrivalTime ? `–${arrivingLeg.arrivalTime}` : ""}</span>
+                    )}
+                    {arrivingLeg.durationMinutes !== undefined && <span>· {formatMinutes(arrivingLeg.durationMinutes)}</span>}
+                    {arrivingLeg.distanceKm !== undefined && <span>· {arrivingLeg.distanceKm} km</span>}
+                    {arrivingLeg.estimatedCost ? <span>· {formatMoney(legCost(arrivingLeg), displayCurrency)}</span> : null}
+                    {arrivingLeg.notes && <span className="w-full text-xs text-gray-500 dark:text-gray-400">{arrivingLeg.notes}</span>}
+                  </div>
+                )}
+
+                {/* City header */}
+                {startsStop && (
+                  <div className="flex items-center gap-2 pb-2 border-b border-gray-200 dark:border-gray-700">
+                    <MapPin size={20} className="text-blue-600 dark:text-blue-400" />
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white">{stop.city}</h3>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatShortDate(stop.arrivalDate)} – {formatShortDate(stop.departureDate)}
+                      {stop.accommodation ? ` · ${stop.accommodation}` : ""}
+                    </span>
+                  </div>
+                )}
+
+                {/* Day Header */}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      Day {day.dayNumber}
+                    </h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatDate(day.date)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {onOptimizeDay && day.activities.length > 2 && (
+                      <button
+                        type="button"
+                        onClick={() => handleOptimizeDay(day.dayNumber)}
+                        disabled={optimizingDay !== null}
+                        className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-700 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 transition-colors"
+                        title="Reorder activities to shorten the route"
+                      >
+                        <Path size={14} />
+                        <span>{optimizingDay === day.dayNumber ? "Optimizing..." : "Optimize route"}</span>
+                      </button>
+                    )}
+                    {day.walkingKm !== undefined && day.walkingKm > 0 && (
+                      <div
+                        className={`flex items-center gap-1 text-sm ${
+                          walkingLimit && day.walkingKm > walkingLimit
+                            ? "text-red-600 dark:text-red-400"
+                            : "text-gray-500 dark:text-gray-400"
+                        }`}
+                        title="Estimated walking between and within activities"
+                      >
+                        <PersonSimpleWalk size={14} />
+                        <span>
+                          {day.walkingKm} km{walkingLimit ? ` of ${walkingLimit} km` : ""}
+                        </span>
                       </div>
-                      {activity.endTime && (
-                        <div className="text-xs text-gray-500 dark:text-gray-400">
-                          {activity.endTime}
-                        </div>
-                      )}
+                    )}
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {day.activities.length} activities
                     </div>
+                  </div>
+                </div>
 
-                    {/* Content */}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="text-lg">{getCategoryIcon(activity.category)}</span>
-                            <h4 className="font-medium text-gray-900 dark:text-white">
-                              {activity.title}
-                            </h4>
-                            <span className={`text-xs px-2 py-1 rounded-full bg-white dark:bg-gray-800 ${getPriorityColor(activity.priority)}`}>
-                              {activity.priority}
-                            </span>
+                {/* Route optimization result */}
+                {routeResults[day.dayNumber] && (
+                  <div className="text-sm p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200">
+                    {routeResults[day.dayNumber].reordered
+                      ? `Route shortened from ${routeResults[day.dayNumber].beforeKm} km to ${routeResults[day.dayNumber].afterKm} km (${routeResults[day.dayNumber].savedKm} km saved)`
+                      : `Already the shortest order (${routeResults[day.dayNumber].beforeKm} km)`}
+                    {routeResults[day.dayNumber].warnings.map((warning) => (
+                      <div key={warning} className="mt-1 text-xs text-amber-700 dark:text-amber-300">{warning}</div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Activities */}
+                <div className="space-y-3">
+                  {day.activities.map((activity, activityIndex) => (
+                    <div 
+                      key={activity.id}
+                      className={`flex gap-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors ${
+                        onActivityClick 
+                          ? 'cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:border-blue-200 dark:hover:border-blue-700 border border-transparent' 
+                          : 'hover:bg-gray-100 dark:hover:bg-gray-600'
+                      }`}
+                      onClick={() => onActivityClick?.(activity, itinerary)}
+                    >
+                      {/* Time */}
+                      <div className="flex-shrink-0 w-20 text-center">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {activity.startTime}
+                        </div>
+                        {activity.endTime && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {activity.endTime}
                           </div>
-                          
-                          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
-                            {activity.description}
-                          </p>
-                          
-                          <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
-                            <div className="flex items-center gap-1">
-                              <MapPin size={12} />
-                              <span>{activity.location}</span>
+                        )}
+                      </div>
+
+                      {/* Content */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className="text-lg">{getCategoryIcon(activity.category)}</span>
+                              <h4 className="font-medium text-gray-900 dark:text-white">
+                                {activity.title}
+                              </h4>
+                              <span className={`text-xs px-2 py-1 rounded-full bg-white dark:bg-gray-800 ${getPriorityColor(activity.priority)}`}>
+                                {activity.priority}
+                              </span>
                             </div>
-                            {activity.estimatedCost > 0 && (
-                              <div className="flex items-center gap-1">
-                                <CurrencyDollar size={12} />
-                                <span>${activity.estimatedCost}</span>
+                            
+                            <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+                              {activity.description}
+                            </p>
+
+                            {/* Accessibility */}
+                            {getAccessibilityBadges(activity).length > 0 && (
+                              <div className="flex flex-wrap gap-1 mb-2">
+                                {getAccessibilityBadges(activity).map((badge) => (
+                                  <span
+                                    key={badge.label}
+                                    className={`text-xs px-2 py-0.5 rounded-full ${badge.className}`}
+                                    title={badge.title}
+                                  >
+                                    {badge.label}
+                                  </span>
+                                ))}
                               </div>
                             )}
-                          </div>
-
-                          {/* Tips */}
-                          {activity.tips && activity.tips.length > 0 && (
-                            <div className="mt-3">
-                              <div className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 mb-1">
-                                <Info size={12} />
-                                <span>Tips</span>
+                            
+                            <div className="flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+                              <div className="flex items-center gap-1">
+                                <MapPin size={12} />
+                                <span>{activity.location}</span>
                               </div>
-                              <ul className="text-xs text-gray-600 dark:text-gray-300 space-y-1">
-                                {activity.tips.map((tip, tipIndex) => (
-                                  <li key={tipIndex} className="flex items-start gap-1">
-                                    <span className="text-blue-400 mt-0.5">•</span>
-                                    <span>{tip}</span>
-                                  </li>
-                                ))}
-                              </ul>
+                              {activity.estimatedCost > 0 && (
+                                <div className="flex items-center gap-1">
+                                  <CurrencyDollar size={12} />
+                                  <span>{formatMoney(activity.estimatedCost, activity.currency || itineraryCurrency)}</span>
+                                  {(activity.currency || itineraryCurrency) !== displayCurrency && (
+                                    <span className="text-gray-400">≈ {formatMoney(activityCost(activity), displayCurrency)}</span>
+                                  )}
+                                </div>
+                              )}
                             </div>
-                          )}
 
+                            {/* Tips */}
+                            {activity.tips && activity.tips.length > 0 && (
+                              <div className="mt-3">
+                                <div className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 mb-1">
+                                  <Info size={12} />
+                                  <span>Tips</span>
+                                </div>
+                                <ul className="text-xs text-gray-600 dark:text-gray-300 space-y-1">
+                                  {activity.tips.map((tip) => (
+                                    <li key={tip} className="flex items-start gap-1">
+                                      <span className="text-blue-400 mt-0.5">•</span>
+                                      <span>{tip}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
 
-              {/* Day separator */}
-              {dayIndex < itinerary.days.length - 1 && (
-                <div className="border-t border-gray-200 dark:border-gray-600 my-6"></div>
-              )}
-            </div>
-          ))}
+                {/* Day separator */}
+                {dayIndex < itinerary.days.length - 1 && (
+                  <div className="border-t border-gray-200 dark:border-gray-600 my-6"></div>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
 
@@ -324,9 +675,9 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
             Created on {new Date(itinerary.createdAt).toLocaleDateString()}
           </div>
           <div className="flex gap-2">
-            {itinerary.interests.map((interest, index) => (
+            {itinerary.interests.map((interest) => (
               <span 
-                key={index}
+                key={interest}
                 className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 text-xs rounded-full"
               >
                 {interest}
@@ -342,5 +693,5 @@ const ItineraryDisplayComponent = ({ data, onActivityClick, onSave, onShare, onE
 // Memoize the component to prevent unnecessary re-renders
 export const ItineraryDisplay = memo(ItineraryDisplayComponent, (prevProps, nextProps) => {
   // Only re-render if data actually changed
-  return prevProps.data === nextProps.data;
+  return prevProps.data === nextProps.data && prevProps.issues === nextProps.issues;
 });
\ No newline at end of file
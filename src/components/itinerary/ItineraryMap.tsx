@@ -28,12 +28,30 @@ interface Day {
   activities: Activity[];
 }
 
+interface Stop {
+  id: string;
+  city: string;
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+}
+
+interface Leg {
+  id: string;
+  fromStopId: string;
+  toStopId: string;
+  mode: string;
+}
+
 interface ItineraryMapProps {
   days: Day[];
   destination: string;
+  stops?: Stop[];
+  legs?: Leg[];
 }
 
-const ItineraryMapComponent = ({ days, destination }: ItineraryMapProps) => {
+const ItineraryMapComponent = ({ days, destination, stops, legs }: ItineraryMapProps) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
 
@@ -152,6 +170,32 @@ const ItineraryMapComponent = ({ days, destination }: ItineraryMapProps) => {
       markers.push(marker);
     });
 
+    // Multi-city trips: label each city and draw the legs between them
+    const stopsWithCoordinates = (stops || []).filter(stop => stop.coordinates);
+    if (stopsWithCoordinates.length > 1) {
+      stopsWithCoordinates.forEach(stop => {
+        const stopIcon = L.divIcon({
+          html: `<div style="background: #1e3a8a; color: white; padding: 2px 8px; border-radius: 9999px; font-size: 12px; font-weight: bold; white-space: nowrap; box-shadow: 0 2px 4px rgba(0,0,0,0.3);">${stop.city}</div>`,
+          className: 'stop-marker',
+          iconAnchor: [0, 0]
+        });
+        markers.push(L.marker([stop.coordinates!.lat, stop.coordinates!.lng], { icon: stopIcon }).addTo(map));
+      });
+
+      (legs || []).forEach(leg => {
+        const from = stopsWithCoordinates.find(stop => stop.id === leg.fromStopId);
+        const to = stopsWithCoordinates.find(stop => stop.id === leg.toStopId);
+        if (!from || !to) return;
+
+        L.polyline(
+          [[from.coordinates!.lat, from.coordinates!.lng], [to.coordinates!.lat, to.coordinates!.lng]],
+          { color: '#1e3a8a', weight: 3, dashArray: leg.mode === 'FLIGHT' ? '2 8' : '8 6', opacity: 0.8 }
+        )
+          .bindTooltip(`${from.city} → ${to.city} (${leg.mode.toLowerCase()})`)
+          .addTo(map);
+      });
+    }
+
     // Fit map to show all markers
     if (markers.length > 1) {
       const group = new L.featureGroup(markers);
@@ -165,7 +209,7 @@ const ItineraryMapComponent = ({ days, destination }: ItineraryMapProps) => {
         mapInstanceRef.current = null;
       }
     };
-  }, [allActivities]);
+  }, [allActivities, stops, legs]);
 
   return (
     <div className="w-full h-80 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700">
@@ -184,6 +228,10 @@ export const ItineraryMap = memo(ItineraryMapComponent, (prevProps, nextProps) =
   if (prevProps.days.length !== nextProps.days.length) {
     return false; // Re-render needed
   }
+
+  if (prevProps.stops?.length !== nextProps.stops?.length || prevProps.legs?.length !== nextProps.legs?.length) {
+    return false; // Re-render needed
+  }
   
   // Deep comparison of activities
   for (let i = 0; i < prevProps.days.length; i++) {
@@ -0,0 +1,147 @@
+import { Suitcase, DownloadSimple, ArrowsClockwise } from "@phosphor-icons/react";
+import { memo, useState } from "react";
+import {
+  downloadPackingList,
+  formatPackingQuantity,
+  groupPackingItems,
+  PACKING_CATEGORY_LABELS,
+  type PackingList
+} from "@/lib/packing-export";
+
+interface PackingListItinerary {
+  title: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  travelers: number;
+  packingList?: PackingList;
+}
+
+interface PackingListPanelProps {
+  itinerary: PackingListItinerary;
+  // Omitted on read-only views such as shared itineraries
+  onGenerate?: () => Promise<void>;
+  onTogglePacked?: (itemId: string, packed: boolean) => Promise<void>;
+}
+
+const PackingListPanelComponent = ({ itinerary, onGenerate, onTogglePacked }: PackingListPanelProps) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [pendingItemId, setPendingItemId] = useState<string | null>(null);
+  const list = itinerary.packingList;
+
+  const handleGenerate = async () => {
+    if (!onGenerate) return;
+    setIsGenerating(true);
+    try {
+      await onGenerate();
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleToggle = async (itemId: string, packed: boolean) => {
+    if (!onTogglePacked) return;
+    setPendingItemId(itemId);
+    try {
+      await onTogglePacked(itemId, packed);
+    } finally {
+      setPendingItemId(null);
+    }
+  };
+
+  if (!list) {
+    if (!onGenerate) return null;
+
+    return (
+      <div className="mt-4 p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+          <Suitcase size={20} />
+          <span className="text-sm">Get a packing list based on the weather and your activities</span>
+        </div>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 transition-colors"
+        >
+          {isGenerating ? "Generating..." : "Generate"}
+        </button>
+      </div>
+    );
+  }
+
+  const packedCount = list.items.filter(item => item.packed).length;
+
+  return (
+    <div className="mt-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <Suitcase size={20} />
+            Packing list
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {packedCount} of {list.items.length} packed
+            {list.weatherSummary ? ` · ${list.weatherSummary}` : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {onGenerate && (
+            <button
+              type="button"
+              onClick={handleGenerate}
+              disabled={isGenerating}
+              className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50 transition-colors"
+              title="Refresh from the current itinerary (keeps ticked items)"
+            >
+              <ArrowsClockwise size={18} className={isGenerating ? "animate-spin" : ""} />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => downloadPackingList(itinerary)}
+            className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Download as a checklist"
+          >
+            <DownloadSimple size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {groupPackingItems(list.items).map(group => (
+          <div key={group.category}>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {PACKING_CATEGORY_LABELS[group.category] || group.category}
+            </h4>
+            <ul className="space-y-1">
+              {group.items.map(item => {
+                const quantity = formatPackingQuantity(item, itinerary.travelers);
+                return (
+                  <li key={item.id}>
+                    <label className={`flex items-start gap-2 text-sm ${onTogglePacked ? "cursor-pointer" : ""}`}>
+                      <input
+                        type="checkbox"
+                        checked={item.packed}
+                        disabled={!onTogglePacked || pendingItemId === item.id}
+                        onChange={(e) => handleToggle(item.id, e.target.checked)}
+                        className="mt-1"
+                      />
+                      <span className={item.packed ? "line-through text-gray-400" : "text-gray-900 dark:text-white"}>
+                        {item.name}
+                        {quantity && <span className="text-gray-500 dark:text-gray-400"> ({quantity})</span>}
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">{item.reason}</span>
+                      </span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const PackingListPanel = memo(PackingListPanelComponent);
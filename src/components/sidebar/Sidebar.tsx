@@ -1,34 +1,157 @@
-import { PencilSimple, ChatCircle, User, SignOut } from "@phosphor-icons/react";
+import { PencilSimple, ChatCircle, User, SignOut, GearSix, ChartBar, GitBranch, MagnifyingGlass, PushPin, Archive, ArrowUUpLeft, Trash } from "@phosphor-icons/react";
 import { Link, useNavigate } from "react-router-dom";
 import { windowState } from "@/lib/window-state";
 import { useWindowState } from "@/hooks/useWindowState";
-import { useState, useEffect, lazy, Suspense } from "react";
+import { useState, useEffect, useCallback, lazy, Suspense } from "react";
 
 // Dynamic import for code splitting
 const TextAnimate = lazy(() =>
   import("@/components/ui/text-animate").then(module => ({ default: module.TextAnimate }))
 );
 
+interface RecentChat {
+  id: string;
+  title: string;
+  lastMessage: string;
+  timestamp: string;
+  parentId: string | null; // Set on forks
+  pinned: boolean;
+  archived: boolean;
+}
+
+interface SearchResult extends RecentChat {
+  snippet: string | null; // Matching message text, terms wrapped in [ ]
+}
+
+type ApiResponse<T> = ({ success: true } & T) | { success: false; error: string };
+
 interface SidebarProps {
-  recentChats: Array<{
-    id: string;
-    title: string;
-    lastMessage: string;
-    timestamp: string;
-  }>;
+  recentChats: RecentChat[];
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onConversationsChanged: () => void;
   onShowAuthModal: () => void;
   onLogout: () => void;
 }
 
+interface ChatTreeNode {
+  chat: RecentChat;
+  depth: number;
+}
+
+/**
+ * Forks listed right under the conversation they came from, in list order
+ * A fork whose parent is not in the list shows at the top level
+ */
+function flattenChatTree(chats: RecentChat[]): ChatTreeNode[] {
+  const ids = new Set(chats.map((chat) => chat.id));
+  const children = new Map<string, RecentChat[]>();
+  for (const chat of chats) {
+    if (chat.parentId && ids.has(chat.parentId)) {
+      children.set(chat.parentId, [...(children.get(chat.parentId) ?? []), chat]);
+    }
+  }
+
+  const nodes: ChatTreeNode[] = [];
+  const visit = (chat: RecentChat, depth: number) => {
+    nodes.push({ chat, depth });
+    for (const child of children.get(chat.id) ?? []) visit(child, depth + 1);
+  };
+  for (const chat of chats) {
+    if (!chat.parentId || !ids.has(chat.parentId)) visit(chat, 0);
+  }
+  return nodes;
+}
+
 export function Sidebar({
   recentChats,
+  hasMore,
+  onLoadMore,
+  onConversationsChanged,
   onShowAuthModal,
   onLogout
 }: SidebarProps) {
   const navigate = useNavigate();
-  const { user } = useWindowState();
+  const { user, conversationId } = useWindowState();
   const [isLoading, setIsLoading] = useState(true);
   const [animatedTitles, setAnimatedTitles] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivedChats, setArchivedChats] = useState<RecentChat[]>([]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || !user?.token) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/conversations/search?q=${encodeURIComponent(query)}`, {
+          headers: { 'Authorization': `Bearer ${user.token}` }
+        });
+        const data = await response.json() as ApiResponse<{ results: SearchResult[] }>;
+        if (!cancelled && data.success) setSearchResults(data.results);
+      } catch (error) {
+        console.error('[Sidebar] Search failed:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, user?.token]);
+
+  const fetchArchived = useCallback(async () => {
+    if (!user?.token) return;
+    try {
+      const response = await fetch('/api/conversations?archived=true&limit=100', {
+        headers: { 'Authorization': `Bearer ${user.token}` }
+      });
+      const data = await response.json() as ApiResponse<{ conversations: RecentChat[] }>;
+      if (data.success) setArchivedChats(data.conversations);
+    } catch (error) {
+      console.error('[Sidebar] Failed to fetch archived conversations:', error);
+    }
+  }, [user?.token]);
+
+  useEffect(() => {
+    if (showArchived) fetchArchived();
+  }, [showArchived, fetchArchived]);
+
+  const updateConversation = async (chat: RecentChat, method: 'PATCH' | 'DELETE', flags?: { pinned?: boolean; archived?: boolean }) => {
+    if (!user?.token) return;
+    if (method === 'DELETE' && !window.confirm(`Delete "${chat.title}"? This can't be undone.`)) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${chat.id}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.token}`
+        },
+        body: flags ? JSON.stringify(flags) : undefined
+      });
+      const data = await response.json() as ApiResponse<unknown>;
+      if (!data.success) throw new Error(data.error);
+
+      onConversationsChanged();
+      if (showArchived) fetchArchived();
+      setSearchResults(prev => prev?.filter(result => method !== 'DELETE' || result.id !== chat.id) ?? null);
+
+      // Leave a conversation that is gone from the main list
+      if (chat.id === conversationId && (method === 'DELETE' || flags?.archived)) {
+        handleNewChat();
+      }
+    } catch (error) {
+      console.error('[Sidebar] Failed to update conversation:', error);
+    }
+  };
 
   useEffect(() => {
     console.log('[Sidebar] recentChats updated:', recentChats);
@@ -95,10 +218,39 @@ export function Sidebar({
         </button>
       </div>
 
+      {/* Search */}
+      {user && (
+        <div className="px-3 pb-3">
+          <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-800 text-gray-400 focus-within:text-white">
+            <MagnifyingGlass size={14} />
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search conversations"
+              className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none"
+            />
+          </div>
+        </div>
+      )}
+
       {/* Chats Section */}
       <div className="flex-1 overflow-y-auto px-3">
         <div className="pb-3">
-          <div className="text-xs text-gray-500 mb-2 px-3">AItinerary</div>
+          <div className="flex items-center justify-between mb-2 px-3">
+            <span className="text-xs text-gray-500">
+              {searchResults ? 'Search results' : showArchived ? 'Archived' : 'AItinerary'}
+            </span>
+            {user && !searchResults && (
+              <button
+                type="button"
+                onClick={() => setShowArchived(!showArchived)}
+                className="text-xs text-gray-500 hover:text-white transition-colors"
+              >
+                {showArchived ? 'Back to chats' : 'Archived'}
+              </button>
+            )}
+          </div>
           <div className="space-y-1">
             {isLoading ? (
               // Skeleton for conversations
@@ -112,38 +264,96 @@ export function Sidebar({
                   </div>
                 ))}
               </>
-            ) : recentChats.length === 0 ? (
+            ) : searchResults ? (
+              searchResults.length === 0 ? (
+                <div className="text-xs text-gray-500 text-center py-8 px-3">
+                  No conversations match "{searchQuery.trim()}"
+                </div>
+              ) : (
+                searchResults.map((result) => (
+                  <Link
+                    key={result.id}
+                    to={`/chat/${result.id}`}
+                    className="w-full block p-3 rounded-lg hover:bg-gray-700 text-gray-300 hover:text-white transition-colors text-left"
+                  >
+                    <div className="text-sm truncate">{result.title}{result.archived ? ' (archived)' : ''}</div>
+                    {result.snippet && (
+                      <div className="text-xs text-gray-500 mt-1 line-clamp-2">{result.snippet}</div>
+                    )}
+                  </Link>
+                ))
+              )
+            ) : (showArchived ? archivedChats : recentChats).length === 0 ? (
               <div className="text-xs text-gray-500 text-center py-8 px-3">
-                Your recent trips will appear here
+                {showArchived ? 'No archived conversations' : 'Your recent trips will appear here'}
               </div>
             ) : (
-              recentChats.map((chat) => (
-                <Link
-                  key={chat.id}
-                  to={`/chat/${chat.id}`}
-                  className="w-full flex items-center gap-3 p-3 rounded-lg hover:bg-gray-700 text-gray-300 hover:text-white transition-colors text-left"
-                >
-                  <ChatCircle size={16} />
-                  <div className="flex-1 min-w-0">
-                    {animatedTitles.has(chat.id) ? (
-                      <Suspense fallback={<div className="text-sm truncate">{chat.title}</div>}>
-                        <TextAnimate
-                          animation="blurIn"
-                          by="word"
-                          duration={0.6}
-                          className="text-sm truncate"
-                          as="div"
-                        >
-                          {chat.title}
-                        </TextAnimate>
-                      </Suspense>
-                    ) : (
-                      <div className="text-sm truncate">{chat.title}</div>
+              flattenChatTree(showArchived ? archivedChats : recentChats).map(({ chat, depth }) => (
+                <div key={chat.id} className="relative group/chat">
+                  <Link
+                    to={`/chat/${chat.id}`}
+                    className="w-full flex items-center gap-3 p-3 rounded-lg hover:bg-gray-700 text-gray-300 hover:text-white transition-colors text-left"
+                    style={depth > 0 ? { paddingLeft: `${0.75 + depth}rem` } : undefined}
+                  >
+                    {chat.pinned ? <PushPin size={16} weight="fill" /> : chat.parentId ? <GitBranch size={16} /> : <ChatCircle size={16} />}
+                    <div className="flex-1 min-w-0">
+                      {animatedTitles.has(chat.id) ? (
+                        <Suspense fallback={<div className="text-sm truncate">{chat.title}</div>}>
+                          <TextAnimate
+                            animation="blurIn"
+                            by="word"
+                            duration={0.6}
+                            className="text-sm truncate"
+                            as="div"
+                          >
+                            {chat.title}
+                          </TextAnimate>
+                        </Suspense>
+                      ) : (
+                        <div className="text-sm truncate">{chat.title}</div>
+                      )}
+                    </div>
+                  </Link>
+                  <div className="absolute right-2 top-1/2 -translate-y-1/2 hidden group-hover/chat:flex items-center gap-1 bg-gray-700 rounded-md">
+                    {!chat.archived && (
+                      <button
+                        type="button"
+                        onClick={() => updateConversation(chat, 'PATCH', { pinned: !chat.pinned })}
+                        className="p-1 text-gray-400 hover:text-white"
+                        title={chat.pinned ? 'Unpin' : 'Pin'}
+                      >
+                        <PushPin size={14} />
+                      </button>
                     )}
+                    <button
+                      type="button"
+                      onClick={() => updateConversation(chat, 'PATCH', { archived: !chat.archived })}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title={chat.archived ? 'Unarchive' : 'Archive'}
+                    >
+                      {chat.archived ? <ArrowUUpLeft size={14} /> : <Archive size={14} />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateConversation(chat, 'DELETE')}
+                      className="p-1 text-gray-400 hover:text-red-400"
+                      title="Delete"
+                    >
+                      <Trash size={14} />
+                    </button>
                   </div>
-                </Link>
+                </div>
               ))
             )}
+            {!isLoading && !searchResults && !showArchived && hasMore && (
+              <button
+                type="button"
+                onClick={onLoadMore}
+                className="w-full p-2 text-xs text-gray-500 hover:text-white transition-colors"
+              >
+                Load more
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -178,6 +388,20 @@ export function Sidebar({
                 <p className="text-sm font-medium text-white">{user.name}</p>
                 <p className="text-xs text-gray-400">{user.email}</p>
               </div>
+              <Link
+                to="/settings"
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+              >
+                <GearSix size={16} />
+                Traveler profile
+              </Link>
+              <Link
+                to="/usage"
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+              >
+                <ChartBar size={16} />
+                Usage
+              </Link>
               <button
                 onClick={onLogout}
                 className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
@@ -3,7 +3,7 @@ import type { ToolUIPart } from "ai";
 import { Robot, CaretDown } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
-import { APPROVAL } from "@/shared";
+import { APPROVAL, type ApprovalDecision } from "@/shared";
 
 interface ToolResultWithContent {
   content: Array<{ type: string; text: string }>;
@@ -20,28 +20,126 @@ function isToolResultWithContent(
   );
 }
 
+interface DiffActivity {
+  id?: string;
+  title: string;
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+}
+
+interface DiffItinerary {
+  days: Array<{ dayNumber: number; activities: DiffActivity[] }>;
+}
+
+// Arguments of the edit tools the diff understands, as the model proposed them
+interface ProposedEdit {
+  activityId?: string;
+  activityIds?: string[];
+  newActivity?: DiffActivity;
+}
+
+interface DiffLine {
+  kind: "removed" | "added" | "missing";
+  dayNumber?: number;
+  activity?: DiffActivity;
+  text?: string;
+}
+
+function findActivity(itinerary: DiffItinerary | null, activityId: string | undefined) {
+  for (const day of itinerary?.days ?? []) {
+    const activity = day.activities.find((candidate) => candidate.id === activityId);
+    if (activity) return { activity, dayNumber: day.dayNumber };
+  }
+  return null;
+}
+
+/**
+ * What the proposed call would change in the current itinerary
+ */
+function buildDiff(toolUIPart: ToolUIPart, itinerary: DiffItinerary | null): DiffLine[] | null {
+  const input = (toolUIPart.input ?? {}) as ProposedEdit;
+  const removed = (activityId: string | undefined): DiffLine => {
+    const found = findActivity(itinerary, activityId);
+    return found
+      ? { kind: "removed", dayNumber: found.dayNumber, activity: found.activity }
+      : { kind: "missing", text: activityId ? `Activity ${activityId} is not in the current itinerary` : "No activity given" };
+  };
+
+  switch (toolUIPart.type) {
+    case "tool-removeActivity":
+      return [removed(input.activityId)];
+    case "tool-removeMultipleActivities":
+      return (input.activityIds ?? []).map(removed);
+    case "tool-replaceActivity": {
+      const line = removed(input.activityId);
+      return input.newActivity
+        ? [line, { kind: "added", dayNumber: line.dayNumber, activity: input.newActivity }]
+        : [line];
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The user's answer, or once the server ran the call, the result saved in its place
+ */
+function describeDecision(output: unknown): "approved" | "rejected" | null {
+  if (output === undefined) return null;
+  if (output === APPROVAL.NO || (typeof output === "object" && output !== null && (output as { approval?: string }).approval === APPROVAL.NO)) {
+    return "rejected";
+  }
+  if (typeof output === "string" && /^Error: The user (rejected|did not approve)/.test(output)) {
+    return "rejected";
+  }
+  return "approved";
+}
+
+const DIFF_STYLES: Record<DiffLine["kind"], { sign: string; className: string }> = {
+  removed: { sign: "−", className: "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200" },
+  added: { sign: "+", className: "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200" },
+  missing: { sign: "?", className: "bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200" }
+};
+
 interface ToolInvocationCardProps {
   toolUIPart: ToolUIPart;
   toolCallId: string;
   needsConfirmation: boolean;
+  // Current itinerary, used to show what an edit would change
+  itinerary?: DiffItinerary | null;
   onSubmit: ({
     toolCallId,
     result
   }: {
     toolCallId: string;
-    result: string;
+    result: ApprovalDecision;
   }) => void;
-  addToolResult: (toolCallId: string, result: string) => void;
 }
 
 export function ToolInvocationCard({
   toolUIPart,
   toolCallId,
   needsConfirmation,
+  itinerary = null,
   onSubmit
-  // addToolResult
 }: ToolInvocationCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const diff = buildDiff(toolUIPart, itinerary);
+  const decision = toolUIPart.state === "output-available" ? describeDecision(toolUIPart.output) : null;
+  const isPending = needsConfirmation && toolUIPart.state === "input-available";
+
+  const submitRejection = () => {
+    const trimmed = reason.trim();
+    onSubmit({
+      toolCallId,
+      result: trimmed ? { approval: APPROVAL.NO, reason: trimmed } : APPROVAL.NO
+    });
+    setIsRejecting(false);
+  };
 
   return (
     <Card className="p-4 my-3 w-full max-w-[500px] rounded-md bg-neutral-100 dark:bg-neutral-900 overflow-hidden">
@@ -56,7 +154,16 @@ export function ToolInvocationCard({
           <Robot size={16} className="text-[#F48120]" />
         </div>
         <h4 className="font-medium flex items-center gap-2 flex-1 text-left">
-          {toolUIPart.type}
+          {diff ? "Proposed itinerary change" : toolUIPart.type}
+          {isPending && (
+            <span className="text-xs text-[#F48120]">Waiting for your approval</span>
+          )}
+          {decision === "approved" && (
+            <span className="text-xs text-green-600 dark:text-green-400">✓ Approved</span>
+          )}
+          {decision === "rejected" && (
+            <span className="text-xs text-red-600 dark:text-red-400">✕ Rejected</span>
+          )}
           {!needsConfirmation && toolUIPart.state === "output-available" && (
             <span className="text-xs text-[#F48120]/70">✓ Completed</span>
           )}
@@ -68,37 +175,82 @@ export function ToolInvocationCard({
       </button>
 
       <div
-        className={`transition-all duration-200 ${isExpanded ? "max-h-[200px] opacity-100 mt-3" : "max-h-0 opacity-0 overflow-hidden"}`}
+        className={`transition-all duration-200 ${isExpanded ? "max-h-[320px] opacity-100 mt-3" : "max-h-0 opacity-0 overflow-hidden"}`}
       >
         <div
           className="overflow-y-auto"
-          style={{ maxHeight: isExpanded ? "180px" : "0px" }}
+          style={{ maxHeight: isExpanded ? "300px" : "0px" }}
         >
-          <div className="mb-3">
-            <h5 className="text-xs font-medium mb-1 text-muted-foreground">
-              Arguments:
-            </h5>
-            <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px]">
-              {JSON.stringify(toolUIPart.input, null, 2)}
-            </pre>
-          </div>
-
-          {needsConfirmation && toolUIPart.state === "input-available" && (
+          {diff ? (
+            <ul className="mb-3 space-y-1 font-mono text-xs">
+              {diff.map((line) => (
+                <li key={`${line.kind}:${line.activity?.id ?? line.activity?.title ?? line.text}`} className={`flex gap-2 p-2 rounded-md ${DIFF_STYLES[line.kind].className}`}>
+                  <span className="font-bold">{DIFF_STYLES[line.kind].sign}</span>
+                  {line.activity ? (
+                    <span>
+                      {line.dayNumber !== undefined && `Day ${line.dayNumber} · `}
+                      {line.activity.startTime}
+                      {line.activity.endTime ? `–${line.activity.endTime}` : ""} {line.activity.title}
+                      {line.activity.location ? ` (${line.activity.location})` : ""}
+                    </span>
+                  ) : (
+                    <span>{line.text}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="mb-3">
+              <h5 className="text-xs font-medium mb-1 text-muted-foreground">
+                Arguments:
+              </h5>
+              <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px]">
+                {JSON.stringify(toolUIPart.input, null, 2)}
+              </pre>
+            </div>
+          )}
+
+          {isPending && isRejecting && (
+            <div className="mb-2 space-y-2">
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why not? The assistant will use this to suggest something else (optional)"
+                rows={2}
+                className="w-full p-2 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              />
+            </div>
+          )}
+
+          {isPending && (
             <div className="flex gap-2 justify-end">
-              <Button
-                variant="primary"
-                size="sm"
-                onClick={() => onSubmit({ toolCallId, result: APPROVAL.NO })}
-              >
-                Reject
-              </Button>
-              <Button
-                variant="primary"
-                size="sm"
-                onClick={() => onSubmit({ toolCallId, result: APPROVAL.YES })}
-              >
-                Approve
-              </Button>
+              {isRejecting ? (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => setIsRejecting(false)}>
+                    Cancel
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={submitRejection}>
+                    Send rejection
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsRejecting(true)}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={() => onSubmit({ toolCallId, result: APPROVAL.YES })}
+                  >
+                    Approve
+                  </Button>
+                </>
+              )}
             </div>
           )}
 
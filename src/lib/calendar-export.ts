@@ -1,7 +1,10 @@
 /**
  * Calendar export utilities for generating iCal files
  * Compatible with Google Calendar, Apple Calendar, Outlook, etc.
+ * Activity times are wall-clock times at the destination: events carry the
+ * itinerary's TZID, or stay floating when the itinerary has no timezone
  */
+import { getTimeZoneOffsetMinutes, isValidTimeZone } from './timezone';
 
 interface Activity {
   id: string;
@@ -17,37 +20,180 @@ interface Activity {
 interface Day {
   date: string;
   dayNumber: number;
+  stopId?: string;
   activities: Activity[];
 }
 
+interface Stop {
+  id: string;
+  city: string;
+  timezone?: string;
+}
+
+interface Leg {
+  id: string;
+  fromStopId: string;
+  toStopId: string;
+  mode: string;
+  date: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  durationMinutes?: number;
+  notes?: string;
+}
+
 interface Itinerary {
   id: string;
   title: string;
   destination: string;
   startDate: string;
   endDate: string;
+  timezone?: string;
+  stops?: Stop[];
+  legs?: Leg[];
   days: Day[];
 }
 
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  minutes: number; // Minutes since local midnight
+}
+
+interface Transition {
+  at: number; // UTC milliseconds
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Format date for iCal format (YYYYMMDDTHHMMSSZ)
+ * Parse an activity date and HH:MM time as destination wall-clock time
+ * No Date objects are involved so the browser's own zone never leaks in
  */
-function formatICalDate(date: string, time?: string): string {
-  const dateObj = new Date(date);
-  
-  if (time) {
-    const [hours, minutes] = time.split(':');
-    dateObj.setHours(parseInt(hours, 10), parseInt(minutes, 10), 0, 0);
+function toLocalDateTime(date: string, time?: string): LocalDateTime {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  const [hours, minutes] = (time || '00:00').split(':').map((part) => parseInt(part, 10) || 0);
+  return { year, month, day, minutes: hours * 60 + minutes };
+}
+
+/**
+ * Move a local date-time by whole minutes, rolling over into the next days
+ */
+function addLocalMinutes(value: LocalDateTime, minutes: number): LocalDateTime {
+  const shifted = new Date(Date.UTC(value.year, value.month - 1, value.day, 0, value.minutes + minutes));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+  };
+}
+
+/**
+ * Format a local date-time for iCal (YYYYMMDDTHHMMSS, no Z: paired with TZID or floating)
+ */
+function formatICalLocal(value: LocalDateTime): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.year}${pad(value.month)}${pad(value.day)}T${pad(Math.floor(value.minutes / 60))}${pad(value.minutes % 60)}00`;
+}
+
+/**
+ * Format an instant in UTC for iCal (YYYYMMDDTHHMMSSZ)
+ */
+function formatICalUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+/**
+ * Start and end of an activity; no end time means one hour, and an end
+ * before the start means the activity runs past midnight
+ */
+function getActivityRange(activity: Activity, date: string): { start: LocalDateTime; end: LocalDateTime } {
+  const start = toLocalDateTime(date, activity.startTime);
+  if (!activity.endTime) {
+    return { start, end: addLocalMinutes(start, 60) };
   }
-  
-  const year = dateObj.getFullYear();
-  const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-  const day = String(dateObj.getDate()).padStart(2, '0');
-  const hours = String(dateObj.getHours()).padStart(2, '0');
-  const mins = String(dateObj.getMinutes()).padStart(2, '0');
-  const secs = String(dateObj.getSeconds()).padStart(2, '0');
-  
-  return `${year}${month}${day}T${hours}${mins}${secs}Z`;
+
+  const end = toLocalDateTime(date, activity.endTime);
+  return { start, end: end.minutes <= start.minutes ? addLocalMinutes(end, 24 * 60) : end };
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Find the zone's UTC offset changes in the given years
+ * Scans day by day, then narrows each change down to the minute
+ */
+function findTransitions(timeZone: string, fromYear: number, toYear: number): Transition[] {
+  const transitions: Transition[] = [];
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let previous = Date.UTC(fromYear, 0, 1);
+  let previousOffset = getTimeZoneOffsetMinutes(timeZone, new Date(previous));
+
+  for (let at = previous + DAY_MS; at <= end; at += DAY_MS) {
+    const offset = getTimeZoneOffsetMinutes(timeZone, new Date(at));
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = at;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffsetMinutes(timeZone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: high, offsetFrom: previousOffset, offsetTo: offset });
+    }
+    previous = at;
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Build the VTIMEZONE block for the years the trip spans
+ * Each offset change becomes a STANDARD or DAYLIGHT observance whose
+ * DTSTART is the local time just before the change, as RFC 5545 expects
+ */
+function buildVTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const initialOffset = getTimeZoneOffsetMinutes(timeZone, new Date(Date.UTC(fromYear, 0, 1)));
+  const transitions = findTransitions(timeZone, fromYear, toYear);
+  const standardOffset = Math.min(initialOffset, ...transitions.map((transition) => transition.offsetTo));
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  const initialKind = initialOffset > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+  lines.push(
+    `BEGIN:${initialKind}`,
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatOffset(initialOffset)}`,
+    `END:${initialKind}`
+  );
+
+  for (const transition of transitions) {
+    const kind = transition.offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    const localBefore = new Date(transition.at + transition.offsetFrom * 60000);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatICalUtc(localBefore).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
 }
 
 /**
@@ -72,9 +218,16 @@ function generateUID(activityId: string): string {
  * Export itinerary to iCal format
  */
 export function exportToICalendar(itinerary: Itinerary): string {
-  const now = new Date();
-  const timestamp = formatICalDate(now.toISOString());
-  
+  const timestamp = formatICalUtc(new Date());
+  const validZone = (timeZone?: string) => (timeZone && isValidTimeZone(timeZone) ? timeZone : null);
+  const tripZone = validZone(itinerary.timezone);
+  const stops = itinerary.stops || [];
+
+  // Multi-city trips use each stop's zone for the days spent there
+  const getStopZone = (stopId?: string) => validZone(stops.find((stop) => stop.id === stopId)?.timezone) ?? tripZone;
+  const formatDateProperty = (name: string, value: LocalDateTime, timeZone: string | null) =>
+    timeZone ? `${name};TZID=${timeZone}:${formatICalLocal(value)}` : `${name}:${formatICalLocal(value)}`;
+
   let icalContent = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
@@ -82,25 +235,64 @@ export function exportToICalendar(itinerary: Itinerary): string {
     'CALSCALE:GREGORIAN',
     'METHOD:PUBLISH',
     `X-WR-CALNAME:${escapeICalText(itinerary.title)}`,
-    'X-WR-TIMEZONE:UTC',
     `X-WR-CALDESC:${escapeICalText(`Travel itinerary for ${itinerary.destination}`)}`
   ];
 
+  const zones = new Set<string>();
+  if (tripZone) zones.add(tripZone);
+  for (const stop of stops) {
+    const stopZone = validZone(stop.timezone);
+    if (stopZone) zones.add(stopZone);
+  }
+
+  if (zones.size > 0) {
+    const years = itinerary.days.map((day) => parseInt(day.date.slice(0, 4), 10)).filter(Number.isFinite);
+    const fromYear = years.length ? Math.min(...years) : new Date().getUTCFullYear();
+    const toYear = years.length ? Math.max(...years) : fromYear;
+    icalContent.push(`X-WR-TIMEZONE:${tripZone ?? [...zones][0]}`);
+    for (const timeZone of zones) {
+      icalContent.push(...buildVTimezone(timeZone, fromYear, toYear));
+    }
+  }
+
+  // Inter-city legs with a known departure time; arrival is local to the destination stop
+  for (const leg of itinerary.legs || []) {
+    if (!leg.departureTime) continue;
+
+    const from = stops.find((stop) => stop.id === leg.fromStopId);
+    const to = stops.find((stop) => stop.id === leg.toStopId);
+    const start = toLocalDateTime(leg.date, leg.departureTime);
+    const startZone = getStopZone(leg.fromStopId);
+    const endZone = leg.arrivalTime ? getStopZone(leg.toStopId) : startZone;
+    let end = leg.arrivalTime
+      ? toLocalDateTime(leg.date, leg.arrivalTime)
+      : addLocalMinutes(start, leg.durationMinutes || 60);
+    if (endZone === startZone && end.minutes <= start.minutes && leg.arrivalTime) {
+      end = addLocalMinutes(end, 24 * 60); // Overnight leg
+    }
+    const title = `${leg.mode.charAt(0)}${leg.mode.slice(1).toLowerCase()} ${from?.city ?? ''} → ${to?.city ?? ''}`;
+
+    icalContent.push(
+      'BEGIN:VEVENT',
+      `UID:${generateUID(leg.id)}`,
+      `DTSTAMP:${timestamp}`,
+      formatDateProperty('DTSTART', start, startZone),
+      formatDateProperty('DTEND', end, endZone),
+      `SUMMARY:${escapeICalText(title)}`,
+      `DESCRIPTION:${escapeICalText(leg.notes || '')}`,
+      `LOCATION:${escapeICalText(from?.city ?? '')}`,
+      'CATEGORIES:TRANSPORTATION',
+      'STATUS:CONFIRMED',
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    );
+  }
+
   // Add each activity as an event
   for (const day of itinerary.days) {
+    const dayZone = getStopZone(day.stopId);
     for (const activity of day.activities) {
-      const startDateTime = formatICalDate(day.date, activity.startTime);
-      
-      // If no end time, assume 1 hour duration
-      let endDateTime: string;
-      if (activity.endTime) {
-        endDateTime = formatICalDate(day.date, activity.endTime);
-      } else {
-        const startDate = new Date(day.date);
-        const [hours, minutes] = activity.startTime.split(':');
-        startDate.setHours(parseInt(hours, 10) + 1, parseInt(minutes, 10), 0, 0);
-        endDateTime = formatICalDate(startDate.toISOString());
-      }
+      const { start, end } = getActivityRange(activity, day.date);
 
       // Build description with tips
       let description = escapeICalText(activity.description);
@@ -112,8 +304,8 @@ export function exportToICalendar(itinerary: Itinerary): string {
         'BEGIN:VEVENT',
         `UID:${generateUID(activity.id)}`,
         `DTSTAMP:${timestamp}`,
-        `DTSTART:${startDateTime}`,
-        `DTEND:${endDateTime}`,
+        formatDateProperty('DTSTART', start, dayZone),
+        formatDateProperty('DTEND', end, dayZone),
         `SUMMARY:${escapeICalText(activity.title)}`,
         `DESCRIPTION:${description}`,
         `LOCATION:${escapeICalText(activity.location)}`,
@@ -150,34 +342,24 @@ export function downloadICalFile(itinerary: Itinerary): void {
 
 /**
  * Generate Google Calendar URL
+ * Dates are sent as destination wall-clock times with the zone in ctz
  */
-export function getGoogleCalendarUrl(activity: Activity, date: string): string {
-  const startDate = new Date(date);
-  const [hours, minutes] = activity.startTime.split(':');
-  startDate.setHours(parseInt(hours, 10), parseInt(minutes, 10), 0, 0);
-  
-  let endDate: Date;
-  if (activity.endTime) {
-    endDate = new Date(date);
-    const [endHours, endMinutes] = activity.endTime.split(':');
-    endDate.setHours(parseInt(endHours, 10), parseInt(endMinutes, 10), 0, 0);
-  } else {
-    endDate = new Date(startDate.getTime() + 60 * 60 * 1000); // +1 hour
-  }
-
-  const formatGoogleDate = (d: Date) => {
-    return d.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  };
+export function getGoogleCalendarUrl(activity: Activity, date: string, timeZone?: string): string {
+  const { start, end } = getActivityRange(activity, date);
 
   const params = new URLSearchParams({
     action: 'TEMPLATE',
     text: activity.title,
-    dates: `${formatGoogleDate(startDate)}/${formatGoogleDate(endDate)}`,
+    dates: `${formatICalLocal(start)}/${formatICalLocal(end)}`,
     details: activity.description + (activity.tips ? '\n\nTips:\n' + activity.tips.join('\n') : ''),
     location: activity.location,
     trp: 'false'
   });
 
+  if (timeZone && isValidTimeZone(timeZone)) {
+    params.set('ctz', timeZone);
+  }
+
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
 }
 
@@ -193,7 +375,8 @@ export function addAllToGoogleCalendar(itinerary: Itinerary): void {
 
   for (const day of itinerary.days) {
     for (const activity of day.activities) {
-      const url = getGoogleCalendarUrl(activity, day.date);
+      const stopZone = itinerary.stops?.find((stop) => stop.id === day.stopId)?.timezone;
+      const url = getGoogleCalendarUrl(activity, day.date, stopZone || itinerary.timezone);
       window.open(url, '_blank');
     }
   }
@@ -0,0 +1,36 @@
+/**
+ * Display-side money helpers
+ * Conversions use the rates snapshot stored on the itinerary (units per 1 USD)
+ */
+
+export interface ExchangeRateSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  asOf: string;
+  source: string;
+}
+
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  snapshot?: ExchangeRateSnapshot
+): number {
+  if (from === to) return amount;
+  const fromRate = snapshot?.rates[from];
+  const toRate = snapshot?.rates[to];
+  if (!fromRate || !toRate) return amount;
+  return (amount / fromRate) * toRate;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: amount >= 100 ? 0 : 2
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
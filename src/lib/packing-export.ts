@@ -0,0 +1,99 @@
+/**
+ * Packing list export as a Markdown checklist
+ * Opens in any text editor and renders as ticked boxes on GitHub, Notion, Obsidian, etc.
+ */
+
+export interface PackingItem {
+  id: string;
+  name: string;
+  category: string;
+  quantity: number;
+  perTraveler: boolean;
+  reason: string;
+  packed: boolean;
+}
+
+export interface PackingList {
+  generatedAt: string;
+  weatherSummary?: string;
+  items: PackingItem[];
+}
+
+interface Itinerary {
+  title: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  travelers: number;
+  packingList?: PackingList;
+}
+
+export const PACKING_CATEGORY_LABELS: Record<string, string> = {
+  DOCUMENTS: 'Documents & money',
+  CLOTHING: 'Clothing',
+  FOOTWEAR: 'Footwear',
+  TOILETRIES: 'Toiletries',
+  HEALTH: 'Health',
+  ELECTRONICS: 'Electronics',
+  GEAR: 'Gear'
+};
+
+export function formatPackingQuantity(item: PackingItem, travelers: number): string {
+  if (item.quantity <= 1 && !(item.perTraveler && travelers > 1)) return '';
+  return item.perTraveler && travelers > 1 ? `${item.quantity} each` : `×${item.quantity}`;
+}
+
+/**
+ * Group items by category, in the order of PACKING_CATEGORY_LABELS
+ */
+export function groupPackingItems(items: PackingItem[]): Array<{ category: string; items: PackingItem[] }> {
+  const order = Object.keys(PACKING_CATEGORY_LABELS);
+  const categories = [...new Set(items.map(item => item.category))]
+    .sort((a, b) => (order.indexOf(a) + 1 || order.length + 1) - (order.indexOf(b) + 1 || order.length + 1));
+
+  return categories.map(category => ({
+    category,
+    items: items.filter(item => item.category === category)
+  }));
+}
+
+export function exportPackingListMarkdown(itinerary: Itinerary): string {
+  const list = itinerary.packingList;
+  const lines = [
+    `# Packing list: ${itinerary.title}`,
+    '',
+    `${itinerary.destination}, ${itinerary.startDate} to ${itinerary.endDate}, ${itinerary.travelers} traveler${itinerary.travelers === 1 ? '' : 's'}`
+  ];
+
+  if (list?.weatherSummary) {
+    lines.push(`Weather: ${list.weatherSummary}`);
+  }
+
+  for (const group of groupPackingItems(list?.items || [])) {
+    lines.push('', `## ${PACKING_CATEGORY_LABELS[group.category] || group.category}`, '');
+    for (const item of group.items) {
+      const quantity = formatPackingQuantity(item, itinerary.travelers);
+      lines.push(`- [${item.packed ? 'x' : ' '}] ${item.name}${quantity ? ` (${quantity})` : ''} - ${item.reason}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Download the packing list as a .md file
+ */
+export function downloadPackingList(itinerary: Itinerary): void {
+  const content = exportPackingListMarkdown(itinerary);
+  const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${itinerary.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_packing_list.md`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,69 @@
+/**
+ * IANA timezone helpers built on Intl
+ * Used to show the destination's local time and to describe zones in calendar exports
+ */
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getParts(timeZone: string, date: Date): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (Paris in summer: 120)
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, date: Date): number {
+  const parts = getParts(timeZone, date);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * Wall-clock date and time in the zone at the given instant
+ */
+export function getZonedDateTime(timeZone: string, date: Date = new Date()): ZonedDateTime {
+  const parts = getParts(timeZone, date);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`
+  };
+}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useSession } from '@/lib/auth-client';
+import AIOrb from '@/components/ui/AIOrb';
+
+type TravelPace = 'relaxed' | 'moderate' | 'packed';
+type AccommodationType = 'hotel' | 'hostel' | 'apartment' | 'luxury' | 'budget';
+
+interface TravelerProfile {
+  homeCity?: string;
+  dietaryRestrictions: string[];
+  mobilityNeeds?: string;
+  pace?: TravelPace;
+  usualBudget?: { amount: number; currency: string; per: 'trip' | 'day' };
+  loyaltyPrograms: string[];
+  travelers?: number;
+  accommodationType?: AccommodationType;
+  interests: string[];
+  updatedAt?: string;
+}
+
+// Body of GET, PUT and DELETE /api/profile
+type ProfileResponse = { success: true; profile: TravelerProfile } | { success: false; error: string };
+
+// Lists are edited as comma-separated text
+interface ProfileForm {
+  homeCity: string;
+  dietaryRestrictions: string;
+  mobilityNeeds: string;
+  pace: TravelPace | '';
+  budgetAmount: string;
+  budgetCurrency: string;
+  budgetPer: 'trip' | 'day';
+  loyaltyPrograms: string;
+  travelers: string;
+  accommodationType: AccommodationType | '';
+  interests: string;
+}
+
+const toForm = (profile: TravelerProfile): ProfileForm => ({
+  homeCity: profile.homeCity ?? '',
+  dietaryRestrictions: profile.dietaryRestrictions.join(', '),
+  mobilityNeeds: profile.mobilityNeeds ?? '',
+  pace: profile.pace ?? '',
+  budgetAmount: profile.usualBudget ? String(profile.usualBudget.amount) : '',
+  budgetCurrency: profile.usualBudget?.currency ?? 'USD',
+  budgetPer: profile.usualBudget?.per ?? 'day',
+  loyaltyPrograms: profile.loyaltyPrograms.join(', '),
+  travelers: profile.travelers ? String(profile.travelers) : '',
+  accommodationType: profile.accommodationType ?? '',
+  interests: profile.interests.join(', ')
+});
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const toProfile = (form: ProfileForm) => ({
+  homeCity: form.homeCity,
+  dietaryRestrictions: splitList(form.dietaryRestrictions),
+  mobilityNeeds: form.mobilityNeeds,
+  pace: form.pace || undefined,
+  usualBudget: form.budgetAmount
+    ? { amount: Number(form.budgetAmount), currency: form.budgetCurrency, per: form.budgetPer }
+    : undefined,
+  loyaltyPrograms: splitList(form.loyaltyPrograms),
+  travelers: form.travelers ? Number(form.travelers) : undefined,
+  accommodationType: form.accommodationType || undefined,
+  interests: splitList(form.interests)
+});
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+const hintClass = 'text-xs text-gray-500 mt-1';
+
+export default function Settings() {
+  const { data: session, isPending } = useSession();
+  const token = session?.session?.token;
+
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/profile', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json() as ProfileResponse;
+        if (!data.success) throw new Error(data.error);
+        setForm(toForm(data.profile));
+        setUpdatedAt(data.profile.updatedAt);
+      } catch (error) {
+        console.error('Error loading profile:', error);
+        setStatus({ type: 'error', message: 'Failed to load your traveler profile' });
+      }
+    };
+
+    loadProfile();
+  }, [token]);
+
+  const update = <K extends keyof ProfileForm>(field: K, value: ProfileForm[K]) => {
+    setForm((current) => (current ? { ...current, [field]: value } : current));
+    setStatus(null);
+  };
+
+  const sendProfile = async (method: 'PUT' | 'DELETE') => {
+    if (!token || !form) return;
+    setIsSaving(true);
+    setStatus(null);
+
+    try {
+      const response = await fetch('/api/profile', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: method === 'PUT' ? JSON.stringify(toProfile(form)) : undefined
+      });
+      const data = await response.json() as ProfileResponse;
+      if (!data.success) {
+        setStatus({ type: 'error', message: data.error });
+        return;
+      }
+
+      setForm(toForm(data.profile));
+      setUpdatedAt(data.profile.updatedAt);
+      setStatus({
+        type: 'success',
+        message: method === 'PUT' ? 'Profile saved. New messages will use it.' : 'Profile cleared.'
+      });
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      setStatus({ type: 'error', message: 'Failed to save your traveler profile' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isPending || (token && !form && !status)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <AIOrb size="60px" animationDuration={10} />
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="max-w-md w-full text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Sign in required</h1>
+          <p className="text-gray-600 mb-6">Sign in to edit your traveler profile.</p>
+          <Link
+            to="/"
+            className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Back to AItinerary
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="max-w-3xl mx-auto flex items-center gap-4">
+          <Link
+            to="/"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to chat"
+          >
+            ←
+          </Link>
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Traveler profile</h1>
+            <p className="text-sm text-gray-600">
+              The assistant uses it as the starting point for every new trip
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      {!form && status && (
+        <div className="max-w-3xl mx-auto p-6">
+          <div className="text-sm px-4 py-3 rounded-lg bg-red-50 text-red-800">{status.message}</div>
+        </div>
+      )}
+
+      {form && (
+        <form
+          className="max-w-3xl mx-auto p-6 space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            sendProfile('PUT');
+          }}
+        >
+          <section className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+            <h2 className="font-semibold text-gray-900">About you</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="homeCity" className={labelClass}>Home city</label>
+                <input id="homeCity" className={inputClass} value={form.homeCity} placeholder="Madrid"
+                  onChange={(e) => update('homeCity', e.target.value)} />
+                <p className={hintClass}>Used as the origin when searching flights and trains</p>
+              </div>
+              <div>
+                <label htmlFor="travelers" className={labelClass}>Usually traveling as</label>
+                <input id="travelers" type="number" min={1} max={20} className={inputClass} value={form.travelers}
+                  placeholder="2" onChange={(e) => update('travelers', e.target.value)} />
+                <p className={hintClass}>Number of travelers, yourself included</p>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="dietaryRestrictions" className={labelClass}>Dietary restrictions</label>
+              <input id="dietaryRestrictions" className={inputClass} value={form.dietaryRestrictions}
+                placeholder="vegetarian, nut allergy" onChange={(e) => update('dietaryRestrictions', e.target.value)} />
+              <p className={hintClass}>Separate with commas</p>
+            </div>
+            <div>
+              <label htmlFor="mobilityNeeds" className={labelClass}>Mobility needs</label>
+              <textarea id="mobilityNeeds" rows={2} className={inputClass} value={form.mobilityNeeds}
+                placeholder="No long walks, needs step-free access"
+                onChange={(e) => update('mobilityNeeds', e.target.value)} />
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+            <h2 className="font-semibold text-gray-900">Travel style</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="pace" className={labelClass}>Preferred pace</label>
+                <select id="pace" className={inputClass} value={form.pace}
+                  onChange={(e) => update('pace', e.target.value as ProfileForm['pace'])}>
+                  <option value="">No preference</option>
+                  <option value="relaxed">Relaxed (2-3 activities a day)</option>
+                  <option value="moderate">Moderate (3-4 activities a day)</option>
+                  <option value="packed">Packed (5+ activities a day)</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="accommodationType" className={labelClass}>Accommodation</label>
+                <select id="accommodationType" className={inputClass} value={form.accommodationType}
+                  onChange={(e) => update('accommodationType', e.target.value as ProfileForm['accommodationType'])}>
+                  <option value="">No preference</option>
+                  <option value="hotel">Hotel</option>
+                  <option value="hostel">Hostel</option>
+                  <option value="apartment">Apartment</option>
+                  <option value="luxury">Luxury</option>
+                  <option value="budget">Budget</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="interests" className={labelClass}>Interests</label>
+              <input id="interests" className={inputClass} value={form.interests}
+                placeholder="food, museums, hiking" onChange={(e) => update('interests', e.target.value)} />
+              <p className={hintClass}>Separate with commas</p>
+            </div>
+            <div>
+              <span className={labelClass}>Usual budget</span>
+              <div className="flex gap-2">
+                <input aria-label="Budget amount" type="number" min={0} step="any" className={inputClass}
+                  value={form.budgetAmount} placeholder="150" onChange={(e) => update('budgetAmount', e.target.value)} />
+                <input aria-label="Budget currency" maxLength={3} className={`${inputClass} w-24 uppercase`}
+                  value={form.budgetCurrency} onChange={(e) => update('budgetCurrency', e.target.value.toUpperCase())} />
+                <select aria-label="Budget period" className={`${inputClass} w-36`} value={form.budgetPer}
+                  onChange={(e) => update('budgetPer', e.target.value as ProfileForm['budgetPer'])}>
+                  <option value="day">per day</option>
+                  <option value="trip">per trip</option>
+                </select>
+              </div>
+              <p className={hintClass}>Leave the amount empty for no usual budget</p>
+            </div>
+            <div>
+              <label htmlFor="loyaltyPrograms" className={labelClass}>Loyalty programs</label>
+              <input id="loyaltyPrograms" className={inputClass} value={form.loyaltyPrograms}
+                placeholder="Star Alliance Gold, Marriott Bonvoy" onChange={(e) => update('loyaltyPrograms', e.target.value)} />
+              <p className={hintClass}>Program names only, don't enter member numbers</p>
+            </div>
+          </section>
+
+          {status && (
+            <div className={`text-sm px-4 py-3 rounded-lg ${
+              status.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+            }`}>
+              {status.message}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              {updatedAt ? `Last saved ${new Date(updatedAt).toLocaleString()}` : 'Not saved yet'}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => sendProfile('DELETE')}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-60"
+              >
+                Clear profile
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
+              >
+                {isSaving ? 'Saving...' : 'Save profile'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
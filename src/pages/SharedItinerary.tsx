@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { ItineraryDisplay } from '@/components/itinerary/ItineraryDisplay';
+import { PackingListPanel } from '@/components/itinerary/PackingListPanel';
 import { downloadICalFile } from '@/lib/calendar-export';
 import AIOrb from '@/components/ui/AIOrb';
 import { AnimatedShinyText } from '@/components/ui/AnimatedShinyText';
@@ -106,17 +107,20 @@ export default function SharedItinerary() {
       {/* Content */}
       <div className="max-w-4xl mx-auto p-6">
         {itinerary ? (
-          <ItineraryDisplay
-            data={typeof itinerary === 'string' ? itinerary : JSON.stringify(itinerary)}
-            onActivityClick={() => {}}
-            onSave={() => {}}
-            onShare={() => {}}
-            onExportCalendar={() => {
-              if (itinerary) {
-                downloadICalFile(itinerary);
-              }
-            }}
-          />
+          <>
+            <ItineraryDisplay
+              data={typeof itinerary === 'string' ? itinerary : JSON.stringify(itinerary)}
+              onActivityClick={() => {}}
+              onSave={() => {}}
+              onShare={() => {}}
+              onExportCalendar={() => {
+                if (itinerary) {
+                  downloadICalFile(itinerary);
+                }
+              }}
+            />
+            <PackingListPanel itinerary={typeof itinerary === 'string' ? JSON.parse(itinerary) : itinerary} />
+          </>
         ) : (
           <div className="text-center py-12">
             <h3 className="text-lg font-medium text-gray-900 mb-2">
@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useSession } from '@/lib/auth-client';
+import AIOrb from '@/components/ui/AIOrb';
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  toolCalls: number;
+  costUsd: number;
+  unpricedRequests: number;
+}
+
+interface UsageQuotaStatus {
+  month: string;
+  resetsAt: string;
+  tokens: { used: number; limit: number | null };
+  costUsd: { used: number; limit: number | null };
+  exceeded: boolean;
+}
+
+interface UsageSummary {
+  month: string;
+  totals: UsageTotals;
+  quota: UsageQuotaStatus;
+  byConversation: Array<{ conversationId: string; title: string | null; requests: number; totalTokens: number; costUsd: number }>;
+  byModel: Array<{ model: string; requests: number; inputTokens: number; outputTokens: number; costUsd: number }>;
+  byDay: Array<{ date: string; totalTokens: number; costUsd: number }>;
+  tools: Array<{ name: string; calls: number }>;
+}
+
+type UsageResponse = { success: true; usage: UsageSummary } | { success: false; error: string };
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+// Month arithmetic in UTC, like the server's accounting
+const shiftMonth = (month: string, delta: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + delta, 1)).toISOString().slice(0, 7);
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+function QuotaBar({ label, used, limit, format }: { label: string; used: number; limit: number | null; format: (value: number) => string }) {
+  const ratio = limit ? Math.min(used / limit, 1) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">{label}</span>
+        <span className="text-gray-900 font-medium">
+          {format(used)}{limit !== null ? ` of ${format(limit)}` : ''}
+        </span>
+      </div>
+      {limit !== null ? (
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-600'}`}
+            style={{ width: `${ratio * 100}%` }}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No limit</p>
+      )}
+    </div>
+  );
+}
+
+export default function Usage() {
+  const { data: session, isPending } = useSession();
+  const token = session?.session?.token;
+
+  const [month, setMonth] = useState(currentMonth);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadUsage = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/usage?month=${month}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json() as UsageResponse;
+        if (!data.success) throw new Error(data.error);
+        setUsage(data.usage);
+      } catch (error) {
+        console.error('Error loading usage:', error);
+        setError('Failed to load your usage');
+      }
+    };
+
+    loadUsage();
+  }, [token, month]);
+
+  if (isPending || (token && !usage && !error)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <AIOrb size="60px" animationDuration={10} />
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="max-w-md w-full text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Sign in required</h1>
+          <p className="text-gray-600 mb-6">Sign in to see your usage.</p>
+          <Link
+            to="/"
+            className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Back to AItinerary
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const maxDayTokens = Math.max(1, ...(usage?.byDay.map((day) => day.totalTokens) ?? []));
+  const isCurrentMonth = month === currentMonth();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="max-w-3xl mx-auto flex items-center gap-4">
+          <Link
+            to="/"
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Back to chat"
+          >
+            ←
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-lg font-semibold text-gray-900">Usage</h1>
+            <p className="text-sm text-gray-600">Tokens and estimated cost of your conversations</p>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <button
+              type="button"
+              onClick={() => setMonth(shiftMonth(month, -1))}
+              className="px-2 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+              title="Previous month"
+            >
+              ‹
+            </button>
+            <span className="w-32 text-center text-gray-900">{formatMonth(month)}</span>
+            <button
+              type="button"
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              disabled={isCurrentMonth}
+              className="px-2 py-1 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-40"
+              title="Next month"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        {error && (
+          <div className="text-sm px-4 py-3 rounded-lg bg-red-50 text-red-800">{error}</div>
+        )}
+
+        {usage && (
+          <>
+            <section className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Monthly limits</h2>
+                {isCurrentMonth && (
+                  <span className="text-xs text-gray-500">
+                    Resets {new Date(usage.quota.resetsAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+              {usage.quota.exceeded && isCurrentMonth && (
+                <div className="text-sm px-4 py-3 rounded-lg bg-red-50 text-red-800">
+                  Limit reached. The assistant won't answer new messages until the limit resets.
+                </div>
+              )}
+              <QuotaBar label="Tokens" used={usage.quota.tokens.used} limit={usage.quota.tokens.limit} format={formatTokens} />
+              <QuotaBar label="Estimated cost" used={usage.quota.costUsd.used} limit={usage.quota.costUsd.limit} format={formatCost} />
+            </section>
+
+            <section className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="font-semibold text-gray-900 mb-4">Totals</h2>
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Requests</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{usage.totals.requests}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Prompt tokens</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{formatTokens(usage.totals.inputTokens)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Completion tokens</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{formatTokens(usage.totals.outputTokens)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Tool calls</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{usage.totals.toolCalls}</dd>
+                </div>
+              </dl>
+              {usage.totals.unpricedRequests > 0 && (
+                <p className="text-xs text-gray-500 mt-3">
+                  {usage.totals.unpricedRequests} requests used models without a known price and are not in the cost estimate
+                </p>
+              )}
+            </section>
+
+            {usage.byDay.length > 0 && (
+              <section className="bg-white rounded-xl border border-gray-200 p-5">
+                <h2 className="font-semibold text-gray-900 mb-4">Daily tokens</h2>
+                <div className="flex items-end gap-1 h-32">
+                  {usage.byDay.map((day) => (
+                    <div
+                      key={day.date}
+                      className="flex-1 bg-blue-500 rounded-t"
+                      style={{ height: `${(day.totalTokens / maxDayTokens) * 100}%` }}
+                      title={`${day.date}: ${formatTokens(day.totalTokens)} tokens, ${formatCost(day.costUsd)}`}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section className="bg-white rounded-xl border border-gray-200 p-5">
+              <h2 className="font-semibold text-gray-900 mb-4">Conversations</h2>
+              {usage.byConversation.length === 0 ? (
+                <p className="text-sm text-gray-500">No usage this month</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-normal pb-2">Conversation</th>
+                      <th className="font-normal pb-2 text-right">Requests</th>
+                      <th className="font-normal pb-2 text-right">Tokens</th>
+                      <th className="font-normal pb-2 text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.byConversation.map((conversation) => (
+                      <tr key={conversation.conversationId} className="border-t border-gray-100">
+                        <td className="py-2">
+                          <Link to={`/chat/${conversation.conversationId}`} className="text-blue-600 hover:underline">
+                            {conversation.title || 'Deleted conversation'}
+                          </Link>
+                        </td>
+                        <td className="py-2 text-right">{conversation.requests}</td>
+                        <td className="py-2 text-right">{formatTokens(conversation.totalTokens)}</td>
+                        <td className="py-2 text-right">{formatCost(conversation.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <section className="bg-white rounded-xl border border-gray-200 p-5">
+                <h2 className="font-semibold text-gray-900 mb-4">Models</h2>
+                <ul className="space-y-2 text-sm">
+                  {usage.byModel.map((model) => (
+                    <li key={model.model} className="flex justify-between gap-2">
+                      <span className="text-gray-700 truncate" title={model.model}>{model.model}</span>
+                      <span className="text-gray-900 whitespace-nowrap">
+                        {formatTokens(model.inputTokens + model.outputTokens)} · {formatCost(model.costUsd)}
+                      </span>
+                    </li>
+                  ))}
+                  {usage.byModel.length === 0 && <li className="text-gray-500">No usage this month</li>}
+                </ul>
+              </section>
+
+              <section className="bg-white rounded-xl border border-gray-200 p-5">
+                <h2 className="font-semibold text-gray-900 mb-4">Tools</h2>
+                <ul className="space-y-2 text-sm">
+                  {usage.tools.map((tool) => (
+                    <li key={tool.name} className="flex justify-between gap-2">
+                      <span className="text-gray-700 truncate">{tool.name}</span>
+                      <span className="text-gray-900">{tool.calls}</span>
+                    </li>
+                  ))}
+                  {usage.tools.length === 0 && <li className="text-gray-500">No tool calls this month</li>}
+                </ul>
+              </section>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
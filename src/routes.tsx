@@ -1,6 +1,8 @@
 import { createBrowserRouter } from 'react-router-dom';
 import App from './app';
 import SharedItinerary from './pages/SharedItinerary';
+import Settings from './pages/Settings';
+import Usage from './pages/Usage';
 import ErrorPage from './pages/ErrorPage';
 
 export const router = createBrowserRouter([
@@ -14,6 +16,16 @@ export const router = createBrowserRouter([
     element: <App />,
     errorElement: <ErrorPage />,
   },
+  {
+    path: '/settings',
+    element: <Settings />,
+    errorElement: <ErrorPage />,
+  },
+  {
+    path: '/usage',
+    element: <Usage />,
+    errorElement: <ErrorPage />,
+  },
   {
     path: '/share/:itineraryId',
     element: <SharedItinerary />,
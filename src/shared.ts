@@ -0,0 +1,2 @@
+// Constants shared with the server, one definition for both sides
+export * from "../server/shared";
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateDayWalking,
+  hasAccessibilityConstraints,
+  resolveAccessibilityConstraints
+} from "../server/services/accessibility";
+import { validateItinerary } from "../server/services/itinerary-validation";
+import type { AccessibilityConstraints, Activity, ActivityAccessibility, ItineraryData } from "../server/types";
+
+const LOUVRE = { lat: 48.8606, lng: 2.3376 };
+const ORSAY = { lat: 48.86, lng: 2.3266 };
+const EIFFEL_TOWER = { lat: 48.8584, lng: 2.2945 };
+
+function activity(
+  id: string,
+  startTime: string,
+  coordinates?: Activity["coordinates"],
+  accessibility?: ActivityAccessibility
+): Activity {
+  return {
+    id,
+    title: id,
+    description: id,
+    location: "Paris",
+    startTime,
+    category: "SIGHTSEEING",
+    estimatedCost: 0,
+    priority: "medium",
+    tips: [],
+    coordinates,
+    accessibility
+  };
+}
+
+function buildItinerary(activities: Activity[], accessibility: AccessibilityConstraints): ItineraryData {
+  return {
+    id: "itin_access",
+    title: "Paris",
+    destination: "Paris",
+    startDate: "2026-05-01",
+    endDate: "2026-05-01",
+    duration: "1 days",
+    travelers: 1,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    accessibility,
+    days: [{ date: "2026-05-01", dayNumber: 1, activities }],
+    summary: { totalActivities: activities.length, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+function codes(itinerary: ItineraryData) {
+  return validateItinerary(itinerary).issues.map((issue) => issue.code);
+}
+
+describe("estimateDayWalking", () => {
+  it("walks short transfers and adds the walking within activities", () => {
+    const walking = estimateDayWalking([
+      activity("act_louvre", "09:00", LOUVRE),
+      activity("act_orsay", "12:00", ORSAY, { walkingKm: 1.5 })
+    ]);
+
+    expect(walking.transfers).toHaveLength(1);
+    expect(walking.transfers[0].estimate.mode).toBe("walking");
+    expect(walking.transferKm).toBe(Math.round(walking.transfers[0].estimate.distanceKm * 10) / 10);
+    expect(walking.activityKm).toBe(1.5);
+    expect(walking.totalKm).toBe(Math.round((walking.transferKm + 1.5) * 10) / 10);
+  });
+
+  it("follows start times and skips activities without coordinates or time", () => {
+    const walking = estimateDayWalking([
+      activity("act_orsay", "12:00", ORSAY),
+      activity("act_lunch", "11:00"),
+      activity("act_louvre", "09:00", LOUVRE),
+      activity("act_vague", "afternoon", EIFFEL_TOWER)
+    ]);
+
+    expect(walking.transfers.map((transfer) => [transfer.from.id, transfer.to.id])).toEqual([["act_louvre", "act_orsay"]]);
+  });
+
+  it("counts only the walk to the stops on longer transit transfers", () => {
+    const walking = estimateDayWalking([
+      activity("act_louvre", "09:00", LOUVRE),
+      activity("act_defense", "12:00", { lat: 48.8918, lng: 2.2362 })
+    ]);
+    const [transfer] = walking.transfers;
+
+    expect(transfer.estimate.mode).not.toBe("walking");
+    expect(transfer.walkingKm).toBe(transfer.estimate.mode === "public_transport" ? 0.5 : 0);
+  });
+});
+
+describe("accessibility constraints", () => {
+  it("ignores constraints that ask for nothing", () => {
+    expect(hasAccessibilityConstraints(undefined)).toBe(false);
+    expect(hasAccessibilityConstraints({ maxWalkingKmPerDay: 0, notes: "none" })).toBe(false);
+    expect(hasAccessibilityConstraints({ maxWalkingKmPerDay: 3 })).toBe(true);
+  });
+
+  it("gives wheelchair users step-free transport and no stairs", () => {
+    expect(resolveAccessibilityConstraints({ wheelchairUser: true })).toEqual({
+      wheelchairUser: true,
+      avoidStairs: true,
+      stepFreeTransport: true
+    });
+  });
+
+  it("flags stairs, steps and unknown step-free access for wheelchair users", () => {
+    expect(codes(buildItinerary([
+      activity("act_tower", "09:00", undefined, { stairsHeavy: true, stepFree: true }),
+      activity("act_crypt", "11:00", undefined, { stepFree: false }),
+      activity("act_gallery", "13:00"),
+      activity("act_park", "15:00", undefined, { stepFree: true })
+    ], { wheelchairUser: true }))).toEqual(["STAIRS_HEAVY", "NOT_STEP_FREE", "STEP_FREE_UNKNOWN"]);
+  });
+
+  it("does not check step-free access without a constraint that needs it", () => {
+    expect(codes(buildItinerary([
+      activity("act_crypt", "11:00", undefined, { stepFree: false, stairsHeavy: true })
+    ], { maxWalkingKmPerDay: 10 }))).toEqual([]);
+  });
+
+  it("fails days over the walking limit and names the longest walk", () => {
+    const report = validateItinerary(buildItinerary([
+      activity("act_louvre", "09:00", LOUVRE),
+      activity("act_orsay", "12:00", ORSAY, { walkingKm: 4 })
+    ], { maxWalkingKmPerDay: 3 }));
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: "WALKING_OVER_LIMIT", dayNumber: 1 })
+    ]);
+    expect(report.issues[0].message).toContain('The longest walk is from "act_louvre" to "act_orsay"');
+  });
+});
@@ -0,0 +1,94 @@
+import { createUIMessageStream, readUIMessageStream, type UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import { APPROVAL } from "../server/shared";
+import { getToolsRequiringApproval } from "../server/tools";
+import { collectApprovalResults, processToolCalls } from "../server/utils";
+
+function proposal(toolCallId: string, output: unknown): UIMessage {
+  return {
+    id: `msg_${toolCallId}`,
+    role: "assistant",
+    parts: [{
+      type: "tool-removeActivity",
+      toolCallId,
+      state: "output-available",
+      input: { activityId: "act_1" },
+      output
+    }]
+  };
+}
+
+function outputOf(message: UIMessage): unknown {
+  const [part] = message.parts;
+  return "output" in part ? part.output : undefined;
+}
+
+// Run processToolCalls in a stream like the Chat agent does, counting executions
+async function process(messages: UIMessage[], resolvedResults: Map<string, unknown>) {
+  let runs = 0;
+  let processed: UIMessage[] = [];
+  const stream = createUIMessageStream({
+    execute: async ({ writer }) => {
+      processed = await processToolCalls({
+        messages,
+        dataStream: writer,
+        tools: {},
+        executions: {
+          removeActivity: async () => {
+            runs++;
+            return JSON.stringify({ success: true });
+          }
+        },
+        resolvedResults
+      });
+    }
+  });
+  for await (const _ of readUIMessageStream({ stream })) {
+    // drain
+  }
+  return { processed, runs };
+}
+
+describe("approval results", () => {
+  it("puts the result of an approved call in place of the decision", async () => {
+    const resolved = new Map<string, unknown>();
+    const { processed, runs } = await process([proposal("call_1", APPROVAL.YES)], resolved);
+
+    expect(runs).toBe(1);
+    expect(outputOf(processed[0])).toBe(JSON.stringify({ success: true }));
+    expect(resolved.get("call_1")).toBe(JSON.stringify({ success: true }));
+  });
+
+  it("does not run a call again when the client resends its decision", async () => {
+    const saved = [proposal("call_1", JSON.stringify({ success: true }))];
+    const resolved = collectApprovalResults(saved, ["removeActivity"]);
+
+    const { processed, runs } = await process([proposal("call_1", APPROVAL.YES)], resolved);
+
+    expect(runs).toBe(0);
+    expect(outputOf(processed[0])).toBe(JSON.stringify({ success: true }));
+  });
+
+  it("does not take decisions or other tools for results", () => {
+    const results = collectApprovalResults([
+      proposal("call_yes", APPROVAL.YES),
+      proposal("call_no", { approval: APPROVAL.NO, reason: "too far" }),
+      proposal("call_done", "Error: The user rejected this change. Nothing was changed.")
+    ], ["removeActivity"]);
+
+    expect([...results.keys()]).toEqual(["call_done"]);
+    expect(collectApprovalResults([proposal("call_done", "done")], ["replaceActivity"]).size).toBe(0);
+  });
+});
+
+describe("getToolsRequiringApproval", () => {
+  it("defaults to the shared list", () => {
+    expect(getToolsRequiringApproval({})).toEqual(["replaceActivity", "removeActivity", "removeMultipleActivities"]);
+  });
+
+  it("reads the configured tools and drops unknown names", () => {
+    expect(getToolsRequiringApproval({ TOOLS_REQUIRING_APPROVAL: " removeActivity, deleteEverything ,addActivity" }))
+      .toEqual(["removeActivity", "addActivity"]);
+    expect(getToolsRequiringApproval({ TOOLS_REQUIRING_APPROVAL: "" })).toEqual([]);
+  });
+});
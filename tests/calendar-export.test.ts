@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { exportToICalendar, getGoogleCalendarUrl } from "../src/lib/calendar-export";
+
+type ExportedItinerary = Parameters<typeof exportToICalendar>[0];
+
+function activity(id: string, startTime: string, endTime?: string) {
+  return { id, title: id, description: "Visit", location: "Paris", startTime, endTime, category: "sightseeing" };
+}
+
+function buildItinerary(overrides: Partial<ExportedItinerary> = {}): ExportedItinerary {
+  return {
+    id: "itin_calendar",
+    title: "Paris",
+    destination: "Paris",
+    startDate: "2026-03-28",
+    endDate: "2026-03-29",
+    timezone: "Europe/Paris",
+    days: [
+      { date: "2026-03-28", dayNumber: 1, activities: [activity("act_louvre", "10:00", "12:00")] },
+      { date: "2026-03-29", dayNumber: 2, activities: [activity("act_cabaret", "22:00", "01:00"), activity("act_walk", "18:00")] }
+    ],
+    ...overrides
+  };
+}
+
+function event(ical: string, uid: string): string[] {
+  const lines = ical.split("\r\n");
+  const start = lines.indexOf(`UID:${uid}@aitinerary.app`);
+  return lines.slice(start, lines.indexOf("END:VEVENT", start));
+}
+
+describe("exportToICalendar", () => {
+  it("describes the zone's DST changes in the trip's years", () => {
+    const ical = exportToICalendar(buildItinerary());
+
+    expect(ical).toContain([
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20260329T020000",
+      "TZOFFSETFROM:+0100",
+      "TZOFFSETTO:+0200",
+      "END:DAYLIGHT"
+    ].join("\r\n"));
+    expect(ical).toContain([
+      "BEGIN:STANDARD",
+      "DTSTART:20261025T030000",
+      "TZOFFSETFROM:+0200",
+      "TZOFFSETTO:+0100",
+      "END:STANDARD"
+    ].join("\r\n"));
+  });
+
+  it("keeps wall-clock times on both sides of the DST change", () => {
+    const ical = exportToICalendar(buildItinerary());
+
+    expect(event(ical, "act_louvre")).toContain("DTSTART;TZID=Europe/Paris:20260328T100000");
+    expect(event(ical, "act_walk")).toContain("DTSTART;TZID=Europe/Paris:20260329T180000");
+  });
+
+  it("ends an activity that wraps past midnight on the next day", () => {
+    expect(event(exportToICalendar(buildItinerary()), "act_cabaret")).toEqual(expect.arrayContaining([
+      "DTSTART;TZID=Europe/Paris:20260329T220000",
+      "DTEND;TZID=Europe/Paris:20260330T010000"
+    ]));
+  });
+
+  it("gives activities without an end time one hour", () => {
+    expect(event(exportToICalendar(buildItinerary()), "act_walk")).toContain("DTEND;TZID=Europe/Paris:20260329T190000");
+  });
+
+  it("leaves times floating without a valid timezone", () => {
+    const ical = exportToICalendar(buildItinerary({ timezone: "Not/AZone" }));
+
+    expect(ical).not.toContain("BEGIN:VTIMEZONE");
+    expect(event(ical, "act_louvre")).toContain("DTSTART:20260328T100000");
+  });
+
+  it("uses each stop's zone on multi-city trips and ends legs in the arrival zone", () => {
+    const ical = exportToICalendar(buildItinerary({
+      stops: [
+        { id: "stop_london", city: "London", timezone: "Europe/London" },
+        { id: "stop_paris", city: "Paris", timezone: "Europe/Paris" }
+      ],
+      legs: [{
+        id: "leg_eurostar",
+        fromStopId: "stop_london",
+        toStopId: "stop_paris",
+        mode: "TRAIN",
+        date: "2026-03-29",
+        departureTime: "07:01",
+        arrivalTime: "10:20"
+      }],
+      days: [
+        { date: "2026-03-28", dayNumber: 1, stopId: "stop_london", activities: [activity("act_museum", "10:00", "12:00")] },
+        { date: "2026-03-29", dayNumber: 2, stopId: "stop_paris", activities: [activity("act_louvre", "14:00", "16:00")] }
+      ]
+    }));
+
+    expect(ical.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+    expect(event(ical, "act_museum")).toContain("DTSTART;TZID=Europe/London:20260328T100000");
+    expect(event(ical, "act_louvre")).toContain("DTSTART;TZID=Europe/Paris:20260329T140000");
+    expect(event(ical, "leg_eurostar")).toEqual(expect.arrayContaining([
+      "DTSTART;TZID=Europe/London:20260329T070100",
+      "DTEND;TZID=Europe/Paris:20260329T102000",
+      "SUMMARY:Train London → Paris"
+    ]));
+  });
+});
+
+describe("getGoogleCalendarUrl", () => {
+  it("sends wall-clock times with the zone, wrapping past midnight", () => {
+    const url = new URL(getGoogleCalendarUrl(activity("act_cabaret", "22:00", "01:00"), "2026-03-29", "Europe/Paris"));
+
+    expect(url.searchParams.get("dates")).toBe("20260329T220000/20260330T010000");
+    expect(url.searchParams.get("ctz")).toBe("Europe/Paris");
+  });
+});
@@ -0,0 +1,58 @@
+import { env } from "cloudflare:test";
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it } from "vitest";
+import { listConversationMessages, persistMessages, restoreEarlierMessages } from "../server/services/chat-messages";
+
+const CONVERSATION_ID = "conv_messages";
+
+function textMessage(id: string, role: UIMessage["role"] = "user"): UIMessage {
+  return { id, role, parts: [{ type: "text", text: id }] };
+}
+
+const history = ["m1", "m2", "m3", "m4", "m5"].map((id, index) => textMessage(id, index % 2 === 0 ? "user" : "assistant"));
+
+beforeEach(async () => {
+  await env.DB.batch([
+    env.DB.prepare(
+      "INSERT INTO user (id, name, email, created_at, updated_at) VALUES ('user_messages', 'Messages', 'messages@example.com', unixepoch(), unixepoch())"
+    ),
+    env.DB.prepare("INSERT INTO chat_conversations (id, user_id, title) VALUES (?, 'user_messages', 'Lisbon')").bind(CONVERSATION_ID)
+  ]);
+});
+
+async function persistHistory(): Promise<Map<string, string>> {
+  const persisted = new Map<string, string>();
+  await persistMessages(env.DB, CONVERSATION_ID, history, persisted);
+  return persisted;
+}
+
+describe("listConversationMessages", () => {
+  it("pages backwards from the latest messages", async () => {
+    await persistHistory();
+
+    const latest = await listConversationMessages(env.DB, CONVERSATION_ID, { limit: 2 });
+    const earlier = await listConversationMessages(env.DB, CONVERSATION_ID, { before: latest.nextCursor, limit: 2 });
+    const first = await listConversationMessages(env.DB, CONVERSATION_ID, { before: earlier.nextCursor, limit: 2 });
+
+    expect(latest.messages.map((message) => message.id)).toEqual(["m4", "m5"]);
+    expect(earlier.messages.map((message) => message.id)).toEqual(["m2", "m3"]);
+    expect(first).toEqual({ messages: [history[0]], nextCursor: null });
+  });
+});
+
+describe("restoreEarlierMessages", () => {
+  it("puts the messages before the client's first page back in front", async () => {
+    const persisted = await persistHistory();
+    const sent = [...history.slice(3), textMessage("m6")];
+
+    expect(restoreEarlierMessages(sent, persisted).map((message) => message.id)).toEqual(["m1", "m2", "m3", "m4", "m5", "m6"]);
+  });
+
+  it("leaves a whole history and an edit of the first message alone", async () => {
+    const persisted = await persistHistory();
+    const edited = [textMessage("m1-edited")];
+
+    expect(restoreEarlierMessages(history.slice(0, 3), persisted)).toEqual(history.slice(0, 3));
+    expect(restoreEarlierMessages(edited, persisted)).toEqual(edited);
+  });
+});
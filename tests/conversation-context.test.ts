@@ -0,0 +1,51 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import { compactToolPayloads } from "../server/services/conversation-context";
+import type { ItineraryData } from "../server/types";
+
+function itinerary(id: string, title: string): ItineraryData {
+  return { id, title, destination: title, days: [] } as unknown as ItineraryData;
+}
+
+function toolMessage(id: string, toolName: string, output: unknown): UIMessage {
+  return {
+    id,
+    role: "assistant",
+    parts: [{ type: `tool-${toolName}`, toolCallId: `call_${id}`, state: "output-available", input: {}, output: JSON.stringify(output) }]
+  } as UIMessage;
+}
+
+function referenceIn(message: UIMessage) {
+  return JSON.parse((message.parts[0] as { output: string }).output);
+}
+
+describe("compactToolPayloads", () => {
+  const lisbon = itinerary("itin_lisbon", "Lisbon 3-Day Adventure");
+  const porto = itinerary("itin_porto", "Porto 2-Day Adventure");
+
+  it("keeps the ID and title of itineraries that are no longer current", () => {
+    const messages = [
+      toolMessage("m1", "generateCompleteItinerary", lisbon),
+      toolMessage("m2", "loadItinerary", { success: true, itinerary: porto })
+    ];
+
+    const [generated, loaded] = compactToolPayloads(messages, { version: 4, itinerary: porto }, messages.length);
+
+    expect(referenceIn(generated).itineraryRef).toEqual({ id: "itin_lisbon", title: "Lisbon 3-Day Adventure" });
+    expect(referenceIn(generated).note).not.toContain("CURRENT ITINERARY");
+    expect(referenceIn(loaded).itineraryRef).toEqual({ id: "itin_porto", title: "Porto 2-Day Adventure", version: 4 });
+    expect(referenceIn(loaded).note).toContain("CURRENT ITINERARY");
+  });
+
+  it("compacts itinerary outputs when the conversation has no current itinerary", () => {
+    const [generated] = compactToolPayloads([toolMessage("m1", "generateCompleteItinerary", lisbon)], null, 1);
+
+    expect(referenceIn(generated).itineraryRef).toEqual({ id: "itin_lisbon", title: "Lisbon 3-Day Adventure" });
+  });
+
+  it("leaves failed loads as they are", () => {
+    const failed = toolMessage("m1", "loadItinerary", { success: false, error: "Itinerary not found" });
+
+    expect(compactToolPayloads([failed], { version: 1, itinerary: lisbon }, 1)[0]).toBe(failed);
+  });
+});
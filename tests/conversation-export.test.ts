@@ -0,0 +1,158 @@
+import { env } from "cloudflare:test";
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it } from "vitest";
+import { persistMessages } from "../server/services/chat-messages";
+import { storeConversationItinerary } from "../server/services/conversation-itinerary";
+import {
+  buildConversationExport,
+  renderConversationExport,
+  renderConversationHtml,
+  renderConversationMarkdown,
+  type ExportedConversation
+} from "../server/services/conversation-export";
+import { ConversationNotFoundError } from "../server/services/conversations";
+import type { HotelResult } from "../server/services/search/types";
+import type { ItineraryData } from "../server/types";
+
+const USER_ID = "user_export";
+const CONVERSATION_ID = "conv_export";
+
+function buildItinerary(title: string): ItineraryData {
+  return {
+    id: "itin_export",
+    title,
+    destination: "Lisbon",
+    startDate: "2026-05-01",
+    endDate: "2026-05-01",
+    duration: "1 days",
+    travelers: 2,
+    totalEstimatedCost: 30,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days: [{
+      date: "2026-05-01",
+      dayNumber: 1,
+      activities: [{
+        id: "act_tram",
+        title: "Tram 28 | Alfama",
+        description: "Ride through the old town",
+        location: "Martim Moniz",
+        startTime: "09:00",
+        endTime: "10:00",
+        category: "TRANSPORT",
+        estimatedCost: 30,
+        priority: "high",
+        tips: []
+      }]
+    }],
+    summary: { totalActivities: 1, averageCostPerDay: 30, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+const hotels: HotelResult[] = [
+  { name: "Hotel Lisboa", url: "https://example.com/hotel", price: { amount: 120, currency: "EUR", text: "€ 120" }, rating: 8.6, reviewCount: 120, location: "Baixa" },
+  { name: "<Sketchy> Inn", url: "javascript:alert(1)", price: null, rating: null, reviewCount: null, location: null }
+];
+
+function toolPart(toolName: string, part: Record<string, unknown>) {
+  return { type: `tool-${toolName}`, toolCallId: `call_${toolName}`, input: {}, ...part };
+}
+
+const messages = [
+  { id: "m1", role: "user", parts: [{ type: "text", text: "  Plan a day in Lisbon <please>  " }] },
+  {
+    id: "m2",
+    role: "assistant",
+    parts: [
+      { type: "step-start" },
+      toolPart("generateCompleteItinerary", { state: "output-available", output: JSON.stringify(buildItinerary("Lisbon in a day")) }),
+      toolPart("searchBooking", { state: "output-available", output: { destination: "Lisbon", checkIn: "2026-05-01", checkOut: "2026-05-02", hotels } }),
+      toolPart("addActivity", { state: "output-available", output: JSON.stringify({ success: true, message: "Added Belém Tower" }) }),
+      toolPart("getTransportOptions", { state: "output-error", errorText: "No routes" }),
+      toolPart("removeActivity", { state: "approval-requested" })
+    ]
+  },
+  { id: "m3", role: "assistant", parts: [{ type: "text", text: "   " }] }
+] as UIMessage[];
+
+beforeEach(async () => {
+  await env.DB.batch([
+    env.DB.prepare(
+      "INSERT INTO user (id, name, email, created_at, updated_at) VALUES (?, 'Export', 'export@example.com', unixepoch(), unixepoch())"
+    ).bind(USER_ID),
+    env.DB.prepare(
+      "INSERT INTO chat_conversations (id, user_id, title, created_at) VALUES (?, ?, 'Lisbon | day trip', 1777593600)"
+    ).bind(CONVERSATION_ID, USER_ID)
+  ]);
+  await persistMessages(env.DB, CONVERSATION_ID, messages, new Map());
+  await storeConversationItinerary(env, CONVERSATION_ID, USER_ID, buildItinerary("Lisbon, edited"));
+});
+
+async function exportConversation(): Promise<ExportedConversation> {
+  return { ...(await buildConversationExport(env.DB, USER_ID, CONVERSATION_ID)), exportedAt: "2026-05-02T08:00:00.000Z" };
+}
+
+describe("buildConversationExport", () => {
+  it("turns messages into blocks and leaves the empty ones out", async () => {
+    const conversation = await exportConversation();
+
+    expect(conversation).toMatchObject({ title: "Lisbon | day trip", createdAt: "2026-05-01T00:00:00.000Z" });
+    expect(conversation.messages.map((message) => message.id)).toEqual(["m1", "m2"]);
+    expect(conversation.messages[0].blocks).toEqual([{ type: "text", text: "Plan a day in Lisbon <please>" }]);
+    expect(conversation.messages[1].blocks).toEqual([
+      { type: "itinerary", itinerary: expect.objectContaining({ title: "Lisbon in a day" }) },
+      { type: "hotels", destination: "Lisbon", checkIn: "2026-05-01", checkOut: "2026-05-02", hotels },
+      { type: "tool", name: "addActivity", summary: "Added Belém Tower" },
+      { type: "tool", name: "getTransportOptions", summary: "Failed: No routes" },
+      { type: "tool", name: "removeActivity", summary: "Waiting for approval" }
+    ]);
+  });
+
+  it("adds the current itinerary", async () => {
+    expect((await exportConversation()).itinerary?.title).toBe("Lisbon, edited");
+  });
+
+  it("refuses conversations of other users", async () => {
+    await expect(buildConversationExport(env.DB, "user_other", CONVERSATION_ID)).rejects.toBeInstanceOf(ConversationNotFoundError);
+  });
+});
+
+describe("renderConversationMarkdown", () => {
+  it("renders the itineraries as tables and links only web addresses", async () => {
+    const markdown = renderConversationMarkdown(await exportConversation());
+
+    expect(markdown).toContain("_Started 2026-05-01, exported 2026-05-02_");
+    expect(markdown).toContain("| 09:00–10:00 | Tram 28 \\| Alfama | Martim Moniz | 30 EUR |");
+    expect(markdown).toContain("- [Hotel Lisboa](https://example.com/hotel) · € 120 · 8.6/10 (120 reviews) · Baixa");
+    expect(markdown).toContain("- <Sketchy> Inn\n");
+    expect(markdown).toContain("> Get transport options: Failed: No routes");
+    expect(markdown).toContain("## Current itinerary: Lisbon, edited");
+  });
+});
+
+describe("renderConversationHtml", () => {
+  it("escapes the conversation text and links only web addresses", async () => {
+    const html = renderConversationHtml(await exportConversation());
+
+    expect(html).toContain("<title>Lisbon | day trip</title>");
+    expect(html).toContain("<p>Plan a day in Lisbon &lt;please&gt;</p>");
+    expect(html).toContain('<a href="https://example.com/hotel">Hotel Lisboa</a>');
+    expect(html).toContain("<li>&lt;Sketchy&gt; Inn</li>");
+    expect(html).not.toContain("javascript:");
+  });
+});
+
+describe("renderConversationExport", () => {
+  it("names the file after the title", async () => {
+    const conversation = await exportConversation();
+
+    expect(renderConversationExport(conversation, "md")).toMatchObject({
+      contentType: "text/markdown; charset=utf-8",
+      filename: "lisbon_day_trip.md"
+    });
+    expect(renderConversationExport({ ...conversation, title: "¿?" }, "html").filename).toBe("conversation.html");
+    expect(JSON.parse(renderConversationExport(conversation, "json").body)).toEqual(conversation);
+  });
+});
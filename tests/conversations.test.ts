@@ -0,0 +1,208 @@
+import { env } from "cloudflare:test";
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it } from "vitest";
+import { loadConversationMessages, persistMessages } from "../server/services/chat-messages";
+import { getConversationItinerary, storeConversationItinerary } from "../server/services/conversation-itinerary";
+import {
+  buildSearchQuery,
+  forkConversation,
+  listConversations,
+  parseConversationCursor,
+  searchConversations,
+  updateConversationFlags
+} from "../server/services/conversations";
+import { recordTurnItinerary } from "../server/services/message-versions";
+import { APPROVAL } from "../server/shared";
+import type { Env, ItineraryData } from "../server/types";
+
+const USER_ID = "user_conversations";
+const CONVERSATION_ID = "conv_source";
+
+function itinerary(title: string): ItineraryData {
+  return { id: "itin_conversations", title, destination: "Lisbon", days: [] } as unknown as ItineraryData;
+}
+
+function userMessage(id: string, text: string): UIMessage {
+  return { id, role: "user", parts: [{ type: "text", text }] };
+}
+
+function toolMessage(id: string, toolName: string, output: unknown): UIMessage {
+  return {
+    id,
+    role: "assistant",
+    parts: [{ type: `tool-${toolName}`, toolCallId: `call_${id}`, state: "output-available", input: {}, output }]
+  } as UIMessage;
+}
+
+// Runs the turns the way the Chat agent does: record the itinerary, answer, store the new itinerary, persist
+async function runTurns(turns: Array<[UIMessage, UIMessage, ItineraryData]>): Promise<void> {
+  const messages: UIMessage[] = [];
+  const persisted = new Map<string, string>();
+  for (const [question, reply, result] of turns) {
+    messages.push(question);
+    await recordTurnItinerary(env.DB, CONVERSATION_ID, question.id);
+    messages.push(reply);
+    await storeConversationItinerary(env, CONVERSATION_ID, USER_ID, result);
+    await persistMessages(env.DB, CONVERSATION_ID, messages, persisted);
+  }
+}
+
+const generated = itinerary("Lisbon");
+const firstEdit = itinerary("Lisbon, with Belém");
+const secondEdit = itinerary("Lisbon, with Belém and Sintra");
+
+beforeEach(async () => {
+  await env.DB.batch([
+    env.DB.prepare(
+      "INSERT INTO user (id, name, email, created_at, updated_at) VALUES (?, 'Conversations', 'conversations@example.com', unixepoch(), unixepoch())"
+    ).bind(USER_ID),
+    env.DB.prepare("INSERT INTO chat_conversations (id, user_id, title) VALUES (?, ?, 'Lisbon')").bind(CONVERSATION_ID, USER_ID)
+  ]);
+});
+
+describe("forkConversation", () => {
+  // The edit tools answer without the itinerary, so only the turn records know it
+  const history: Array<[UIMessage, UIMessage, ItineraryData]> = [
+    [userMessage("u1", "Plan Lisbon"), toolMessage("a1", "generateCompleteItinerary", JSON.stringify(generated)), generated],
+    [userMessage("u2", "Add Belém"), toolMessage("a2", "addActivity", JSON.stringify({ success: true })), firstEdit],
+    [userMessage("u3", "Add Sintra"), toolMessage("a3", "addActivity", JSON.stringify({ success: true })), secondEdit]
+  ];
+
+  async function forkedItinerary(messageId: string) {
+    const fork = await forkConversation(env as Env, USER_ID, CONVERSATION_ID, messageId);
+    return (await getConversationItinerary(env.DB, fork.id))?.itinerary;
+  }
+
+  it("starts from the itinerary recorded when the next turn started", async () => {
+    await runTurns(history);
+
+    expect(await forkedItinerary("a2")).toMatchObject({ title: firstEdit.title });
+  });
+
+  it("starts a fork at a user message from the itinerary its turn started with", async () => {
+    await runTurns(history);
+
+    expect(await forkedItinerary("u2")).toMatchObject({ title: generated.title });
+  });
+
+  it("starts from the current itinerary when no turn followed", async () => {
+    await runTurns(history);
+
+    const forked = await forkedItinerary("a3");
+
+    expect(forked).toMatchObject({ title: secondEdit.title });
+    expect(forked?.id).not.toBe(secondEdit.id);
+  });
+
+  it("settles approval decisions so the fork does not apply them again", async () => {
+    await runTurns([
+      [userMessage("u1", "Remove the museum"), toolMessage("a1", "removeActivity", APPROVAL.YES), generated],
+      [userMessage("u2", "Remove lunch too"), toolMessage("a2", "removeActivity", { approval: APPROVAL.NO, reason: "Keep it" }), generated]
+    ]);
+
+    const fork = await forkConversation(env as Env, USER_ID, CONVERSATION_ID, "a2");
+    const outputs = (await loadConversationMessages(env.DB, fork.id))
+      .flatMap((message) => message.parts)
+      .flatMap((part) => ("output" in part ? [part.output] : []));
+
+    expect(outputs).toEqual([
+      "The user approved this change in the conversation this one was forked from.",
+      "Error: The user rejected this change. Nothing was changed."
+    ]);
+  });
+});
+
+describe("listConversations", () => {
+  beforeEach(async () => {
+    // conv_source was updated just now, so it leads the unpinned list
+    await env.DB.prepare(`
+        INSERT INTO chat_conversations (id, user_id, title, updated_at, pinned_at, archived_at) VALUES
+          ('conv_a', ?1, 'A', 100, NULL, NULL),
+          ('conv_b', ?1, 'B', 200, NULL, NULL),
+          ('conv_c', ?1, 'C', 200, NULL, NULL),
+          ('conv_pinned', ?1, 'Pinned', 50, 10, NULL),
+          ('conv_archived', ?1, 'Archived', 300, NULL, 20),
+          ('conv_pinned_archived', ?1, 'Pinned and archived', 150, 30, 40)
+      `).bind(USER_ID).run();
+  });
+
+  async function listIds(options: Parameters<typeof listConversations>[2]) {
+    const page = await listConversations(env.DB, USER_ID, options);
+    return { ids: page.conversations.map((conversation) => conversation.id), nextCursor: page.nextCursor };
+  }
+
+  it("starts the first page with the pinned conversations and pages the rest by update time", async () => {
+    const first = await listIds({ limit: 2 });
+    const second = await listIds({ limit: 2, cursor: first.nextCursor });
+
+    expect(first).toEqual({ ids: ["conv_pinned", CONVERSATION_ID, "conv_c"], nextCursor: "200:conv_c" });
+    expect(second).toEqual({ ids: ["conv_b", "conv_a"], nextCursor: null });
+  });
+
+  it("lists archived conversations only, pinned or not", async () => {
+    const page = await listIds({ archived: true, limit: 1 });
+
+    expect(page).toEqual({ ids: ["conv_archived"], nextCursor: "300:conv_archived" });
+    expect((await listIds({ archived: true, limit: 1, cursor: page.nextCursor })).ids).toEqual(["conv_pinned_archived"]);
+  });
+
+  it("moves a conversation between the lists without changing its place", async () => {
+    expect(await updateConversationFlags(env.DB, USER_ID, "conv_b", { archived: true })).toBe(true);
+    expect(await updateConversationFlags(env.DB, "user_other", "conv_a", { pinned: true })).toBe(false);
+
+    expect((await listIds({})).ids).toEqual(["conv_pinned", CONVERSATION_ID, "conv_c", "conv_a"]);
+    expect((await listIds({ archived: true })).ids).toEqual(["conv_archived", "conv_b", "conv_pinned_archived"]);
+  });
+
+  it("reads only well-formed cursors", () => {
+    expect(parseConversationCursor("200:conv_c")).toEqual({ updatedAt: 200, id: "conv_c" });
+    expect(parseConversationCursor("conv_c")).toBeNull();
+    expect(parseConversationCursor(":conv_c")).toBeNull();
+    expect(parseConversationCursor("200:")).toBeNull();
+    expect(parseConversationCursor("2.5:conv_c")).toBeNull();
+  });
+});
+
+describe("searchConversations", () => {
+  beforeEach(async () => {
+    await env.DB.batch([
+      env.DB.prepare(
+        "INSERT INTO user (id, name, email, created_at, updated_at) VALUES ('user_other', 'Other', 'other@example.com', unixepoch(), unixepoch())"
+      ),
+      env.DB.prepare(`
+          INSERT INTO chat_conversations (id, user_id, title) VALUES
+            ('conv_porto', ?, 'Porto weekend'),
+            ('conv_other', 'user_other', 'Lisbon for someone else')
+        `).bind(USER_ID)
+    ]);
+    await persistMessages(env.DB, "conv_porto", [
+      userMessage("p1", "Then a day trip to Belém and the Jerónimos Monastery"),
+      toolMessage("p2", "getWeatherInfo", "Sunny in Sintra")
+    ], new Map());
+  });
+
+  async function search(text: string) {
+    return (await searchConversations(env.DB, USER_ID, text)).map(({ id, snippet }) => ({ id, snippet }));
+  }
+
+  it("matches titles by word prefix", async () => {
+    expect(await search("lis")).toEqual([{ id: CONVERSATION_ID, snippet: null }]);
+  });
+
+  it("matches message text without diacritics and marks the terms", async () => {
+    expect(await search("belem jeronimos")).toEqual([
+      { id: "conv_porto", snippet: "Then a day trip to [Belém] and the [Jerónimos] Monastery" }
+    ]);
+  });
+
+  it("leaves tool payloads and other users' conversations out", async () => {
+    expect(await search("sintra")).toEqual([]);
+    expect(await search("someone")).toEqual([]);
+  });
+
+  it("builds a query of quoted words, the last one a prefix", () => {
+    expect(buildSearchQuery("Lisbon, fo")).toBe('"Lisbon" "fo"*');
+    expect(buildSearchQuery("AND OR \"")).toBe('"AND" "OR"*');
+    expect(buildSearchQuery(" ?! ")).toBeNull();
+  });
+});
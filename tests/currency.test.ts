@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createBundledRatesProvider, createLiveRatesProvider, priceActivities } from "../server/services/currency";
+import { applyItineraryPatch } from "../server/services/itinerary";
+import type { ItineraryData } from "../server/types";
+
+function buildItinerary(): ItineraryData {
+  return {
+    id: "itin_test",
+    title: "Paris 1-Day Adventure",
+    destination: "Paris",
+    startDate: "2026-07-30",
+    endDate: "2026-07-30",
+    duration: "1 days",
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days: [{
+      date: "2026-07-30",
+      dayNumber: 1,
+      activities: [{
+        id: "act_louvre",
+        title: "Louvre",
+        description: "Museum",
+        location: "Rue de Rivoli",
+        startTime: "09:00",
+        category: "museum",
+        estimatedCost: 44,
+        priority: "high",
+        tips: []
+      }]
+    }],
+    summary: { totalActivities: 1, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-07-01T00:00:00.000Z"
+  };
+}
+
+const newActivity = {
+  title: "Seine cruise",
+  description: "Boat tour",
+  location: "Pont de l'Alma",
+  startTime: "18:00",
+  category: "tour",
+  estimatedCost: 30,
+  priority: "medium",
+  tips: []
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("currencies in itinerary edits", () => {
+  it("converts activities priced in another supported currency", () => {
+    const { itinerary } = applyItineraryPatch(buildItinerary(), {
+      op: "add",
+      items: [{ dayNumber: 1, activity: { ...newActivity, currency: "usd" } }]
+    });
+
+    const cruise = itinerary.days[0].activities[1];
+    expect(cruise.currency).toBe("USD");
+    expect(cruise.convertedCost).toBe(27.6);
+  });
+
+  it("rejects unsupported currencies before applying anything, listing the supported codes", () => {
+    const current = buildItinerary();
+
+    expect(() =>
+      applyItineraryPatch(current, {
+        op: "add",
+        items: [
+          { dayNumber: 1, activity: newActivity },
+          { dayNumber: 1, activity: { ...newActivity, currency: "XAF" } }
+        ]
+      })
+    ).toThrow(/Unsupported currency "XAF"\. Supported: .*EUR.*USD/);
+    expect(current.days[0].activities).toHaveLength(1);
+  });
+
+  it("reports unsupported currencies already in the itinerary with the supported codes", () => {
+    const itinerary = buildItinerary();
+    itinerary.days[0].activities[0].currency = "XAF";
+
+    expect(() => priceActivities(itinerary)).toThrow(/Unsupported currency "XAF"\. Supported:/);
+  });
+});
+
+describe("live rates provider", () => {
+  it("keeps the path of the base URL and fills missing currencies from the bundled rates", async () => {
+    const requests: URL[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      requests.push(new URL(input instanceof Request ? input.url : input.toString()));
+      return Response.json({ date: "2026-10-18", rates: { EUR: 0.9, XAF: 600 } });
+    });
+
+    const snapshot = await createLiveRatesProvider("https://rates.example/v1", undefined, createBundledRatesProvider()).getRates();
+
+    expect(requests[0].pathname).toBe("/v1/latest");
+    expect(snapshot.source).toBe("live");
+    expect(snapshot.rates.EUR).toBe(0.9);
+    expect(snapshot.rates.XAF).toBe(600);
+    expect(snapshot.rates.GBP).toBe(0.79);
+  });
+});
@@ -0,0 +1,7 @@
+import type { Env } from "../server/types";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+  }
+}
@@ -0,0 +1,80 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { handleItineraryRoutes } from "../server/routes/itinerary.routes";
+import type { Env, ItineraryData } from "../server/types";
+
+const TOKEN = "token_itinerary_routes";
+
+function buildItinerary(): ItineraryData {
+  return {
+    id: "itin_routes",
+    title: "Lisbon",
+    destination: "Lisbon",
+    startDate: "2026-05-01",
+    endDate: "2026-05-01",
+    duration: "1 days",
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days: [{ date: "2026-05-01", dayNumber: 1, activities: [] }],
+    summary: { totalActivities: 0, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+function call(method: string, path: string, body: unknown) {
+  return handleItineraryRoutes(
+    new Request(`https://example.com${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${TOKEN}` },
+      body: JSON.stringify(body)
+    }),
+    env as Env
+  );
+}
+
+beforeEach(async () => {
+  await env.DB.batch([
+    env.DB.prepare(
+      "INSERT INTO user (id, name, email, created_at, updated_at) VALUES ('user_routes', 'Routes', 'routes@example.com', unixepoch(), unixepoch())"
+    ),
+    env.DB.prepare(
+      "INSERT INTO session (id, expires_at, token, created_at, updated_at, user_id) VALUES ('session_routes', ?, ?, unixepoch(), unixepoch(), 'user_routes')"
+    ).bind(Date.now() + 60 * 60 * 1000, TOKEN)
+  ]);
+});
+
+describe("itinerary action bodies", () => {
+  it("rejects actions without an itinerary", async () => {
+    const response = await call("POST", "/api/itineraries/packing-list", {});
+
+    expect(response?.status).toBe(400);
+    expect(await response?.json()).toEqual({ success: false, error: "Request body must contain an itinerary with days" });
+  });
+
+  it("rejects a day number that is not an integer", async () => {
+    const response = await call("POST", "/api/itineraries/optimize-day", { itinerary: buildItinerary(), dayNumber: "1" });
+
+    expect(response?.status).toBe(400);
+  });
+
+  it("rejects a packed flag that is not a boolean", async () => {
+    const response = await call("PATCH", "/api/itineraries/packing-list", { itinerary: buildItinerary(), itemId: "socks", packed: "yes" });
+
+    expect(response?.status).toBe(400);
+  });
+
+  it("rejects a transport option for a fractional number of passengers", async () => {
+    const response = await call("POST", "/api/itineraries/transport", { itinerary: buildItinerary(), option: {}, passengers: 1.5 });
+
+    expect(response?.status).toBe(400);
+  });
+
+  it("optimizes a day of a valid body", async () => {
+    const response = await call("POST", "/api/itineraries/optimize-day", { itinerary: JSON.stringify(buildItinerary()), dayNumber: 1 });
+
+    expect(await response?.json()).toMatchObject({ success: true, dayNumber: 1, reordered: false });
+  });
+});
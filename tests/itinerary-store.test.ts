@@ -0,0 +1,96 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { loadItineraryRecord, saveItineraryRecord } from "../server/services/itinerary-store";
+import type { ItineraryData } from "../server/types";
+
+const USER_ID = "user_store";
+
+function buildItinerary(id: string): ItineraryData {
+  return {
+    id,
+    title: "Null Island",
+    destination: "Null Island",
+    startDate: "2026-05-01",
+    endDate: "2026-05-01",
+    duration: "1 days",
+    travelers: 1,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days: [{
+      date: "2026-05-01",
+      dayNumber: 1,
+      activities: [{
+        id: "act_buoy",
+        title: "Buoy",
+        description: "Weather buoy",
+        location: "Gulf of Guinea",
+        startTime: "10:00",
+        category: "sightseeing",
+        estimatedCost: 0,
+        priority: "low",
+        tips: [],
+        coordinates: { lat: 0, lng: 0 }
+      }]
+    }],
+    summary: { totalActivities: 1, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+async function activityRows() {
+  const rows = await env.DB.prepare(
+    "SELECT itinerary_id, id, latitude, longitude FROM activities ORDER BY itinerary_id"
+  ).all();
+  return rows.results;
+}
+
+beforeEach(async () => {
+  await env.DB.prepare(
+    "INSERT INTO user (id, name, email, created_at, updated_at) VALUES (?, 'Store', 'store@example.com', unixepoch(), unixepoch())"
+  ).bind(USER_ID).run();
+});
+
+describe("saveItineraryRecord", () => {
+  it("keeps an itinerary shared when it is saved again without isPublic", async () => {
+    const { shareId } = await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_store"), true);
+
+    const saved = await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_store"));
+
+    expect(saved.shareId).toBe(shareId);
+    expect((await loadItineraryRecord(env.DB, USER_ID, "itin_store"))?.summary.isPublic).toBe(true);
+  });
+
+  it("stops sharing only when isPublic is false", async () => {
+    await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_store"), true);
+
+    const saved = await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_store"), false);
+
+    expect(saved.shareId).toBeNull();
+    expect((await loadItineraryRecord(env.DB, USER_ID, "itin_store"))?.summary.isPublic).toBe(false);
+  });
+
+  it("keeps zero coordinates", async () => {
+    await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_store"));
+
+    expect(await activityRows()).toEqual([{ itinerary_id: "itin_store", id: "act_buoy", latitude: 0, longitude: 0 }]);
+  });
+
+  it("adds rows for a copy with the same activity IDs instead of moving the original's", async () => {
+    await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_original"));
+    await saveItineraryRecord(env.DB, USER_ID, buildItinerary("itin_fork"));
+
+    expect((await activityRows()).map((row) => row.itinerary_id)).toEqual(["itin_fork", "itin_original"]);
+  });
+
+  it("saves nothing when an activity cannot be stored", async () => {
+    const itinerary = buildItinerary("itin_store");
+    itinerary.days[0].activities.push({ ...itinerary.days[0].activities[0], id: "act_broken", title: null as unknown as string });
+
+    await expect(saveItineraryRecord(env.DB, USER_ID, itinerary)).rejects.toThrow();
+
+    expect(await loadItineraryRecord(env.DB, USER_ID, "itin_store")).toBeNull();
+    expect(await activityRows()).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { validateItinerary } from "../server/services/itinerary-validation";
+import type { Activity, ItineraryData } from "../server/types";
+
+const LOUVRE = { lat: 48.8606, lng: 2.3376 };
+const ORSAY = { lat: 48.86, lng: 2.3266 };
+const VERSAILLES = { lat: 48.8049, lng: 2.1204 };
+
+function activity(id: string, startTime: string, endTime?: string, coordinates?: Activity["coordinates"]): Activity {
+  return {
+    id,
+    title: id,
+    description: id,
+    location: "Paris",
+    startTime,
+    endTime,
+    category: "sightseeing",
+    estimatedCost: 10,
+    priority: "medium",
+    tips: [],
+    coordinates
+  };
+}
+
+function buildItinerary(activities: Activity[], overrides: Partial<ItineraryData> = {}): ItineraryData {
+  return {
+    id: "itin_validation",
+    title: "Paris 1-Day Adventure",
+    destination: "Paris",
+    startDate: "2026-05-01",
+    endDate: "2026-05-01",
+    duration: "1 days",
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days: [{ date: "2026-05-01", dayNumber: 1, activities }],
+    summary: { totalActivities: activities.length, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z",
+    ...overrides
+  };
+}
+
+function codes(itinerary: ItineraryData) {
+  return validateItinerary(itinerary).issues.map((issue) => issue.code);
+}
+
+describe("validateItinerary schedule checks", () => {
+  it("flags an activity starting while the previous one still runs", () => {
+    const report = validateItinerary(buildItinerary([
+      activity("act_tour", "08:30", "11:00"),
+      activity("act_museum", "09:00", "10:00")
+    ]));
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: "TIME_OVERLAP", dayNumber: 1, activityIds: ["act_tour", "act_museum"] })
+    ]);
+  });
+
+  it("checks activities in start order, whatever order they are listed in", () => {
+    expect(codes(buildItinerary([
+      activity("act_museum", "09:00", "10:00"),
+      activity("act_tour", "08:30", "11:00")
+    ]))).toEqual(["TIME_OVERLAP"]);
+  });
+
+  it("accepts an activity starting when the previous one ends", () => {
+    expect(codes(buildItinerary([
+      activity("act_louvre", "09:00", "11:00"),
+      activity("act_lunch", "11:00", "12:00")
+    ]))).toEqual([]);
+  });
+
+  it("rejects times that are not HH:MM or end before they start", () => {
+    expect(codes(buildItinerary([
+      activity("act_vague", "morning"),
+      activity("act_backwards", "15:00", "14:00")
+    ]))).toEqual(["INVALID_TIME", "INVALID_TIME"]);
+  });
+
+  it("warns when the gap is too short to travel between activities", () => {
+    const report = validateItinerary(buildItinerary([
+      activity("act_louvre", "09:00", "11:00", LOUVRE),
+      activity("act_versailles", "11:10", "14:00", VERSAILLES)
+    ]));
+
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ code: "UNREALISTIC_TRANSFER", severity: "warning", activityIds: ["act_louvre", "act_versailles"] })
+    ]);
+  });
+
+  it("accepts a gap long enough for the transfer", () => {
+    expect(codes(buildItinerary([
+      activity("act_louvre", "09:00", "11:00", LOUVRE),
+      activity("act_orsay", "11:30", "13:00", ORSAY)
+    ]))).toEqual([]);
+  });
+
+  it("skips the transfer check when an activity has no coordinates", () => {
+    expect(codes(buildItinerary([
+      activity("act_louvre", "09:00", "11:00", LOUVRE),
+      activity("act_versailles", "11:10", "14:00")
+    ]))).toEqual([]);
+  });
+});
+
+describe("validateItinerary trip checks", () => {
+  it("flags days outside the trip dates and days the trip is missing", () => {
+    const itinerary = buildItinerary([activity("act_louvre", "09:00")], { endDate: "2026-05-02" });
+    itinerary.days[0].date = "2026-05-03";
+
+    expect(codes(itinerary)).toEqual(["OUTSIDE_DATE_RANGE", "MISSING_DAY_NUMBER"]);
+  });
+
+  it("warns about empty days", () => {
+    expect(validateItinerary(buildItinerary([])).issues).toEqual([
+      expect.objectContaining({ code: "EMPTY_DAY", severity: "warning", dayNumber: 1 })
+    ]);
+  });
+
+  it("warns when a day costs more than its share of the budget and fails when the trip does", () => {
+    const itinerary = buildItinerary([activity("act_louvre", "09:00"), activity("act_orsay", "12:00")], { budget: 15 });
+
+    expect(codes(itinerary)).toEqual(["DAY_OVER_BUDGET", "TOTAL_OVER_BUDGET"]);
+    expect(validateItinerary(itinerary).summary).toMatchObject({ errors: 1, warnings: 1, checkedDays: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+import { env } from "cloudflare:test";
+import type { UIMessage } from "ai";
+import { beforeEach, describe, expect, it } from "vitest";
+import { persistMessages } from "../server/services/chat-messages";
+import { getConversationItinerary, storeConversationItinerary } from "../server/services/conversation-itinerary";
+import { archiveReplacedMessages, recordTurnItinerary } from "../server/services/message-versions";
+import type { ItineraryData } from "../server/types";
+
+const USER_ID = "user_versions";
+const CONVERSATION_ID = "conv_versions";
+
+function itinerary(title: string): ItineraryData {
+  return { id: "itin_versions", title, destination: "Lisbon", days: [] } as unknown as ItineraryData;
+}
+
+function userMessage(id: string, text: string): UIMessage {
+  return { id, role: "user", parts: [{ type: "text", text }] };
+}
+
+// Edit tools answer without the itinerary, so only the turn records know what it was
+function assistantMessage(id: string, toolName: string, output: unknown): UIMessage {
+  return {
+    id,
+    role: "assistant",
+    parts: [{ type: `tool-${toolName}`, toolCallId: `call_${id}`, state: "output-available", input: {}, output: JSON.stringify(output) }]
+  } as UIMessage;
+}
+
+// Runs the turns the way the Chat agent does: record the itinerary, answer, store the new itinerary, persist
+async function runTurns(turns: Array<[UIMessage, UIMessage, ItineraryData]>): Promise<{ messages: UIMessage[]; persisted: Map<string, string> }> {
+  const messages: UIMessage[] = [];
+  const persisted = new Map<string, string>();
+  for (const [question, reply, result] of turns) {
+    messages.push(question);
+    await recordTurnItinerary(env.DB, CONVERSATION_ID, question.id);
+    messages.push(reply);
+    await storeConversationItinerary(env, CONVERSATION_ID, USER_ID, result);
+    await persistMessages(env.DB, CONVERSATION_ID, messages, persisted);
+  }
+  return { messages, persisted };
+}
+
+const generated = itinerary("Lisbon");
+const firstEdit = itinerary("Lisbon, with Belém");
+const secondEdit = itinerary("Lisbon, with Belém and Sintra");
+
+const history: Array<[UIMessage, UIMessage, ItineraryData]> = [
+  [userMessage("u1", "Plan Lisbon"), assistantMessage("a1", "generateCompleteItinerary", generated), generated],
+  [userMessage("u2", "Add Belém"), assistantMessage("a2", "addActivity", { success: true }), firstEdit],
+  [userMessage("u3", "Add Sintra"), assistantMessage("a3", "addActivity", { success: true }), secondEdit]
+];
+
+beforeEach(async () => {
+  await env.DB.batch([
+    env.DB.prepare(
+      "INSERT INTO user (id, name, email, created_at, updated_at) VALUES (?, 'Versions', 'versions@example.com', unixepoch(), unixepoch())"
+    ).bind(USER_ID),
+    env.DB.prepare("INSERT INTO chat_conversations (id, user_id, title) VALUES (?, ?, 'Lisbon')").bind(CONVERSATION_ID, USER_ID)
+  ]);
+});
+
+describe("archiveReplacedMessages", () => {
+  it("rolls back to the itinerary the edited message's turn started from, keeping earlier edits", async () => {
+    const { messages, persisted } = await runTurns(history);
+
+    const edited = [...messages.slice(0, 4), userMessage("u3b", "Add Cascais")];
+    const restored = await archiveReplacedMessages(env, CONVERSATION_ID, USER_ID, edited, persisted);
+
+    expect(restored?.itinerary).toEqual(firstEdit);
+    expect((await getConversationItinerary(env.DB, CONVERSATION_ID))?.itinerary).toEqual(firstEdit);
+  });
+
+  it("rolls back to the start of the turn whose reply is regenerated", async () => {
+    const { messages, persisted } = await runTurns(history);
+
+    const restored = await archiveReplacedMessages(env, CONVERSATION_ID, USER_ID, messages.slice(0, 3), persisted);
+
+    expect(restored?.itinerary).toEqual(generated);
+  });
+
+  it("clears the itinerary when the first turn is edited", async () => {
+    const { persisted } = await runTurns(history);
+
+    const restored = await archiveReplacedMessages(env, CONVERSATION_ID, USER_ID, [userMessage("u1b", "Plan Porto")], persisted);
+
+    expect(restored).toEqual({ version: 0, itinerary: null });
+    expect(await getConversationItinerary(env.DB, CONVERSATION_ID)).toBeNull();
+  });
+
+  it("leaves the itinerary alone when the replaced turn did not change it", async () => {
+    const { messages, persisted } = await runTurns([
+      ...history.slice(0, 2),
+      [userMessage("u3", "Thanks"), { id: "a3", role: "assistant", parts: [{ type: "text", text: "Enjoy!" }] }, firstEdit]
+    ]);
+    const before = await getConversationItinerary(env.DB, CONVERSATION_ID);
+
+    const restored = await archiveReplacedMessages(env, CONVERSATION_ID, USER_ID, messages.slice(0, 5), persisted);
+
+    expect(restored).toBeNull();
+    expect((await getConversationItinerary(env.DB, CONVERSATION_ID))?.version).toBe(before?.version);
+  });
+});
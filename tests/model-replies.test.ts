@@ -0,0 +1,68 @@
+import { env } from "cloudflare:test";
+import { createUIMessageStream, readUIMessageStream, type UIMessage } from "ai";
+import { beforeEach, describe, expect, it } from "vitest";
+import { recordUsage } from "../server/services/usage";
+import { answerWithoutModel } from "../server/utils";
+import type { Env } from "../server/types";
+
+const USER_ID = "user_quota";
+
+// The reply the client builds from the streamed chunks, and whether answerWithoutModel answered
+async function runTurn(turnEnv: Env): Promise<{ answered: boolean; message: UIMessage | undefined }> {
+  let answered = false;
+  const stream = createUIMessageStream({
+    execute: async ({ writer }) => {
+      answered = await answerWithoutModel(turnEnv, USER_ID, writer);
+    }
+  });
+
+  let message: UIMessage | undefined;
+  for await (const update of readUIMessageStream({ stream })) {
+    message = update;
+  }
+  return { answered, message };
+}
+
+function textOf(message: UIMessage | undefined): string {
+  return (message?.parts || []).map((part) => (part.type === "text" ? part.text : "")).join("");
+}
+
+beforeEach(async () => {
+  await env.DB.prepare(
+    "INSERT INTO user (id, name, email, created_at, updated_at) VALUES (?, 'Quota', 'quota@example.com', unixepoch(), unixepoch())"
+  ).bind(USER_ID).run();
+});
+
+describe("answerWithoutModel", () => {
+  it("streams the quota message once the monthly quota is used up", async () => {
+    const turnEnv: Env = { ...env, OPENAI_API_KEY: "test-key", MONTHLY_TOKEN_QUOTA: "1000" };
+    await recordUsage(turnEnv, {
+      userId: USER_ID,
+      purpose: "planning",
+      model: "openai:gpt-4o-mini",
+      inputTokens: 900,
+      outputTokens: 300,
+      totalTokens: 1200,
+      toolCalls: []
+    });
+
+    const { answered, message } = await runTurn(turnEnv);
+
+    expect(answered).toBe(true);
+    expect(textOf(message)).toMatch(/^Monthly usage limit reached: you have used 1,200 of 1,000 tokens this month\./);
+  });
+
+  it("streams a message when no model is configured", async () => {
+    const { answered, message } = await runTurn({ ...env, OPENAI_API_KEY: undefined });
+
+    expect(answered).toBe(true);
+    expect(textOf(message)).toBe("No language model is configured.");
+  });
+
+  it("leaves the turn to the model under the quota", async () => {
+    const { answered, message } = await runTurn({ ...env, OPENAI_API_KEY: "test-key", MONTHLY_TOKEN_QUOTA: "1000" });
+
+    expect(answered).toBe(false);
+    expect(textOf(message)).toBe("");
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignDaysToStops,
+  buildLegs,
+  buildStops,
+  describeRoute,
+  findStopForDate,
+  legsCost
+} from "../server/services/multi-city";
+import type { Day } from "../server/types";
+
+const LISBON = { lat: 38.72, lng: -9.14 };
+const PORTO = { lat: 41.15, lng: -8.61 };
+
+function buildTrip() {
+  return buildStops([
+    { city: "Lisbon", arrivalDate: "2026-05-01", departureDate: "2026-05-03", coordinates: LISBON },
+    { city: "Porto", arrivalDate: "2026-05-03", departureDate: "2026-05-05", coordinates: PORTO },
+    { city: "Madrid", arrivalDate: "2026-05-05", departureDate: "2026-05-06", timezone: "Europe/Madrid" }
+  ]);
+}
+
+function day(dayNumber: number, date: string): Day {
+  return { date, dayNumber, activities: [] };
+}
+
+describe("buildStops", () => {
+  it("orders stops with stable IDs and fills in their zones", () => {
+    const stops = buildTrip();
+
+    expect(stops.map((stop) => stop.id)).toEqual(["stop_1_lisbon", "stop_2_porto", "stop_3_madrid"]);
+    expect(stops.map((stop) => stop.timezone)).toEqual(["Europe/Lisbon", "Europe/Lisbon", "Europe/Madrid"]);
+    expect(describeRoute(stops)).toBe("Lisbon → Porto → Madrid");
+  });
+
+  it("rejects a gap or overlap between consecutive stops", () => {
+    expect(() => buildStops([
+      { city: "Lisbon", arrivalDate: "2026-05-01", departureDate: "2026-05-03" },
+      { city: "Porto", arrivalDate: "2026-05-04", departureDate: "2026-05-05" }
+    ])).toThrow(/must hand over on the same date/);
+  });
+
+  it("rejects a stop that departs before it arrives", () => {
+    expect(() => buildStops([{ city: "Lisbon", arrivalDate: "2026-05-03", departureDate: "2026-05-01" }])).toThrow(/departs/);
+  });
+});
+
+describe("splitting days between stops", () => {
+  it("gives travel days to the city arrived at", () => {
+    const stops = buildTrip();
+    const days = assignDaysToStops(
+      [day(1, "2026-05-01"), day(2, "2026-05-02"), day(3, "2026-05-03"), day(4, "2026-05-04"), day(5, "2026-05-05"), day(6, "2026-05-06")],
+      stops
+    );
+
+    expect(days.map((item) => item.stopId)).toEqual([
+      "stop_1_lisbon",
+      "stop_1_lisbon",
+      "stop_2_porto",
+      "stop_2_porto",
+      "stop_3_madrid",
+      "stop_3_madrid"
+    ]);
+  });
+
+  it("puts days before the first arrival at the first stop", () => {
+    const stops = buildTrip();
+
+    expect(findStopForDate(stops, "2026-04-30")).toBeUndefined();
+    expect(assignDaysToStops([day(1, "2026-04-30")], stops)[0].stopId).toBe("stop_1_lisbon");
+  });
+
+  it("leaves days alone on single-city trips", () => {
+    const days = [day(1, "2026-05-01")];
+    expect(assignDaysToStops(days, [])).toBe(days);
+  });
+});
+
+describe("buildLegs", () => {
+  it("joins stops by city name and dates legs on the arrival day", () => {
+    const [leg] = buildLegs([{ from: "lisbon", to: "PORTO", mode: "TRAIN", estimatedCost: 30 }], buildTrip());
+
+    expect(leg).toMatchObject({
+      id: "leg_1_stop_1_lisbon_stop_2_porto",
+      fromStopId: "stop_1_lisbon",
+      toStopId: "stop_2_porto",
+      date: "2026-05-03"
+    });
+    // About 275 km straight line, a quarter more by rail
+    expect(leg.distanceKm).toBeGreaterThan(330);
+    expect(leg.distanceKm).toBeLessThan(360);
+    expect(leg.durationMinutes).toBeGreaterThan(200);
+  });
+
+  it("skips the estimate when a stop has no coordinates", () => {
+    const [leg] = buildLegs([{ from: "Porto", to: "Madrid", mode: "FLIGHT", date: "2026-05-05" }], buildTrip());
+
+    expect(leg.distanceKm).toBeUndefined();
+    expect(leg.durationMinutes).toBeUndefined();
+  });
+
+  it("rejects cities that are not stops and legs that go nowhere", () => {
+    const stops = buildTrip();
+
+    expect(() => buildLegs([{ from: "Lisbon", to: "Seville", mode: "BUS" }], stops)).toThrow(/not one of the stops/);
+    expect(() => buildLegs([{ from: "Porto", to: "porto", mode: "BUS" }], stops)).toThrow(/starts and ends in Porto/);
+  });
+
+  it("totals converted leg costs before original ones", () => {
+    const legs = buildLegs([
+      { from: "Lisbon", to: "Porto", mode: "TRAIN", estimatedCost: 30 },
+      { from: "Porto", to: "Madrid", mode: "FLIGHT", estimatedCost: 90 }
+    ], buildTrip());
+    legs[1].convertedCost = 100;
+
+    expect(legsCost(legs)).toBe(130);
+    expect(legsCost(undefined)).toBe(0);
+  });
+});
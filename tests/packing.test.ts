@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { buildPackingList, fetchTripForecast, setPackingItemPacked } from "../server/services/packing";
+import type { DailyForecast, WeatherProvider } from "../server/services/weather";
+import type { Activity, Day, ItineraryData } from "../server/types";
+
+function activity(id: string, category: string, startTime = "10:00"): Activity {
+  return {
+    id,
+    title: id,
+    description: id,
+    location: "Lisbon",
+    startTime,
+    category,
+    estimatedCost: 0,
+    priority: "medium",
+    tips: []
+  };
+}
+
+function buildItinerary(days: Day[], overrides: Partial<ItineraryData> = {}): ItineraryData {
+  return {
+    id: "itin_packing",
+    title: "Lisbon",
+    destination: "Lisbon",
+    startDate: "2026-05-01",
+    endDate: days[days.length - 1]?.date ?? "2026-05-01",
+    duration: `${days.length} days`,
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days,
+    summary: { totalActivities: 0, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z",
+    ...overrides
+  };
+}
+
+function tripDays(count: number, activities: Activity[] = []): Day[] {
+  return Array.from({ length: count }, (_, index) => ({
+    date: `2026-05-${String(index + 1).padStart(2, "0")}`,
+    dayNumber: index + 1,
+    activities: index === 0 ? activities : []
+  }));
+}
+
+function forecast(minTempC: number, maxTempC: number, precipitationChance = 0): DailyForecast {
+  return { date: "2026-05-01", minTempC, maxTempC, precipitationChance, condition: "clear", source: "climate-normals" };
+}
+
+function itemIds(itinerary: ItineraryData, days: DailyForecast[] = []) {
+  return buildPackingList(itinerary, days).items.map((item) => item.id);
+}
+
+describe("buildPackingList", () => {
+  it("scales clothes with the trip and caps them at a laundry cycle", () => {
+    const short = buildPackingList(buildItinerary(tripDays(3)), []);
+    const long = buildPackingList(buildItinerary(tripDays(10)), []);
+
+    expect(short.items.find((item) => item.id === "underwear")).toMatchObject({ quantity: 4, perTraveler: true });
+    expect(long.items.find((item) => item.id === "underwear")?.quantity).toBe(8);
+    expect(long.items.map((item) => item.id)).toContain("laundry-bag-and-travel-detergent");
+  });
+
+  it("packs for rain, heat and cold from the forecast", () => {
+    const itinerary = buildItinerary(tripDays(2));
+
+    expect(itemIds(itinerary, [forecast(18, 22, 60)])).toEqual(expect.arrayContaining(["compact-umbrella", "waterproof-jacket"]));
+    expect(itemIds(itinerary, [forecast(20, 31)])).toEqual(expect.arrayContaining(["sunscreen", "sun-hat"]));
+    expect(itemIds(itinerary, [forecast(-3, 4)])).toEqual(expect.arrayContaining(["warm-jacket", "gloves-scarf-and-warm-hat"]));
+    expect(buildPackingList(itinerary, [forecast(12, 18, 50), forecast(14, 20)]).weatherSummary).toBe("12-20°C, 1 rainy day expected");
+  });
+
+  it("leaves weather items out without a forecast", () => {
+    const list = buildPackingList(buildItinerary(tripDays(2)), []);
+
+    expect(list.weatherSummary).toBeUndefined();
+    expect(list.items.map((item) => item.id)).not.toContain("compact-umbrella");
+  });
+
+  it("adds gear for the planned activities", () => {
+    const ids = itemIds(buildItinerary(tripDays(2, [
+      activity("act_hike", "OUTDOOR"),
+      activity("act_spa", "WELLNESS"),
+      activity("act_fado", "ENTERTAINMENT", "20:30")
+    ])));
+
+    expect(ids).toEqual(expect.arrayContaining(["hiking-shoes", "daypack", "swimwear", "smart-evening-outfit"]));
+    expect(ids).not.toContain("business-outfit");
+  });
+
+  it("lists an item asked for by several rules once", () => {
+    const ids = itemIds(buildItinerary(tripDays(5, [activity("act_hike", "OUTDOOR")])));
+
+    expect(ids.filter((id) => id === "first-aid-kit")).toHaveLength(1);
+  });
+
+  it("keeps already ticked-off items ticked when regenerating", () => {
+    const itinerary = buildItinerary(tripDays(3));
+    const first = buildPackingList(itinerary, []);
+    const ticked = setPackingItemPacked({ ...itinerary, packingList: first }, "passport-or-id", true).packingList!;
+
+    // Rain adds items, which start unticked
+    const regenerated = buildPackingList(itinerary, [forecast(15, 20, 80)], ticked);
+
+    expect(regenerated.items.filter((item) => item.packed).map((item) => item.id)).toEqual(["passport-or-id"]);
+    expect(regenerated.items.find((item) => item.id === "compact-umbrella")?.packed).toBe(false);
+  });
+});
+
+describe("setPackingItemPacked", () => {
+  it("rejects items that are not on the list", () => {
+    const itinerary = buildItinerary(tripDays(1));
+    const withList = { ...itinerary, packingList: buildPackingList(itinerary, []) };
+
+    expect(() => setPackingItemPacked(withList, "jetpack", true)).toThrow(/not found/);
+  });
+});
+
+describe("fetchTripForecast", () => {
+  it("asks for each stop's own dates on multi-city trips", async () => {
+    const requests: string[] = [];
+    const provider: WeatherProvider = {
+      name: "recording",
+      getDailyForecast: async (destination, startDate, endDate) => {
+        requests.push(`${destination} ${startDate} ${endDate}`);
+        return destination === "Porto" ? null : [forecast(15, 20)];
+      }
+    };
+
+    const days = await fetchTripForecast(provider, buildItinerary(tripDays(4), {
+      stops: [
+        { id: "stop_1_lisbon", city: "Lisbon", arrivalDate: "2026-05-01", departureDate: "2026-05-03" },
+        { id: "stop_2_porto", city: "Porto", arrivalDate: "2026-05-03", departureDate: "2026-05-04" }
+      ]
+    }));
+
+    expect(requests).toEqual(["Lisbon 2026-05-01 2026-05-03", "Porto 2026-05-03 2026-05-04"]);
+    expect(days).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { optimizeDay } from "../server/services/route-optimizer";
+import type { Activity, Day } from "../server/types";
+
+// Points along one Paris street, about 0.7 km apart
+function point(step: number) {
+  return { lat: 48.85, lng: 2.3 + step * 0.01 };
+}
+
+function activity(id: string, step: number, startTime: string, endTime: string, category = "SIGHTSEEING"): Activity {
+  return {
+    id,
+    title: id,
+    description: id,
+    location: "Paris",
+    startTime,
+    endTime,
+    category,
+    estimatedCost: 0,
+    priority: "medium",
+    tips: [],
+    coordinates: point(step)
+  };
+}
+
+function day(activities: Activity[]): Day {
+  return { date: "2026-05-01", dayNumber: 1, activities };
+}
+
+function ids(result: { day: Day }) {
+  return result.day.activities.map((item) => item.id);
+}
+
+describe("optimizeDay", () => {
+  it("keeps the planned times when the order is already the shortest", () => {
+    const planned = day([
+      activity("act_a", 0, "09:00", "10:00"),
+      activity("act_b", 1, "10:30", "11:30"),
+      activity("act_c", 2, "12:00", "13:00")
+    ]);
+
+    const result = optimizeDay(planned);
+
+    expect(result.reordered).toBe(false);
+    expect(result.day).toBe(planned);
+    expect(result.savedKm).toBe(0);
+  });
+
+  it("untangles a zig-zag route and reschedules from the first start time", () => {
+    const result = optimizeDay(day([
+      activity("act_a", 0, "09:00", "10:00"),
+      activity("act_c", 2, "10:30", "11:30"),
+      activity("act_b", 1, "12:00", "13:00"),
+      activity("act_d", 3, "13:30", "14:30")
+    ]));
+
+    expect(ids(result)).toEqual(["act_a", "act_b", "act_c", "act_d"]);
+    expect(result.afterKm).toBeLessThan(result.beforeKm);
+    expect(result.savedKm).toBeGreaterThan(0);
+
+    const [first, second] = result.day.activities;
+    expect(first).toMatchObject({ startTime: "09:00", endTime: "10:00" });
+    // The next stop starts after the transfer, on a five-minute step
+    expect(second.startTime > "10:00").toBe(true);
+    expect(Number(second.startTime.slice(3)) % 5).toBe(0);
+  });
+
+  it("never moves activities across a fixed-time item, which keeps its slot", () => {
+    const result = optimizeDay(day([
+      activity("act_a", 0, "09:00", "10:00"),
+      activity("act_c", 2, "10:30", "11:00"),
+      activity("act_b", 1, "11:00", "11:30"),
+      activity("act_train", 10, "13:00", "14:00", "TRANSPORTATION"),
+      activity("act_e", 4, "15:00", "16:00"),
+      activity("act_d", 9, "16:30", "17:00")
+    ]));
+
+    // After the train the segment starts from the station, so the closer stop comes first
+    expect(ids(result)).toEqual(["act_a", "act_b", "act_c", "act_train", "act_d", "act_e"]);
+    expect(result.day.activities[3]).toMatchObject({ startTime: "13:00", endTime: "14:00" });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("keeps a meal after the activities planned before it and warns when it slips out of its window", () => {
+    const result = optimizeDay(day([
+      activity("act_a", 0, "09:00", "10:00"),
+      activity("act_c", 2, "10:00", "12:00"),
+      activity("act_b", 1, "12:00", "14:30"),
+      activity("act_lunch", 3, "13:00", "14:00", "FOOD")
+    ]));
+
+    expect(ids(result)).toEqual(["act_a", "act_b", "act_c", "act_lunch"]);
+
+    const lunch = result.day.activities[3];
+    expect(lunch.startTime > "14:30").toBe(true);
+    expect(result.warnings).toEqual([expect.stringContaining(`lunch at "act_lunch" moves to ${lunch.startTime}`)]);
+  });
+
+  it("keeps every activity, including those without coordinates", () => {
+    const unplaced = { ...activity("act_unplaced", 0, "11:00", "11:30"), coordinates: undefined };
+    const result = optimizeDay(day([
+      activity("act_a", 0, "09:00", "10:00"),
+      activity("act_c", 2, "10:00", "10:30"),
+      activity("act_b", 1, "10:30", "11:00"),
+      unplaced
+    ]));
+
+    expect([...ids(result)].sort()).toEqual(["act_a", "act_b", "act_c", "act_unplaced"]);
+    expect(result.day.activities.find((item) => item.id === "act_unplaced")).toEqual(unplaced);
+  });
+});
@@ -0,0 +1,154 @@
+import { env } from "cloudflare:test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { handleAdminRoutes } from "../server/routes/admin.routes";
+import { cachedSearchHotels, cachedSearchWeb, purgeSearchCache } from "../server/services/search/cache";
+import type { HotelResult, SearchProvider, WebSearchResult } from "../server/services/search/types";
+import type { Env } from "../server/types";
+
+const ADMIN_TOKEN = "token_admin";
+const USER_TOKEN = "token_user";
+
+function countingProvider(webResults: WebSearchResult[] = [{ title: "Time Out Market", snippet: "Food hall", url: "https://example.com" }]) {
+  const calls = { web: 0, hotels: 0 };
+  const hotel: HotelResult = { name: "Hotel Lisboa", url: "https://example.com/hotel", price: null, rating: 8.6, reviewCount: 120, location: "Baixa" };
+  const provider: SearchProvider = {
+    name: "fixture",
+    searchWeb: async () => {
+      calls.web++;
+      return webResults;
+    },
+    searchHotels: async () => {
+      calls.hotels++;
+      return [hotel];
+    }
+  };
+  return { provider, calls };
+}
+
+async function cachedKeys(): Promise<string[]> {
+  const { results } = await env.DB.prepare("SELECT cache_key FROM search_cache ORDER BY cache_key").all<{ cache_key: string }>();
+  return results.map((row) => row.cache_key);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("search cache", () => {
+  it("answers the same normalized query from the cache", async () => {
+    const { provider, calls } = countingProvider();
+
+    const first = await cachedSearchWeb(env, provider, "Lisbon  Food", "general");
+    const second = await cachedSearchWeb(env, provider, "lisbon food!", "general");
+
+    expect(first.cache.status).toBe("miss");
+    expect(second.cache).toMatchObject({ status: "hit", key: "web|fixture|general|lisbon food" });
+    expect(second.results).toEqual(first.results);
+    expect(calls.web).toBe(1);
+  });
+
+  it("keeps hotel searches for different dates apart", async () => {
+    const { provider, calls } = countingProvider();
+
+    await cachedSearchHotels(env, provider, { destination: "Lisboa", checkIn: "2026-05-01", checkOut: "2026-05-03", guests: 2 });
+    await cachedSearchHotels(env, provider, { destination: "Lisboa", checkIn: "2026-05-02", checkOut: "2026-05-03", guests: 2 });
+
+    expect(calls.hotels).toBe(2);
+  });
+
+  it("searches again once the entry expired", async () => {
+    const { provider, calls } = countingProvider();
+    vi.useFakeTimers({ now: Date.parse("2026-05-01T10:00:00Z"), toFake: ["Date"] });
+
+    await cachedSearchHotels(env, provider, { destination: "Lisboa", guests: 2 });
+    vi.setSystemTime(Date.parse("2026-05-01T11:00:01Z"));
+    const again = await cachedSearchHotels(env, provider, { destination: "Lisboa", guests: 2 });
+
+    expect(again.cache.status).toBe("miss");
+    expect(calls.hotels).toBe(2);
+  });
+
+  it("does not cache empty result sets", async () => {
+    const { provider, calls } = countingProvider([]);
+
+    await cachedSearchWeb(env, provider, "nowhere", "general");
+    await cachedSearchWeb(env, provider, "nowhere", "general");
+
+    expect(calls.web).toBe(2);
+    expect(await cachedKeys()).toEqual([]);
+  });
+
+  it("is turned off by a zero TTL", async () => {
+    const { provider, calls } = countingProvider();
+    const uncached = { DB: env.DB, SEARCH_CACHE_TTL_SECONDS: "0" };
+
+    expect((await cachedSearchWeb(uncached, provider, "Lisbon", "general")).cache.status).toBe("disabled");
+    await cachedSearchWeb(uncached, provider, "Lisbon", "general");
+
+    expect(calls.web).toBe(2);
+  });
+});
+
+describe("purgeSearchCache", () => {
+  beforeEach(async () => {
+    const { provider } = countingProvider();
+    await cachedSearchWeb(env, provider, "Lisbon food", "general");
+    await cachedSearchWeb(env, provider, "Porto wine", "general");
+    await cachedSearchHotels(env, provider, { destination: "Lisboa", guests: 2 });
+  });
+
+  it("deletes the entries of one kind whose key contains the normalized text", async () => {
+    expect(await purgeSearchCache(env.DB, { kind: "web", match: "LISBON" })).toEqual(["web|fixture|general|lisbon food"]);
+    expect(await cachedKeys()).toEqual(["hotels|fixture|lisboa|||2", "web|fixture|general|porto wine"]);
+  });
+
+  it("deletes only expired entries when asked to", async () => {
+    expect(await purgeSearchCache(env.DB, { expiredOnly: true })).toEqual([]);
+    expect(await cachedKeys()).toHaveLength(3);
+  });
+});
+
+describe("DELETE /api/admin/search-cache", () => {
+  beforeEach(async () => {
+    const expiresAt = Date.now() + 60 * 60 * 1000;
+    await env.DB.batch([
+      env.DB.prepare(
+        "INSERT INTO user (id, name, email, created_at, updated_at) VALUES ('user_admin', 'Admin', 'admin@example.com', unixepoch(), unixepoch()), ('user_plain', 'Plain', 'plain@example.com', unixepoch(), unixepoch())"
+      ),
+      env.DB.prepare(
+        "INSERT INTO session (id, expires_at, token, created_at, updated_at, user_id) VALUES ('session_admin', ?1, ?2, unixepoch(), unixepoch(), 'user_admin'), ('session_plain', ?1, ?3, unixepoch(), unixepoch(), 'user_plain')"
+      ).bind(expiresAt, ADMIN_TOKEN, USER_TOKEN)
+    ]);
+
+    const { provider } = countingProvider();
+    await cachedSearchWeb(env, provider, "Lisbon food", "general");
+  });
+
+  function purge(token: string, query: string) {
+    return handleAdminRoutes(
+      new Request(`https://example.com/api/admin/search-cache${query}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` }
+      }),
+      { ...env, ADMIN_EMAILS: "Admin@example.com" } as Env
+    );
+  }
+
+  it("lets admins purge matching entries", async () => {
+    const response = await purge(ADMIN_TOKEN, "?kind=web&match=lisbon");
+
+    expect(await response?.json()).toEqual({ success: true, purged: 1, keys: ["web|fixture|general|lisbon food"] });
+    expect(await cachedKeys()).toEqual([]);
+  });
+
+  it("refuses other users", async () => {
+    const response = await purge(USER_TOKEN, "");
+
+    expect(response?.status).toBe(403);
+    expect(await cachedKeys()).toHaveLength(1);
+  });
+
+  it("rejects unknown kinds", async () => {
+    expect((await purge(ADMIN_TOKEN, "?kind=flights"))?.status).toBe(400);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { BOOKING_RESULTS_FIXTURE, GOOGLE_RESULTS_FIXTURE } from "../server/data/search-fixtures";
+import { parseBookingResults } from "../server/services/search/booking-parser";
+import { parseGoogleResults } from "../server/services/search/google-parser";
+
+const fill = (fixture: string) => fixture.replace(/\{\{query\}\}/g, "Lisbon");
+
+describe("parseGoogleResults", () => {
+  it("parses the saved result page into typed results", async () => {
+    const results = await parseGoogleResults(fill(GOOGLE_RESULTS_FIXTURE));
+
+    expect(results).toEqual([
+      {
+        title: "Lisbon: the best things to do & see - Lonely Planet",
+        snippet: "Discover the top sights, neighborhoods and local food for Lisbon, with tips on when to go and how to get around.",
+        url: "https://www.lonelyplanet.com/search?q=Lisbon"
+      },
+      {
+        title: "THE 15 BEST Things to Do for Lisbon (Updated 2026)",
+        snippet: "Things to do: see Tripadvisor's 120,512 traveler reviews and photos of Lisbon tourist attractions.",
+        url: "https://www.tripadvisor.com/Search?q=Lisbon"
+      },
+      {
+        title: "Restaurants and bars | Lisbon | Time Out",
+        snippet: "Where to eat and drink right now, picked by local critics: from budget tascas to tasting menus around €90.",
+        url: "https://www.timeout.com/search?q=Lisbon"
+      },
+      {
+        title: "Lisbon - Travel guide at Wikivoyage",
+        snippet: "Open source travel guide: get in, get around, see, do, buy, eat, drink, sleep and stay safe.",
+        url: "https://en.wikivoyage.org/w/index.php?search=Lisbon"
+      }
+    ]);
+  });
+
+  it("counts a result nested in another div.g once", async () => {
+    const results = await parseGoogleResults(`
+      <div class="g"><div class="g">
+        <a href="https://example.com/inner"><h3>Inner</h3></a>
+        <div class="VwiC3b">Snippet</div>
+      </div></div>
+      <div class="g"><a href="https://example.com/next"><h3>Next</h3></a></div>
+    `);
+
+    expect(results.map((result) => result.title)).toEqual(["Inner", "Next"]);
+  });
+
+  it("unwraps /url?q= redirects", async () => {
+    const [result] = await parseGoogleResults(
+      '<div class="g"><a href="/url?q=https://example.com/page%3Fa%3D1&amp;sa=U&amp;ved=x"><h3>Page</h3></a></div>'
+    );
+
+    expect(result.url).toBe("https://example.com/page?a=1");
+  });
+
+  it("stops at the limit", async () => {
+    expect(await parseGoogleResults(fill(GOOGLE_RESULTS_FIXTURE), 2)).toHaveLength(2);
+  });
+});
+
+describe("parseBookingResults", () => {
+  it("parses the saved result page into typed hotels", async () => {
+    const results = await parseBookingResults(fill(BOOKING_RESULTS_FIXTURE));
+
+    expect(results).toEqual([
+      {
+        name: "Central Plaza Hotel Lisbon",
+        url: "https://www.booking.com/hotel/pt/central-plaza.html?label=gen173",
+        price: { amount: 512, currency: "EUR", text: "€ 512" },
+        rating: 8.7,
+        reviewCount: 2314,
+        location: "City Centre, Lisbon"
+      },
+      {
+        name: "Riverside Apartments",
+        url: "https://www.booking.com/hotel/pt/riverside-apartments.html",
+        price: { amount: 1048.5, currency: "USD", text: "US$ 1,048.50" },
+        rating: 9.1,
+        reviewCount: 876,
+        location: "1.2 km from centre"
+      },
+      {
+        name: "Backpackers House Lisbon",
+        url: "https://www.booking.com/hotel/pt/backpackers-house.html",
+        price: { amount: 142, currency: "EUR", text: "€ 180 € 142" },
+        rating: 7.9,
+        reviewCount: 4102,
+        location: "Old Town, Lisbon"
+      },
+      {
+        name: "The Grand Palace Hotel & Spa",
+        url: "https://www.booking.com/hotel/pt/palace-grand.html",
+        price: null,
+        rating: null,
+        reviewCount: null,
+        location: "Avenue District, Lisbon"
+      }
+    ]);
+  });
+});
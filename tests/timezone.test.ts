@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatZonedIso,
+  fromZonedDateTime,
+  getTimezoneOffsetMinutes,
+  inferTimezone,
+  resolveItineraryTimezone,
+  toZonedDateTime
+} from "../server/services/timezone";
+import type { Day } from "../server/types";
+
+function daysAt(...points: Array<{ lat: number; lng: number }>): Day[] {
+  return [{
+    date: "2026-05-01",
+    dayNumber: 1,
+    activities: points.map((coordinates, index) => ({
+      id: `act_${index}`,
+      title: "Stop",
+      description: "",
+      location: "",
+      startTime: "10:00",
+      category: "sightseeing",
+      estimatedCost: 0,
+      priority: "medium",
+      tips: [],
+      coordinates
+    }))
+  }];
+}
+
+describe("destination timezones", () => {
+  it("infers the zone from the nearest reference place", () => {
+    expect(inferTimezone({ lat: 48.85, lng: 2.29 })).toBe("Europe/Paris");
+  });
+
+  it("falls back to a fixed offset far from any reference place", () => {
+    // Etc/GMT signs are inverted: Etc/GMT+9 is UTC-9
+    expect(inferTimezone({ lat: -40, lng: -135 })).toBe("Etc/GMT+9");
+  });
+
+  it("prefers a valid explicit zone and rejects unknown ones", () => {
+    const days = daysAt({ lat: 48.85, lng: 2.29 });
+
+    expect(resolveItineraryTimezone({ days }, "Asia/Tokyo")).toBe("Asia/Tokyo");
+    expect(resolveItineraryTimezone({ days })).toBe("Europe/Paris");
+    expect(() => resolveItineraryTimezone({ days }, "Mars/Olympus")).toThrow(/Unknown timezone/);
+  });
+
+  it("keeps times floating when no activity has coordinates", () => {
+    expect(resolveItineraryTimezone({ days: daysAt() })).toBeNull();
+  });
+});
+
+describe("wall-clock conversions across DST", () => {
+  it("reads the offset on each side of the spring change", () => {
+    expect(getTimezoneOffsetMinutes("Europe/Paris", new Date("2026-03-29T00:59:00Z"))).toBe(60);
+    expect(getTimezoneOffsetMinutes("Europe/Paris", new Date("2026-03-29T01:00:00Z"))).toBe(120);
+  });
+
+  it("resolves local times the day before and the day of the change", () => {
+    expect(fromZonedDateTime("Europe/Paris", { date: "2026-03-28", time: "10:00" }).toISOString()).toBe("2026-03-28T09:00:00.000Z");
+    expect(fromZonedDateTime("Europe/Paris", { date: "2026-03-29", time: "10:00" }).toISOString()).toBe("2026-03-29T08:00:00.000Z");
+    expect(fromZonedDateTime("Europe/Paris", { date: "2026-10-25", time: "10:00" }).toISOString()).toBe("2026-10-25T09:00:00.000Z");
+  });
+
+  it("round-trips a local time through UTC", () => {
+    const local = { date: "2026-07-14", time: "21:30" };
+    expect(toZonedDateTime("America/New_York", fromZonedDateTime("America/New_York", local))).toEqual(local);
+  });
+
+  it("moves to the next day in zones ahead of UTC", () => {
+    expect(toZonedDateTime("Asia/Tokyo", new Date("2026-05-01T20:00:00Z"))).toEqual({ date: "2026-05-02", time: "05:00" });
+    expect(formatZonedIso("Asia/Tokyo", new Date("2026-05-01T20:00:00Z"))).toBe("2026-05-02T05:00:00+09:00");
+  });
+
+  it("prints negative offsets", () => {
+    expect(formatZonedIso("America/New_York", new Date("2026-01-15T12:00:00Z"))).toBe("2026-01-15T07:00:00-05:00");
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createFixtureTransportProvider, createLiveTransportProvider } from "../server/services/transport/providers";
+import { applyTransportOption } from "../server/services/transport/selection";
+import type { ItineraryData } from "../server/types";
+
+function buildParisItinerary(): ItineraryData {
+  return {
+    id: "itin_paris",
+    title: "Paris 2-Day Adventure",
+    destination: "Paris",
+    startDate: "2026-05-01",
+    endDate: "2026-05-02",
+    duration: "2 days",
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    timezone: "Europe/Paris",
+    accommodationType: "hotel",
+    interests: [],
+    days: [
+      {
+        date: "2026-05-01",
+        dayNumber: 1,
+        activities: [{
+          id: "act_louvre",
+          title: "Louvre",
+          description: "Museum",
+          location: "Rue de Rivoli",
+          startTime: "10:00",
+          category: "museum",
+          estimatedCost: 44,
+          priority: "high",
+          tips: []
+        }]
+      },
+      { date: "2026-05-02", dayNumber: 2, activities: [] }
+    ],
+    summary: { totalActivities: 1, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("fixture transport options in an itinerary", () => {
+  it("inserts a flight as a fixed-time activity in the itinerary's local time", async () => {
+    const options = await createFixtureTransportProvider().searchTransport({
+      origin: "London",
+      destination: "Paris",
+      departureDate: "2026-05-01",
+      passengers: 2,
+      modes: ["FLIGHT"]
+    });
+    const flight = options[0];
+
+    // Departure and arrival are printed in their own zones
+    expect(flight.departure).toMatchObject({ code: "LHR", dateTime: "2026-05-01T06:45:00+01:00", timezone: "Europe/London" });
+    expect(flight.arrival).toMatchObject({ code: "CDG", dateTime: "2026-05-01T08:50:00+02:00", timezone: "Europe/Paris" });
+
+    const { itinerary, placement } = applyTransportOption(buildParisItinerary(), flight);
+
+    expect(placement).toMatchObject({ kind: "activity", dayNumber: 1 });
+    const [activity, louvre] = itinerary.days[0].activities;
+    expect(louvre.id).toBe("act_louvre");
+    expect(activity).toMatchObject({
+      title: `Flight ${flight.serviceNumber}, London → Paris`,
+      location: "Heathrow Airport",
+      // 06:45 in London is 07:45 in Paris
+      startTime: "07:45",
+      endTime: "08:50",
+      category: "TRANSPORTATION",
+      estimatedCost: flight.price!.amount * 2,
+      currency: "USD",
+      fixedTime: true
+    });
+    expect(activity.description).toContain("departs Heathrow Airport (LHR) at 06:45 London time");
+    expect(activity.description).toContain("arrives Charles de Gaulle Airport (CDG) at 08:50 Paris time");
+  });
+
+  it("puts an overnight flight that lands on the first day on its arrival", async () => {
+    const options = await createFixtureTransportProvider().searchTransport({
+      origin: "New York",
+      destination: "Paris",
+      departureDate: "2026-04-30",
+      passengers: 2,
+      modes: ["FLIGHT"]
+    });
+    const flight = options[options.length - 1];
+    expect(flight.departure.dateTime).toBe("2026-04-30T17:55:00-04:00");
+    expect(flight.arrival.dateTime.slice(0, 10)).toBe("2026-05-01");
+
+    const { itinerary, placement } = applyTransportOption(buildParisItinerary(), flight);
+
+    expect(placement).toMatchObject({ kind: "activity", dayNumber: 1 });
+    const activity = itinerary.days[0].activities.find((candidate) => placement.kind === "activity" && candidate.id === placement.activityId)!;
+    expect(activity.title).toBe(`Arrival: Flight ${flight.serviceNumber}, New York → Paris`);
+    expect(activity.location).toBe("Charles de Gaulle Airport");
+    expect(activity.startTime).toBe(flight.arrival.dateTime.slice(11, 16));
+    expect(activity.endTime).toBeUndefined();
+  });
+
+  it("rejects options outside the itinerary dates", async () => {
+    const [flight] = await createFixtureTransportProvider().searchTransport({
+      origin: "London",
+      destination: "Paris",
+      departureDate: "2026-05-05",
+      passengers: 2,
+      modes: ["FLIGHT"]
+    });
+
+    expect(() => applyTransportOption(buildParisItinerary(), flight)).toThrow(/outside the itinerary dates/);
+  });
+});
+
+describe("live transport provider", () => {
+  it("keeps the path of the base URL", async () => {
+    const requests: URL[] = [];
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      requests.push(new URL(input instanceof Request ? input.url : input.toString()));
+      return Response.json({ options: [] });
+    });
+
+    await createLiveTransportProvider("https://transport.example/api", undefined).searchTransport({
+      origin: "London",
+      destination: "Paris",
+      departureDate: "2026-05-01",
+      passengers: 2,
+      modes: ["TRAIN"]
+    });
+
+    expect(requests[0].pathname).toBe("/api/search");
+    expect(requests[0].searchParams.get("modes")).toBe("TRAIN");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { tools } from "../server/tools";
+import type { ItineraryData } from "../server/types";
+
+function activity(id: string, title: string, lat: number, lng: number) {
+  return {
+    id,
+    title,
+    description: title,
+    location: title,
+    startTime: "10:00",
+    category: "sightseeing",
+    estimatedCost: 0,
+    priority: "medium" as const,
+    tips: [],
+    coordinates: { lat, lng }
+  };
+}
+
+function buildMultiCityItinerary(): ItineraryData {
+  return {
+    id: "itin_iberia",
+    title: "Madrid and Lisbon",
+    destination: "Madrid → Lisbon",
+    startDate: "2026-05-01",
+    endDate: "2026-05-02",
+    duration: "2 days",
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    stops: [
+      { id: "stop_madrid", city: "Madrid", arrivalDate: "2026-05-01", departureDate: "2026-05-02" },
+      { id: "stop_lisbon", city: "Lisbon", arrivalDate: "2026-05-02", departureDate: "2026-05-02" }
+    ],
+    days: [
+      {
+        date: "2026-05-01",
+        dayNumber: 1,
+        stopId: "stop_madrid",
+        activities: [activity("act_prado", "Prado", 40.4138, -3.6921), activity("act_retiro", "Retiro", 40.4153, -3.6845)]
+      },
+      {
+        date: "2026-05-02",
+        dayNumber: 2,
+        activities: [activity("act_belem", "Belém Tower", 38.6916, -9.216), activity("act_alfama", "Alfama", 38.7118, -9.1300)]
+      }
+    ],
+    summary: { totalActivities: 4, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+async function calculate(originActivityId: string, destinationActivityId: string) {
+  const output = await tools.calculateTravelTime.execute!(
+    { originActivityId, destinationActivityId, transportMode: "taxi", itinerary: buildMultiCityItinerary() },
+    { toolCallId: "call_test", messages: [] }
+  );
+  return JSON.parse(output as string);
+}
+
+describe("travel tariffs on multi-city trips", () => {
+  it("uses the stop of the activities' day instead of the whole route", async () => {
+    expect((await calculate("act_prado", "act_retiro")).tariffCity).toBe("madrid");
+  });
+
+  it("falls back to the stop covering the day's date when the day has no stop ID", async () => {
+    expect((await calculate("act_belem", "act_alfama")).tariffCity).toBe("lisbon");
+  });
+});
@@ -0,0 +1,90 @@
+import { env } from "cloudflare:test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { handleVoiceRoutes } from "../server/routes/voice.routes";
+import type { Env, ItineraryData } from "../server/types";
+
+const ATTACKER_URL = "http://169.254.169.254/latest";
+
+function buildItinerary(): ItineraryData {
+  return {
+    id: "itin_voice",
+    title: "Paris 1-Day Adventure",
+    destination: "Paris",
+    startDate: "2026-05-01",
+    endDate: "2026-05-01",
+    duration: "1 days",
+    travelers: 2,
+    totalEstimatedCost: 0,
+    currency: "EUR",
+    accommodationType: "hotel",
+    interests: [],
+    days: [{ date: "2026-05-01", dayNumber: 1, activities: [] }],
+    summary: { totalActivities: 0, averageCostPerDay: 0, topCategories: [] },
+    createdAt: "2026-04-01T00:00:00.000Z"
+  };
+}
+
+function executeTool(toolName: string, args: Record<string, unknown>, voiceEnv = env as Env) {
+  return handleVoiceRoutes(
+    new Request("https://example.com/api/voice/execute-tool", {
+      method: "POST",
+      body: JSON.stringify({ toolName, args })
+    }),
+    voiceEnv
+  );
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("voice tool execution", () => {
+  it("ignores the env and itinerary sent by the client for changeItineraryCurrency", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const response = await executeTool("changeItineraryCurrency", {
+      currency: "USD",
+      itinerary: buildItinerary(),
+      env: { EXCHANGE_RATES_PROVIDER: "live", EXCHANGE_RATES_API_URL: ATTACKER_URL }
+    });
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    // Without a conversation there is no itinerary to convert
+    expect(response?.status).toBe(500);
+  });
+
+  it("ignores the env and itinerary sent by the client for generatePackingList", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    await executeTool("generatePackingList", {
+      itinerary: buildItinerary(),
+      env: { WEATHER_PROVIDER: "live", WEATHER_API_URL: ATTACKER_URL }
+    });
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("uses the server env for tools that read it", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const response = await executeTool("getWeatherInfo", {
+      destination: "Paris",
+      startDate: "2026-05-01",
+      endDate: "2026-05-02",
+      env: { WEATHER_PROVIDER: "live", WEATHER_API_URL: ATTACKER_URL }
+    });
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(await response?.json()).toMatchObject({ success: true });
+  });
+
+  it("refuses the tools the deployment requires approval for", async () => {
+    const response = await executeTool(
+      "getWeatherInfo",
+      { destination: "Paris" },
+      { ...env, TOOLS_REQUIRING_APPROVAL: "getWeatherInfo" } as Env
+    );
+
+    expect(response?.status).toBe(403);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createClimateNormalsProvider,
+  createLiveForecastProvider,
+  createWeatherProvider
+} from "../server/services/weather";
+
+// Stand-in for the forecast API: answers the days it is given and records the URLs it was asked for
+function stubForecastApi(days: Record<string, unknown>[], status = 200) {
+  const requests: URL[] = [];
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    requests.push(new URL(input instanceof Request ? input.url : input.toString()));
+    return Response.json({ days }, { status });
+  });
+  return requests;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("climate normals provider", () => {
+  it("returns one forecast per day from the bundled normals", async () => {
+    const days = await createClimateNormalsProvider().getDailyForecast("Paris", "2026-07-30", "2026-08-02");
+
+    expect(days?.map((day) => day.date)).toEqual(["2026-07-30", "2026-07-31", "2026-08-01", "2026-08-02"]);
+    expect(days?.every((day) => day.source === "climate-normals")).toBe(true);
+  });
+
+  it("returns null for destinations it has no normals for", async () => {
+    expect(await createClimateNormalsProvider().getDailyForecast("Atlantis", "2026-07-30", "2026-08-02")).toBeNull();
+  });
+});
+
+describe("live forecast provider", () => {
+  const liveDay = { date: "2026-07-30", minTempC: 19, maxTempC: 31, precipitationChance: 10, condition: "Sunny" };
+
+  it("keeps the path of the base URL", async () => {
+    const requests = stubForecastApi([liveDay]);
+    const provider = createLiveForecastProvider("https://weather.example/api/v2", "key", createClimateNormalsProvider());
+
+    await provider.getDailyForecast("Paris", "2026-07-30", "2026-07-31");
+
+    expect(requests[0].pathname).toBe("/api/v2/forecast");
+    expect(requests[0].searchParams.get("destination")).toBe("Paris");
+    expect(requests[0].searchParams.get("start")).toBe("2026-07-30");
+    expect(requests[0].searchParams.get("end")).toBe("2026-07-31");
+  });
+
+  it("fills the days the API does not cover from the fallback", async () => {
+    stubForecastApi([liveDay]);
+    const provider = createLiveForecastProvider("https://weather.example/", undefined, createClimateNormalsProvider());
+
+    const days = await provider.getDailyForecast("Paris", "2026-07-30", "2026-07-31");
+
+    expect(days?.map((day) => [day.date, day.source])).toEqual([
+      ["2026-07-30", "live"],
+      ["2026-07-31", "climate-normals"]
+    ]);
+    expect(days?.[0].maxTempC).toBe(31);
+  });
+
+  it("falls back to normals when the API fails", async () => {
+    stubForecastApi([], 503);
+    const provider = createLiveForecastProvider("https://weather.example", undefined, createClimateNormalsProvider());
+
+    const days = await provider.getDailyForecast("Paris", "2026-07-30", "2026-07-31");
+
+    expect(days?.every((day) => day.source === "climate-normals")).toBe(true);
+  });
+});
+
+describe("createWeatherProvider", () => {
+  it("uses the live provider only when it is configured with a URL", () => {
+    expect(createWeatherProvider().name).toBe("climate-normals");
+    expect(createWeatherProvider({ WEATHER_PROVIDER: "live" }).name).toBe("climate-normals");
+    expect(createWeatherProvider({ WEATHER_PROVIDER: "live", WEATHER_API_URL: "https://weather.example" }).name).toBe("live");
+  });
+});